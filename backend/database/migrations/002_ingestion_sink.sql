@@ -0,0 +1,11 @@
+-- Migration: Ingestion Sink
+-- Created: 2024-02-01
+-- Description: Support upserting ingested feedback by platform and external ID
+
+-- Track when engagement metrics were last refreshed on re-ingest
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT NOW();
+
+-- One row per platform item
+CREATE UNIQUE INDEX IF NOT EXISTS idx_feedback_platform_external_id
+  ON feedback(platform, external_id)
+  WHERE external_id IS NOT NULL;
@@ -0,0 +1,16 @@
+-- Migration: Ingestion Checkpoints
+-- Created: 2024-02-05
+-- Description: Per-schedule high-water marks for incremental ingestion
+
+CREATE TABLE IF NOT EXISTS ingestion_checkpoints (
+  schedule_id VARCHAR(255) PRIMARY KEY,
+  platform VARCHAR(50) NOT NULL,
+  high_water_at TIMESTAMP,
+  high_water_id VARCHAR(255),
+  cursor TEXT,
+  pending_high_water_at TIMESTAMP,
+  pending_high_water_id VARCHAR(255),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_checkpoints_platform ON ingestion_checkpoints(platform);
@@ -0,0 +1,18 @@
+-- Migration: Webhook Sources
+-- Created: 2024-02-12
+-- Description: Signed inbound webhook sources and their payload field mappings
+
+CREATE TABLE IF NOT EXISTS webhook_sources (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(255) NOT NULL,
+  secret VARCHAR(255) NOT NULL,
+  mapping JSONB NOT NULL,
+  signature_header VARCHAR(100) NOT NULL DEFAULT 'x-webhook-signature',
+  timestamp_header VARCHAR(100) NOT NULL DEFAULT 'x-webhook-timestamp',
+  nonce_header VARCHAR(100),
+  enabled BOOLEAN DEFAULT true,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_sources_enabled ON webhook_sources(enabled);
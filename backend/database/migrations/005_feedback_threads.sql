@@ -0,0 +1,12 @@
+-- Migration: Feedback Threads
+-- Created: 2024-02-19
+-- Description: Keep reply structure so feedback can be read back as conversation threads
+
+-- External IDs on the same platform; the parent or root may not have been ingested yet
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS parent_external_id VARCHAR(255);
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS root_external_id VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_thread_root ON feedback(platform, root_external_id)
+  WHERE root_external_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_feedback_thread_parent ON feedback(platform, parent_external_id)
+  WHERE parent_external_id IS NOT NULL;
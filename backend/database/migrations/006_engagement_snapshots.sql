@@ -0,0 +1,15 @@
+-- Migration: Engagement Snapshots
+-- Created: 2024-02-26
+-- Description: Time series of engagement metrics so virality velocity uses real deltas
+
+CREATE TABLE IF NOT EXISTS engagement_snapshots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  feedback_id UUID NOT NULL REFERENCES feedback(id) ON DELETE CASCADE,
+  likes INTEGER NOT NULL DEFAULT 0,
+  shares INTEGER NOT NULL DEFAULT 0,
+  comments INTEGER NOT NULL DEFAULT 0,
+  captured_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_engagement_snapshots_feedback ON engagement_snapshots(feedback_id, captured_at DESC);
+CREATE INDEX IF NOT EXISTS idx_engagement_snapshots_captured_at ON engagement_snapshots(captured_at);
@@ -0,0 +1,23 @@
+-- Migration: Ingestion Dead Letters
+-- Created: 2024-03-04
+-- Description: Failed ingestion jobs with their classified errors, kept for inspection and replay
+
+CREATE TABLE IF NOT EXISTS ingestion_dead_letters (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id VARCHAR(255) NOT NULL,
+  platform VARCHAR(50) NOT NULL,
+  job_type VARCHAR(50) NOT NULL,
+  job JSONB NOT NULL,
+  errors JSONB NOT NULL DEFAULT '[]',
+  error_type VARCHAR(50) NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  status VARCHAR(20) NOT NULL DEFAULT 'failed' CHECK (status IN ('failed', 'parked', 'retried')),
+  credential_fingerprint VARCHAR(64),
+  retry_job_id VARCHAR(255),
+  failed_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  retried_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_dead_letters_platform ON ingestion_dead_letters(platform, error_type);
+CREATE INDEX IF NOT EXISTS idx_ingestion_dead_letters_status ON ingestion_dead_letters(status, failed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ingestion_dead_letters_job ON ingestion_dead_letters(job_id);
@@ -0,0 +1,23 @@
+-- Migration: Ingestion Quarantine
+-- Created: 2024-03-11
+-- Description: New items held back as likely spam, bot output or copy-paste duplicates until a reviewer releases them
+
+CREATE TABLE IF NOT EXISTS ingestion_quarantine (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  platform VARCHAR(50) NOT NULL,
+  external_id VARCHAR(255),
+  item JSONB NOT NULL,
+  score DECIMAL(4,3) NOT NULL,
+  reasons JSONB NOT NULL DEFAULT '[]',
+  duplicate_of VARCHAR(320),
+  status VARCHAR(20) NOT NULL DEFAULT 'quarantined' CHECK (status IN ('quarantined', 'released')),
+  job_id VARCHAR(255),
+  feedback_id UUID REFERENCES feedback(id) ON DELETE SET NULL,
+  released_by VARCHAR(255),
+  quarantined_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  released_at TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ingestion_quarantine_external ON ingestion_quarantine(platform, external_id);
+CREATE INDEX IF NOT EXISTS idx_ingestion_quarantine_status ON ingestion_quarantine(status, quarantined_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ingestion_quarantine_reasons ON ingestion_quarantine USING GIN (reasons);
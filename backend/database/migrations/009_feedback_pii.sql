@@ -0,0 +1,11 @@
+-- Migration: Feedback PII
+-- Created: 2024-03-18
+-- Description: Store feedback content with PII redacted, keeping the original encrypted when configured
+
+-- AES-256-GCM ciphertext of the original content; NULL when it had no PII or no key is configured
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS content_encrypted TEXT;
+
+-- PII types found in the original content, e.g. {email,credit_card}
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS pii_types TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_feedback_pii_types ON feedback USING GIN (pii_types);
@@ -0,0 +1,59 @@
+-- Migration: Authors
+-- Created: 2024-03-25
+-- Description: Registry of feedback authors per platform with follower history and cross-platform identity links
+
+CREATE TABLE IF NOT EXISTS authors (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  platform VARCHAR(50) NOT NULL,
+  platform_user_id VARCHAR(255) NOT NULL, -- the platform's user ID, or the username where it has none
+  username VARCHAR(255) NOT NULL,
+  follower_count INTEGER,
+  verified BOOLEAN NOT NULL DEFAULT FALSE,
+  identity_id UUID, -- shared by accounts manually linked as the same person
+  feedback_count INTEGER NOT NULL DEFAULT 0,
+  first_seen_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_authors_platform_user ON authors(platform, platform_user_id);
+CREATE INDEX IF NOT EXISTS idx_authors_identity ON authors(identity_id) WHERE identity_id IS NOT NULL;
+
+-- Follower count and verification, recorded whenever either changes
+CREATE TABLE IF NOT EXISTS author_follower_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  author_id UUID NOT NULL REFERENCES authors(id) ON DELETE CASCADE,
+  follower_count INTEGER,
+  verified BOOLEAN NOT NULL DEFAULT FALSE,
+  recorded_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_author_follower_history_author ON author_follower_history(author_id, recorded_at);
+
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS author_id UUID REFERENCES authors(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_feedback_author ON feedback(author_id) WHERE author_id IS NOT NULL;
+
+-- Register authors of existing feedback. Platform user IDs were not stored, so these are keyed by username.
+INSERT INTO authors (platform, platform_user_id, username, follower_count, verified, feedback_count, first_seen_at, last_seen_at)
+SELECT
+  platform,
+  author_username,
+  author_username,
+  (ARRAY_AGG(author_follower_count ORDER BY ingested_at DESC))[1],
+  BOOL_OR(COALESCE(author_verified, FALSE)),
+  COUNT(*),
+  MIN(COALESCE(posted_at, ingested_at)),
+  MAX(COALESCE(posted_at, ingested_at))
+FROM feedback
+WHERE author_username IS NOT NULL
+  AND author_username NOT IN ('anonymous', 'unknown', '[deleted]', 'Google Play user')
+GROUP BY platform, author_username
+ON CONFLICT (platform, platform_user_id) DO NOTHING;
+
+UPDATE feedback f SET author_id = a.id
+FROM authors a
+WHERE f.author_id IS NULL
+  AND a.platform = f.platform
+  AND a.platform_user_id = f.author_username;
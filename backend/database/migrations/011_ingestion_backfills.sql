@@ -0,0 +1,30 @@
+-- Migration: Ingestion Backfills
+-- Created: 2024-04-01
+-- Description: Historical backfills split into time windows, with per-window completion so an interrupted backfill can resume
+
+CREATE TABLE IF NOT EXISTS ingestion_backfills (
+  id VARCHAR(255) PRIMARY KEY,
+  platform VARCHAR(50) NOT NULL,
+  job JSONB NOT NULL,
+  since TIMESTAMP NOT NULL,
+  until TIMESTAMP NOT NULL,
+  window_ms BIGINT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS ingestion_backfill_windows (
+  backfill_id VARCHAR(255) NOT NULL REFERENCES ingestion_backfills(id) ON DELETE CASCADE,
+  window_index INTEGER NOT NULL,
+  since TIMESTAMP NOT NULL,
+  until TIMESTAMP NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'queued', 'completed', 'failed')),
+  job_id VARCHAR(255),
+  items_processed INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (backfill_id, window_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_backfills_platform ON ingestion_backfills(platform, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ingestion_backfill_windows_status ON ingestion_backfill_windows(backfill_id, status);
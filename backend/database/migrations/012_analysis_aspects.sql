@@ -0,0 +1,8 @@
+-- Migration: Analysis Aspects
+-- Created: 2024-04-08
+-- Description: Per-aspect sentiment and emotions (checkout, login, pricing...) stored alongside each analysis
+
+ALTER TABLE analysis ADD COLUMN IF NOT EXISTS aspects JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Lets aspect filters use containment, e.g. aspects @> '[{"aspect":"checkout"}]'
+CREATE INDEX IF NOT EXISTS idx_analysis_aspects ON analysis USING GIN (aspects jsonb_path_ops);
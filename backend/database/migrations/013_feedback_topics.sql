@@ -0,0 +1,43 @@
+-- Migration: Feedback Topics
+-- Created: 2024-04-15
+-- Description: Topics discovered by clustering recent feedback, the runs that produced them and each feedback item's topic
+
+CREATE TABLE IF NOT EXISTS topic_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  window_start TIMESTAMP NOT NULL,
+  window_end TIMESTAMP NOT NULL,
+  document_count INTEGER NOT NULL DEFAULT 0,
+  assigned_count INTEGER NOT NULL DEFAULT 0,
+  topic_count INTEGER NOT NULL DEFAULT 0,
+  new_topics INTEGER NOT NULL DEFAULT 0,
+  growing_topics INTEGER NOT NULL DEFAULT 0,
+  parameters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_topic_runs_started_at ON topic_runs(started_at DESC);
+
+CREATE TABLE IF NOT EXISTS topics (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  label VARCHAR(255) NOT NULL,
+  label_locked BOOLEAN NOT NULL DEFAULT FALSE, -- renamed by a user; runs no longer relabel it
+  keywords JSONB NOT NULL DEFAULT '[]'::jsonb,
+  centroid JSONB NOT NULL DEFAULT '{}'::jsonb, -- top term weights, used to recognise the topic in later runs
+  examples JSONB NOT NULL DEFAULT '[]'::jsonb,
+  size INTEGER NOT NULL DEFAULT 0, -- feedback in the topic as of the last run's window
+  previous_size INTEGER NOT NULL DEFAULT 0,
+  status VARCHAR(20) NOT NULL DEFAULT 'new' CHECK (status IN ('new', 'growing', 'stable', 'shrinking', 'dormant', 'merged')),
+  merged_into UUID REFERENCES topics(id) ON DELETE SET NULL,
+  first_run_id UUID REFERENCES topic_runs(id) ON DELETE SET NULL,
+  last_run_id UUID REFERENCES topic_runs(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_topics_status ON topics(status);
+CREATE INDEX IF NOT EXISTS idx_topics_merged_into ON topics(merged_into) WHERE merged_into IS NOT NULL;
+
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS topic_id UUID REFERENCES topics(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_feedback_topic_id ON feedback(topic_id) WHERE topic_id IS NOT NULL;
@@ -0,0 +1,20 @@
+-- Migration: Scrub Dead Letter Errors
+-- Created: 2024-04-22
+-- Description: Replace serialized HTTP client errors in dead-letter error context, which carried request headers and credentials, with their status and error code
+
+UPDATE ingestion_dead_letters
+SET errors = (
+  SELECT COALESCE(jsonb_agg(
+    CASE
+      WHEN jsonb_typeof(e->'context') = 'object'
+        AND (e->'context' ? 'config' OR e->'context' ? 'request' OR e->'context' ? 'response')
+      THEN jsonb_set(e, '{context}', jsonb_strip_nulls(jsonb_build_object(
+        'status', COALESCE(e->'context'->'status', e->'context'->'response'->'status'),
+        'errorCode', e->'context'->'code'
+      )))
+      ELSE e
+    END
+  ), '[]'::jsonb)
+  FROM jsonb_array_elements(errors) AS e
+)
+WHERE errors::text LIKE '%"config"%' OR errors::text LIKE '%"request"%' OR errors::text LIKE '%"response"%';
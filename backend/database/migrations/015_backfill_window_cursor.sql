@@ -0,0 +1,5 @@
+-- Migration: Backfill Window Cursor
+-- Created: 2024-04-29
+-- Description: Keep the pagination cursor of a backfill window that is partway through, so it keeps paging and resumes from the page it reached
+
+ALTER TABLE ingestion_backfill_windows ADD COLUMN IF NOT EXISTS cursor TEXT;
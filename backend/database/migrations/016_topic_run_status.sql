@@ -0,0 +1,14 @@
+-- Migration: Topic Run Status
+-- Created: 2024-05-06
+-- Description: Record whether a topic discovery run completed or failed, and why, so a run that throws is not left open
+
+ALTER TABLE topic_runs ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'running'
+  CHECK (status IN ('running', 'completed', 'failed'));
+ALTER TABLE topic_runs ADD COLUMN IF NOT EXISTS error TEXT;
+
+UPDATE topic_runs SET status = 'completed' WHERE completed_at IS NOT NULL AND status = 'running';
+
+-- Runs still open from before this migration can no longer finish
+UPDATE topic_runs
+SET status = 'failed', error = 'Interrupted before completion', completed_at = started_at
+WHERE completed_at IS NULL AND status = 'running';
@@ -0,0 +1,37 @@
+-- Migration: Merge Username Authors
+-- Created: 2024-05-13
+-- Description: Fold authors the initial backfill registered by username into the record later created for the same account under its platform user ID
+
+CREATE TEMP TABLE author_rekeys ON COMMIT DROP AS
+SELECT legacy.id AS legacy_id, MIN(keyed.id::text)::uuid AS keyed_id
+FROM authors legacy
+JOIN authors keyed
+  ON keyed.platform = legacy.platform
+ AND keyed.username = legacy.username
+ AND keyed.platform_user_id <> keyed.username
+WHERE legacy.platform_user_id = legacy.username
+GROUP BY legacy.id
+-- A username held by more than one account can't be attributed
+HAVING COUNT(*) = 1;
+
+UPDATE feedback f SET author_id = r.keyed_id
+FROM author_rekeys r
+WHERE f.author_id = r.legacy_id;
+
+UPDATE author_follower_history h SET author_id = r.keyed_id
+FROM author_rekeys r
+WHERE h.author_id = r.legacy_id;
+
+UPDATE authors keyed SET
+  feedback_count = keyed.feedback_count + legacy.feedback_count,
+  first_seen_at = LEAST(keyed.first_seen_at, legacy.first_seen_at),
+  last_seen_at = GREATEST(keyed.last_seen_at, legacy.last_seen_at),
+  identity_id = COALESCE(keyed.identity_id, legacy.identity_id),
+  updated_at = NOW()
+FROM author_rekeys r
+JOIN authors legacy ON legacy.id = r.legacy_id
+WHERE keyed.id = r.keyed_id;
+
+DELETE FROM authors a
+USING author_rekeys r
+WHERE a.id = r.legacy_id;
@@ -0,0 +1,19 @@
+-- Migration: Scope Import and Webhook IDs
+-- Created: 2024-05-20
+-- Description: Prefix external IDs of imported and webhook feedback with the file or webhook source they came from, as new items are, so row IDs repeated across sources no longer collide
+
+UPDATE feedback SET
+  external_id = (metadata->>'webhook_source') || ':' || external_id,
+  parent_external_id = (metadata->>'webhook_source') || ':' || parent_external_id,
+  root_external_id = (metadata->>'webhook_source') || ':' || root_external_id
+WHERE platform = 'webhook'
+  AND metadata ? 'webhook_source'
+  AND external_id IS NOT NULL;
+
+UPDATE feedback SET
+  external_id = (metadata->>'import_file') || ':' || external_id,
+  parent_external_id = (metadata->>'import_file') || ':' || parent_external_id,
+  root_external_id = (metadata->>'import_file') || ':' || root_external_id
+WHERE platform = 'import'
+  AND metadata ? 'import_file'
+  AND external_id IS NOT NULL;
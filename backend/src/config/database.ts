@@ -1,5 +1,5 @@
 import { Pool } from 'pg';
-import Redis from 'redis';
+import { createClient } from 'redis';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -14,7 +14,7 @@ export const pool = new Pool({
 });
 
 // Redis client
-export const redisClient = Redis.createClient({
+export const redisClient = createClient({
   url: process.env.REDIS_URL || 'redis://localhost:6379',
 });
 
@@ -6,7 +6,9 @@ import {
   EmotionType,
   TimeSeriesData,
   PlatformStats,
-  Platform
+  Platform,
+  AspectStats,
+  AspectSource
 } from '@/types/feedback';
 
 export class AnalysisRepository extends BaseRepository<AnalysisResult> {
@@ -14,6 +16,34 @@ export class AnalysisRepository extends BaseRepository<AnalysisResult> {
     super('analysis', 'id');
   }
 
+  /**
+   * Create an analysis, splitting sentiment into its columns and serializing the JSONB ones
+   */
+  async create(
+    data: Omit<AnalysisResult, 'id' | 'processed_at'> & { processed_at?: Date }
+  ): Promise<AnalysisResult> {
+    const result = await this.raw(
+      `INSERT INTO analysis (
+        feedback_id, sentiment, sentiment_confidence, emotions,
+        virality_score, virality_factors, risk_level, aspects, processed_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, COALESCE($9, NOW()))
+      RETURNING *`,
+      [
+        data.feedback_id,
+        data.sentiment.label,
+        data.sentiment.confidence,
+        JSON.stringify(data.emotions),
+        data.virality_score,
+        JSON.stringify(data.virality_factors),
+        data.risk_level,
+        JSON.stringify(data.aspects || []),
+        data.processed_at || null
+      ]
+    );
+
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
   /**
    * Find analysis by feedback ID
    */
@@ -23,6 +53,22 @@ export class AnalysisRepository extends BaseRepository<AnalysisResult> {
     });
   }
 
+  /**
+   * Find analyses for several feedback items at once
+   */
+  async findByFeedbackIds(feedbackIds: string[]): Promise<AnalysisResult[]> {
+    if (feedbackIds.length === 0) {
+      return [];
+    }
+
+    const result = await this.raw(
+      'SELECT * FROM analysis WHERE feedback_id = ANY($1)',
+      [feedbackIds]
+    );
+
+    return result.rows.map((row: any) => this.mapRowToEntity(row));
+  }
+
   /**
    * Get sentiment statistics for a date range
    */
@@ -112,9 +158,13 @@ export class AnalysisRepository extends BaseRepository<AnalysisResult> {
   }
 
   /**
-   * Get platform statistics
+   * Get platform statistics, optionally broken down by product aspect
    */
-  async getPlatformStats(dateFrom?: Date, dateTo?: Date): Promise<PlatformStats[]> {
+  async getPlatformStats(
+    dateFrom?: Date,
+    dateTo?: Date,
+    options: { byAspect?: boolean; minPhraseCount?: number } = {}
+  ): Promise<PlatformStats[]> {
     const conditions: string[] = [];
     const params: any[] = [];
     let paramIndex = 1;
@@ -183,11 +233,106 @@ export class AnalysisRepository extends BaseRepository<AnalysisResult> {
       );
 
       stats.avg_virality_score = parseFloat(viralityResult.rows[0]?.avg_virality || 0);
+
+      if (options.byAspect) {
+        stats.aspect_breakdown = await this.getAspectStats(dateFrom, dateTo, platform, {
+          minPhraseCount: options.minPhraseCount
+        });
+      }
     }
 
     return Array.from(platformMap.values());
   }
 
+  /**
+   * Get per-aspect sentiment and emotion counts, most negative aspects first.
+   * Noun-phrase aspects are kept apart from dictionary aspects of the same name and
+   * left out until they are mentioned minPhraseCount times.
+   */
+  async getAspectStats(
+    dateFrom?: Date,
+    dateTo?: Date,
+    platform?: Platform,
+    options: { minPhraseCount?: number } = {}
+  ): Promise<AspectStats[]> {
+    const minPhraseCount = options.minPhraseCount ?? 5;
+    const conditions: string[] = [];
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (dateFrom) {
+      conditions.push(`a.processed_at >= $${paramIndex}`);
+      params.push(dateFrom);
+      paramIndex++;
+    }
+
+    if (dateTo) {
+      conditions.push(`a.processed_at <= $${paramIndex}`);
+      params.push(dateTo);
+      paramIndex++;
+    }
+
+    if (platform) {
+      conditions.push(`f.platform = $${paramIndex}`);
+      params.push(platform);
+      paramIndex++;
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const result = await this.raw(
+      `SELECT 
+        aspect->>'aspect' as aspect,
+        COALESCE(aspect->>'source', 'dictionary') as source,
+        aspect->'sentiment'->>'label' as sentiment,
+        COUNT(*) as count,
+        jsonb_agg(aspect->'emotions') as emotions
+       FROM analysis a
+       JOIN feedback f ON a.feedback_id = f.id
+       CROSS JOIN LATERAL jsonb_array_elements(a.aspects) aspect
+       ${whereClause}
+       GROUP BY 1, 2, 3`,
+      params
+    );
+
+    const aspectMap = new Map<string, AspectStats>();
+
+    result.rows.forEach((row: any) => {
+      const key = `${row.source}:${row.aspect}`;
+      if (!aspectMap.has(key)) {
+        aspectMap.set(key, {
+          aspect: row.aspect,
+          source: row.source as AspectSource,
+          count: 0,
+          sentiment_breakdown: { positive: 0, neutral: 0, negative: 0, total: 0 },
+          negative_share: 0,
+          emotions: {}
+        });
+      }
+
+      const stats = aspectMap.get(key)!;
+      const count = parseInt(row.count);
+      stats.count += count;
+      stats.sentiment_breakdown[row.sentiment as keyof SentimentStats] += count;
+      stats.sentiment_breakdown.total += count;
+
+      (row.emotions || []).forEach((emotions: any[]) => {
+        (emotions || []).forEach((emotion: any) => {
+          const emotionType = emotion.emotion as EmotionType;
+          stats.emotions[emotionType] = (stats.emotions[emotionType] || 0) + 1;
+        });
+      });
+    });
+
+    return Array.from(aspectMap.values())
+      .filter(stats => stats.source !== 'noun_phrase' || stats.count >= minPhraseCount)
+      .map(stats => ({
+        ...stats,
+        negative_share: stats.count > 0 ? stats.sentiment_breakdown.negative / stats.count : 0
+      }))
+      .sort((a, b) => b.sentiment_breakdown.negative - a.sentiment_breakdown.negative || b.count - a.count);
+  }
+
   /**
    * Get time series data for dashboard charts
    */
@@ -278,7 +423,7 @@ export class AnalysisRepository extends BaseRepository<AnalysisResult> {
   async getPendingAlerts(): Promise<AnalysisResult[]> {
     const result = await this.raw(
       `SELECT a.id, a.feedback_id, a.sentiment, a.sentiment_confidence, a.emotions,
-              a.virality_score, a.virality_factors, a.risk_level, a.processed_at
+              a.virality_score, a.virality_factors, a.risk_level, a.aspects, a.processed_at
        FROM analysis a
        LEFT JOIN alerts al ON a.feedback_id = al.feedback_id
        WHERE a.risk_level IN ('high', 'viral-threat') AND al.id IS NULL
@@ -369,6 +514,7 @@ export class AnalysisRepository extends BaseRepository<AnalysisResult> {
       virality_score: row.virality_score || 0,
       virality_factors: row.virality_factors || {},
       risk_level: row.risk_level,
+      aspects: row.aspects || [],
       processed_at: row.processed_at
     };
   }
@@ -0,0 +1,243 @@
+import { BaseRepository } from './BaseRepository';
+import { Platform } from '@/types/feedback';
+import { AuthorFollowerPoint, AuthorProfile, AuthorSentimentPoint } from '@/types/authors';
+
+export interface AuthorObservation {
+  platform: Platform;
+  platformUserId: string;
+  username: string;
+  followerCount?: number;
+  verified: boolean;
+  seenAt: Date;
+}
+
+export interface AuthorActivity {
+  feedbackCount: number;
+  negativeCount: number;
+  viralCount: number;
+}
+
+export class AuthorRepository extends BaseRepository<AuthorProfile> {
+  constructor() {
+    super('authors', 'id');
+  }
+
+  /**
+   * Register or refresh an author, counting a new feedback item if asked.
+   * A follower history point is recorded when the follower count or verification changes.
+   */
+  async observe(observation: AuthorObservation, countFeedback: boolean): Promise<AuthorProfile> {
+    if (observation.platformUserId !== observation.username) {
+      await this.rekeyUsernameRecord(observation.platform, observation.platformUserId, observation.username);
+    }
+
+    const result = await this.raw(
+      `WITH previous AS (
+        SELECT follower_count, verified FROM authors WHERE platform = $1 AND platform_user_id = $2
+      ), upserted AS (
+        INSERT INTO authors (
+          platform, platform_user_id, username, follower_count, verified,
+          feedback_count, first_seen_at, last_seen_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $7)
+        ON CONFLICT (platform, platform_user_id) DO UPDATE SET
+          username = EXCLUDED.username,
+          follower_count = COALESCE(EXCLUDED.follower_count, authors.follower_count),
+          verified = EXCLUDED.verified,
+          feedback_count = authors.feedback_count + EXCLUDED.feedback_count,
+          first_seen_at = LEAST(authors.first_seen_at, EXCLUDED.first_seen_at),
+          last_seen_at = GREATEST(authors.last_seen_at, EXCLUDED.last_seen_at),
+          updated_at = NOW()
+        RETURNING *
+      ), history AS (
+        INSERT INTO author_follower_history (author_id, follower_count, verified)
+        SELECT upserted.id, upserted.follower_count, upserted.verified FROM upserted
+        WHERE NOT EXISTS (SELECT 1 FROM previous)
+          OR (SELECT follower_count FROM previous) IS DISTINCT FROM upserted.follower_count
+          OR (SELECT verified FROM previous) IS DISTINCT FROM upserted.verified
+      )
+      SELECT * FROM upserted`,
+      [
+        observation.platform,
+        observation.platformUserId,
+        observation.username,
+        observation.followerCount ?? null,
+        observation.verified,
+        countFeedback ? 1 : 0,
+        observation.seenAt
+      ]
+    );
+
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  /**
+   * Move a record keyed by username, as the initial backfill registered authors of feedback
+   * stored before platform user IDs were kept, onto the platform user ID now seen for it,
+   * unless the account already has a record under that ID
+   */
+  private async rekeyUsernameRecord(platform: Platform, platformUserId: string, username: string): Promise<void> {
+    await this.raw(
+      `UPDATE authors SET platform_user_id = $2, updated_at = NOW()
+       WHERE platform = $1 AND platform_user_id = $3
+         AND NOT EXISTS (SELECT 1 FROM authors WHERE platform = $1 AND platform_user_id = $2)`,
+      [platform, platformUserId, username]
+    );
+  }
+
+  /**
+   * Find accounts sharing an identity, including the given author
+   */
+  async findLinked(author: AuthorProfile): Promise<AuthorProfile[]> {
+    if (!author.identityId) {
+      return [author];
+    }
+
+    const result = await this.raw(
+      `SELECT * FROM authors WHERE identity_id = $1 ORDER BY first_seen_at ASC`,
+      [author.identityId]
+    );
+
+    return result.rows.map((row: any) => this.mapRowToEntity(row));
+  }
+
+  /**
+   * Link two authors as the same person, merging the identities they already belong to
+   */
+  async link(author: AuthorProfile, other: AuthorProfile): Promise<string> {
+    const identityId = author.identityId || other.identityId || author.id;
+    const identities = [author.identityId, other.identityId].filter(Boolean);
+
+    await this.raw(
+      `UPDATE authors SET identity_id = $1, updated_at = NOW()
+       WHERE id = ANY($2) OR identity_id = ANY($3)`,
+      [identityId, [author.id, other.id], identities]
+    );
+
+    return identityId;
+  }
+
+  /**
+   * Remove an author from its identity, dissolving the identity if one account is left
+   */
+  async unlink(author: AuthorProfile): Promise<void> {
+    if (!author.identityId) {
+      return;
+    }
+
+    await this.raw(
+      `UPDATE authors SET identity_id = NULL, updated_at = NOW() WHERE id = $1`,
+      [author.id]
+    );
+    await this.raw(
+      `UPDATE authors SET identity_id = NULL, updated_at = NOW()
+       WHERE identity_id = $1 AND (SELECT COUNT(*) FROM authors WHERE identity_id = $1) = 1`,
+      [author.identityId]
+    );
+  }
+
+  /**
+   * Count feedback, complaints and viral posts by a set of authors from `since` up to, not including, `until`
+   */
+  async getActivity(
+    authorIds: string[],
+    since: Date,
+    until: Date,
+    viralScoreThreshold: number,
+    excludeFeedbackId?: string
+  ): Promise<AuthorActivity> {
+    const result = await this.raw(
+      `SELECT
+        COUNT(*) AS feedback_count,
+        COUNT(*) FILTER (WHERE a.sentiment = 'negative') AS negative_count,
+        COUNT(*) FILTER (WHERE a.risk_level = 'viral-threat' OR a.virality_score >= $3) AS viral_count
+      FROM feedback f
+      LEFT JOIN analysis a ON a.feedback_id = f.id
+      WHERE f.author_id = ANY($1)
+        AND COALESCE(f.posted_at, f.ingested_at) >= $2
+        AND COALESCE(f.posted_at, f.ingested_at) < $5
+        AND ($4::uuid IS NULL OR f.id <> $4)`,
+      [authorIds, since, viralScoreThreshold, excludeFeedbackId || null, until]
+    );
+
+    const row = result.rows[0];
+    return {
+      feedbackCount: parseInt(row.feedback_count, 10),
+      negativeCount: parseInt(row.negative_count, 10),
+      viralCount: parseInt(row.viral_count, 10)
+    };
+  }
+
+  /**
+   * Weekly sentiment of a set of authors' feedback from `since` up to `until`, oldest first
+   */
+  async getSentimentTrajectory(authorIds: string[], since: Date, until: Date): Promise<AuthorSentimentPoint[]> {
+    const result = await this.raw(
+      `SELECT
+        DATE_TRUNC('week', COALESCE(f.posted_at, f.ingested_at)) AS period,
+        COUNT(*) AS feedback_count,
+        COUNT(*) FILTER (WHERE a.sentiment = 'positive') AS positive,
+        COUNT(*) FILTER (WHERE a.sentiment = 'neutral') AS neutral,
+        COUNT(*) FILTER (WHERE a.sentiment = 'negative') AS negative
+      FROM feedback f
+      LEFT JOIN analysis a ON a.feedback_id = f.id
+      WHERE f.author_id = ANY($1)
+        AND COALESCE(f.posted_at, f.ingested_at) >= $2
+        AND COALESCE(f.posted_at, f.ingested_at) < $3
+      GROUP BY period
+      ORDER BY period ASC`,
+      [authorIds, since, until]
+    );
+
+    return result.rows.map((row: any) => {
+      const positive = parseInt(row.positive, 10);
+      const neutral = parseInt(row.neutral, 10);
+      const negative = parseInt(row.negative, 10);
+      const analyzed = positive + neutral + negative;
+
+      return {
+        period: row.period,
+        feedbackCount: parseInt(row.feedback_count, 10),
+        positive,
+        neutral,
+        negative,
+        averageSentiment: analyzed > 0 ? (positive - negative) / analyzed : 0
+      };
+    });
+  }
+
+  /**
+   * Get an author's follower history since a date, oldest first
+   */
+  async getFollowerHistory(authorId: string, since: Date): Promise<AuthorFollowerPoint[]> {
+    const result = await this.raw(
+      `SELECT follower_count, verified, recorded_at FROM author_follower_history
+       WHERE author_id = $1 AND recorded_at >= $2
+       ORDER BY recorded_at ASC`,
+      [authorId, since]
+    );
+
+    return result.rows.map((row: any) => ({
+      followerCount: row.follower_count ?? undefined,
+      verified: row.verified,
+      recordedAt: row.recorded_at
+    }));
+  }
+
+  /**
+   * Map database row to AuthorProfile
+   */
+  protected mapRowToEntity(row: any): AuthorProfile {
+    return {
+      id: row.id,
+      platform: row.platform,
+      platformUserId: row.platform_user_id,
+      username: row.username,
+      followerCount: row.follower_count ?? undefined,
+      verified: row.verified,
+      identityId: row.identity_id || undefined,
+      feedbackCount: row.feedback_count,
+      firstSeenAt: row.first_seen_at,
+      lastSeenAt: row.last_seen_at
+    };
+  }
+}
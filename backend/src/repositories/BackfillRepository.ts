@@ -0,0 +1,153 @@
+import { BaseRepository } from './BaseRepository';
+import { BackfillWindow, BackfillWindowStatus, IngestionBackfill, IngestionJob } from '@/types/ingestion';
+
+export class BackfillRepository extends BaseRepository<IngestionBackfill> {
+  constructor() {
+    super('ingestion_backfills', 'id');
+  }
+
+  /**
+   * Store a backfill together with its windows
+   */
+  async createWithWindows(
+    backfill: Omit<IngestionBackfill, 'createdAt' | 'completedAt'>,
+    windows: Array<{ since: Date; until: Date }>
+  ): Promise<void> {
+    await this.transaction([
+      {
+        sql: `INSERT INTO ingestion_backfills (id, platform, job, since, until, window_ms)
+              VALUES ($1, $2, $3, $4, $5, $6)`,
+        params: [
+          backfill.id,
+          backfill.platform,
+          JSON.stringify(backfill.job),
+          backfill.since,
+          backfill.until,
+          backfill.windowMs
+        ]
+      },
+      {
+        sql: `INSERT INTO ingestion_backfill_windows (backfill_id, window_index, since, until)
+              SELECT $1, w.window_index, w.since, w.until
+              FROM UNNEST($2::int[], $3::timestamp[], $4::timestamp[]) AS w(window_index, since, until)`,
+        params: [
+          backfill.id,
+          windows.map((_, index) => index),
+          windows.map(window => window.since),
+          windows.map(window => window.until)
+        ]
+      }
+    ]);
+  }
+
+  /**
+   * Get a backfill's windows in order
+   */
+  async getWindows(backfillId: string): Promise<BackfillWindow[]> {
+    const result = await this.raw(
+      `SELECT * FROM ingestion_backfill_windows WHERE backfill_id = $1 ORDER BY window_index ASC`,
+      [backfillId]
+    );
+
+    return result.rows.map((row: any) => this.mapWindow(row));
+  }
+
+  /**
+   * Record the queue jobs now running a backfill's windows
+   */
+  async markQueued(backfillId: string, jobs: Array<{ index: number; jobId: string }>): Promise<void> {
+    await this.raw(
+      `UPDATE ingestion_backfill_windows w
+       SET status = 'queued', job_id = q.job_id, error = NULL, updated_at = NOW()
+       FROM UNNEST($2::int[], $3::varchar[]) AS q(window_index, job_id)
+       WHERE w.backfill_id = $1 AND w.window_index = q.window_index`,
+      [backfillId, jobs.map(job => job.index), jobs.map(job => job.jobId)]
+    );
+  }
+
+  /**
+   * Record a page of a window and the job that fetches the next one from its cursor
+   */
+  async continueWindow(
+    backfillId: string,
+    index: number,
+    itemsProcessed: number,
+    cursor: string,
+    jobId: string
+  ): Promise<void> {
+    await this.raw(
+      `UPDATE ingestion_backfill_windows
+       SET status = 'queued', items_processed = items_processed + $3, cursor = $4, job_id = $5,
+           error = NULL, updated_at = NOW()
+       WHERE backfill_id = $1 AND window_index = $2`,
+      [backfillId, index, itemsProcessed, cursor, jobId]
+    );
+  }
+
+  /**
+   * Record how a window's job finished, completing the backfill once every window has.
+   * A failed window keeps its cursor so a resume continues from the page it reached.
+   */
+  async finishWindow(
+    backfillId: string,
+    index: number,
+    status: Extract<BackfillWindowStatus, 'completed' | 'failed'>,
+    itemsProcessed: number,
+    error?: string
+  ): Promise<void> {
+    await this.transaction([
+      {
+        sql: `UPDATE ingestion_backfill_windows
+              SET status = $3, items_processed = items_processed + $4, error = $5,
+                  cursor = CASE WHEN $3 = 'completed' THEN NULL ELSE cursor END, updated_at = NOW()
+              WHERE backfill_id = $1 AND window_index = $2`,
+        params: [backfillId, index, status, itemsProcessed, error || null]
+      },
+      {
+        sql: `UPDATE ingestion_backfills SET completed_at = NOW()
+              WHERE id = $1 AND completed_at IS NULL
+                AND NOT EXISTS (
+                  SELECT 1 FROM ingestion_backfill_windows
+                  WHERE backfill_id = $1 AND status <> 'completed'
+                )`,
+        params: [backfillId]
+      }
+    ]);
+  }
+
+  /**
+   * Map database row to BackfillWindow
+   */
+  private mapWindow(row: any): BackfillWindow {
+    return {
+      backfillId: row.backfill_id,
+      index: row.window_index,
+      since: row.since,
+      until: row.until,
+      status: row.status,
+      jobId: row.job_id || undefined,
+      itemsProcessed: row.items_processed,
+      cursor: row.cursor || undefined,
+      error: row.error || undefined,
+      updatedAt: row.updated_at
+    };
+  }
+
+  /**
+   * Map database row to IngestionBackfill
+   */
+  protected mapRowToEntity(row: any): IngestionBackfill {
+    const job: IngestionJob = typeof row.job === 'string' ? JSON.parse(row.job) : row.job;
+
+    return {
+      id: row.id,
+      platform: row.platform,
+      job,
+      since: row.since,
+      until: row.until,
+      windowMs: parseInt(row.window_ms, 10),
+      createdAt: row.created_at,
+      completedAt: row.completed_at || undefined
+    };
+  }
+}
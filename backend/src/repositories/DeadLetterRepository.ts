@@ -0,0 +1,147 @@
+import { BaseRepository } from './BaseRepository';
+import { DeadLetterEntry, DeadLetterFilters } from '@/types/ingestion';
+
+export class DeadLetterRepository extends BaseRepository<DeadLetterEntry> {
+  constructor() {
+    super('ingestion_dead_letters', 'id');
+  }
+
+  /**
+   * Store a job that exhausted its attempts
+   */
+  async record(
+    data: Omit<DeadLetterEntry, 'id' | 'failedAt' | 'retryJobId' | 'retriedAt'>
+  ): Promise<DeadLetterEntry> {
+    const result = await this.raw(
+      `INSERT INTO ingestion_dead_letters (
+        job_id, platform, job_type, job, errors, error_type, attempts, status, credential_fingerprint
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING *`,
+      [
+        data.jobId,
+        data.platform,
+        data.jobType,
+        JSON.stringify(data.job),
+        JSON.stringify(data.errors),
+        data.errorType,
+        data.attempts,
+        data.status,
+        data.credentialFingerprint || null
+      ]
+    );
+
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  /**
+   * List dead letters matching the filters, newest first
+   */
+  async list(filters: DeadLetterFilters = {}): Promise<{ entries: DeadLetterEntry[]; total: number }> {
+    const { clause, params } = this.buildWhere(filters);
+
+    const countResult = await this.raw(
+      `SELECT COUNT(*) AS total FROM ingestion_dead_letters ${clause}`,
+      params
+    );
+
+    const result = await this.raw(
+      `SELECT * FROM ingestion_dead_letters ${clause}
+       ORDER BY failed_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, filters.limit || 50, filters.offset || 0]
+    );
+
+    return {
+      entries: result.rows.map((row: any) => this.mapRowToEntity(row)),
+      total: parseInt(countResult.rows[0].total, 10)
+    };
+  }
+
+  /**
+   * IDs of every dead letter matching the filters, newest first, ignoring limit and offset
+   */
+  async listIds(filters: DeadLetterFilters = {}): Promise<string[]> {
+    const { clause, params } = this.buildWhere(filters);
+    const result = await this.raw(
+      `SELECT id FROM ingestion_dead_letters ${clause} ORDER BY failed_at DESC`,
+      params
+    );
+    return result.rows.map((row: any) => row.id);
+  }
+
+  /**
+   * Mark an entry as replayed under a new job
+   */
+  async markRetried(id: string, retryJobId: string): Promise<void> {
+    await this.raw(
+      `UPDATE ingestion_dead_letters
+       SET status = 'retried', retry_job_id = $2, retried_at = NOW()
+       WHERE id = $1`,
+      [id, retryJobId]
+    );
+  }
+
+  /**
+   * Delete dead letters matching the filters, returning how many were removed
+   */
+  async purge(filters: DeadLetterFilters): Promise<number> {
+    const { clause, params } = this.buildWhere(filters);
+    const result = await this.raw(`DELETE FROM ingestion_dead_letters ${clause}`, params);
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Build the WHERE clause shared by list and purge
+   */
+  private buildWhere(filters: DeadLetterFilters): { clause: string; params: any[] } {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.ids && filters.ids.length > 0) {
+      params.push(filters.ids);
+      conditions.push(`id = ANY($${params.length})`);
+    }
+    if (filters.platform) {
+      params.push(filters.platform);
+      conditions.push(`platform = $${params.length}`);
+    }
+    if (filters.errorType) {
+      params.push(filters.errorType);
+      conditions.push(`error_type = $${params.length}`);
+    }
+    if (filters.status) {
+      params.push(Array.isArray(filters.status) ? filters.status : [filters.status]);
+      conditions.push(`status = ANY($${params.length})`);
+    }
+    if (filters.before) {
+      params.push(filters.before);
+      conditions.push(`failed_at < $${params.length}`);
+    }
+
+    return {
+      clause: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+      params
+    };
+  }
+
+  /**
+   * Map database row to DeadLetterEntry
+   */
+  protected mapRowToEntity(row: any): DeadLetterEntry {
+    return {
+      id: row.id,
+      jobId: row.job_id,
+      platform: row.platform,
+      jobType: row.job_type,
+      job: typeof row.job === 'string' ? JSON.parse(row.job) : row.job,
+      errors: typeof row.errors === 'string' ? JSON.parse(row.errors) : row.errors,
+      errorType: row.error_type,
+      attempts: row.attempts,
+      status: row.status,
+      credentialFingerprint: row.credential_fingerprint || undefined,
+      retryJobId: row.retry_job_id || undefined,
+      failedAt: row.failed_at,
+      retriedAt: row.retried_at || undefined
+    };
+  }
+}
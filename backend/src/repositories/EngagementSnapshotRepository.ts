@@ -0,0 +1,134 @@
+import { BaseRepository } from './BaseRepository';
+import { EngagementSnapshot, FeedbackEngagement, Platform, RiskLevel } from '@/types/feedback';
+
+export interface EngagementRefreshCandidate {
+  feedbackId: string;
+  platform: Platform;
+  externalId: string;
+  postedAt: Date;
+  riskLevel: RiskLevel;
+  lastCapturedAt?: Date;
+}
+
+export class EngagementSnapshotRepository extends BaseRepository<EngagementSnapshot> {
+  constructor() {
+    super('engagement_snapshots', 'id');
+  }
+
+  /**
+   * Record the engagement a feedback item had at a point in time
+   */
+  async recordSnapshot(
+    feedbackId: string,
+    engagement: FeedbackEngagement,
+    capturedAt: Date = new Date()
+  ): Promise<EngagementSnapshot> {
+    const result = await this.raw(
+      `INSERT INTO engagement_snapshots (feedback_id, likes, shares, comments, captured_at)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [feedbackId, engagement.likes, engagement.shares, engagement.comments, capturedAt]
+    );
+
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  /**
+   * Get a feedback item's snapshots, oldest first
+   */
+  async findHistory(feedbackId: string, since?: Date): Promise<EngagementSnapshot[]> {
+    const result = await this.raw(
+      `SELECT * FROM engagement_snapshots
+       WHERE feedback_id = $1 AND ($2::timestamp IS NULL OR captured_at >= $2)
+       ORDER BY captured_at ASC`,
+      [feedbackId, since || null]
+    );
+
+    return result.rows.map((row: any) => this.mapRowToEntity(row));
+  }
+
+  /**
+   * Get when each feedback item was last snapshotted
+   */
+  async findLatestCapturedAt(feedbackIds: string[]): Promise<Map<string, Date>> {
+    const latest = new Map<string, Date>();
+    if (feedbackIds.length === 0) {
+      return latest;
+    }
+
+    const result = await this.raw(
+      `SELECT feedback_id, MAX(captured_at) AS captured_at
+       FROM engagement_snapshots
+       WHERE feedback_id = ANY($1)
+       GROUP BY feedback_id`,
+      [feedbackIds]
+    );
+
+    result.rows.forEach((row: any) => latest.set(row.feedback_id, row.captured_at));
+    return latest;
+  }
+
+  /**
+   * Find recent feedback at the given risk levels, least recently refreshed first
+   */
+  async findRefreshCandidates(options: {
+    platforms: Platform[];
+    riskLevels: RiskLevel[];
+    postedAfter: Date;
+    limit: number;
+  }): Promise<EngagementRefreshCandidate[]> {
+    const result = await this.raw(
+      `SELECT f.id, f.platform, f.external_id, COALESCE(f.posted_at, f.ingested_at) AS posted_at,
+              a.risk_level, s.last_captured_at
+       FROM feedback f
+       JOIN analysis a ON a.feedback_id = f.id
+       LEFT JOIN LATERAL (
+         SELECT MAX(captured_at) AS last_captured_at
+         FROM engagement_snapshots
+         WHERE feedback_id = f.id
+       ) s ON true
+       WHERE f.platform = ANY($1)
+         AND a.risk_level = ANY($2)
+         AND f.external_id IS NOT NULL
+         AND COALESCE(f.posted_at, f.ingested_at) >= $3
+       ORDER BY s.last_captured_at ASC NULLS FIRST
+       LIMIT $4`,
+      [options.platforms, options.riskLevels, options.postedAfter, options.limit]
+    );
+
+    return result.rows.map((row: any) => ({
+      feedbackId: row.id,
+      platform: row.platform,
+      externalId: row.external_id,
+      postedAt: row.posted_at,
+      riskLevel: row.risk_level,
+      lastCapturedAt: row.last_captured_at || undefined
+    }));
+  }
+
+  /**
+   * Delete snapshots captured before a cutoff
+   */
+  async deleteOlderThan(cutoff: Date): Promise<number> {
+    const result = await this.raw(
+      'DELETE FROM engagement_snapshots WHERE captured_at < $1',
+      [cutoff]
+    );
+
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Map database row to EngagementSnapshot
+   */
+  protected mapRowToEntity(row: any): EngagementSnapshot {
+    return {
+      id: row.id,
+      feedback_id: row.feedback_id,
+      likes: row.likes || 0,
+      shares: row.shares || 0,
+      comments: row.comments || 0,
+      captured_at: row.captured_at
+    };
+  }
+}
@@ -25,6 +25,40 @@ export class FeedbackRepository extends BaseRepository<FeedbackData> {
     });
   }
 
+  /**
+   * Create feedback from ingested data, mapping author and engagement to columns
+   */
+  async createFeedback(data: Omit<FeedbackData, 'id' | 'ingested_at'>): Promise<FeedbackData> {
+    const result = await this.raw(
+      `INSERT INTO feedback (
+        platform, external_id, content, author_username, author_follower_count,
+        author_verified, likes, shares, comments, posted_at, metadata,
+        parent_external_id, root_external_id, content_encrypted, pii_types, author_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+      RETURNING *`,
+      [
+        data.platform,
+        data.external_id || null,
+        data.content,
+        data.author.username,
+        data.author.followerCount ?? null,
+        data.author.verified || false,
+        data.engagement.likes,
+        data.engagement.shares,
+        data.engagement.comments,
+        data.posted_at || null,
+        data.metadata || null,
+        data.parent_external_id || null,
+        data.root_external_id || null,
+        data.content_encrypted || null,
+        data.pii_types || [],
+        data.author_id || null
+      ]
+    );
+
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
   /**
    * Find feedback with analysis, response, and alert data
    */
@@ -34,6 +68,7 @@ export class FeedbackRepository extends BaseRepository<FeedbackData> {
         f.id, f.platform, f.external_id, f.content, f.author_username, 
         f.author_follower_count, f.author_verified, f.likes, f.shares, 
         f.comments, f.posted_at, f.ingested_at, f.metadata,
+        f.parent_external_id, f.root_external_id,
         a.id as analysis_id, a.sentiment, a.sentiment_confidence, a.emotions,
         a.virality_score, a.virality_factors, a.risk_level, a.processed_at,
         r.id as response_id, r.drafts, r.selected_draft, r.sent_at, 
@@ -66,6 +101,7 @@ export class FeedbackRepository extends BaseRepository<FeedbackData> {
         f.id, f.platform, f.external_id, f.content, f.author_username, 
         f.author_follower_count, f.author_verified, f.likes, f.shares, 
         f.comments, f.posted_at, f.ingested_at, f.metadata,
+        f.parent_external_id, f.root_external_id,
         a.id as analysis_id, a.sentiment, a.sentiment_confidence, a.emotions,
         a.virality_score, a.virality_factors, a.risk_level, a.processed_at,
         r.id as response_id, r.drafts, r.selected_draft, r.sent_at, 
@@ -117,6 +153,7 @@ export class FeedbackRepository extends BaseRepository<FeedbackData> {
         f.id, f.platform, f.external_id, f.content, f.author_username, 
         f.author_follower_count, f.author_verified, f.likes, f.shares, 
         f.comments, f.posted_at, f.ingested_at, f.metadata,
+        f.parent_external_id, f.root_external_id,
         a.id as analysis_id, a.sentiment, a.sentiment_confidence, a.emotions,
         a.virality_score, a.virality_factors, a.risk_level, a.processed_at,
         r.id as response_id, r.drafts, r.selected_draft, r.sent_at, 
@@ -157,6 +194,7 @@ export class FeedbackRepository extends BaseRepository<FeedbackData> {
         f.id, f.platform, f.external_id, f.content, f.author_username, 
         f.author_follower_count, f.author_verified, f.likes, f.shares, 
         f.comments, f.posted_at, f.ingested_at, f.metadata,
+        f.parent_external_id, f.root_external_id,
         a.id as analysis_id, a.sentiment, a.sentiment_confidence, a.emotions,
         a.virality_score, a.virality_factors, a.risk_level, a.processed_at
        FROM feedback f
@@ -169,6 +207,58 @@ export class FeedbackRepository extends BaseRepository<FeedbackData> {
     return result.rows.map((row: any) => this.mapRowToFeedbackWithAnalysis(row));
   }
 
+  /**
+   * Find every ingested item of a thread: the root post and all replies under it
+   */
+  async findThread(platform: Platform, rootExternalId: string): Promise<FeedbackData[]> {
+    const result = await this.raw(
+      `SELECT * FROM feedback
+       WHERE platform = $1 AND (external_id = $2 OR root_external_id = $2)
+       ORDER BY posted_at ASC NULLS LAST, ingested_at ASC`,
+      [platform, rootExternalId]
+    );
+
+    return result.rows.map((row: any) => this.mapRowToEntity(row));
+  }
+
+  /**
+   * Overwrite the fields derived from a source payload, keeping the current engagement.
+   * Replayed content is already redacted, so an encrypted original is kept unless the
+   * replayed item brings its own.
+   */
+  async replaceSourceFields(id: string, data: Omit<FeedbackData, 'id' | 'ingested_at'>): Promise<FeedbackData | null> {
+    const result = await this.raw(
+      `UPDATE feedback SET
+        content = $2,
+        author_username = $3,
+        author_follower_count = $4,
+        author_verified = $5,
+        posted_at = COALESCE($6, posted_at),
+        metadata = $7,
+        parent_external_id = $8,
+        root_external_id = $9,
+        content_encrypted = COALESCE($10, content_encrypted),
+        pii_types = COALESCE($11, pii_types)
+      WHERE id = $1
+      RETURNING *`,
+      [
+        id,
+        data.content,
+        data.author.username,
+        data.author.followerCount ?? null,
+        data.author.verified || false,
+        data.posted_at || null,
+        data.metadata || null,
+        data.parent_external_id || null,
+        data.root_external_id || null,
+        data.content_encrypted || null,
+        data.pii_types && data.pii_types.length > 0 ? data.pii_types : null
+      ]
+    );
+
+    return result.rows.length > 0 ? this.mapRowToEntity(result.rows[0]) : null;
+  }
+
   /**
    * Update engagement metrics
    */
@@ -201,7 +291,8 @@ export class FeedbackRepository extends BaseRepository<FeedbackData> {
     const result = await this.raw(
       `SELECT f.id, f.platform, f.external_id, f.content, f.author_username, 
               f.author_follower_count, f.author_verified, f.likes, f.shares, 
-              f.comments, f.posted_at, f.ingested_at, f.metadata
+              f.comments, f.posted_at, f.ingested_at, f.metadata,
+              f.parent_external_id, f.root_external_id
        FROM feedback f
        LEFT JOIN analysis a ON f.id = a.feedback_id
        WHERE a.id IS NULL
@@ -292,7 +383,13 @@ export class FeedbackRepository extends BaseRepository<FeedbackData> {
       id: row.id,
       platform: row.platform,
       external_id: row.external_id,
+      parent_external_id: row.parent_external_id || undefined,
+      root_external_id: row.root_external_id || undefined,
       content: row.content,
+      content_encrypted: row.content_encrypted || undefined,
+      pii_types: row.pii_types || [],
+      author_id: row.author_id || undefined,
+      topic_id: row.topic_id || undefined,
       author: {
         username: row.author_username,
         followerCount: row.author_follower_count,
@@ -0,0 +1,63 @@
+import { BaseRepository } from './BaseRepository';
+import { IngestionCheckpoint } from '@/types/ingestion';
+
+export class IngestionCheckpointRepository extends BaseRepository<IngestionCheckpoint> {
+  constructor() {
+    super('ingestion_checkpoints', 'schedule_id');
+  }
+
+  /**
+   * Find the checkpoint for a schedule
+   */
+  async findByScheduleId(scheduleId: string): Promise<IngestionCheckpoint | null> {
+    return await this.findById(scheduleId);
+  }
+
+  /**
+   * Insert or replace the checkpoint for a schedule
+   */
+  async save(checkpoint: Omit<IngestionCheckpoint, 'updatedAt'>): Promise<IngestionCheckpoint> {
+    const result = await this.raw(
+      `INSERT INTO ingestion_checkpoints (
+        schedule_id, platform, high_water_at, high_water_id, cursor,
+        pending_high_water_at, pending_high_water_id, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+      ON CONFLICT (schedule_id) DO UPDATE SET
+        platform = EXCLUDED.platform,
+        high_water_at = EXCLUDED.high_water_at,
+        high_water_id = EXCLUDED.high_water_id,
+        cursor = EXCLUDED.cursor,
+        pending_high_water_at = EXCLUDED.pending_high_water_at,
+        pending_high_water_id = EXCLUDED.pending_high_water_id,
+        updated_at = NOW()
+      RETURNING *`,
+      [
+        checkpoint.scheduleId,
+        checkpoint.platform,
+        checkpoint.highWaterAt || null,
+        checkpoint.highWaterId || null,
+        checkpoint.cursor || null,
+        checkpoint.pendingHighWaterAt || null,
+        checkpoint.pendingHighWaterId || null
+      ]
+    );
+
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  /**
+   * Map database row to IngestionCheckpoint
+   */
+  protected mapRowToEntity(row: any): IngestionCheckpoint {
+    return {
+      scheduleId: row.schedule_id,
+      platform: row.platform,
+      highWaterAt: row.high_water_at || undefined,
+      highWaterId: row.high_water_id || undefined,
+      cursor: row.cursor || undefined,
+      pendingHighWaterAt: row.pending_high_water_at || undefined,
+      pendingHighWaterId: row.pending_high_water_id || undefined,
+      updatedAt: row.updated_at
+    };
+  }
+}
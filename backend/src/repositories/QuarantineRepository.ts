@@ -0,0 +1,150 @@
+import { BaseRepository } from './BaseRepository';
+import { FeedbackData, Platform } from '@/types/feedback';
+import { QuarantinedItem, QuarantineFilters } from '@/types/ingestion';
+
+export class QuarantineRepository extends BaseRepository<QuarantinedItem> {
+  constructor() {
+    super('ingestion_quarantine', 'id');
+  }
+
+  /**
+   * Quarantine an item. An item that is already quarantined gets its latest copy stored.
+   */
+  async quarantine(
+    data: Omit<QuarantinedItem, 'id' | 'status' | 'feedbackId' | 'releasedBy' | 'quarantinedAt' | 'releasedAt'>
+  ): Promise<QuarantinedItem> {
+    const result = await this.raw(
+      `INSERT INTO ingestion_quarantine (
+        platform, external_id, item, score, reasons, duplicate_of, job_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (platform, external_id) DO UPDATE SET item = EXCLUDED.item
+      RETURNING *`,
+      [
+        data.platform,
+        data.externalId || null,
+        JSON.stringify(data.item),
+        data.score,
+        JSON.stringify(data.reasons),
+        data.duplicateOf || null,
+        data.jobId || null
+      ]
+    );
+
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  /**
+   * Find a quarantined item by platform ID
+   */
+  async findByExternalId(externalId: string, platform: Platform): Promise<QuarantinedItem | null> {
+    return await this.findOne({
+      where: [
+        { field: 'external_id', operator: '=', value: externalId },
+        { field: 'platform', operator: '=', value: platform }
+      ]
+    });
+  }
+
+  /**
+   * Refresh the stored copy of an item that is still held back
+   */
+  async refreshItem(id: string, item: FeedbackData): Promise<void> {
+    await this.raw(
+      `UPDATE ingestion_quarantine SET item = $2 WHERE id = $1 AND status = 'quarantined'`,
+      [id, JSON.stringify(item)]
+    );
+  }
+
+  /**
+   * List quarantined items matching the filters, newest first
+   */
+  async list(filters: QuarantineFilters = {}): Promise<{ items: QuarantinedItem[]; total: number }> {
+    const { clause, params } = this.buildWhere(filters);
+
+    const countResult = await this.raw(
+      `SELECT COUNT(*) AS total FROM ingestion_quarantine ${clause}`,
+      params
+    );
+
+    const result = await this.raw(
+      `SELECT * FROM ingestion_quarantine ${clause}
+       ORDER BY quarantined_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, filters.limit || 50, filters.offset || 0]
+    );
+
+    return {
+      items: result.rows.map((row: any) => this.mapRowToEntity(row)),
+      total: parseInt(countResult.rows[0].total, 10)
+    };
+  }
+
+  /**
+   * Mark an item as released into the feedback table
+   */
+  async markReleased(id: string, feedbackId: string, releasedBy?: string): Promise<void> {
+    await this.raw(
+      `UPDATE ingestion_quarantine
+       SET status = 'released', feedback_id = $2, released_by = $3, released_at = NOW()
+       WHERE id = $1`,
+      [id, feedbackId, releasedBy || null]
+    );
+  }
+
+  /**
+   * Build the WHERE clause for list
+   */
+  private buildWhere(filters: QuarantineFilters): { clause: string; params: any[] } {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.ids && filters.ids.length > 0) {
+      params.push(filters.ids);
+      conditions.push(`id = ANY($${params.length})`);
+    }
+    if (filters.platform) {
+      params.push(filters.platform);
+      conditions.push(`platform = $${params.length}`);
+    }
+    if (filters.reason) {
+      params.push(JSON.stringify([{ code: filters.reason }]));
+      conditions.push(`reasons @> $${params.length}::jsonb`);
+    }
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`status = $${params.length}`);
+    }
+
+    return {
+      clause: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+      params
+    };
+  }
+
+  /**
+   * Map database row to QuarantinedItem
+   */
+  protected mapRowToEntity(row: any): QuarantinedItem {
+    const item = typeof row.item === 'string' ? JSON.parse(row.item) : row.item;
+
+    return {
+      id: row.id,
+      platform: row.platform,
+      externalId: row.external_id || undefined,
+      item: {
+        ...item,
+        posted_at: item.posted_at ? new Date(item.posted_at) : undefined,
+        ingested_at: new Date(item.ingested_at)
+      },
+      score: parseFloat(row.score),
+      reasons: typeof row.reasons === 'string' ? JSON.parse(row.reasons) : row.reasons,
+      duplicateOf: row.duplicate_of || undefined,
+      status: row.status,
+      jobId: row.job_id || undefined,
+      feedbackId: row.feedback_id || undefined,
+      releasedBy: row.released_by || undefined,
+      quarantinedAt: row.quarantined_at,
+      releasedAt: row.released_at || undefined
+    };
+  }
+}
@@ -0,0 +1,254 @@
+import { BaseRepository } from './BaseRepository';
+import { Topic, TopicDocument, TopicRun, TopicStatus } from '@/types/topics';
+
+export type TopicUpdate = Pick<Topic, 'id' | 'label' | 'keywords' | 'centroid' | 'examples' | 'size' | 'previousSize' | 'status'>;
+
+export interface TopicRunOutcome {
+  topics: TopicUpdate[]; // new and continued topics
+  assignments: Array<{ feedbackId: string; topicId: string }>;
+  unassigned: string[]; // clustered this run without landing in a topic
+  documentCount: number;
+  newTopics: number;
+  growingTopics: number;
+}
+
+export class TopicRepository extends BaseRepository<Topic> {
+  constructor() {
+    super('topics', 'id');
+  }
+
+  /**
+   * Feedback ingested in a window, newest first, with its latest analysis
+   */
+  async findDocuments(since: Date, until: Date, limit: number): Promise<TopicDocument[]> {
+    const result = await this.raw(
+      `SELECT f.id, f.content, a.sentiment, a.emotions
+       FROM feedback f
+       LEFT JOIN LATERAL (
+         SELECT sentiment, emotions FROM analysis
+         WHERE analysis.feedback_id = f.id
+         ORDER BY processed_at DESC
+         LIMIT 1
+       ) a ON TRUE
+       WHERE f.ingested_at >= $1 AND f.ingested_at < $2
+         AND f.content IS NOT NULL AND f.content <> ''
+       ORDER BY f.ingested_at DESC
+       LIMIT $3`,
+      [since, until, limit]
+    );
+
+    return result.rows.map((row: any) => ({
+      feedbackId: row.id,
+      content: row.content,
+      sentiment: row.sentiment || undefined,
+      emotions: row.emotions || undefined
+    }));
+  }
+
+  /**
+   * Topics for listing, largest first; merged topics are left out unless asked for
+   */
+  async findTopics(statuses?: TopicStatus[]): Promise<Topic[]> {
+    const result = statuses && statuses.length > 0
+      ? await this.raw(`SELECT * FROM topics WHERE status = ANY($1) ORDER BY size DESC, updated_at DESC`, [statuses])
+      : await this.raw(`SELECT * FROM topics WHERE status <> 'merged' ORDER BY size DESC, updated_at DESC`);
+
+    return result.rows.map((row: any) => this.mapRowToEntity(row));
+  }
+
+  /**
+   * Every topic, merged ones included, for matching new clusters against
+   */
+  async findAllTopics(): Promise<Topic[]> {
+    const result = await this.raw(`SELECT * FROM topics ORDER BY created_at ASC`);
+    return result.rows.map((row: any) => this.mapRowToEntity(row));
+  }
+
+  async startRun(windowStart: Date, windowEnd: Date, parameters: Record<string, any>): Promise<TopicRun> {
+    const result = await this.raw(
+      `INSERT INTO topic_runs (window_start, window_end, parameters) VALUES ($1, $2, $3) RETURNING *`,
+      [windowStart, windowEnd, JSON.stringify(parameters)]
+    );
+
+    return this.mapRowToRun(result.rows[0]);
+  }
+
+  /**
+   * Store a run's topics and assignments in one transaction. User-set labels are kept,
+   * topics merged while the run was going stay merged, and feedback assigned to such a
+   * topic goes to the topic it was merged into. Active topics the run didn't see go dormant.
+   */
+  async completeRun(runId: string, outcome: TopicRunOutcome): Promise<void> {
+    const { topics, assignments } = outcome;
+
+    await this.transaction([
+      {
+        sql: `INSERT INTO topics (
+                id, label, keywords, centroid, examples, size, previous_size, status, first_run_id, last_run_id
+              )
+              SELECT t.id, t.label, t.keywords, t.centroid, t.examples, t.size, t.previous_size, t.status, $9, $9
+              FROM UNNEST($1::uuid[], $2::text[], $3::jsonb[], $4::jsonb[], $5::jsonb[], $6::int[], $7::int[], $8::text[])
+                AS t(id, label, keywords, centroid, examples, size, previous_size, status)
+              ON CONFLICT (id) DO UPDATE SET
+                label = CASE WHEN topics.label_locked THEN topics.label ELSE EXCLUDED.label END,
+                keywords = EXCLUDED.keywords,
+                centroid = EXCLUDED.centroid,
+                examples = EXCLUDED.examples,
+                size = EXCLUDED.size,
+                previous_size = EXCLUDED.previous_size,
+                status = EXCLUDED.status,
+                last_run_id = EXCLUDED.last_run_id,
+                updated_at = NOW()
+              WHERE topics.status <> 'merged'`,
+        params: [
+          topics.map(topic => topic.id),
+          topics.map(topic => topic.label),
+          topics.map(topic => JSON.stringify(topic.keywords)),
+          topics.map(topic => JSON.stringify(topic.centroid)),
+          topics.map(topic => JSON.stringify(topic.examples)),
+          topics.map(topic => topic.size),
+          topics.map(topic => topic.previousSize),
+          topics.map(topic => topic.status),
+          runId
+        ]
+      },
+      {
+        sql: `UPDATE topics SET previous_size = size, size = 0, status = 'dormant', updated_at = NOW()
+              WHERE status NOT IN ('merged', 'dormant') AND id <> ALL($1::uuid[])`,
+        params: [topics.map(topic => topic.id)]
+      },
+      {
+        sql: `UPDATE feedback SET topic_id = NULL WHERE id = ANY($1::uuid[])`,
+        params: [outcome.unassigned]
+      },
+      {
+        sql: `UPDATE feedback f SET topic_id = COALESCE(t.merged_into, t.id)
+              FROM UNNEST($1::uuid[], $2::uuid[]) AS a(feedback_id, topic_id)
+              JOIN topics t ON t.id = a.topic_id
+              WHERE f.id = a.feedback_id`,
+        params: [
+          assignments.map(assignment => assignment.feedbackId),
+          assignments.map(assignment => assignment.topicId)
+        ]
+      },
+      {
+        sql: `UPDATE topic_runs SET
+                document_count = $2, assigned_count = $3, topic_count = $4,
+                new_topics = $5, growing_topics = $6, status = 'completed', completed_at = NOW()
+              WHERE id = $1`,
+        params: [
+          runId,
+          outcome.documentCount,
+          assignments.length,
+          topics.length,
+          outcome.newTopics,
+          outcome.growingTopics
+        ]
+      }
+    ]);
+  }
+
+  /**
+   * Close a run that threw before its topics were stored
+   */
+  async failRun(runId: string, error: string): Promise<void> {
+    await this.raw(
+      `UPDATE topic_runs SET status = 'failed', error = $2, completed_at = NOW()
+       WHERE id = $1 AND status = 'running'`,
+      [runId, error]
+    );
+  }
+
+  async findRuns(limit: number): Promise<TopicRun[]> {
+    const result = await this.raw(
+      `SELECT * FROM topic_runs ORDER BY started_at DESC LIMIT $1`,
+      [limit]
+    );
+    return result.rows.map((row: any) => this.mapRowToRun(row));
+  }
+
+  /**
+   * Set a topic's label and lock it against relabelling, or unlock it with null
+   * so the next run labels it from its keywords again
+   */
+  async rename(id: string, label: string | null): Promise<Topic | null> {
+    const result = label === null
+      ? await this.raw(
+        `UPDATE topics SET label_locked = FALSE, updated_at = NOW() WHERE id = $1 RETURNING *`,
+        [id]
+      )
+      : await this.raw(
+        `UPDATE topics SET label = $2, label_locked = TRUE, updated_at = NOW() WHERE id = $1 RETURNING *`,
+        [id, label]
+      );
+
+    return result.rows.length > 0 ? this.mapRowToEntity(result.rows[0]) : null;
+  }
+
+  /**
+   * Fold one topic into another: its feedback moves over, topics already merged into it
+   * are repointed, and later runs resolve clusters matching it to the target
+   */
+  async merge(sourceId: string, targetId: string): Promise<void> {
+    await this.transaction([
+      {
+        sql: `UPDATE topics SET
+                size = size + (SELECT size FROM topics WHERE id = $1),
+                previous_size = previous_size + (SELECT previous_size FROM topics WHERE id = $1),
+                updated_at = NOW()
+              WHERE id = $2`,
+        params: [sourceId, targetId]
+      },
+      {
+        sql: `UPDATE topics SET merged_into = $2, updated_at = NOW() WHERE merged_into = $1`,
+        params: [sourceId, targetId]
+      },
+      {
+        sql: `UPDATE topics SET status = 'merged', merged_into = $2, size = 0, previous_size = 0, updated_at = NOW()
+              WHERE id = $1`,
+        params: [sourceId, targetId]
+      },
+      {
+        sql: `UPDATE feedback SET topic_id = $2 WHERE topic_id = $1`,
+        params: [sourceId, targetId]
+      }
+    ]);
+  }
+
+  protected mapRowToEntity(row: any): Topic {
+    return {
+      id: row.id,
+      label: row.label,
+      labelLocked: row.label_locked,
+      keywords: row.keywords || [],
+      centroid: row.centroid || {},
+      examples: row.examples || [],
+      size: row.size,
+      previousSize: row.previous_size,
+      status: row.status,
+      mergedInto: row.merged_into || undefined,
+      firstRunId: row.first_run_id || undefined,
+      lastRunId: row.last_run_id || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapRowToRun(row: any): TopicRun {
+    return {
+      id: row.id,
+      windowStart: row.window_start,
+      windowEnd: row.window_end,
+      documentCount: row.document_count,
+      assignedCount: row.assigned_count,
+      topicCount: row.topic_count,
+      newTopics: row.new_topics,
+      growingTopics: row.growing_topics,
+      parameters: row.parameters || {},
+      status: row.status,
+      error: row.error || undefined,
+      startedAt: row.started_at,
+      completedAt: row.completed_at || undefined
+    };
+  }
+}
@@ -0,0 +1,100 @@
+import { BaseRepository } from './BaseRepository';
+import { WebhookSource } from '@/types/ingestion';
+
+export class WebhookSourceRepository extends BaseRepository<WebhookSource> {
+  constructor() {
+    super('webhook_sources', 'id');
+  }
+
+  /**
+   * Find an enabled webhook source
+   */
+  async findEnabledById(id: string): Promise<WebhookSource | null> {
+    return await this.findOne({
+      where: [
+        { field: 'id', operator: '=', value: id },
+        { field: 'enabled', operator: '=', value: true }
+      ]
+    });
+  }
+
+  /**
+   * List all webhook sources, newest first
+   */
+  async listSources(): Promise<WebhookSource[]> {
+    return await this.findMany({
+      orderBy: [{ field: 'created_at', direction: 'DESC' }]
+    });
+  }
+
+  /**
+   * Create a webhook source
+   */
+  async createSource(data: Omit<WebhookSource, 'id' | 'createdAt' | 'updatedAt'>): Promise<WebhookSource> {
+    const result = await this.raw(
+      `INSERT INTO webhook_sources (
+        name, secret, mapping, signature_header, timestamp_header, nonce_header, enabled
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *`,
+      [
+        data.name,
+        data.secret,
+        JSON.stringify(data.mapping),
+        data.signatureHeader.toLowerCase(),
+        data.timestampHeader.toLowerCase(),
+        data.nonceHeader ? data.nonceHeader.toLowerCase() : null,
+        data.enabled
+      ]
+    );
+
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  /**
+   * Update the mapping, headers or enabled flag of a webhook source
+   */
+  async updateSource(
+    id: string,
+    data: Partial<Pick<WebhookSource, 'name' | 'secret' | 'mapping' | 'nonceHeader' | 'enabled'>>
+  ): Promise<WebhookSource | null> {
+    const result = await this.raw(
+      `UPDATE webhook_sources SET
+        name = COALESCE($2, name),
+        secret = COALESCE($3, secret),
+        mapping = COALESCE($4, mapping),
+        nonce_header = COALESCE($5, nonce_header),
+        enabled = COALESCE($6, enabled),
+        updated_at = NOW()
+      WHERE id = $1
+      RETURNING *`,
+      [
+        id,
+        data.name ?? null,
+        data.secret ?? null,
+        data.mapping ? JSON.stringify(data.mapping) : null,
+        data.nonceHeader ? data.nonceHeader.toLowerCase() : null,
+        data.enabled ?? null
+      ]
+    );
+
+    return result.rows.length > 0 ? this.mapRowToEntity(result.rows[0]) : null;
+  }
+
+  /**
+   * Map database row to WebhookSource
+   */
+  protected mapRowToEntity(row: any): WebhookSource {
+    return {
+      id: row.id,
+      name: row.name,
+      secret: row.secret,
+      mapping: typeof row.mapping === 'string' ? JSON.parse(row.mapping) : row.mapping,
+      signatureHeader: row.signature_header,
+      timestampHeader: row.timestamp_header,
+      nonceHeader: row.nonce_header || undefined,
+      enabled: row.enabled,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
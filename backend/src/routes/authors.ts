@@ -0,0 +1,121 @@
+import { Router, Request, Response } from 'express';
+import { authenticate, requireAdmin } from '@/middleware/auth';
+import { validate } from '@/middleware/validation';
+import { authorLinkSchema, validateUUID } from '@/utils/validation';
+import { AuthorRegistry } from '@/services/authors';
+
+const router = Router();
+const authorRegistry = new AuthorRegistry();
+
+const authorNotFound = () => ({
+  error: {
+    code: 'AUTHOR_NOT_FOUND',
+    message: 'Author not found',
+    timestamp: new Date().toISOString()
+  }
+});
+
+/**
+ * @route   GET /authors/:id
+ * @desc    Get an author's follower history, sentiment trajectory and activity across linked accounts
+ * @access  Private
+ */
+router.get('/:id',
+  authenticate,
+  async (req: Request, res: Response) => {
+    try {
+      const history = validateUUID(req.params.id)
+        ? await authorRegistry.getHistory(req.params.id)
+        : null;
+
+      if (!history) {
+        return res.status(404).json(authorNotFound());
+      }
+
+      res.json({ success: true, data: history });
+    } catch (error) {
+      console.error('❌ Failed to get author history:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+);
+
+/**
+ * @route   POST /authors/:id/links
+ * @desc    Link another account to this author as the same person
+ * @access  Private (Admin)
+ */
+router.post('/:id/links',
+  authenticate,
+  requireAdmin,
+  validate(authorLinkSchema),
+  async (req: Request, res: Response) => {
+    try {
+      if (req.body.authorId === req.params.id) {
+        return res.status(400).json({
+          error: {
+            code: 'INVALID_LINK',
+            message: 'An author cannot be linked to itself',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const linked = validateUUID(req.params.id)
+        ? await authorRegistry.link(req.params.id, req.body.authorId)
+        : null;
+
+      if (!linked) {
+        return res.status(404).json(authorNotFound());
+      }
+
+      res.json({ success: true, data: { authors: linked } });
+    } catch (error) {
+      console.error('❌ Failed to link authors:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+);
+
+/**
+ * @route   DELETE /authors/:id/links
+ * @desc    Remove this author from the identity it is linked to
+ * @access  Private (Admin)
+ */
+router.delete('/:id/links',
+  authenticate,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const unlinked = validateUUID(req.params.id) && await authorRegistry.unlink(req.params.id);
+      if (!unlinked) {
+        return res.status(404).json(authorNotFound());
+      }
+
+      res.json({ success: true, data: { id: req.params.id } });
+    } catch (error) {
+      console.error('❌ Failed to unlink author:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+);
+
+export default router;
@@ -1,6 +1,12 @@
 import { Router, Request, Response } from 'express';
+import { authenticate } from '@/middleware/auth';
+import { validateQuery } from '@/middleware/validation';
+import { aspectStatsQuerySchema } from '@/utils/validation';
+import { AnalysisRepository } from '@/repositories/AnalysisRepository';
+import { Platform } from '@/types/feedback';
 
 const router = Router();
+const analysisRepository = new AnalysisRepository();
 
 // Mock data for demonstration
 const generateMockData = () => {
@@ -90,4 +96,41 @@ router.get('/stats', (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @route   GET /dashboard/aspects
+ * @desc    Sentiment and emotions per product aspect, most negative first, optionally per platform.
+ *          Free-text noun-phrase aspects are listed once mentioned min_phrase_count times.
+ * @access  Private
+ */
+router.get('/aspects',
+  authenticate,
+  validateQuery(aspectStatsQuerySchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { platform, date_from, date_to, by_platform, min_phrase_count } = req.query as unknown as {
+        platform?: Platform;
+        date_from?: Date;
+        date_to?: Date;
+        by_platform: boolean;
+        min_phrase_count: number;
+      };
+
+      const data = by_platform
+        ? await analysisRepository.getPlatformStats(date_from, date_to, { byAspect: true, minPhraseCount: min_phrase_count })
+        : await analysisRepository.getAspectStats(date_from, date_to, platform, { minPhraseCount: min_phrase_count });
+
+      res.json({ success: true, data });
+    } catch (error) {
+      console.error('❌ Failed to get aspect stats:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+);
+
 export default router;
\ No newline at end of file
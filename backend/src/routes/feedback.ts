@@ -0,0 +1,68 @@
+import { Router, Request, Response } from 'express';
+import { authenticate, requireAdmin } from '@/middleware/auth';
+import { validateUUID } from '@/utils/validation';
+import { FeedbackRepository } from '@/repositories/FeedbackRepository';
+import { piiRedactor } from '@/services/privacy';
+
+const router = Router();
+const feedbackRepository = new FeedbackRepository();
+
+/**
+ * @route   GET /feedback/:id/original
+ * @desc    Get the original content of a feedback item, before PII was redacted
+ * @access  Private (Admin)
+ */
+router.get('/:id/original',
+  authenticate,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const feedback = validateUUID(req.params.id)
+        ? await feedbackRepository.findById(req.params.id)
+        : null;
+
+      if (!feedback) {
+        return res.status(404).json({
+          error: {
+            code: 'FEEDBACK_NOT_FOUND',
+            message: 'Feedback not found',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const original = piiRedactor.reveal(feedback);
+      if (original === null) {
+        return res.status(404).json({
+          error: {
+            code: 'ORIGINAL_NOT_STORED',
+            message: 'Original content was not kept for this feedback',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      console.log(`🔐 ${req.user?.email} viewed original content of feedback ${feedback.id}`);
+
+      res.json({
+        success: true,
+        data: {
+          id: feedback.id,
+          content: original,
+          piiTypes: feedback.pii_types || []
+        }
+      });
+    } catch (error) {
+      console.error('❌ Failed to get original feedback content:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,646 @@
+import { Router, Request, Response } from 'express';
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { authenticate, requireAdmin } from '@/middleware/auth';
+import { validate, validateQuery } from '@/middleware/validation';
+import {
+  deadLetterFiltersSchema,
+  deadLetterPurgeSchema,
+  deadLetterRetrySchema,
+  fileImportQuerySchema,
+  quarantineFiltersSchema,
+  quarantineReleaseSchema,
+  webhookSourceSchema,
+  webhookSourceUpdateSchema
+} from '@/utils/validation';
+import {
+  ingestionManager,
+  webhookAdapter,
+  deadLetterStore,
+  quarantineStore,
+  getIngestionQueue,
+  WebhookVerificationError,
+  VerifiedWebhookDelivery,
+  DEFAULT_FILE_IMPORT_CONFIG,
+  MAX_DIRECT_JOBS
+} from '@/services/ingestion';
+import { WebhookSourceRepository } from '@/repositories/WebhookSourceRepository';
+import ingestionRoutes from '@/routes/ingestion';
+import {
+  DeadLetterFilters,
+  FileImportFormat,
+  FileImportMapping,
+  QuarantineFilters,
+  WebhookSource
+} from '@/types/ingestion';
+
+const router = Router();
+const webhookSourceRepository = new WebhookSourceRepository();
+
+// Jobs, backfills, schedules, adapters and the queue are mounted at /ingestion, and aliased here
+router.use(ingestionRoutes);
+
+// Secrets are only returned when a source is created
+const withoutSecret = ({ secret, ...source }: WebhookSource) => source;
+
+class UploadTooLargeError extends Error {}
+
+/**
+ * Pass an upload through, failing once it grows past the byte limit
+ */
+const limitUploadSize = (maxBytes: number) => {
+  let received = 0;
+  return new Transform({
+    transform(chunk: Buffer, encoding, callback) {
+      received += chunk.length;
+      callback(received > maxBytes ? new UploadTooLargeError(`Upload exceeds ${maxBytes} bytes`) : null, chunk);
+    }
+  });
+};
+
+/**
+ * @route   POST /ingest/import
+ * @desc    Upload a CSV/JSONL/NDJSON export as the raw request body and start an import job.
+ *          Imports run in this process, so they count towards MAX_DIRECT_JOBS
+ * @access  Private (Admin)
+ */
+router.post('/import',
+  authenticate,
+  requireAdmin,
+  validateQuery(fileImportQuerySchema),
+  async (req: Request, res: Response) => {
+    const format = req.query.format as FileImportFormat;
+    const mapping = req.query.mapping as unknown as FileImportMapping;
+    const { maxUploadBytes, uploadDir } = DEFAULT_FILE_IMPORT_CONFIG;
+
+    // A body parser already consumed JSON and form bodies, which would leave the file empty
+    if (req.readableEnded) {
+      return res.status(415).json({
+        error: {
+          code: 'UNSUPPORTED_UPLOAD_TYPE',
+          message: 'Send the file as text/csv, application/x-ndjson or application/octet-stream',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+
+    if (Number(req.headers['content-length'] || 0) > maxUploadBytes) {
+      return res.status(413).json({
+        error: {
+          code: 'UPLOAD_TOO_LARGE',
+          message: `Upload exceeds ${maxUploadBytes} bytes`,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+
+    if (ingestionManager.getBackgroundJobCount() >= MAX_DIRECT_JOBS) {
+      return res.status(429).json({
+        error: {
+          code: 'DIRECT_JOB_LIMIT',
+          message: `${MAX_DIRECT_JOBS} jobs are already running in this process; retry the import later`,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+
+    const jobId = ingestionManager.createJobId();
+    const filePath = path.join(uploadDir, `${jobId}.${format}`);
+
+    try {
+      // Stream the body straight to disk so large exports never sit in memory
+      await fs.promises.mkdir(uploadDir, { recursive: true });
+      await pipeline(req, limitUploadSize(maxUploadBytes), fs.createWriteStream(filePath));
+
+      const { size } = await fs.promises.stat(filePath);
+      if (size === 0) {
+        await fs.promises.unlink(filePath);
+        return res.status(400).json({
+          error: {
+            code: 'EMPTY_UPLOAD',
+            message: 'Upload body is empty',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const job = ingestionManager.createImportJob({
+        filePath,
+        fileName: (req.query.fileName as string) || `${jobId}.${format}`,
+        source: req.query.source as string | undefined,
+        format,
+        mapping,
+        delimiter: req.query.delimiter as string | undefined,
+        fileSize: size
+      }, { jobId });
+
+      await ingestionManager.startJob(job);
+
+      res.status(202).json({
+        success: true,
+        data: {
+          jobId: job.id,
+          status: job.status,
+          fileSize: size
+        }
+      });
+    } catch (error) {
+      await fs.promises.unlink(filePath).catch(() => undefined);
+      if (error instanceof UploadTooLargeError) {
+        return res.status(413).json({
+          error: {
+            code: 'UPLOAD_TOO_LARGE',
+            message: error.message,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      console.error('❌ File import upload failed:', error);
+      res.status(500).json({
+        error: {
+          code: 'IMPORT_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+);
+
+/**
+ * @route   GET /ingest/import/:jobId
+ * @desc    Get progress and per-row errors of an import job
+ * @access  Private
+ */
+router.get('/import/:jobId',
+  authenticate,
+  async (req: Request, res: Response) => {
+    try {
+      const job = await ingestionManager.getJobStatus(req.params.jobId);
+      if (!job || job.type !== 'import') {
+        return res.status(404).json({
+          error: {
+            code: 'IMPORT_NOT_FOUND',
+            message: 'Import job not found',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const report = await ingestionManager.getImportReport(job.id);
+      const fileSize = report?.fileSize || job.importSource?.fileSize;
+
+      res.json({
+        success: true,
+        data: {
+          jobId: job.id,
+          status: job.status,
+          error: job.error,
+          startedAt: job.startedAt,
+          completedAt: job.completedAt,
+          percent: report && fileSize
+            ? Math.min(100, Math.round((report.bytesRead / fileSize) * 100))
+            : null,
+          report
+        }
+      });
+    } catch (error) {
+      console.error('❌ Failed to get import status:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+);
+
+/**
+ * @route   POST /ingest/webhook/:sourceId
+ * @desc    Receive a signed webhook delivery and persist the feedback it carries
+ * @access  Public (HMAC signed)
+ */
+router.post('/webhook/:sourceId',
+  async (req: Request, res: Response) => {
+    if (!req.rawBody) {
+      return res.status(415).json({
+        error: {
+          code: 'UNSUPPORTED_MEDIA_TYPE',
+          message: 'Webhook deliveries must be sent as application/json',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+
+    let delivery: VerifiedWebhookDelivery | null = null;
+
+    try {
+      delivery = await webhookAdapter.verifyDelivery(req.params.sourceId, req.headers, req.rawBody);
+
+      const job = ingestionManager.createWebhookJob(delivery.source, req.body, delivery.nonce);
+      const result = await ingestionManager.runJob(job);
+
+      if (!result.success) {
+        // Let the sender retry a delivery we could not store
+        await webhookAdapter.releaseDelivery(delivery);
+        return res.status(503).json({
+          error: {
+            code: 'WEBHOOK_NOT_STORED',
+            message: result.errors[0]?.message || 'Webhook delivery could not be stored',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      res.status(202).json({
+        success: true,
+        data: {
+          jobId: job.id,
+          itemsCreated: result.itemsCreated || 0,
+          itemsUpdated: result.itemsUpdated || 0,
+          itemsQuarantined: result.itemsQuarantined || 0,
+          itemsSkipped: result.itemsSkipped,
+          errors: result.errors.map(error => error.message)
+        }
+      });
+    } catch (error) {
+      if (error instanceof WebhookVerificationError) {
+        return res.status(error.statusCode).json({
+          error: {
+            code: error.code,
+            message: error.message,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      if (delivery) {
+        await webhookAdapter.releaseDelivery(delivery).catch(() => undefined);
+      }
+
+      console.error('❌ Webhook delivery failed:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+);
+
+/**
+ * @route   GET /ingest/webhook-sources
+ * @desc    List configured webhook sources
+ * @access  Private (Admin)
+ */
+router.get('/webhook-sources',
+  authenticate,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const sources = await webhookSourceRepository.listSources();
+      res.json({ success: true, data: sources.map(withoutSecret) });
+    } catch (error) {
+      console.error('❌ Failed to list webhook sources:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+);
+
+/**
+ * @route   POST /ingest/webhook-sources
+ * @desc    Create a webhook source; the signing secret is returned once
+ * @access  Private (Admin)
+ */
+router.post('/webhook-sources',
+  authenticate,
+  requireAdmin,
+  validate(webhookSourceSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const source = await webhookSourceRepository.createSource({
+        ...req.body,
+        secret: req.body.secret || crypto.randomBytes(32).toString('hex')
+      });
+
+      res.status(201).json({ success: true, data: source });
+    } catch (error) {
+      console.error('❌ Failed to create webhook source:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+);
+
+/**
+ * @route   PATCH /ingest/webhook-sources/:id
+ * @desc    Update a webhook source's mapping, secret or enabled flag
+ * @access  Private (Admin)
+ */
+router.patch('/webhook-sources/:id',
+  authenticate,
+  requireAdmin,
+  validate(webhookSourceUpdateSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const source = await webhookSourceRepository.updateSource(req.params.id, req.body);
+      if (!source) {
+        return res.status(404).json({
+          error: {
+            code: 'SOURCE_NOT_FOUND',
+            message: 'Webhook source not found',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      res.json({ success: true, data: withoutSecret(source) });
+    } catch (error) {
+      console.error('❌ Failed to update webhook source:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+);
+
+/**
+ * @route   DELETE /ingest/webhook-sources/:id
+ * @desc    Delete a webhook source
+ * @access  Private (Admin)
+ */
+router.delete('/webhook-sources/:id',
+  authenticate,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const deleted = await webhookSourceRepository.delete(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({
+          error: {
+            code: 'SOURCE_NOT_FOUND',
+            message: 'Webhook source not found',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      res.json({ success: true, data: { id: req.params.id } });
+    } catch (error) {
+      console.error('❌ Failed to delete webhook source:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+);
+
+/**
+ * @route   GET /ingest/dead-letters
+ * @desc    List failed ingestion jobs, filtered by platform, error type or status
+ * @access  Private (Admin)
+ */
+router.get('/dead-letters',
+  authenticate,
+  requireAdmin,
+  validateQuery(deadLetterFiltersSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const filters = req.query as unknown as DeadLetterFilters;
+      const { entries, total } = await deadLetterStore.list(filters);
+
+      res.json({
+        success: true,
+        data: {
+          entries,
+          total,
+          limit: filters.limit,
+          offset: filters.offset
+        }
+      });
+    } catch (error) {
+      console.error('❌ Failed to list dead letters:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+);
+
+/**
+ * @route   GET /ingest/dead-letters/:id
+ * @desc    Get a failed job with the original job and every error it hit
+ * @access  Private (Admin)
+ */
+router.get('/dead-letters/:id',
+  authenticate,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const entry = await deadLetterStore.get(req.params.id);
+      if (!entry) {
+        return res.status(404).json({
+          error: {
+            code: 'DEAD_LETTER_NOT_FOUND',
+            message: 'Dead letter not found',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      res.json({ success: true, data: entry });
+    } catch (error) {
+      console.error('❌ Failed to get dead letter:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+);
+
+/**
+ * @route   POST /ingest/dead-letters/retry
+ * @desc    Re-queue every failed job matching the IDs or platform/error type, up to an optional limit;
+ *          parked auth failures wait for new credentials
+ * @access  Private (Admin)
+ */
+router.post('/dead-letters/retry',
+  authenticate,
+  requireAdmin,
+  validate(deadLetterRetrySchema),
+  async (req: Request, res: Response) => {
+    try {
+      const result = await getIngestionQueue().retryDeadLetters(req.body);
+      res.json({ success: true, data: result });
+    } catch (error) {
+      console.error('❌ Failed to retry dead letters:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+);
+
+/**
+ * @route   DELETE /ingest/dead-letters
+ * @desc    Purge failed jobs by platform, error type, status or age
+ * @access  Private (Admin)
+ */
+router.delete('/dead-letters',
+  authenticate,
+  requireAdmin,
+  validateQuery(deadLetterPurgeSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const deleted = await deadLetterStore.purge(req.query as unknown as DeadLetterFilters);
+      res.json({ success: true, data: { deleted } });
+    } catch (error) {
+      console.error('❌ Failed to purge dead letters:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+);
+
+/**
+ * @route   GET /ingest/quarantine
+ * @desc    List items held back by the content filter, filtered by platform, reason or status
+ * @access  Private (Admin)
+ */
+router.get('/quarantine',
+  authenticate,
+  requireAdmin,
+  validateQuery(quarantineFiltersSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const filters = req.query as unknown as QuarantineFilters;
+      const { items, total } = await quarantineStore.list(filters);
+
+      res.json({
+        success: true,
+        data: {
+          items,
+          total,
+          limit: filters.limit,
+          offset: filters.offset
+        }
+      });
+    } catch (error) {
+      console.error('❌ Failed to list quarantined items:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+);
+
+/**
+ * @route   GET /ingest/quarantine/:id
+ * @desc    Get a quarantined item with the reasons it was held back
+ * @access  Private (Admin)
+ */
+router.get('/quarantine/:id',
+  authenticate,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const item = await quarantineStore.get(req.params.id);
+      if (!item) {
+        return res.status(404).json({
+          error: {
+            code: 'QUARANTINED_ITEM_NOT_FOUND',
+            message: 'Quarantined item not found',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      res.json({ success: true, data: item });
+    } catch (error) {
+      console.error('❌ Failed to get quarantined item:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+);
+
+/**
+ * @route   POST /ingest/quarantine/release
+ * @desc    Release false positives into the feedback table and queue them for analysis
+ * @access  Private (Admin)
+ */
+router.post('/quarantine/release',
+  authenticate,
+  requireAdmin,
+  validate(quarantineReleaseSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const result = await quarantineStore.release(req.body.ids, req.user?.email);
+      res.json({ success: true, data: result });
+    } catch (error) {
+      console.error('❌ Failed to release quarantined items:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+);
+
+export default router;
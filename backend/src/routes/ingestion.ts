@@ -0,0 +1,542 @@
+import { Router, Request, Response } from 'express';
+import { authenticate, requireAdmin } from '@/middleware/auth';
+import { validate, validateParams, validateQuery } from '@/middleware/validation';
+import {
+  adapterParamsSchema,
+  ingestionBackfillSchema,
+  ingestionJobFiltersSchema,
+  ingestionJobSchema,
+  ingestionScheduleFiltersSchema,
+  ingestionScheduleSchema,
+  ingestionScheduleUpdateSchema,
+  queueCleanSchema
+} from '@/utils/validation';
+import { ingestionManager, getIngestionQueue, getIngestionScheduler, MAX_DIRECT_JOBS } from '@/services/ingestion';
+import { IngestionJob } from '@/types/ingestion';
+import { Platform } from '@/types/feedback';
+
+const router = Router();
+
+const errorBody = (code: string, message: string) => ({
+  error: {
+    code,
+    message,
+    timestamp: new Date().toISOString()
+  }
+});
+
+const internalError = (res: Response, action: string, error: unknown) => {
+  console.error(`❌ Failed to ${action}:`, error);
+  res.status(500).json(errorBody('INTERNAL_ERROR', error instanceof Error ? error.message : 'Unknown error'));
+};
+
+const adapterNotRegistered = (platform: Platform) =>
+  errorBody('ADAPTER_NOT_REGISTERED', `No adapter registered for platform: ${platform}`);
+
+/**
+ * @route   GET /ingestion/jobs
+ * @desc    List jobs running in this process, or queue jobs with the given status
+ * @access  Private
+ */
+router.get('/jobs',
+  authenticate,
+  validateQuery(ingestionJobFiltersSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { status } = req.query as { status?: 'waiting' | 'active' | 'completed' | 'failed' | 'delayed' };
+
+      if (!status) {
+        return res.json({ success: true, data: { jobs: ingestionManager.getActiveJobs() } });
+      }
+
+      const queueJobs = await getIngestionQueue().getJobsByStatus(status);
+      res.json({
+        success: true,
+        data: {
+          jobs: queueJobs.map(job => ({
+            ...job.data.ingestionJob,
+            attemptsMade: job.attemptsMade,
+            failedReason: job.failedReason
+          }))
+        }
+      });
+    } catch (error) {
+      internalError(res, 'list ingestion jobs', error);
+    }
+  }
+);
+
+/**
+ * @route   POST /ingestion/jobs
+ * @desc    Start an ingestion job, queued by default or run directly in this process
+ *          while fewer than MAX_DIRECT_JOBS direct jobs are running
+ * @access  Private (Admin)
+ */
+router.post('/jobs',
+  authenticate,
+  requireAdmin,
+  validate(ingestionJobSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { queued, ...spec } = req.body;
+      if (!ingestionManager.isPlatformRegistered(spec.platform)) {
+        return res.status(400).json(adapterNotRegistered(spec.platform));
+      }
+      if (!queued && ingestionManager.getBackgroundJobCount() >= MAX_DIRECT_JOBS) {
+        return res.status(429).json(errorBody(
+          'DIRECT_JOB_LIMIT',
+          `${MAX_DIRECT_JOBS} jobs are already running in this process; queue the job instead`
+        ));
+      }
+
+      const job: IngestionJob = {
+        ...spec,
+        id: ingestionManager.createJobId(),
+        status: 'pending',
+        createdAt: new Date(),
+        progress: { processed: 0 }
+      };
+
+      if (queued) {
+        await getIngestionQueue().addJob(job);
+      } else {
+        await ingestionManager.startJob(job);
+      }
+
+      res.status(202).json({ success: true, data: job });
+    } catch (error) {
+      internalError(res, 'start ingestion job', error);
+    }
+  }
+);
+
+/**
+ * @route   GET /ingestion/jobs/:id
+ * @desc    Get a job's status and progress
+ * @access  Private
+ */
+router.get('/jobs/:id',
+  authenticate,
+  async (req: Request, res: Response) => {
+    try {
+      const job = await ingestionManager.getJobStatus(req.params.id)
+        || await getIngestionQueue().getQueuedJob(req.params.id);
+
+      if (!job) {
+        return res.status(404).json(errorBody('JOB_NOT_FOUND', 'Ingestion job not found'));
+      }
+
+      res.json({ success: true, data: job });
+    } catch (error) {
+      internalError(res, 'get ingestion job', error);
+    }
+  }
+);
+
+/**
+ * @route   DELETE /ingestion/jobs/:id
+ * @desc    Cancel a running job or remove a queued one
+ * @access  Private (Admin)
+ */
+router.delete('/jobs/:id',
+  authenticate,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const cancelled = await ingestionManager.cancelJob(req.params.id)
+        || await getIngestionQueue().cancelJob(req.params.id);
+
+      if (!cancelled) {
+        return res.status(404).json(errorBody('JOB_NOT_FOUND', 'Ingestion job not found'));
+      }
+
+      res.json({ success: true, data: { id: req.params.id, status: 'cancelled' } });
+    } catch (error) {
+      internalError(res, 'cancel ingestion job', error);
+    }
+  }
+);
+
+/**
+ * @route   POST /ingestion/jobs/:id/retry
+ * @desc    Retry a failed queue job that has attempts left
+ * @access  Private (Admin)
+ */
+router.post('/jobs/:id/retry',
+  authenticate,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const retried = await getIngestionQueue().retryJob(req.params.id);
+      if (!retried) {
+        return res.status(409).json(errorBody('JOB_NOT_RETRYABLE', 'Job not found or has no attempts left'));
+      }
+
+      res.json({ success: true, data: { id: req.params.id } });
+    } catch (error) {
+      internalError(res, 'retry ingestion job', error);
+    }
+  }
+);
+
+/**
+ * @route   POST /ingestion/backfills
+ * @desc    Backfill a date range as low-priority queued jobs, one per time window
+ * @access  Private (Admin)
+ */
+router.post('/backfills',
+  authenticate,
+  requireAdmin,
+  validate(ingestionBackfillSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { type, windowHours, ...spec } = req.body;
+      if (!ingestionManager.isPlatformRegistered(spec.platform)) {
+        return res.status(400).json(adapterNotRegistered(spec.platform));
+      }
+
+      const backfill = await getIngestionQueue().addBackfill({
+        ...spec,
+        id: `backfill_${ingestionManager.createJobId()}`,
+        type: 'backfill',
+        backfill: { jobType: type, windowMs: windowHours * 60 * 60 * 1000 },
+        status: 'pending',
+        createdAt: new Date(),
+        progress: { processed: 0 }
+      });
+
+      res.status(202).json({ success: true, data: backfill });
+    } catch (error) {
+      internalError(res, 'start backfill', error);
+    }
+  }
+);
+
+/**
+ * @route   GET /ingestion/backfills/:id
+ * @desc    Get a backfill's percent complete and the status of each window
+ * @access  Private
+ */
+router.get('/backfills/:id',
+  authenticate,
+  async (req: Request, res: Response) => {
+    try {
+      const backfill = await getIngestionQueue().getBackfill(req.params.id);
+      if (!backfill) {
+        return res.status(404).json(errorBody('BACKFILL_NOT_FOUND', 'Backfill not found'));
+      }
+
+      res.json({ success: true, data: backfill });
+    } catch (error) {
+      internalError(res, 'get backfill', error);
+    }
+  }
+);
+
+/**
+ * @route   POST /ingestion/backfills/:id/resume
+ * @desc    Re-queue the windows of an interrupted backfill that haven't completed
+ * @access  Private (Admin)
+ */
+router.post('/backfills/:id/resume',
+  authenticate,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const backfill = await getIngestionQueue().resumeBackfill(req.params.id);
+      if (!backfill) {
+        return res.status(404).json(errorBody('BACKFILL_NOT_FOUND', 'Backfill not found'));
+      }
+
+      res.json({ success: true, data: backfill });
+    } catch (error) {
+      internalError(res, 'resume backfill', error);
+    }
+  }
+);
+
+/**
+ * @route   GET /ingestion/schedules
+ * @desc    List schedules, optionally for one platform, with scheduler statistics
+ * @access  Private
+ */
+router.get('/schedules',
+  authenticate,
+  validateQuery(ingestionScheduleFiltersSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const scheduler = getIngestionScheduler();
+      const platform = req.query.platform as Platform | undefined;
+
+      res.json({
+        success: true,
+        data: {
+          schedules: platform ? scheduler.getSchedulesByPlatform(platform) : scheduler.getAllSchedules(),
+          stats: scheduler.getStats()
+        }
+      });
+    } catch (error) {
+      internalError(res, 'list ingestion schedules', error);
+    }
+  }
+);
+
+/**
+ * @route   POST /ingestion/schedules
+ * @desc    Create a recurring ingestion schedule
+ * @access  Private (Admin)
+ */
+router.post('/schedules',
+  authenticate,
+  requireAdmin,
+  validate(ingestionScheduleSchema),
+  async (req: Request, res: Response) => {
+    try {
+      if (!ingestionManager.isPlatformRegistered(req.body.platform)) {
+        return res.status(400).json(adapterNotRegistered(req.body.platform));
+      }
+
+      const schedule = await getIngestionScheduler().createSchedule(req.body);
+      res.status(201).json({ success: true, data: schedule });
+    } catch (error) {
+      internalError(res, 'create ingestion schedule', error);
+    }
+  }
+);
+
+/**
+ * @route   GET /ingestion/schedules/:id
+ * @desc    Get a schedule with its incremental sync checkpoint
+ * @access  Private
+ */
+router.get('/schedules/:id',
+  authenticate,
+  async (req: Request, res: Response) => {
+    try {
+      const scheduler = getIngestionScheduler();
+      const schedule = scheduler.getSchedule(req.params.id);
+      if (!schedule) {
+        return res.status(404).json(errorBody('SCHEDULE_NOT_FOUND', 'Schedule not found'));
+      }
+
+      res.json({
+        success: true,
+        data: { ...schedule, checkpoint: await scheduler.getCheckpoint(schedule.id) }
+      });
+    } catch (error) {
+      internalError(res, 'get ingestion schedule', error);
+    }
+  }
+);
+
+/**
+ * @route   PATCH /ingestion/schedules/:id
+ * @desc    Update a schedule's query, cron expression, timezone or limits
+ * @access  Private (Admin)
+ */
+router.patch('/schedules/:id',
+  authenticate,
+  requireAdmin,
+  validate(ingestionScheduleUpdateSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const schedule = await getIngestionScheduler().updateSchedule(req.params.id, req.body);
+      if (!schedule) {
+        return res.status(404).json(errorBody('SCHEDULE_NOT_FOUND', 'Schedule not found'));
+      }
+
+      res.json({ success: true, data: schedule });
+    } catch (error) {
+      internalError(res, 'update ingestion schedule', error);
+    }
+  }
+);
+
+/**
+ * @route   DELETE /ingestion/schedules/:id
+ * @desc    Stop and delete a schedule
+ * @access  Private (Admin)
+ */
+router.delete('/schedules/:id',
+  authenticate,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const deleted = await getIngestionScheduler().deleteSchedule(req.params.id);
+      if (!deleted) {
+        return res.status(404).json(errorBody('SCHEDULE_NOT_FOUND', 'Schedule not found'));
+      }
+
+      res.json({ success: true, data: { id: req.params.id } });
+    } catch (error) {
+      internalError(res, 'delete ingestion schedule', error);
+    }
+  }
+);
+
+/**
+ * @route   POST /ingestion/schedules/:id/enable
+ * @desc    Enable a schedule and start running it
+ * @access  Private (Admin)
+ */
+router.post('/schedules/:id/enable',
+  authenticate,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const schedule = await getIngestionScheduler().updateSchedule(req.params.id, { enabled: true });
+      if (!schedule) {
+        return res.status(404).json(errorBody('SCHEDULE_NOT_FOUND', 'Schedule not found'));
+      }
+
+      res.json({ success: true, data: schedule });
+    } catch (error) {
+      internalError(res, 'enable ingestion schedule', error);
+    }
+  }
+);
+
+/**
+ * @route   POST /ingestion/schedules/:id/disable
+ * @desc    Disable a schedule, keeping it and its checkpoint
+ * @access  Private (Admin)
+ */
+router.post('/schedules/:id/disable',
+  authenticate,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const schedule = await getIngestionScheduler().updateSchedule(req.params.id, { enabled: false });
+      if (!schedule) {
+        return res.status(404).json(errorBody('SCHEDULE_NOT_FOUND', 'Schedule not found'));
+      }
+
+      res.json({ success: true, data: schedule });
+    } catch (error) {
+      internalError(res, 'disable ingestion schedule', error);
+    }
+  }
+);
+
+/**
+ * @route   GET /ingestion/adapters
+ * @desc    List registered adapters with their latest ingestion metrics
+ * @access  Private
+ */
+router.get('/adapters',
+  authenticate,
+  async (req: Request, res: Response) => {
+    try {
+      const adapters = await Promise.all(ingestionManager.getRegisteredPlatforms().map(async platform => ({
+        platform,
+        metrics: await ingestionManager.getMetrics(platform)
+      })));
+
+      res.json({ success: true, data: { adapters } });
+    } catch (error) {
+      internalError(res, 'list ingestion adapters', error);
+    }
+  }
+);
+
+/**
+ * @route   POST /ingestion/adapters/:platform/test
+ * @desc    Test an adapter's connection and credentials against its platform
+ * @access  Private (Admin)
+ */
+router.post('/adapters/:platform/test',
+  authenticate,
+  requireAdmin,
+  validateParams(adapterParamsSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const platform = req.params.platform as Platform;
+      if (!ingestionManager.isPlatformRegistered(platform)) {
+        return res.status(404).json(adapterNotRegistered(platform));
+      }
+
+      const startTime = Date.now();
+      const connected = await ingestionManager.testPlatformConnection(platform);
+
+      res.json({
+        success: true,
+        data: { platform, connected, latencyMs: Date.now() - startTime }
+      });
+    } catch (error) {
+      internalError(res, 'test adapter connection', error);
+    }
+  }
+);
+
+/**
+ * @route   GET /ingestion/queue
+ * @desc    Get queue health and job counts
+ * @access  Private
+ */
+router.get('/queue',
+  authenticate,
+  async (req: Request, res: Response) => {
+    try {
+      res.json({ success: true, data: await getIngestionQueue().getHealthStatus() });
+    } catch (error) {
+      internalError(res, 'get ingestion queue status', error);
+    }
+  }
+);
+
+/**
+ * @route   POST /ingestion/queue/pause
+ * @desc    Pause processing of queued jobs
+ * @access  Private (Admin)
+ */
+router.post('/queue/pause',
+  authenticate,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      await getIngestionQueue().pauseQueue();
+      res.json({ success: true, data: { paused: true } });
+    } catch (error) {
+      internalError(res, 'pause ingestion queue', error);
+    }
+  }
+);
+
+/**
+ * @route   POST /ingestion/queue/resume
+ * @desc    Resume processing of queued jobs
+ * @access  Private (Admin)
+ */
+router.post('/queue/resume',
+  authenticate,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      await getIngestionQueue().resumeQueue();
+      res.json({ success: true, data: { paused: false } });
+    } catch (error) {
+      internalError(res, 'resume ingestion queue', error);
+    }
+  }
+);
+
+/**
+ * @route   POST /ingestion/queue/clean
+ * @desc    Remove completed and failed jobs older than the grace period
+ * @access  Private (Admin)
+ */
+router.post('/queue/clean',
+  authenticate,
+  requireAdmin,
+  validate(queueCleanSchema),
+  async (req: Request, res: Response) => {
+    try {
+      await getIngestionQueue().cleanQueue(req.body.graceMs);
+      res.json({ success: true, data: await getIngestionQueue().getQueueStats() });
+    } catch (error) {
+      internalError(res, 'clean ingestion queue', error);
+    }
+  }
+);
+
+export default router;
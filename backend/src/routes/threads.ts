@@ -0,0 +1,87 @@
+import { Router, Request, Response } from 'express';
+import { authenticate } from '@/middleware/auth';
+import { validateParams } from '@/middleware/validation';
+import { threadParamsSchema, validateUUID } from '@/utils/validation';
+import { ConversationThreadService } from '@/services/threads';
+import { FeedbackRepository } from '@/repositories/FeedbackRepository';
+import { Platform } from '@/types/feedback';
+
+const router = Router();
+const feedbackRepository = new FeedbackRepository();
+const threadService = new ConversationThreadService(feedbackRepository);
+
+/**
+ * @route   GET /threads/feedback/:feedbackId
+ * @desc    Get the conversation thread a feedback item belongs to, as a tree
+ * @access  Private
+ */
+router.get('/feedback/:feedbackId',
+  authenticate,
+  async (req: Request, res: Response) => {
+    try {
+      const feedback = validateUUID(req.params.feedbackId)
+        ? await feedbackRepository.findById(req.params.feedbackId)
+        : null;
+      const thread = feedback ? await threadService.getThreadForFeedback(feedback) : null;
+
+      if (!thread) {
+        return res.status(404).json({
+          error: {
+            code: 'THREAD_NOT_FOUND',
+            message: 'Thread not found',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      res.json({ success: true, data: thread });
+    } catch (error) {
+      console.error('❌ Failed to get feedback thread:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+);
+
+/**
+ * @route   GET /threads/:platform/:rootExternalId
+ * @desc    Get a conversation thread by its root post's platform ID, as a tree
+ * @access  Private
+ */
+router.get('/:platform/:rootExternalId',
+  authenticate,
+  validateParams(threadParamsSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const thread = await threadService.getThread(req.params.platform as Platform, req.params.rootExternalId);
+
+      if (!thread) {
+        return res.status(404).json({
+          error: {
+            code: 'THREAD_NOT_FOUND',
+            message: 'Thread not found',
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      res.json({ success: true, data: thread });
+    } catch (error) {
+      console.error('❌ Failed to get thread:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,175 @@
+import { Router, Request, Response } from 'express';
+import { authenticate, requireAdmin } from '@/middleware/auth';
+import { validate, validateQuery } from '@/middleware/validation';
+import {
+  topicFiltersSchema,
+  topicMergeSchema,
+  topicRenameSchema,
+  topicRunsQuerySchema,
+  validateUUID
+} from '@/utils/validation';
+import { getTopicDiscoveryService } from '@/services/topics';
+import { TopicStatus } from '@/types/topics';
+
+const router = Router();
+
+const errorBody = (code: string, message: string) => ({
+  error: {
+    code,
+    message,
+    timestamp: new Date().toISOString()
+  }
+});
+
+const topicNotFound = () => errorBody('TOPIC_NOT_FOUND', 'Topic not found');
+
+const internalError = (res: Response, action: string, error: unknown) => {
+  console.error(`❌ Failed to ${action}:`, error);
+  res.status(500).json(errorBody('INTERNAL_ERROR', error instanceof Error ? error.message : 'Unknown error'));
+};
+
+/**
+ * @route   GET /topics
+ * @desc    List discovered topics, largest first, with keywords, examples and growth status
+ * @access  Private
+ */
+router.get('/',
+  authenticate,
+  validateQuery(topicFiltersSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const topics = await getTopicDiscoveryService().getTopics(req.query.status as TopicStatus[] | undefined);
+      res.json({ success: true, data: { topics } });
+    } catch (error) {
+      internalError(res, 'list topics', error);
+    }
+  }
+);
+
+/**
+ * @route   GET /topics/runs
+ * @desc    List recent topic discovery runs
+ * @access  Private
+ */
+router.get('/runs',
+  authenticate,
+  validateQuery(topicRunsQuerySchema),
+  async (req: Request, res: Response) => {
+    try {
+      const runs = await getTopicDiscoveryService().getRuns(Number(req.query.limit));
+      res.json({ success: true, data: { runs } });
+    } catch (error) {
+      internalError(res, 'list topic runs', error);
+    }
+  }
+);
+
+/**
+ * @route   POST /topics/runs
+ * @desc    Run topic discovery now over the configured feedback window
+ * @access  Private (Admin)
+ */
+router.post('/runs',
+  authenticate,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const service = getTopicDiscoveryService();
+      if (service.isRunInProgress()) {
+        return res.status(409).json(errorBody('TOPIC_RUN_IN_PROGRESS', 'A topic discovery run is already in progress'));
+      }
+
+      const result = await service.runOnce();
+      res.json({ success: true, data: result });
+    } catch (error) {
+      internalError(res, 'run topic discovery', error);
+    }
+  }
+);
+
+/**
+ * @route   GET /topics/:id
+ * @desc    Get a topic
+ * @access  Private
+ */
+router.get('/:id',
+  authenticate,
+  async (req: Request, res: Response) => {
+    try {
+      const topic = validateUUID(req.params.id)
+        ? await getTopicDiscoveryService().getTopic(req.params.id)
+        : null;
+
+      if (!topic) {
+        return res.status(404).json(topicNotFound());
+      }
+
+      res.json({ success: true, data: topic });
+    } catch (error) {
+      internalError(res, 'get topic', error);
+    }
+  }
+);
+
+/**
+ * @route   PATCH /topics/:id
+ * @desc    Rename a topic; later runs keep the name. A null label lets runs relabel it again.
+ * @access  Private
+ */
+router.patch('/:id',
+  authenticate,
+  validate(topicRenameSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const topic = validateUUID(req.params.id)
+        ? await getTopicDiscoveryService().rename(req.params.id, req.body.label)
+        : null;
+
+      if (!topic) {
+        return res.status(404).json(topicNotFound());
+      }
+
+      res.json({ success: true, data: topic });
+    } catch (error) {
+      internalError(res, 'rename topic', error);
+    }
+  }
+);
+
+/**
+ * @route   POST /topics/:id/merge
+ * @desc    Merge this topic into another; its feedback moves over and later runs keep them together
+ * @access  Private (Admin)
+ */
+router.post('/:id/merge',
+  authenticate,
+  requireAdmin,
+  validate(topicMergeSchema),
+  async (req: Request, res: Response) => {
+    try {
+      if (req.body.targetId === req.params.id) {
+        return res.status(400).json(errorBody('INVALID_MERGE', 'A topic cannot be merged into itself'));
+      }
+
+      const service = getTopicDiscoveryService();
+      const [source, target] = validateUUID(req.params.id)
+        ? await Promise.all([service.getTopic(req.params.id), service.getTopic(req.body.targetId)])
+        : [null, null];
+
+      if (!source || !target) {
+        return res.status(404).json(topicNotFound());
+      }
+
+      if (source.status === 'merged' || target.status === 'merged') {
+        return res.status(409).json(errorBody('TOPIC_ALREADY_MERGED', 'Merged topics cannot be merged again; use the topic they were merged into'));
+      }
+
+      const merged = await service.merge(source.id, target.id);
+      res.json({ success: true, data: merged });
+    } catch (error) {
+      internalError(res, 'merge topics', error);
+    }
+  }
+);
+
+export default router;
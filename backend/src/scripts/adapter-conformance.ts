@@ -0,0 +1,69 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Run every platform adapter through the conformance suite against a local mock server
+ * Run with: npm run test:adapters -- [platform ...] [--verbose]
+ */
+
+import {
+  AdapterConformanceSuite,
+  ConformanceCheckResult,
+  CONFORMANCE_TARGETS
+} from '@/services/ingestion/testing';
+
+const print = console.log.bind(console);
+
+/**
+ * Silence adapter logging unless asked for, so only the report is printed
+ */
+function quietAdapterLogs(): void {
+  const noop = () => undefined;
+  console.log = noop;
+  console.info = noop;
+  console.warn = noop;
+  console.error = noop;
+}
+
+function formatResult(result: ConformanceCheckResult): string {
+  const icon = result.skipped ? '⏭️' : result.passed ? '✅' : '❌';
+  return `   ${icon} ${result.check.padEnd(20)} ${result.message} (${result.durationMs}ms)`;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const platforms = args.filter(arg => !arg.startsWith('--'));
+
+  if (!args.includes('--verbose')) {
+    quietAdapterLogs();
+  }
+
+  const targets = platforms.length > 0
+    ? CONFORMANCE_TARGETS.filter(target => platforms.includes(target.name))
+    : CONFORMANCE_TARGETS;
+
+  if (targets.length === 0) {
+    print(`Unknown platform. Available: ${CONFORMANCE_TARGETS.map(target => target.name).join(', ')}`);
+    process.exit(1);
+  }
+
+  print('🧪 Running adapter conformance suite...\n');
+
+  const results: ConformanceCheckResult[] = [];
+  for (const target of targets) {
+    print(`📡 ${target.name}`);
+    const targetResults = await new AdapterConformanceSuite(target).run();
+    targetResults.forEach(result => print(formatResult(result)));
+    results.push(...targetResults);
+  }
+
+  const failed = results.filter(result => !result.passed);
+  const skipped = results.filter(result => result.skipped);
+  print(`\n${failed.length === 0 ? '🎉' : '❌'} ${results.length - failed.length - skipped.length} passed, ${failed.length} failed, ${skipped.length} skipped`);
+
+  process.exit(failed.length === 0 ? 0 : 1);
+}
+
+main().catch(error => {
+  print('\n❌ Conformance run failed:', error);
+  process.exit(1);
+});
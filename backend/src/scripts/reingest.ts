@@ -0,0 +1,135 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Replay archived raw API responses through the current adapter transforms
+ * Run with: npm run reingest -- <platform> [jobId ...]
+ *           npm run reingest -- --list [platform]
+ */
+
+import dotenv from 'dotenv';
+import { initializeDatabase, closeDatabase } from '@/config/database';
+import {
+  initializeIngestion,
+  ingestionManager,
+  payloadArchive,
+  DEFAULT_PAYLOAD_ARCHIVE_CONFIG
+} from '@/services/ingestion';
+import { TwitterAdapter } from '@/services/ingestion/adapters/TwitterAdapter';
+import { RedditAdapter } from '@/services/ingestion/adapters/RedditAdapter';
+import { IngestionConfig } from '@/types/ingestion';
+import { Platform } from '@/types/feedback';
+
+dotenv.config();
+
+// Replays never call the platform, so these only need to construct the adapters
+const REPLAY_CONFIG: Omit<IngestionConfig, 'platform'> = {
+  enabled: true,
+  rateLimit: {
+    requestsPerMinute: 1000,
+    requestsPerHour: 60000,
+    requestsPerDay: 1000000
+  },
+  retryConfig: {
+    maxRetries: 0,
+    baseDelay: 1000,
+    maxDelay: 1000,
+    backoffMultiplier: 1
+  },
+  batchSize: 100,
+  pollInterval: 0
+};
+
+/**
+ * Register the adapters that aren't part of the default ingestion setup
+ */
+function registerReplayAdapters(): void {
+  if (!ingestionManager.isPlatformRegistered('twitter')) {
+    ingestionManager.registerAdapter(new TwitterAdapter({
+      ...REPLAY_CONFIG,
+      platform: 'twitter',
+      bearerToken: process.env.TWITTER_BEARER_TOKEN,
+      consumerKey: process.env.TWITTER_CONSUMER_KEY || '',
+      consumerSecret: process.env.TWITTER_CONSUMER_SECRET || ''
+    }));
+  }
+  if (!ingestionManager.isPlatformRegistered('reddit')) {
+    ingestionManager.registerAdapter(new RedditAdapter({
+      ...REPLAY_CONFIG,
+      platform: 'reddit',
+      clientId: process.env.REDDIT_CLIENT_ID || '',
+      clientSecret: process.env.REDDIT_CLIENT_SECRET || '',
+      userAgent: process.env.REDDIT_USER_AGENT || 'feedback-analyzer/1.0'
+    }));
+  }
+}
+
+async function listArchivedJobs(platform?: Platform) {
+  const jobs = await payloadArchive.listJobs(platform);
+  console.log(`📦 ${jobs.length} archived jobs in ${DEFAULT_PAYLOAD_ARCHIVE_CONFIG.dir}`);
+  jobs.forEach(job => console.log(`   ${job.platform}\t${job.jobId}\t${job.payloads} payloads`));
+}
+
+async function reingest(platform: Platform, jobIds: string[]) {
+  await initializeIngestion();
+  registerReplayAdapters();
+
+  if (!ingestionManager.isPlatformRegistered(platform)) {
+    throw new Error(`No adapter registered for platform: ${platform}`);
+  }
+
+  const archivedJobIds = jobIds.length > 0
+    ? jobIds
+    : (await payloadArchive.listJobs(platform)).map(job => job.jobId);
+
+  let created = 0;
+  let updated = 0;
+  let failed = 0;
+
+  for (const archivedJobId of archivedJobIds) {
+    const job = ingestionManager.createReingestJob(platform, archivedJobId);
+    const result = await ingestionManager.runJob(job);
+
+    created += result.itemsCreated || 0;
+    updated += result.itemsUpdated || 0;
+    if (!result.success) {
+      failed++;
+      console.error(`❌ ${archivedJobId}: ${result.errors.map(error => error.message).join('; ')}`);
+    } else {
+      console.log(`✅ ${archivedJobId}: ${result.itemsCreated || 0} created, ${result.itemsUpdated || 0} updated`);
+    }
+  }
+
+  console.log(`\n🔁 Re-ingested ${archivedJobIds.length - failed}/${archivedJobIds.length} ${platform} jobs: ${created} created, ${updated} updated`);
+  if (failed > 0) {
+    throw new Error(`${failed} jobs failed to re-ingest`);
+  }
+}
+
+async function main() {
+  const [first, ...rest] = process.argv.slice(2);
+  let exitCode = 0;
+
+  if (!first) {
+    console.error('Usage: npm run reingest -- <platform> [jobId ...] | --list [platform]');
+    process.exit(1);
+  }
+
+  try {
+    if (first === '--list') {
+      await listArchivedJobs(rest[0] as Platform | undefined);
+      return;
+    }
+
+    await initializeDatabase();
+    await reingest(first as Platform, rest);
+  } catch (error) {
+    console.error('\n❌ Re-ingestion failed:', error);
+    exitCode = 1;
+  } finally {
+    await ingestionManager.shutdown();
+    await closeDatabase().catch(() => undefined);
+    process.exit(exitCode);
+  }
+}
+
+main();
@@ -9,12 +9,27 @@ import { initializeDatabase } from '@/config/database';
 import { MigrationRunner } from '@/utils/migration';
 import { healthCheck } from '@/utils/database';
 import { apiRateLimiter } from '@/middleware/rateLimiter';
+import {
+  initializeIngestion,
+  getIngestionScheduler,
+  startEngagementRefresh,
+  shutdownIngestion,
+  payloadArchive
+} from '@/services/ingestion';
+import { shutdownNLPAnalysisService } from '@/services/nlp';
+import { getTopicDiscoveryService } from '@/services/topics';
 
 // Import routes
 import authRoutes from '@/routes/auth';
 import dashboardRoutes from '@/routes/dashboard';
 import simpleAnalysisRoutes from '@/routes/simple-analysis';
 import testRoutes from '@/routes/test';
+import ingestRoutes from '@/routes/ingest';
+import threadRoutes from '@/routes/threads';
+import ingestionRoutes from '@/routes/ingestion';
+import feedbackRoutes from '@/routes/feedback';
+import authorRoutes from '@/routes/authors';
+import topicRoutes from '@/routes/topics';
 
 // Load environment variables
 dotenv.config();
@@ -35,7 +50,13 @@ app.use(cors({
   credentials: true
 }));
 app.use(morgan('combined'));
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({
+  limit: '10mb',
+  // Keep the raw bytes for webhook signature verification
+  verify: (req, res, buf) => {
+    (req as express.Request).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: true }));
 
 // Apply rate limiting to all API routes
@@ -46,6 +67,12 @@ app.use('/api/auth', authRoutes);
 app.use('/api/dashboard', dashboardRoutes);
 app.use('/api/analysis', simpleAnalysisRoutes);
 app.use('/api/test', testRoutes);
+app.use('/api/ingest', ingestRoutes);
+app.use('/api/threads', threadRoutes);
+app.use('/api/ingestion', ingestionRoutes);
+app.use('/api/feedback', feedbackRoutes);
+app.use('/api/authors', authorRoutes);
+app.use('/api/topics', topicRoutes);
 
 // Health check endpoint
 app.get('/health', async (req, res) => {
@@ -94,6 +121,19 @@ const startServer = async () => {
     // Run migrations and seeds
     const migrationRunner = new MigrationRunner();
     await migrationRunner.initialize();
+
+    // Register ingestion adapters and start saved schedules
+    await initializeIngestion();
+    await getIngestionScheduler().initialize();
+
+    // Re-poll engagement on recent risky feedback for the registered platforms
+    startEngagementRefresh();
+
+    // Prune archived raw payloads by age and size
+    payloadArchive.start();
+
+    // Cluster recent feedback into topics on a schedule
+    getTopicDiscoveryService().start();
     
     // Start the server
     server.listen(PORT, () => {
@@ -107,4 +147,20 @@ const startServer = async () => {
   }
 };
 
+// Stop schedules and queues before the database connections close
+const shutdown = async (signal: string) => {
+  console.log(`🛑 ${signal} received, shutting down...`);
+  try {
+    getTopicDiscoveryService().stop();
+    await shutdownIngestion();
+    await shutdownNLPAnalysisService();
+    io.close();
+  } catch (error) {
+    console.error('❌ Error during shutdown:', error);
+  }
+};
+
+process.once('SIGINT', () => shutdown('SIGINT'));
+process.once('SIGTERM', () => shutdown('SIGTERM'));
+
 startServer();
\ No newline at end of file
@@ -0,0 +1,156 @@
+import { FeedbackData } from '@/types/feedback';
+import { AuthorHistory, AuthorHistoryConfig, AuthorProfile } from '@/types/authors';
+import { AuthorRepository } from '@/repositories/AuthorRepository';
+
+// Placeholders adapters use when a platform hides the author; these are not one person
+const ANONYMOUS_AUTHORS = new Set(['anonymous', 'unknown', '[deleted]', 'Google Play user']);
+
+export const DEFAULT_AUTHOR_HISTORY_CONFIG: AuthorHistoryConfig = {
+  lookbackDays: 90,
+  repeatComplaintThreshold: 3,
+  viralScoreThreshold: 0.7
+};
+
+/**
+ * Describe the notable parts of an author's history for a response prompt
+ */
+export function summarizeAuthorHistory(history: AuthorHistory): string | null {
+  const notes: string[] = [];
+
+  if (history.repeatComplainer) {
+    notes.push(`has complained ${history.negativeCount} times before; acknowledge the ongoing issue`);
+  }
+  if (history.pastViralPoster) {
+    notes.push(`has had ${history.viralCount} earlier post(s) reach a wide audience`);
+  }
+  if (history.linkedAuthors.length > 1) {
+    notes.push(`is also active on ${history.linkedAuthors.filter(a => a.id !== history.author.id).map(a => a.platform).join(', ')}`);
+  }
+
+  return notes.length > 0 ? `This customer ${notes.join('; ')}.` : null;
+}
+
+/**
+ * Author Registry
+ *
+ * Keeps one record per platform account seen in feedback, with follower history,
+ * and reads back an author's recent activity across manually linked accounts so
+ * scoring and response drafting can recognise repeat complainers and past viral posters.
+ */
+export class AuthorRegistry {
+  private config: AuthorHistoryConfig;
+  private repository: AuthorRepository;
+
+  constructor(
+    config: AuthorHistoryConfig = DEFAULT_AUTHOR_HISTORY_CONFIG,
+    repository: AuthorRepository = new AuthorRepository()
+  ) {
+    this.config = config;
+    this.repository = repository;
+  }
+
+  /**
+   * Register the author of a feedback item, returning the author ID.
+   * Only new items count towards the author's feedback total.
+   */
+  async register(item: FeedbackData, isNew: boolean): Promise<string | undefined> {
+    const platformUserId = item.author.id || item.author.username;
+    if (!platformUserId || ANONYMOUS_AUTHORS.has(platformUserId)) {
+      return undefined;
+    }
+
+    const author = await this.repository.observe({
+      platform: item.platform,
+      platformUserId,
+      username: item.author.username,
+      followerCount: item.author.followerCount,
+      verified: item.author.verified || false,
+      seenAt: item.posted_at ? new Date(item.posted_at) : new Date()
+    }, isNew);
+
+    return author.id;
+  }
+
+  /**
+   * Get an author's profile
+   */
+  async get(authorId: string): Promise<AuthorProfile | null> {
+    return await this.repository.findById(authorId);
+  }
+
+  /**
+   * History of the author of a feedback item from before it was posted, leaving the item
+   * itself out of the counts, so later posts don't count as earlier ones when re-scoring
+   */
+  async getHistoryForFeedback(feedback: FeedbackData): Promise<AuthorHistory | null> {
+    if (!feedback.author_id) {
+      return null;
+    }
+
+    const postedAt = new Date(feedback.posted_at || feedback.ingested_at);
+    return await this.getHistory(feedback.author_id, feedback.id, postedAt);
+  }
+
+  /**
+   * Activity of an author and its linked accounts within the lookback window ending at `until`
+   */
+  async getHistory(authorId: string, excludeFeedbackId?: string, until: Date = new Date()): Promise<AuthorHistory | null> {
+    const author = await this.repository.findById(authorId);
+    if (!author) {
+      return null;
+    }
+
+    const since = new Date(until.getTime() - this.config.lookbackDays * 24 * 60 * 60 * 1000);
+    const linkedAuthors = await this.repository.findLinked(author);
+    const authorIds = linkedAuthors.map(linked => linked.id);
+
+    const [activity, sentimentTrajectory, followerHistory] = await Promise.all([
+      this.repository.getActivity(authorIds, since, until, this.config.viralScoreThreshold, excludeFeedbackId),
+      this.repository.getSentimentTrajectory(authorIds, since, until),
+      this.repository.getFollowerHistory(author.id, since)
+    ]);
+
+    return {
+      author,
+      linkedAuthors,
+      ...activity,
+      followerHistory,
+      sentimentTrajectory,
+      repeatComplainer: activity.negativeCount >= this.config.repeatComplaintThreshold,
+      pastViralPoster: activity.viralCount > 0
+    };
+  }
+
+  /**
+   * Link two accounts as the same person. Returns every account now in the identity,
+   * or null if either author does not exist.
+   */
+  async link(authorId: string, otherAuthorId: string): Promise<AuthorProfile[] | null> {
+    const [author, other] = await Promise.all([
+      this.repository.findById(authorId),
+      this.repository.findById(otherAuthorId)
+    ]);
+    if (!author || !other) {
+      return null;
+    }
+
+    await this.repository.link(author, other);
+    console.log(`🔗 Linked ${author.platform} author ${author.username} with ${other.platform} author ${other.username}`);
+
+    const linked = await this.repository.findById(author.id);
+    return await this.repository.findLinked(linked || author);
+  }
+
+  /**
+   * Remove an account from the identity it is linked to. Returns false if the author does not exist.
+   */
+  async unlink(authorId: string): Promise<boolean> {
+    const author = await this.repository.findById(authorId);
+    if (!author) {
+      return false;
+    }
+
+    await this.repository.unlink(author);
+    return true;
+  }
+}
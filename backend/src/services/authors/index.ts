@@ -0,0 +1,8 @@
+/**
+ * Authors - Main Export
+ *
+ * Registry of feedback authors per platform, with follower history, sentiment
+ * trajectory and manually linked cross-platform identities.
+ */
+
+export { AuthorRegistry, DEFAULT_AUTHOR_HISTORY_CONFIG, summarizeAuthorHistory } from './AuthorRegistry';
@@ -0,0 +1,227 @@
+import {
+  BackfillProgress,
+  BackfillWindow,
+  IngestionBackfill,
+  IngestionJob,
+  IngestionResult
+} from '@/types/ingestion';
+import { BackfillRepository } from '@/repositories/BackfillRepository';
+
+/**
+ * Split a date range into consecutive windows of at most windowMs, oldest first
+ */
+export function planBackfillWindows(since: Date, until: Date, windowMs: number): Array<{ since: Date; until: Date }> {
+  const windows: Array<{ since: Date; until: Date }> = [];
+
+  for (let start = since.getTime(); start < until.getTime(); start += windowMs) {
+    windows.push({
+      since: new Date(start),
+      until: new Date(Math.min(start + windowMs, until.getTime()))
+    });
+  }
+
+  return windows;
+}
+
+/**
+ * Backfill Store
+ *
+ * Splits a historical backfill into time windows that run as separate queue jobs,
+ * and tracks which windows have completed so an interrupted backfill resumes
+ * with only the windows that are left.
+ */
+export class BackfillStore {
+  private repository: BackfillRepository;
+
+  constructor(repository: BackfillRepository = new BackfillRepository()) {
+    this.repository = repository;
+  }
+
+  /**
+   * Plan a backfill job's windows and hand them to the enqueue function
+   */
+  async start(
+    job: IngestionJob,
+    enqueue: (jobs: IngestionJob[]) => Promise<void>
+  ): Promise<BackfillProgress> {
+    if (!job.backfill || !job.since) {
+      throw new Error('Backfill jobs need a window plan and a start date');
+    }
+
+    const until = job.until || new Date();
+    const plan = planBackfillWindows(job.since, until, job.backfill.windowMs);
+    if (plan.length === 0) {
+      throw new Error('Backfill date range is empty');
+    }
+
+    const backfillJob: IngestionJob = { ...job, until, status: 'running', startedAt: new Date() };
+    await this.repository.createWithWindows({
+      id: job.id,
+      platform: job.platform,
+      job: backfillJob,
+      since: job.since,
+      until,
+      windowMs: job.backfill.windowMs
+    }, plan);
+
+    const backfill = (await this.repository.findById(job.id))!;
+    const windows = await this.repository.getWindows(job.id);
+    await this.enqueueWindows(backfill, windows, enqueue);
+
+    console.log(`🗂️ Started backfill ${job.id}: ${windows.length} windows of ${job.backfill.windowMs}ms (${job.platform})`);
+    return (await this.get(job.id))!;
+  }
+
+  /**
+   * Re-queue every window that hasn't completed and isn't still waiting in the queue
+   */
+  async resume(
+    backfillId: string,
+    enqueue: (jobs: IngestionJob[]) => Promise<void>,
+    isQueued: (jobId: string) => Promise<boolean>
+  ): Promise<BackfillProgress | null> {
+    const backfill = await this.repository.findById(backfillId);
+    if (!backfill) {
+      return null;
+    }
+
+    const remaining: BackfillWindow[] = [];
+    for (const window of await this.repository.getWindows(backfillId)) {
+      if (window.status === 'completed') {
+        continue;
+      }
+      if (window.status === 'queued' && window.jobId && await isQueued(window.jobId)) {
+        continue;
+      }
+      remaining.push(window);
+    }
+
+    if (remaining.length > 0) {
+      await this.enqueueWindows(backfill, remaining, enqueue, `_resume_${Date.now()}`);
+      console.log(`🔁 Resumed backfill ${backfillId}: re-queued ${remaining.length} windows`);
+    }
+
+    return await this.get(backfillId);
+  }
+
+  /**
+   * Point a window at the job now running it, e.g. after a rate limit deferral
+   */
+  async trackWindowJob(job: IngestionJob): Promise<void> {
+    if (!job.backfillId || job.backfillWindow === undefined) {
+      return;
+    }
+
+    await this.repository.markQueued(job.backfillId, [{ index: job.backfillWindow, jobId: job.id }]);
+  }
+
+  /**
+   * Record that a window job finished, successfully or for good. A job that stopped at
+   * maxResults with pages left hands the window to a follow-up job from its cursor,
+   * and the window only completes once the cursor runs out.
+   */
+  async finishWindow(
+    job: IngestionJob,
+    result: IngestionResult | null,
+    enqueue: (jobs: IngestionJob[]) => Promise<void>,
+    error?: string
+  ): Promise<void> {
+    if (!job.backfillId || job.backfillWindow === undefined) {
+      return;
+    }
+
+    if (result?.nextCursor && result.nextCursor !== job.cursor) {
+      const nextJob: IngestionJob = {
+        ...job,
+        id: `${job.backfillId}_w${job.backfillWindow}_p${Date.now()}`,
+        cursor: result.nextCursor,
+        status: 'pending',
+        createdAt: new Date(),
+        startedAt: undefined,
+        completedAt: undefined,
+        error: undefined,
+        progress: { processed: 0 }
+      };
+
+      await enqueue([nextJob]);
+      await this.repository.continueWindow(
+        job.backfillId,
+        job.backfillWindow,
+        result.itemsProcessed,
+        result.nextCursor,
+        nextJob.id
+      );
+      return;
+    }
+
+    await this.repository.finishWindow(
+      job.backfillId,
+      job.backfillWindow,
+      result ? 'completed' : 'failed',
+      result?.itemsProcessed || 0,
+      error
+    );
+  }
+
+  /**
+   * Get a backfill job with its overall progress and windows
+   */
+  async get(backfillId: string): Promise<BackfillProgress | null> {
+    const backfill = await this.repository.findById(backfillId);
+    if (!backfill) {
+      return null;
+    }
+
+    const windows = await this.repository.getWindows(backfillId);
+    const completed = windows.filter(window => window.status === 'completed').length;
+    const failed = windows.filter(window => window.status === 'failed').length;
+    const settled = completed + failed === windows.length;
+
+    return {
+      job: {
+        ...backfill.job,
+        status: backfill.completedAt ? 'completed' : settled ? 'failed' : 'running',
+        completedAt: backfill.completedAt,
+        error: failed > 0 ? `${failed} of ${windows.length} windows failed` : undefined,
+        progress: {
+          processed: windows.reduce((sum, window) => sum + window.itemsProcessed, 0),
+          total: windows.length > 0 ? Math.round((completed / windows.length) * 100) : 100
+        }
+      },
+      windows
+    };
+  }
+
+  /**
+   * Build a window's job from the backfill's template and queue it
+   */
+  private async enqueueWindows(
+    backfill: IngestionBackfill,
+    windows: BackfillWindow[],
+    enqueue: (jobs: IngestionJob[]) => Promise<void>,
+    idSuffix: string = ''
+  ): Promise<void> {
+    const template = backfill.job;
+    const jobs: IngestionJob[] = windows.map(window => ({
+      id: `${backfill.id}_w${window.index}${idSuffix}`,
+      platform: backfill.platform,
+      type: template.backfill!.jobType,
+      query: template.query,
+      userId: template.userId,
+      hashtags: template.hashtags,
+      keywords: template.keywords,
+      maxResults: template.maxResults,
+      since: new Date(window.since),
+      until: new Date(window.until),
+      cursor: window.cursor,
+      backfillId: backfill.id,
+      backfillWindow: window.index,
+      status: 'pending',
+      createdAt: new Date(),
+      progress: { processed: 0 }
+    }));
+
+    await enqueue(jobs);
+    await this.repository.markQueued(backfill.id, jobs.map(job => ({ index: job.backfillWindow!, jobId: job.id })));
+  }
+}
@@ -1,4 +1,5 @@
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { AsyncLocalStorage } from 'async_hooks';
 import { 
   PlatformAdapter, 
   IngestionConfig, 
@@ -7,9 +8,78 @@ import {
   IngestionError, 
   RawFeedbackItem,
   SearchOptions,
-  UserFeedbackOptions
+  UserFeedbackOptions,
+  FeedbackSink,
+  FeedbackPage,
+  RateLimitWindows,
+  ArchivedPayload,
+  PayloadArchiveStore
 } from '@/types/ingestion';
 import { Platform, FeedbackData } from '@/types/feedback';
+import { PlatformRateLimiter, RateLimitExceededError } from './RateLimiter';
+import { RedisManager } from '@/utils/redis-manager';
+
+/**
+ * Thrown when a request is abandoned because its job was cancelled
+ */
+export class IngestionCancelledError extends Error {
+  constructor(public readonly jobId: string) {
+    super(`Ingestion job ${jobId} was cancelled`);
+    this.name = 'IngestionCancelledError';
+  }
+}
+
+// Query parameters whose values are credentials
+const SECRET_QUERY_PARAM = /key|secret|token|password|signature|sig|auth|code/i;
+
+/**
+ * What is safe to keep about a failed request: status, method, the URL with credential
+ * query values masked, and the platform's error code and message. The request config
+ * and headers are never included, since they carry the credentials.
+ */
+export function describeRequestError(error: AxiosError): Record<string, any> {
+  const data: any = error.response?.data;
+  const platformError = data && typeof data === 'object'
+    ? (typeof data.error === 'object' && data.error) || (Array.isArray(data.errors) && data.errors[0]) || data
+    : undefined;
+  const platformMessage = platformError?.message || platformError?.detail || platformError?.error_description
+    || (typeof data?.error === 'string' ? data.error : undefined)
+    || (typeof data === 'string' ? data : undefined);
+
+  return {
+    status: error.response?.status,
+    method: error.config?.method?.toUpperCase(),
+    url: sanitizeUrl(error.config?.url, error.config?.baseURL),
+    errorCode: error.code,
+    responseCode: platformError?.code ?? platformError?.type,
+    responseMessage: typeof platformMessage === 'string' ? platformMessage.slice(0, 500) : undefined
+  };
+}
+
+function sanitizeUrl(url?: string, baseURL?: string): string | undefined {
+  if (!url) {
+    return undefined;
+  }
+
+  try {
+    const parsed = new URL(url, baseURL);
+    parsed.username = '';
+    parsed.password = '';
+    parsed.searchParams.forEach((_, name) => {
+      if (SECRET_QUERY_PARAM.test(name)) {
+        parsed.searchParams.set(name, 'REDACTED');
+      }
+    });
+    return parsed.toString();
+  } catch {
+    return url.split('?')[0];
+  }
+}
+
+interface JobContext {
+  job: IngestionJob;
+  signal?: AbortSignal;
+}
 
 export abstract class BasePlatformAdapter implements PlatformAdapter {
   public readonly platform: Platform;
@@ -17,6 +87,12 @@ export abstract class BasePlatformAdapter implements PlatformAdapter {
   protected httpClient: AxiosInstance;
   protected isInitialized: boolean = false;
   protected isAuthenticated: boolean = false;
+  protected sink: FeedbackSink | null = null;
+  protected archive: PayloadArchiveStore | null = null;
+  // The job a request is made for, so concurrent jobs archive under their own IDs
+  // and requests, retries and waits stop when that job's signal aborts
+  private jobContext = new AsyncLocalStorage<JobContext>();
+  protected rateLimiter: PlatformRateLimiter;
   protected rateLimitInfo: { remaining: number; resetAt: Date } = {
     remaining: 0,
     resetAt: new Date()
@@ -26,6 +102,7 @@ export abstract class BasePlatformAdapter implements PlatformAdapter {
     this.platform = platform;
     this.config = config;
     this.httpClient = this.createHttpClient();
+    this.rateLimiter = new PlatformRateLimiter(platform, config.rateLimit);
   }
 
   /**
@@ -47,6 +124,27 @@ export abstract class BasePlatformAdapter implements PlatformAdapter {
     }
   }
 
+  /**
+   * Set the sink that transformed feedback is persisted to
+   */
+  setSink(sink: FeedbackSink): void {
+    this.sink = sink;
+  }
+
+  /**
+   * Replace the shared rate limit budget, e.g. with an in-process one outside a worker
+   */
+  setRateLimiter(rateLimiter: PlatformRateLimiter): void {
+    this.rateLimiter = rateLimiter;
+  }
+
+  /**
+   * Set the archive raw response bodies are written to
+   */
+  setArchive(archive: PayloadArchiveStore): void {
+    this.archive = archive;
+  }
+
   /**
    * Test connection to the platform
    */
@@ -61,9 +159,17 @@ export abstract class BasePlatformAdapter implements PlatformAdapter {
   }
 
   /**
-   * Fetch feedback based on ingestion job
+   * Fetch feedback based on ingestion job. Aborting the signal stops the job after
+   * its in-flight request, keeping the items fetched so far.
+   */
+  async fetchFeedback(job: IngestionJob, signal?: AbortSignal): Promise<IngestionResult> {
+    return await this.jobContext.run({ job, signal }, () => this.runJob(job));
+  }
+
+  /**
+   * Run a job within its request context
    */
-  async fetchFeedback(job: IngestionJob): Promise<IngestionResult> {
+  private async runJob(job: IngestionJob): Promise<IngestionResult> {
     const result: IngestionResult = {
       success: false,
       platform: this.platform,
@@ -73,61 +179,75 @@ export abstract class BasePlatformAdapter implements PlatformAdapter {
     };
 
     try {
+      // Re-ingest jobs replay archived responses and never call the platform
+      if (job.type === 'reingest') {
+        await this.reingestArchivedPayloads(job, result);
+        result.success = result.errors.length === 0 || result.itemsProcessed > 0;
+        return result;
+      }
+
       if (!this.isInitialized) {
         await this.initialize();
       }
 
-      // Check rate limits before proceeding
-      const rateLimitCheck = await this.checkRateLimit();
-      if (rateLimitCheck.remaining <= 0) {
-        throw new Error(`Rate limit exceeded. Resets at ${rateLimitCheck.resetAt}`);
+      // Stream jobs poll until cancelled
+      if (job.type === 'stream') {
+        await this.streamFeedback(job, result);
+        result.success = !result.errors.some(error => !this.shouldRetry(error));
+        result.rateLimit = await this.checkRateLimit();
+        return result;
       }
 
-      let rawItems: RawFeedbackItem[] = [];
+      // Follow pagination until maxResults is reached or pages run out
+      const maxResults = job.maxResults || this.config.batchSize;
+      const rawItems: RawFeedbackItem[] = [];
+      let cursor = job.cursor;
 
-      switch (job.type) {
-        case 'search':
-          if (!job.query) {
-            throw new Error('Search query is required for search jobs');
-          }
-          rawItems = await this.searchFeedback(job.query, {
-            maxResults: job.maxResults,
+      do {
+        const remaining = maxResults - rawItems.length;
+        let page: FeedbackPage;
+        try {
+          page = await this.fetchPage(job, {
+            maxResults: remaining,
             since: job.since,
-            until: job.until
+            until: job.until,
+            sinceId: job.sinceId,
+            cursor
           });
+        } catch (error) {
+          // A cancelled job still persists the pages it already fetched
+          if (this.isCancelled(job)) {
+            break;
+          }
+          if (rawItems.length === 0) {
+            throw error;
+          }
+
+          // So does one whose later page failed; the cursor stays on the failed page to resume from
+          result.errors.push(this.handleError(error));
           break;
+        }
 
-        case 'user_timeline':
-          if (!job.userId) {
-            throw new Error('User ID is required for user timeline jobs');
-          }
-          rawItems = await this.getUserFeedback(job.userId, {
-            maxResults: job.maxResults,
-            since: job.since,
-            until: job.until
-          });
+        // Platforms with a minimum page size can return more than asked for. Keep what was
+        // asked for and resume from this page, so the rest is fetched rather than skipped
+        if (page.items.length > remaining) {
+          rawItems.push(...page.items.slice(0, remaining));
           break;
+        }
 
-        default:
-          throw new Error(`Unsupported job type: ${job.type}`);
-      }
+        rawItems.push(...page.items);
+        cursor = page.nextCursor !== cursor ? page.nextCursor : undefined;
+      } while (cursor && rawItems.length < maxResults && !this.isCancelled(job));
 
-      // Process each raw item
-      for (const rawItem of rawItems) {
-        try {
-          if (this.validateRawItem(rawItem)) {
-            const feedbackData = this.transformToFeedback(rawItem);
-            // Here you would typically save to database
-            result.itemsProcessed++;
-          } else {
-            result.itemsSkipped++;
-          }
-        } catch (error) {
-          const ingestionError = this.handleError(error);
-          result.errors.push(ingestionError);
-        }
+      if (this.isCancelled(job)) {
+        console.log(`🛑 ${this.platform} job ${job.id} cancelled after fetching ${rawItems.length} items`);
       }
 
+      result.nextCursor = cursor;
+      result.highWater = this.findHighWater(rawItems);
+
+      await this.persistItems(rawItems, job, result);
+
       result.success = result.errors.length === 0 || result.itemsProcessed > 0;
       result.rateLimit = await this.checkRateLimit();
 
@@ -141,10 +261,286 @@ export abstract class BasePlatformAdapter implements PlatformAdapter {
   }
 
   /**
-   * Check current rate limit status
+   * Re-derive a job's items from its archived responses with the current transforms.
+   * When an item appears in several responses the latest capture wins.
+   */
+  protected async reingestArchivedPayloads(job: IngestionJob, result: IngestionResult): Promise<void> {
+    if (!this.archive) {
+      throw new Error('Payload archive is not configured');
+    }
+    if (!job.reingestJobId) {
+      throw new Error('Archived job ID is required for reingest jobs');
+    }
+
+    const payloads = await this.archive.readJob(this.platform, job.reingestJobId);
+    if (payloads.length === 0) {
+      throw new Error(`No archived payloads for ${this.platform} job ${job.reingestJobId}`);
+    }
+
+    const itemsById = new Map<string, RawFeedbackItem>();
+    (await this.parseArchivedPayloads(payloads)).forEach(item => itemsById.set(item.id, item));
+
+    job.progress.total = itemsById.size;
+    await this.persistItems(Array.from(itemsById.values()), job, result);
+  }
+
+  /**
+   * Turn a job's archived response bodies, in capture order, back into raw items.
+   * Adapters that support re-ingestion override this
+   */
+  protected async parseArchivedPayloads(payloads: ArchivedPayload[]): Promise<RawFeedbackItem[]> {
+    throw new Error(`Re-ingestion is not supported for ${this.platform}`);
+  }
+
+  /**
+   * Archive a response fetched for a job; archive failures never fail the request
+   */
+  private async archiveResponse(method: string, url: string, response: AxiosResponse): Promise<void> {
+    const job = this.jobContext.getStore()?.job;
+    if (!this.archive || !job || job.type === 'reingest') {
+      return;
+    }
+
+    try {
+      await this.archive.write({
+        platform: this.platform,
+        jobId: job.id,
+        method,
+        url,
+        status: response.status,
+        capturedAt: new Date(),
+        body: response.data
+      });
+    } catch (error) {
+      console.warn(`⚠️ Failed to archive ${this.platform} response for job ${job.id}:`, error);
+    }
+  }
+
+  /**
+   * Transform raw items and hand them to the sink, accumulating counts on the result
+   */
+  protected async persistItems(rawItems: RawFeedbackItem[], job: IngestionJob, result: IngestionResult): Promise<void> {
+    // Transform each raw item
+    const feedbackItems: FeedbackData[] = [];
+    for (const rawItem of rawItems) {
+      try {
+        if (this.validateRawItem(rawItem)) {
+          feedbackItems.push(this.transformToFeedback(rawItem));
+        } else {
+          result.itemsSkipped++;
+        }
+      } catch (error) {
+        const ingestionError = this.handleError(error);
+        result.errors.push(ingestionError);
+      }
+    }
+
+    // Persist transformed items
+    if (this.sink) {
+      const sinkResult = await this.sink.persist(feedbackItems, job);
+      result.itemsCreated = (result.itemsCreated || 0) + sinkResult.created.length;
+      result.itemsUpdated = (result.itemsUpdated || 0) + sinkResult.updated.length;
+      result.itemsQuarantined = (result.itemsQuarantined || 0) + sinkResult.quarantined.length;
+      result.itemsProcessed += sinkResult.created.length + sinkResult.updated.length + sinkResult.quarantined.length;
+      result.errors.push(...sinkResult.errors);
+    } else {
+      result.itemsProcessed += feedbackItems.length;
+    }
+  }
+
+  /**
+   * Poll the job's source continuously, pushing new items into the sink until the job is cancelled
+   */
+  protected async streamFeedback(job: IngestionJob, result: IngestionResult): Promise<void> {
+    if (!job.query && !job.userId) {
+      throw new Error('Search query or user ID is required for stream jobs');
+    }
+
+    // Each poll only asks for items newer than the last one seen
+    const pollJob: IngestionJob = { ...job, type: job.query ? 'search' : 'user_timeline' };
+    let failures = 0;
+
+    console.log(`📡 Streaming ${this.platform} ${pollJob.type} for job ${job.id}`);
+
+    while (!this.isCancelled(job)) {
+      try {
+        const page = await this.fetchPage(pollJob, {
+          maxResults: job.maxResults || this.config.batchSize,
+          since: pollJob.since,
+          sinceId: pollJob.sinceId
+        });
+
+        await this.persistItems(page.items, job, result);
+
+        const highWater = this.findHighWater(page.items);
+        if (highWater) {
+          pollJob.since = highWater.postedAt;
+          pollJob.sinceId = highWater.externalId;
+          result.highWater = highWater;
+          job.progress.lastProcessedId = highWater.externalId;
+        }
+
+        job.progress.processed = result.itemsProcessed;
+        failures = 0;
+      } catch (error) {
+        if (this.isCancelled(job)) {
+          break;
+        }
+
+        const ingestionError = this.handleError(error);
+
+        // Auth and validation failures won't fix themselves by reconnecting
+        if (!this.shouldRetry(ingestionError)) {
+          result.errors.push(ingestionError);
+          break;
+        }
+
+        const delay = this.calculateRetryDelay(failures++);
+        console.warn(`⚠️ ${this.platform} stream ${job.id} interrupted, reconnecting in ${delay}ms: ${ingestionError.message}`);
+        await this.waitUnlessCancelled(job, delay);
+        continue;
+      }
+
+      await this.sendHeartbeat(job);
+      await this.waitUnlessCancelled(job, this.config.pollInterval);
+    }
+
+    console.log(`🛑 ${this.platform} stream ${job.id} stopped (${result.itemsProcessed} items)`);
+  }
+
+  /**
+   * Record that a stream job is alive
+   */
+  protected async sendHeartbeat(job: IngestionJob): Promise<void> {
+    try {
+      const ttlSeconds = Math.ceil((this.config.pollInterval * 3) / 1000);
+      await RedisManager.cacheUserSession(`ingestion_stream:${job.id}`, {
+        jobId: job.id,
+        platform: this.platform,
+        processed: job.progress.processed,
+        lastHeartbeat: new Date().toISOString()
+      }, ttlSeconds);
+    } catch (error) {
+      console.warn(`⚠️ Failed to record heartbeat for stream ${job.id}:`, error);
+    }
+  }
+
+  /**
+   * Sleep in short slices so a cancelled stream stops promptly
+   */
+  protected async waitUnlessCancelled(job: IngestionJob, ms: number): Promise<void> {
+    const deadline = Date.now() + ms;
+    while (!this.isCancelled(job) && Date.now() < deadline) {
+      await this.sleep(Math.min(1000, deadline - Date.now()));
+    }
+  }
+
+  /**
+   * Whether a job was cancelled, through its abort signal or its status
+   */
+  protected isCancelled(job?: IngestionJob): boolean {
+    const context = this.jobContext.getStore();
+    return !!context?.signal?.aborted || (job || context?.job)?.status === 'cancelled';
+  }
+
+  /**
+   * Stop the current request if its job was cancelled
+   */
+  protected throwIfCancelled(): void {
+    const job = this.jobContext.getStore()?.job;
+    if (job && this.isCancelled(job)) {
+      throw new IngestionCancelledError(job.id);
+    }
+  }
+
+  /**
+   * Fetch a single page of raw items for a job
+   */
+  protected async fetchPage(job: IngestionJob, options: SearchOptions): Promise<FeedbackPage> {
+    switch (job.type) {
+      case 'search':
+        if (!job.query) {
+          throw new Error('Search query is required for search jobs');
+        }
+        return await this.searchFeedbackPage(job.query, options);
+
+      case 'user_timeline':
+        if (!job.userId) {
+          throw new Error('User ID is required for user timeline jobs');
+        }
+        return await this.getUserFeedbackPage(job.userId, options);
+
+      case 'mentions':
+        if (!job.userId) {
+          throw new Error('User ID is required for mentions jobs');
+        }
+        return await this.getMentionsPage(job.userId, options);
+
+      case 'engagement_refresh':
+        if (!job.externalIds || job.externalIds.length === 0) {
+          throw new Error('External IDs are required for engagement refresh jobs');
+        }
+        return { items: await this.getItemsByIds(job.externalIds) };
+
+      default:
+        throw new Error(`Unsupported job type: ${job.type}`);
+    }
+  }
+
+  /**
+   * Search a single page. Adapters with native pagination override this
+   */
+  protected async searchFeedbackPage(query: string, options: SearchOptions): Promise<FeedbackPage> {
+    return { items: await this.searchFeedback(query, options) };
+  }
+
+  /**
+   * Fetch a single page of user feedback. Adapters with native pagination override this
    */
-  async checkRateLimit(): Promise<{ remaining: number; resetAt: Date }> {
-    return this.rateLimitInfo;
+  protected async getUserFeedbackPage(userId: string, options: UserFeedbackOptions): Promise<FeedbackPage> {
+    return { items: await this.getUserFeedback(userId, options) };
+  }
+
+  /**
+   * Fetch a single page of mentions. Adapters that support mentions override this
+   */
+  protected async getMentionsPage(userId: string, options: SearchOptions): Promise<FeedbackPage> {
+    throw new Error(`Mentions are not supported for ${this.platform}`);
+  }
+
+  /**
+   * Re-fetch known items by external ID. Adapters that can look items up override this
+   */
+  protected async getItemsByIds(externalIds: string[]): Promise<RawFeedbackItem[]> {
+    throw new Error(`Engagement refresh is not supported for ${this.platform}`);
+  }
+
+  /**
+   * Find the newest item in a batch, used as the schedule's next high-water mark
+   */
+  protected findHighWater(items: RawFeedbackItem[]): IngestionResult['highWater'] {
+    let newest: RawFeedbackItem | undefined;
+
+    for (const item of items) {
+      if (!newest || item.timestamps.created > newest.timestamps.created) {
+        newest = item;
+      }
+    }
+
+    return newest ? { postedAt: newest.timestamps.created, externalId: newest.id } : undefined;
+  }
+
+  /**
+   * Check current rate limit status from the shared budget
+   */
+  async checkRateLimit(): Promise<{ remaining: number; resetAt: Date; windows?: RateLimitWindows }> {
+    try {
+      const status = await this.rateLimiter.getStatus();
+      return { remaining: status.remaining, resetAt: status.resetAt, windows: status.windows };
+    } catch (error) {
+      console.warn(`⚠️ Could not read ${this.platform} rate limit budget:`, error);
+      return this.rateLimitInfo;
+    }
   }
 
   /**
@@ -156,7 +552,19 @@ export abstract class BasePlatformAdapter implements PlatformAdapter {
     let message = 'Unknown error occurred';
     let code: string | undefined;
 
-    if (axios.isAxiosError(error)) {
+    if (error instanceof RateLimitExceededError) {
+      errorType = 'rate_limit';
+      message = error.message;
+      code = 'budget_exhausted';
+      return {
+        type: errorType,
+        message,
+        code,
+        retryable,
+        timestamp: new Date(),
+        context: { retryAt: error.retryAt }
+      };
+    } else if (axios.isAxiosError(error)) {
       const status = error.response?.status;
       message = error.message;
       code = status?.toString();
@@ -197,7 +605,10 @@ export abstract class BasePlatformAdapter implements PlatformAdapter {
       code,
       retryable,
       timestamp: new Date(),
-      context: error
+      // Never the error itself: an AxiosError's config holds the request's auth headers
+      context: axios.isAxiosError(error)
+        ? describeRequestError(error)
+        : error instanceof Error ? { name: error.name } : undefined
     };
   }
 
@@ -270,26 +681,44 @@ export abstract class BasePlatformAdapter implements PlatformAdapter {
     let lastError: any;
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      // Wait for shared budget before every attempt, retries included
+      await this.acquireRateLimit();
+
       try {
         const response = await this.httpClient.request({
           method,
           url,
+          signal: this.jobContext.getStore()?.signal,
           ...config
         });
 
         // Update rate limit info from response headers
         this.updateRateLimitInfo(response);
+
+        await this.archiveResponse(method, url, response);
         
         return response;
       } catch (error) {
         lastError = error;
+        this.throwIfCancelled();
         const ingestionError = this.handleError(error);
 
+        // Park the shared budget until the platform's retry-after elapses
+        if (axios.isAxiosError(error) && error.response?.status === 429) {
+          const retryAfter = parseInt(error.response.headers?.['retry-after'] || '60');
+          this.feedRateLimit(0, new Date(Date.now() + retryAfter * 1000));
+        }
+
         // Don't retry on last attempt or non-retryable errors
         if (attempt === maxRetries || !this.shouldRetry(ingestionError)) {
           throw error;
         }
 
+        // Rate-limited attempts wait on the shared budget instead of backing off
+        if (ingestionError.type === 'rate_limit') {
+          continue;
+        }
+
         // Calculate delay for retry
         const delay = this.calculateRetryDelay(attempt);
         console.log(`⏳ Retrying ${this.platform} request in ${delay}ms (attempt ${attempt + 1}/${maxRetries})`);
@@ -301,6 +730,40 @@ export abstract class BasePlatformAdapter implements PlatformAdapter {
     throw lastError;
   }
 
+  /**
+   * Block until the shared budget has a token, or give up if the wait is too long
+   */
+  protected async acquireRateLimit(): Promise<void> {
+    const maxWait = this.config.rateLimit.maxWaitMs ?? 60000;
+
+    while (true) {
+      this.throwIfCancelled();
+      const status = await this.rateLimiter.acquire();
+      this.rateLimitInfo = { remaining: status.remaining, resetAt: status.resetAt };
+
+      if (status.allowed) {
+        return;
+      }
+
+      if (status.waitMs > maxWait) {
+        throw new RateLimitExceededError(this.platform, new Date(Date.now() + status.waitMs));
+      }
+
+      console.log(`⏳ ${this.platform} rate limit budget empty, waiting ${status.waitMs}ms`);
+      await this.sleep(status.waitMs);
+    }
+  }
+
+  /**
+   * Feed a platform-reported budget back into the shared bucket
+   */
+  protected feedRateLimit(remaining: number, resetAt: Date): void {
+    this.rateLimitInfo = { remaining, resetAt };
+    this.rateLimiter.recordUpstream(remaining, resetAt).catch(error =>
+      console.warn(`⚠️ Failed to record ${this.platform} rate limit headers:`, error)
+    );
+  }
+
   /**
    * Calculate retry delay with exponential backoff
    */
@@ -311,10 +774,26 @@ export abstract class BasePlatformAdapter implements PlatformAdapter {
   }
 
   /**
-   * Sleep for specified milliseconds
+   * Sleep for specified milliseconds, waking early if the current job is cancelled
    */
   protected sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    const signal = this.jobContext.getStore()?.signal;
+    if (!signal) {
+      return new Promise(resolve => setTimeout(resolve, ms));
+    }
+
+    return new Promise(resolve => {
+      const wake = () => {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, ms);
+      signal.addEventListener('abort', wake);
+      if (signal.aborted) {
+        wake();
+      }
+    });
   }
 
   /**
@@ -322,7 +801,8 @@ export abstract class BasePlatformAdapter implements PlatformAdapter {
    */
   protected updateRateLimitInfo(response: AxiosResponse): void {
     // This will be overridden by platform-specific implementations
-    // as each platform has different header names for rate limiting
+    // as each platform has different header names for rate limiting.
+    // Overrides should report parsed values through feedRateLimit
   }
 
   /**
@@ -0,0 +1,138 @@
+import { ContentFilterConfig } from '@/types/ingestion';
+import { FeedbackData } from '@/types/feedback';
+import { cache } from '@/utils/database';
+import { ContentFilter } from './ContentFilter';
+
+jest.mock('@/utils/database', () => ({
+  cache: { evalScript: jest.fn() }
+}));
+
+const evalScript = cache.evalScript as jest.Mock;
+
+const config: ContentFilterConfig = {
+  enabled: true,
+  quarantineThreshold: 0.6,
+  minAccountAgeDays: 7,
+  minFollowerRatio: 0.1,
+  minFollowingForRatio: 100,
+  burstWindowMs: 600000,
+  burstMaxPosts: 5,
+  duplicateWindowMs: 3600000,
+  duplicateSimilarity: 0.8,
+  minDuplicateTokens: 8
+};
+
+const item = (overrides: Partial<FeedbackData> = {}): FeedbackData => ({
+  id: 'item-1',
+  platform: 'twitter',
+  external_id: '1001',
+  content: 'The checkout page keeps timing out when I pay with a card',
+  author: { username: 'jane', followerCount: 250, followingCount: 180 },
+  engagement: { likes: 0, shares: 0, comments: 0 },
+  posted_at: new Date('2024-05-01T12:00:00Z'),
+  ingested_at: new Date('2024-05-01T12:01:00Z'),
+  ...overrides
+});
+
+/**
+ * Answer the burst script with a post count and the near-duplicate script with candidates
+ */
+function mockRedis(burstPosts: number, candidates: string[] = []): void {
+  evalScript.mockImplementation(async (script: string) => (script.includes('ZCOUNT') ? burstPosts : candidates));
+}
+
+describe('ContentFilter', () => {
+  const filter = new ContentFilter(config);
+
+  beforeEach(() => {
+    evalScript.mockReset();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('passes ordinary feedback with a zero score', async () => {
+    mockRedis(1);
+    expect(await filter.evaluate(item())).toEqual({ quarantine: false, score: 0, reasons: [], duplicateOf: undefined });
+  });
+
+  it('skips scoring entirely when disabled', async () => {
+    const verdict = await new ContentFilter({ ...config, enabled: false }).evaluate(item({ content: 'WIN FREE PRIZE 5555555' }));
+    expect(verdict).toEqual({ quarantine: false, score: 0, reasons: [] });
+    expect(evalScript).not.toHaveBeenCalled();
+  });
+
+  it('adds up signal weights and quarantines at the threshold', async () => {
+    mockRedis(1);
+    const verdict = await filter.evaluate(item({
+      author: {
+        username: 'bot123',
+        followerCount: 2,
+        followingCount: 900,
+        accountCreatedAt: new Date(Date.now() - 2 * 86400000)
+      }
+    }));
+
+    expect(verdict.reasons.map(reason => reason.code)).toEqual(['new_account', 'low_follower_ratio']);
+    expect(verdict.score).toBeCloseTo(0.6);
+    expect(verdict.quarantine).toBe(true);
+  });
+
+  it('keeps a single weak signal below the threshold', async () => {
+    mockRedis(1);
+    const verdict = await filter.evaluate(item({ content: 'Visit our store for a discount, use code 20240501' }));
+
+    expect(verdict.reasons.map(reason => reason.code)).toEqual(['spam_text']);
+    expect(verdict.score).toBe(0.5);
+    expect(verdict.quarantine).toBe(false);
+  });
+
+  it('trusts verified authors regardless of account signals', async () => {
+    mockRedis(1);
+    const verdict = await filter.evaluate(item({
+      author: { username: 'brand', verified: true, followerCount: 0, followingCount: 5000, accountCreatedAt: new Date() }
+    }));
+    expect(verdict.reasons).toEqual([]);
+  });
+
+  it('flags posting bursts above the per-window limit', async () => {
+    mockRedis(config.burstMaxPosts + 1);
+    const verdict = await filter.evaluate(item());
+
+    expect(verdict.reasons.map(reason => reason.code)).toEqual(['posting_burst']);
+    expect(verdict.score).toBe(0.4);
+  });
+
+  it('quarantines a near-duplicate on its own and caps the score at 1', async () => {
+    const earlier = item();
+    mockRedis(config.burstMaxPosts + 1);
+    const signature = (await captureSignature(earlier)).join(',');
+
+    mockRedis(config.burstMaxPosts + 1, ['twitter:999', signature]);
+    const verdict = await filter.evaluate(item({ external_id: '1002' }));
+
+    expect(verdict.duplicateOf).toBe('twitter:999');
+    expect(verdict.reasons.map(reason => reason.code)).toEqual(['posting_burst', 'near_duplicate']);
+    expect(verdict.score).toBe(1);
+    expect(verdict.quarantine).toBe(true);
+  });
+
+  it('still scores text and account signals when Redis is unavailable', async () => {
+    evalScript.mockRejectedValue(new Error('Redis connection lost'));
+    const verdict = await filter.evaluate(item({ content: 'Visit our store for a discount, use code 20240501' }));
+
+    expect(verdict.reasons.map(reason => reason.code)).toEqual(['spam_text']);
+    expect(verdict.quarantine).toBe(false);
+  });
+
+  /**
+   * The signature the index stores for an item, taken from its call to the lookup script
+   */
+  async function captureSignature(feedback: FeedbackData): Promise<number[]> {
+    await filter.evaluate(feedback);
+    const [, , args] = evalScript.mock.calls.find(([script]) => !script.includes('ZCOUNT'));
+    return (args[1] as string).split(',').map(Number);
+  }
+});
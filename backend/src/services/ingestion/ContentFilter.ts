@@ -0,0 +1,166 @@
+import { ContentFilterConfig, FilterReason, FilterVerdict } from '@/types/ingestion';
+import { FeedbackData } from '@/types/feedback';
+import { TextPreprocessor } from '@/services/nlp/TextPreprocessor';
+import { cache } from '@/utils/database';
+import { REDIS_KEYS } from '@/utils/redis-keys';
+import { stableItemId } from './fieldMapping';
+import { NearDuplicateIndex } from './NearDuplicateIndex';
+
+// How much each signal counts towards the quarantine threshold; a near-duplicate alone is enough
+const REASON_WEIGHTS: Record<FilterReason['code'], number> = {
+  spam_text: 0.5,
+  excessive_repetition: 0.3,
+  new_account: 0.3,
+  low_follower_ratio: 0.3,
+  posting_burst: 0.4,
+  near_duplicate: 1
+};
+
+/**
+ * Record a post in its author's timeline and count posts within the burst window of it.
+ *
+ * KEYS: the author's posts sorted by posted time
+ * ARGV: posted time in ms, member, burst window in ms
+ */
+const BURST_SCRIPT = `
+local postedAt = tonumber(ARGV[1])
+local window = tonumber(ARGV[3])
+
+redis.call('ZADD', KEYS[1], postedAt, ARGV[2])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', postedAt - window * 2)
+redis.call('PEXPIRE', KEYS[1], window * 2)
+return redis.call('ZCOUNT', KEYS[1], postedAt - window, postedAt + window)
+`;
+
+/**
+ * Content Filter
+ *
+ * Scores new items at ingestion time for spam-like text, bot-like authors
+ * (new accounts, lopsided follower ratios, posting bursts) and copy-paste
+ * brigades (near-duplicates of recent items). Items reaching the threshold
+ * are quarantined instead of stored. Signals needing Redis are skipped when
+ * it is unavailable, so filtering never blocks ingestion.
+ */
+export class ContentFilter {
+  private config: ContentFilterConfig;
+  private duplicateIndex: NearDuplicateIndex;
+
+  constructor(config: ContentFilterConfig) {
+    this.config = config;
+    this.duplicateIndex = new NearDuplicateIndex(
+      config.duplicateWindowMs,
+      config.duplicateSimilarity,
+      config.minDuplicateTokens
+    );
+  }
+
+  /**
+   * Score a new item and decide whether to quarantine it
+   */
+  async evaluate(item: FeedbackData): Promise<FilterVerdict> {
+    if (!this.config.enabled) {
+      return { quarantine: false, score: 0, reasons: [] };
+    }
+
+    const member = `${item.platform}:${item.external_id || stableItemId(item.content, item.author.username, item.posted_at)}`;
+    const reasons: FilterReason[] = [
+      ...this.checkText(item),
+      ...this.checkAuthor(item),
+      ...(await this.checkBurst(item, member))
+    ];
+
+    let duplicateOf: string | undefined;
+    try {
+      const match = await this.duplicateIndex.findAndAdd(member, item.content);
+      if (match) {
+        duplicateOf = match.member;
+        reasons.push(this.reason('near_duplicate', `${Math.round(match.similarity * 100)}% similar to ${match.member}`));
+      }
+    } catch (error) {
+      console.warn(`⚠️ Near-duplicate check skipped for ${member}:`, error);
+    }
+
+    const score = Math.min(1, reasons.reduce((total, reason) => total + reason.weight, 0));
+
+    return {
+      quarantine: score >= this.config.quarantineThreshold,
+      score,
+      reasons,
+      duplicateOf
+    };
+  }
+
+  /**
+   * Text heuristics shared with analysis-time quality assessment
+   */
+  private checkText(item: FeedbackData): FilterReason[] {
+    const reasons: FilterReason[] = [];
+
+    if (TextPreprocessor.isLikelySpam(item.content)) {
+      reasons.push(this.reason('spam_text', 'Matches several spam indicators'));
+    }
+    if (TextPreprocessor.hasExcessiveRepetition(item.content)) {
+      reasons.push(this.reason('excessive_repetition', 'A single word makes up most of the text'));
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Account signals, where the platform provides them. Verified authors are trusted.
+   */
+  private checkAuthor(item: FeedbackData): FilterReason[] {
+    const { author } = item;
+    const reasons: FilterReason[] = [];
+
+    if (author.verified) {
+      return reasons;
+    }
+
+    if (author.accountCreatedAt) {
+      const ageDays = (Date.now() - new Date(author.accountCreatedAt).getTime()) / 86400000;
+      if (ageDays < this.config.minAccountAgeDays) {
+        reasons.push(this.reason('new_account', `Account is ${Math.max(0, Math.floor(ageDays))} days old`));
+      }
+    }
+
+    if (author.followingCount !== undefined && author.followingCount >= this.config.minFollowingForRatio) {
+      const ratio = (author.followerCount || 0) / author.followingCount;
+      if (ratio < this.config.minFollowerRatio) {
+        reasons.push(this.reason(
+          'low_follower_ratio',
+          `${author.followerCount || 0} followers for ${author.followingCount} followed`
+        ));
+      }
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Count the author's posts around this one's posting time
+   */
+  private async checkBurst(item: FeedbackData, member: string): Promise<FilterReason[]> {
+    try {
+      const postedAt = item.posted_at ? new Date(item.posted_at).getTime() : Date.now();
+      const posts = await cache.evalScript<number>(
+        BURST_SCRIPT,
+        [REDIS_KEYS.INGESTION_AUTHOR_POSTS(item.platform, item.author.username)],
+        [postedAt, member, this.config.burstWindowMs]
+      );
+
+      if (posts > this.config.burstMaxPosts) {
+        const minutes = Math.round(this.config.burstWindowMs / 60000);
+        return [this.reason('posting_burst', `${posts} posts by ${item.author.username} within ${minutes} minutes`)];
+      }
+    } catch (error) {
+      console.warn(`⚠️ Posting burst check skipped for ${member}:`, error);
+    }
+
+    return [];
+  }
+
+  private reason(code: FilterReason['code'], detail: string): FilterReason {
+    return { code, weight: REASON_WEIGHTS[code], detail };
+  }
+}
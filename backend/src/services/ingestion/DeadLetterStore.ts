@@ -0,0 +1,223 @@
+import crypto from 'crypto';
+import {
+  DeadLetterEntry,
+  DeadLetterFilters,
+  DeadLetterRetryResult,
+  IngestionConfig,
+  IngestionError,
+  IngestionJob
+} from '@/types/ingestion';
+import { DeadLetterRepository } from '@/repositories/DeadLetterRepository';
+import { IngestionManager } from './IngestionManager';
+import { PiiRedactor } from '@/services/privacy/PiiRedactor';
+import { selectItems, updatePath } from './fieldMapping';
+
+// Config fields holding secrets; a change to any of them releases parked auth failures
+const CREDENTIAL_FIELD = /key|secret|token|password|clientid/i;
+
+// Entries loaded at a time while retrying
+const RETRY_PAGE_SIZE = 100;
+
+/**
+ * Hash an adapter's credential fields so a change can be detected without storing them
+ */
+export function credentialFingerprint(config: IngestionConfig): string {
+  const credentials = Object.entries(config)
+    .filter(([field, value]) => CREDENTIAL_FIELD.test(field) && typeof value === 'string')
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  return crypto.createHash('sha256').update(JSON.stringify(credentials)).digest('hex');
+}
+
+/**
+ * Dead Letter Store
+ *
+ * Keeps ingestion jobs that ran out of attempts together with every classified
+ * error they hit, and replays them as fresh jobs on request.
+ */
+export class DeadLetterStore {
+  private ingestionManager: IngestionManager;
+  private repository: DeadLetterRepository;
+  private redactor: PiiRedactor | null;
+
+  constructor(
+    ingestionManager: IngestionManager,
+    repository: DeadLetterRepository = new DeadLetterRepository(),
+    redactor: PiiRedactor | null = null
+  ) {
+    this.ingestionManager = ingestionManager;
+    this.repository = repository;
+    this.redactor = redactor;
+  }
+
+  /**
+   * Record a failed job. Auth failures are parked against the current credentials.
+   * Webhook item content and error details are redacted, since they carry user content.
+   */
+  async capture(job: IngestionJob, errors: IngestionError[], attempts: number): Promise<DeadLetterEntry> {
+    const errorType = this.classify(errors);
+    const config = this.ingestionManager.getAdapterConfig(job.platform);
+
+    const entry = await this.repository.record({
+      jobId: job.id,
+      platform: job.platform,
+      jobType: job.type,
+      job: this.redactJob(job),
+      errors: this.redactor ? this.redactor.redactValue(errors) : errors,
+      errorType,
+      attempts,
+      status: errorType === 'auth_error' ? 'parked' : 'failed',
+      credentialFingerprint: config ? credentialFingerprint(config) : undefined
+    });
+
+    console.warn(`☠️ Dead-lettered ingestion job ${job.id} (${errorType}, ${attempts} attempts)`);
+    return entry;
+  }
+
+  /**
+   * List dead letters
+   */
+  async list(filters: DeadLetterFilters = {}): Promise<{ entries: DeadLetterEntry[]; total: number }> {
+    return await this.repository.list(filters);
+  }
+
+  /**
+   * Get a single dead letter
+   */
+  async get(id: string): Promise<DeadLetterEntry | null> {
+    return await this.repository.findById(id);
+  }
+
+  /**
+   * Replay matching dead letters as new jobs through the given requeue function, a page at a
+   * time until every match, or the first `limit` of them, has been tried.
+   * Parked auth failures are skipped while the platform's credentials are unchanged.
+   */
+  async retry(
+    filters: DeadLetterFilters,
+    requeue: (job: IngestionJob) => Promise<void>
+  ): Promise<DeadLetterRetryResult> {
+    const result: DeadLetterRetryResult = { requeued: [], skipped: [], remaining: 0 };
+
+    // Matches are fixed up front, since replayed entries drop out of the default status filter
+    const ids = await this.repository.listIds({
+      ...filters,
+      // Without explicit IDs only entries that haven't been replayed yet are picked up
+      status: filters.status || (filters.ids ? undefined : ['failed', 'parked'])
+    });
+    const selected = filters.limit ? ids.slice(0, filters.limit) : ids;
+    result.remaining = ids.length - selected.length;
+
+    for (let i = 0; i < selected.length; i += RETRY_PAGE_SIZE) {
+      const pageIds = selected.slice(i, i + RETRY_PAGE_SIZE);
+      const { entries } = await this.repository.list({ ids: pageIds, limit: pageIds.length });
+
+      for (const entry of entries) {
+        await this.retryEntry(entry, requeue, result);
+      }
+    }
+
+    if (result.requeued.length > 0) {
+      console.log(`🔁 Replayed ${result.requeued.length} dead-lettered ingestion jobs`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Delete matching dead letters
+   */
+  async purge(filters: DeadLetterFilters): Promise<number> {
+    const deleted = await this.repository.purge(filters);
+    if (deleted > 0) {
+      console.log(`🧹 Purged ${deleted} dead-lettered ingestion jobs`);
+    }
+    return deleted;
+  }
+
+  /**
+   * Replay one entry as a new job, recording it as requeued or skipped
+   */
+  private async retryEntry(
+    entry: DeadLetterEntry,
+    requeue: (job: IngestionJob) => Promise<void>,
+    result: DeadLetterRetryResult
+  ): Promise<void> {
+    const reason = this.getSkipReason(entry);
+    if (reason) {
+      result.skipped.push({ id: entry.id, reason });
+      return;
+    }
+
+    const job: IngestionJob = {
+      ...entry.job,
+      id: `${entry.jobId}_retry_${Date.now()}`,
+      status: 'pending',
+      progress: { ...entry.job.progress, processed: 0 },
+      createdAt: new Date(),
+      startedAt: undefined,
+      completedAt: undefined,
+      error: undefined
+    };
+
+    try {
+      await requeue(job);
+      await this.repository.markRetried(entry.id, job.id);
+      result.requeued.push({ id: entry.id, jobId: job.id });
+    } catch (error) {
+      result.skipped.push({
+        id: entry.id,
+        reason: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Why an entry can't be replayed right now, if anything
+   */
+  private getSkipReason(entry: DeadLetterEntry): string | null {
+    if (entry.status === 'retried') {
+      return `Already retried as ${entry.retryJobId}`;
+    }
+
+    const config = this.ingestionManager.getAdapterConfig(entry.platform);
+    if (!config) {
+      return `No adapter registered for platform: ${entry.platform}`;
+    }
+
+    if (entry.status === 'parked' && entry.credentialFingerprint === credentialFingerprint(config)) {
+      return 'Credentials have not changed since the auth failure';
+    }
+
+    return null;
+  }
+
+  /**
+   * Redact the mapped content of a webhook job's delivered items. The rest of the payload is
+   * kept as received, so a retry maps the same IDs and authors.
+   */
+  private redactJob(job: IngestionJob): IngestionJob {
+    const redactor = this.redactor;
+    if (!redactor || !job.webhookDelivery) {
+      return job;
+    }
+
+    const { mapping } = job.webhookDelivery;
+    const payload = JSON.parse(JSON.stringify(job.webhookDelivery.payload ?? null));
+    for (const item of selectItems(payload, mapping.items)) {
+      updatePath(item, mapping.content, value => (typeof value === 'string' ? redactor.redact(value).text : value));
+    }
+
+    return { ...job, webhookDelivery: { ...job.webhookDelivery, payload } };
+  }
+
+  /**
+   * Pick the error type an entry is filed under; auth failures take precedence
+   */
+  private classify(errors: IngestionError[]): IngestionError['type'] {
+    if (errors.some(error => error.type === 'auth_error')) {
+      return 'auth_error';
+    }
+    return errors[errors.length - 1]?.type || 'api_error';
+  }
+}
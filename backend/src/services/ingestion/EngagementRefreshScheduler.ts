@@ -0,0 +1,243 @@
+import cron from 'node-cron';
+import { Platform, RiskLevel } from '@/types/feedback';
+import { IngestionManager } from './IngestionManager';
+import { ViralityAnalysisService } from '../virality/ViralityAnalysisService';
+import {
+  EngagementRefreshCandidate,
+  EngagementSnapshotRepository
+} from '@/repositories/EngagementSnapshotRepository';
+
+export interface EngagementRefreshTier {
+  maxAgeHours: number;
+  intervalMinutes: number;
+}
+
+export interface EngagementRefreshConfig {
+  enabled: boolean;
+  cronExpression: string;
+  platforms: Platform[];
+  riskLevels: RiskLevel[];
+  // Refresh interval by item age; items older than the last tier are no longer polled
+  cadence: EngagementRefreshTier[];
+  batchSize: number;
+  snapshotRetentionDays: number;
+}
+
+export interface EngagementRefreshRunResult {
+  candidates: number;
+  refreshed: number;
+  reanalyzed: number;
+  errors: Array<{ platform: Platform; error: string }>;
+}
+
+/**
+ * Engagement Refresh Scheduler
+ *
+ * Re-polls engagement for recent risky feedback, polling young items often and
+ * backing off as they age. Each refresh records a snapshot through the ingestion
+ * sink and re-runs virality so velocity reflects measured deltas.
+ */
+export class EngagementRefreshScheduler {
+  private ingestionManager: IngestionManager;
+  private viralityAnalysisService: ViralityAnalysisService;
+  private snapshotRepository: EngagementSnapshotRepository;
+  private config: EngagementRefreshConfig;
+  private task: cron.ScheduledTask | null = null;
+  private isTicking: boolean = false;
+  private lastPrunedAt: Date | null = null;
+
+  constructor(
+    ingestionManager: IngestionManager,
+    viralityAnalysisService: ViralityAnalysisService,
+    config: EngagementRefreshConfig,
+    snapshotRepository: EngagementSnapshotRepository = new EngagementSnapshotRepository()
+  ) {
+    this.ingestionManager = ingestionManager;
+    this.viralityAnalysisService = viralityAnalysisService;
+    this.snapshotRepository = snapshotRepository;
+    this.config = {
+      ...config,
+      cadence: [...config.cadence].sort((a, b) => a.maxAgeHours - b.maxAgeHours)
+    };
+  }
+
+  /**
+   * Start polling on the configured cron expression
+   */
+  start(): void {
+    if (!this.config.enabled) {
+      console.log('📈 Engagement refresh is disabled');
+      return;
+    }
+
+    if (!cron.validate(this.config.cronExpression)) {
+      throw new Error(`Invalid cron expression: ${this.config.cronExpression}`);
+    }
+
+    this.task = cron.schedule(this.config.cronExpression, () => {
+      this.runOnce().catch(error => {
+        console.error('❌ Engagement refresh run failed:', error);
+      });
+    });
+
+    console.log(`📈 Engagement refresh started (${this.config.cronExpression})`);
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.task) {
+      this.task.stop();
+      this.task = null;
+      console.log('📈 Engagement refresh stopped');
+    }
+  }
+
+  /**
+   * Refresh every item that is due, then re-score the ones that got a new snapshot
+   */
+  async runOnce(now: Date = new Date()): Promise<EngagementRefreshRunResult> {
+    const result: EngagementRefreshRunResult = {
+      candidates: 0,
+      refreshed: 0,
+      reanalyzed: 0,
+      errors: []
+    };
+
+    // Skip overlapping ticks while a slow refresh is still running
+    if (this.isTicking) {
+      return result;
+    }
+    this.isTicking = true;
+
+    try {
+      const maxAgeHours = this.config.cadence[this.config.cadence.length - 1]?.maxAgeHours || 0;
+      const candidates = await this.snapshotRepository.findRefreshCandidates({
+        platforms: this.config.platforms.filter(platform => this.ingestionManager.isPlatformRegistered(platform)),
+        riskLevels: this.config.riskLevels,
+        postedAfter: new Date(now.getTime() - maxAgeHours * 60 * 60 * 1000),
+        // Over-fetch so items that aren't due yet don't crowd out ones that are
+        limit: this.config.batchSize * 5
+      });
+
+      const due = candidates
+        .filter(candidate => this.isDue(candidate, now))
+        .slice(0, this.config.batchSize);
+      result.candidates = due.length;
+
+      for (const [platform, items] of this.groupByPlatform(due)) {
+        try {
+          await this.refreshPlatform(platform, items, now, result);
+        } catch (error) {
+          result.errors.push({
+            platform,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+
+      await this.pruneSnapshots(now);
+
+      if (due.length > 0) {
+        console.log(`📈 Engagement refresh: ${result.refreshed}/${due.length} refreshed, ${result.reanalyzed} re-scored`);
+      }
+    } finally {
+      this.isTicking = false;
+    }
+
+    return result;
+  }
+
+  /**
+   * Refresh interval for an item of the given age, or null once it has aged out
+   */
+  getRefreshInterval(ageHours: number): number | null {
+    const tier = this.config.cadence.find(entry => ageHours <= entry.maxAgeHours);
+    return tier ? tier.intervalMinutes * 60 * 1000 : null;
+  }
+
+  /**
+   * Whether an item's last snapshot is older than its current interval
+   */
+  private isDue(candidate: EngagementRefreshCandidate, now: Date): boolean {
+    const ageHours = (now.getTime() - new Date(candidate.postedAt).getTime()) / (60 * 60 * 1000);
+    const interval = this.getRefreshInterval(ageHours);
+    if (interval === null) {
+      return false;
+    }
+
+    return !candidate.lastCapturedAt ||
+      now.getTime() - new Date(candidate.lastCapturedAt).getTime() >= interval;
+  }
+
+  /**
+   * Re-fetch one platform's items and re-run virality for those that were updated
+   */
+  private async refreshPlatform(
+    platform: Platform,
+    candidates: EngagementRefreshCandidate[],
+    startedAt: Date,
+    result: EngagementRefreshRunResult
+  ): Promise<void> {
+    const job = this.ingestionManager.createEngagementRefreshJob(
+      platform,
+      candidates.map(candidate => candidate.externalId)
+    );
+    const jobResult = await this.ingestionManager.runJob(job);
+
+    if (!jobResult.success) {
+      throw new Error(jobResult.errors[0]?.message || `Engagement refresh failed for ${platform}`);
+    }
+
+    // Only items the platform still returned got a fresh snapshot
+    const latest = await this.snapshotRepository.findLatestCapturedAt(
+      candidates.map(candidate => candidate.feedbackId)
+    );
+    const refreshed = candidates.filter(candidate => {
+      const capturedAt = latest.get(candidate.feedbackId);
+      return capturedAt !== undefined && new Date(capturedAt).getTime() >= startedAt.getTime();
+    });
+    result.refreshed += refreshed.length;
+
+    for (const candidate of refreshed) {
+      try {
+        await this.viralityAnalysisService.reanalyzeWithUpdatedEngagement(candidate.feedbackId);
+        result.reanalyzed++;
+      } catch (error) {
+        console.warn(`⚠️ Virality re-analysis failed for feedback ${candidate.feedbackId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Drop snapshots past the retention window, at most once an hour
+   */
+  private async pruneSnapshots(now: Date): Promise<void> {
+    if (this.lastPrunedAt && now.getTime() - this.lastPrunedAt.getTime() < 60 * 60 * 1000) {
+      return;
+    }
+    this.lastPrunedAt = now;
+
+    try {
+      const cutoff = new Date(now.getTime() - this.config.snapshotRetentionDays * 24 * 60 * 60 * 1000);
+      const deleted = await this.snapshotRepository.deleteOlderThan(cutoff);
+      if (deleted > 0) {
+        console.log(`🧹 Pruned ${deleted} engagement snapshots`);
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to prune engagement snapshots:', error);
+    }
+  }
+
+  /**
+   * Group candidates by platform
+   */
+  private groupByPlatform(candidates: EngagementRefreshCandidate[]): Map<Platform, EngagementRefreshCandidate[]> {
+    const groups = new Map<Platform, EngagementRefreshCandidate[]>();
+    candidates.forEach(candidate => {
+      groups.set(candidate.platform, [...(groups.get(candidate.platform) || []), candidate]);
+    });
+    return groups;
+  }
+}
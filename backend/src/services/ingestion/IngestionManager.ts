@@ -4,27 +4,51 @@ import {
   IngestionResult, 
   IngestionConfig, 
   IngestionMetrics,
-  IngestionSchedule
+  IngestionSchedule,
+  FileImportSource,
+  FileImportReport,
+  WebhookSource,
+  PayloadArchiveStore
 } from '@/types/ingestion';
 import { Platform } from '@/types/feedback';
 import { FeedbackRepository } from '@/repositories/FeedbackRepository';
+import { IngestionCheckpointRepository } from '@/repositories/IngestionCheckpointRepository';
 import { RedisManager } from '@/utils/redis-manager';
 import { REDIS_KEYS } from '@/utils/redis-keys';
+import { IngestionSink } from './IngestionSink';
+import { ContentFilter } from './ContentFilter';
+import { PiiRedactor } from '@/services/privacy';
 
 export class IngestionManager {
   private adapters: Map<Platform, PlatformAdapter> = new Map();
   private activeJobs: Map<string, IngestionJob> = new Map();
+  private backgroundJobs: Set<string> = new Set();
+  private abortControllers: Map<string, AbortController> = new Map();
   private feedbackRepository: FeedbackRepository;
+  private sink: IngestionSink;
+  private checkpointRepository: IngestionCheckpointRepository;
+  private archive: PayloadArchiveStore | null;
   private isRunning: boolean = false;
 
-  constructor() {
+  constructor(
+    archive: PayloadArchiveStore | null = null,
+    contentFilter: ContentFilter | null = null,
+    piiRedactor: PiiRedactor | null = null
+  ) {
     this.feedbackRepository = new FeedbackRepository();
+    this.sink = new IngestionSink(this.feedbackRepository, undefined, contentFilter, undefined, piiRedactor);
+    this.checkpointRepository = new IngestionCheckpointRepository();
+    this.archive = archive;
   }
 
   /**
    * Register a platform adapter
    */
   registerAdapter(adapter: PlatformAdapter): void {
+    adapter.setSink(this.sink);
+    if (this.archive) {
+      adapter.setArchive(this.archive);
+    }
     this.adapters.set(adapter.platform, adapter);
     console.log(`📝 Registered ${adapter.platform} adapter`);
   }
@@ -50,9 +74,41 @@ export class IngestionManager {
   }
 
   /**
-   * Start an ingestion job
+   * Start an ingestion job in the background
    */
   async startJob(job: IngestionJob): Promise<string> {
+    const adapter = await this.prepareJob(job);
+
+    // Run job asynchronously
+    this.backgroundJobs.add(job.id);
+    this.executeJob(job, adapter)
+      .catch(error => {
+        console.error(`❌ Job ${job.id} failed:`, error);
+      })
+      .finally(() => this.backgroundJobs.delete(job.id));
+
+    return job.id;
+  }
+
+  /**
+   * Number of jobs started with startJob that are still running in this process
+   */
+  getBackgroundJobCount(): number {
+    return this.backgroundJobs.size;
+  }
+
+  /**
+   * Run an ingestion job to completion
+   */
+  async runJob(job: IngestionJob): Promise<IngestionResult> {
+    const adapter = await this.prepareJob(job);
+    return await this.executeJob(job, adapter);
+  }
+
+  /**
+   * Mark a job as running and resolve its adapter
+   */
+  private async prepareJob(job: IngestionJob): Promise<PlatformAdapter> {
     if (!this.isRunning) {
       throw new Error('Ingestion manager is not running');
     }
@@ -66,31 +122,43 @@ export class IngestionManager {
     job.status = 'running';
     job.startedAt = new Date();
     this.activeJobs.set(job.id, job);
+    this.abortControllers.set(job.id, new AbortController());
 
     // Store job in Redis for persistence
     await RedisManager.cacheUserSession(`ingestion_job:${job.id}`, job);
 
     console.log(`🔄 Starting ingestion job ${job.id} for ${job.platform}`);
 
-    // Run job asynchronously
-    this.executeJob(job, adapter).catch(error => {
-      console.error(`❌ Job ${job.id} failed:`, error);
-    });
-
-    return job.id;
+    return adapter;
   }
 
   /**
    * Execute an ingestion job
    */
-  private async executeJob(job: IngestionJob, adapter: PlatformAdapter): Promise<void> {
+  private async executeJob(job: IngestionJob, adapter: PlatformAdapter): Promise<IngestionResult> {
+    let result: IngestionResult = {
+      success: false,
+      platform: job.platform,
+      itemsProcessed: 0,
+      itemsSkipped: 0,
+      errors: []
+    };
+
     try {
-      const result = await adapter.fetchFeedback(job);
+      result = await adapter.fetchFeedback(job, this.abortControllers.get(job.id)?.signal);
       
       // Update job progress
       job.progress.processed = result.itemsProcessed;
-      job.status = result.success ? 'completed' : 'failed';
-      job.completedAt = new Date();
+      if (result.highWater) {
+        job.progress.lastProcessedId = result.highWater.externalId;
+      }
+      // Keep the cancelled status of jobs stopped through cancelJob
+      if (job.status === 'cancelled') {
+        result.cancelled = true;
+      } else {
+        job.status = result.success ? 'completed' : 'failed';
+      }
+      job.completedAt = job.completedAt || new Date();
 
       if (!result.success && result.errors.length > 0) {
         job.error = result.errors.map(e => e.message).join('; ');
@@ -99,21 +167,96 @@ export class IngestionManager {
       // Update metrics
       await this.updateMetrics(job.platform, result);
 
-      console.log(`✅ Job ${job.id} completed: ${result.itemsProcessed} items processed`);
+      // Advance the schedule's high-water mark once items are committed
+      await this.commitCheckpoint(job, result);
+
+      console.log(job.status === 'cancelled'
+        ? `🛑 Job ${job.id} cancelled: ${result.itemsProcessed} items processed`
+        : `✅ Job ${job.id} completed: ${result.itemsProcessed} items processed`);
 
     } catch (error) {
-      job.status = 'failed';
-      job.error = error instanceof Error ? error.message : 'Unknown error';
-      job.completedAt = new Date();
+      if (job.status === 'cancelled') {
+        result.cancelled = true;
+      } else {
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : 'Unknown error';
+      }
+      job.completedAt = job.completedAt || new Date();
+      result.errors.push(adapter.handleError(error));
       
       console.error(`❌ Job ${job.id} failed:`, error);
     } finally {
       // Clean up
       this.activeJobs.delete(job.id);
+      this.abortControllers.delete(job.id);
       
       // Update job in Redis
       await RedisManager.cacheUserSession(`ingestion_job:${job.id}`, job);
     }
+
+    return result;
+  }
+
+  /**
+   * Advance a schedule's checkpoint after a committed job.
+   *
+   * While pages remain, the resume cursor is stored and the newest item seen is
+   * held as pending; the high-water mark only moves once the sweep is exhausted.
+   */
+  private async commitCheckpoint(job: IngestionJob, result: IngestionResult): Promise<void> {
+    if (!job.scheduleId || !result.success) {
+      return;
+    }
+
+    // Items that failed to persist must be fetched again next run
+    if (result.errors.some(error => error.code === 'persist_failed')) {
+      console.warn(`⚠️ Job ${job.id} had persistence failures, checkpoint not advanced`);
+      return;
+    }
+
+    try {
+      const checkpoint = await this.checkpointRepository.findByScheduleId(job.scheduleId);
+
+      let newestAt = checkpoint?.pendingHighWaterAt;
+      let newestId = checkpoint?.pendingHighWaterId;
+      if (result.highWater && (!newestAt || result.highWater.postedAt > newestAt)) {
+        newestAt = result.highWater.postedAt;
+        newestId = result.highWater.externalId;
+      }
+
+      if (job.until) {
+        // Bounded catch-up windows only raise the mark and leave any open sweep alone
+        const raises = result.highWater && (!checkpoint?.highWaterAt || result.highWater.postedAt > checkpoint.highWaterAt);
+        await this.checkpointRepository.save({
+          scheduleId: job.scheduleId,
+          platform: job.platform,
+          highWaterAt: raises ? result.highWater!.postedAt : checkpoint?.highWaterAt,
+          highWaterId: raises ? result.highWater!.externalId : checkpoint?.highWaterId,
+          cursor: checkpoint?.cursor,
+          pendingHighWaterAt: checkpoint?.pendingHighWaterAt,
+          pendingHighWaterId: checkpoint?.pendingHighWaterId
+        });
+      } else if (result.nextCursor) {
+        await this.checkpointRepository.save({
+          scheduleId: job.scheduleId,
+          platform: job.platform,
+          highWaterAt: checkpoint?.highWaterAt,
+          highWaterId: checkpoint?.highWaterId,
+          cursor: result.nextCursor,
+          pendingHighWaterAt: newestAt,
+          pendingHighWaterId: newestId
+        });
+      } else {
+        await this.checkpointRepository.save({
+          scheduleId: job.scheduleId,
+          platform: job.platform,
+          highWaterAt: newestAt || checkpoint?.highWaterAt,
+          highWaterId: newestId || checkpoint?.highWaterId
+        });
+      }
+    } catch (error) {
+      console.error(`❌ Failed to commit checkpoint for schedule ${job.scheduleId}:`, error);
+    }
   }
 
   /**
@@ -131,7 +274,8 @@ export class IngestionManager {
   }
 
   /**
-   * Cancel a running job
+   * Cancel a running job. Its in-flight request is aborted and the job finishes
+   * by persisting what it fetched so far, recording its final progress.
    */
   async cancelJob(jobId: string): Promise<boolean> {
     const job = this.activeJobs.get(jobId);
@@ -141,11 +285,11 @@ export class IngestionManager {
 
     job.status = 'cancelled';
     job.completedAt = new Date();
-    this.activeJobs.delete(jobId);
+    this.abortControllers.get(jobId)?.abort();
 
     await RedisManager.cacheUserSession(`ingestion_job:${jobId}`, job);
     
-    console.log(`🛑 Job ${jobId} cancelled`);
+    console.log(`🛑 Job ${jobId} cancellation requested`);
     return true;
   }
 
@@ -204,12 +348,14 @@ export class IngestionManager {
       (existingMetrics.totalProcessed + existingMetrics.totalErrors);
     existingMetrics.lastIngestionAt = new Date();
 
-    // Update rate limit info
+    // Update rate limit info from the shared budget
     if (result.rateLimit) {
+      const adapter = this.adapters.get(platform);
       existingMetrics.rateLimit = {
         current: result.rateLimit.remaining,
-        limit: existingMetrics.rateLimit.limit, // Keep existing limit
-        resetAt: result.rateLimit.resetAt
+        limit: adapter ? adapter.config.rateLimit.requestsPerMinute : existingMetrics.rateLimit.limit,
+        resetAt: result.rateLimit.resetAt,
+        windows: result.rateLimit.windows
       };
     }
 
@@ -319,6 +465,167 @@ export class IngestionManager {
     };
   }
 
+  /**
+   * Create a mentions job
+   */
+  createMentionsJob(
+    platform: Platform,
+    userId: string,
+    options: {
+      maxResults?: number;
+      since?: Date;
+      until?: Date;
+    } = {}
+  ): IngestionJob {
+    return {
+      id: this.generateJobId(),
+      platform,
+      type: 'mentions',
+      userId,
+      maxResults: options.maxResults || 100,
+      since: options.since,
+      until: options.until,
+      status: 'pending',
+      createdAt: new Date(),
+      progress: {
+        processed: 0
+      }
+    };
+  }
+
+  /**
+   * Create a stream job that polls a search query or user timeline until cancelled
+   */
+  createStreamJob(
+    platform: Platform,
+    source: { query?: string; userId?: string },
+    options: {
+      maxResults?: number;
+      since?: Date;
+    } = {}
+  ): IngestionJob {
+    if (!source.query && !source.userId) {
+      throw new Error('Stream jobs require a query or user ID');
+    }
+
+    return {
+      id: this.generateJobId(),
+      platform,
+      type: 'stream',
+      query: source.query,
+      userId: source.userId,
+      maxResults: options.maxResults || 100,
+      since: options.since || new Date(),
+      status: 'pending',
+      createdAt: new Date(),
+      progress: {
+        processed: 0
+      }
+    };
+  }
+
+  /**
+   * Get the last heartbeat of a running stream job
+   */
+  async getStreamHeartbeat(jobId: string): Promise<{ jobId: string; platform: Platform; processed: number; lastHeartbeat: string } | null> {
+    return await RedisManager.getUserSession(`ingestion_stream:${jobId}`);
+  }
+
+  /**
+   * Create a file import job for an uploaded CSV/JSONL file
+   */
+  createImportJob(
+    source: FileImportSource,
+    options: {
+      jobId?: string;
+    } = {}
+  ): IngestionJob {
+    return {
+      id: options.jobId || this.generateJobId(),
+      platform: 'import',
+      type: 'import',
+      importSource: source,
+      status: 'pending',
+      createdAt: new Date(),
+      progress: {
+        processed: 0
+      }
+    };
+  }
+
+  /**
+   * Create a job that persists one verified webhook delivery
+   */
+  createWebhookJob(source: WebhookSource, payload: unknown, nonce: string): IngestionJob {
+    return {
+      id: this.generateJobId(),
+      platform: 'webhook',
+      type: 'webhook',
+      webhookDelivery: {
+        sourceId: source.id,
+        nonce,
+        mapping: source.mapping,
+        payload,
+        receivedAt: new Date()
+      },
+      status: 'pending',
+      createdAt: new Date(),
+      progress: {
+        processed: 0
+      }
+    };
+  }
+
+  /**
+   * Create a job that re-fetches known items so their engagement can be refreshed
+   */
+  createEngagementRefreshJob(platform: Platform, externalIds: string[]): IngestionJob {
+    return {
+      id: this.generateJobId(),
+      platform,
+      type: 'engagement_refresh',
+      externalIds,
+      maxResults: externalIds.length,
+      status: 'pending',
+      createdAt: new Date(),
+      progress: {
+        processed: 0,
+        total: externalIds.length
+      }
+    };
+  }
+
+  /**
+   * Build a job that replays an archived job's raw responses through the current transforms
+   */
+  createReingestJob(platform: Platform, archivedJobId: string): IngestionJob {
+    return {
+      id: this.generateJobId(),
+      platform,
+      type: 'reingest',
+      reingestJobId: archivedJobId,
+      status: 'pending',
+      createdAt: new Date(),
+      progress: {
+        processed: 0
+      }
+    };
+  }
+
+  /**
+   * Get the row-level report of a file import job
+   */
+  async getImportReport(jobId: string): Promise<FileImportReport | null> {
+    return await RedisManager.getUserSession(`ingestion_import:${jobId}`);
+  }
+
+  /**
+   * Generate a job ID up front, e.g. to name an upload before the job exists
+   */
+  createJobId(): string {
+    return this.generateJobId();
+  }
+
   /**
    * Generate unique job ID
    */
@@ -364,4 +671,11 @@ export class IngestionManager {
   isPlatformRegistered(platform: Platform): boolean {
     return this.adapters.has(platform);
   }
+
+  /**
+   * Get the config a platform's adapter was registered with
+   */
+  getAdapterConfig(platform: Platform): IngestionConfig | null {
+    return this.adapters.get(platform)?.config || null;
+  }
 }
\ No newline at end of file
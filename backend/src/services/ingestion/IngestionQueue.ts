@@ -1,6 +1,16 @@
 import Bull, { Queue, Job, JobOptions } from 'bull';
-import { IngestionJob, IngestionResult, Platform } from '@/types/ingestion';
+import {
+  BackfillProgress,
+  DeadLetterFilters,
+  DeadLetterRetryResult,
+  IngestionError,
+  IngestionJob,
+  IngestionResult,
+  Platform
+} from '@/types/ingestion';
 import { IngestionManager } from './IngestionManager';
+import { DeadLetterStore } from './DeadLetterStore';
+import { BackfillStore } from './BackfillStore';
 import { FeedbackRepository } from '@/repositories/FeedbackRepository';
 import { RedisManager } from '@/utils/redis-manager';
 import { REDIS_KEYS } from '@/utils/redis-keys';
@@ -8,6 +18,7 @@ import { REDIS_KEYS } from '@/utils/redis-keys';
 export interface QueueJobData {
   ingestionJob: IngestionJob;
   retryCount?: number;
+  errors?: IngestionError[]; // accumulated across attempts for the dead-letter store
 }
 
 export interface QueueOptions {
@@ -18,19 +29,38 @@ export interface QueueOptions {
   removeOnFail?: number;
 }
 
+// Bull runs lower priority numbers first; backfill windows wait behind all regular jobs
+const BACKFILL_PRIORITY = 1000;
+
+/**
+ * Thrown when a job ran but returned an unsuccessful result, so Bull counts the attempt
+ */
+export class IngestionJobFailedError extends Error {
+  constructor(public readonly errors: IngestionError[]) {
+    super(errors.map(error => error.message).join('; ') || 'Ingestion job failed');
+    this.name = 'IngestionJobFailedError';
+  }
+}
+
 export class IngestionQueue {
   private queue: Queue<QueueJobData>;
   private ingestionManager: IngestionManager;
   private feedbackRepository: FeedbackRepository;
+  private deadLetterStore: DeadLetterStore;
+  private backfillStore: BackfillStore;
   private isProcessing: boolean = false;
 
   constructor(
     ingestionManager: IngestionManager,
     redisUrl: string = process.env.REDIS_URL || 'redis://localhost:6379',
-    options: QueueOptions = {}
+    options: QueueOptions = {},
+    deadLetterStore: DeadLetterStore = new DeadLetterStore(ingestionManager),
+    backfillStore: BackfillStore = new BackfillStore()
   ) {
     this.ingestionManager = ingestionManager;
     this.feedbackRepository = new FeedbackRepository();
+    this.deadLetterStore = deadLetterStore;
+    this.backfillStore = backfillStore;
     
     // Create Bull queue
     this.queue = new Bull('ingestion-queue', redisUrl, {
@@ -116,6 +146,38 @@ export class IngestionQueue {
     return jobs;
   }
 
+  /**
+   * Split a backfill job into time windows and queue them at low priority
+   */
+  async addBackfill(ingestionJob: IngestionJob): Promise<BackfillProgress> {
+    return await this.backfillStore.start(ingestionJob, async windowJobs => {
+      await this.addBulkJobs(windowJobs, { priority: BACKFILL_PRIORITY });
+    });
+  }
+
+  /**
+   * Re-queue the windows of a backfill that haven't completed and are no longer in the queue
+   */
+  async resumeBackfill(backfillId: string): Promise<BackfillProgress | null> {
+    return await this.backfillStore.resume(
+      backfillId,
+      async windowJobs => {
+        await this.addBulkJobs(windowJobs, { priority: BACKFILL_PRIORITY });
+      },
+      async jobId => {
+        const job = await this.queue.getJob(jobId);
+        return job ? ['waiting', 'active', 'delayed', 'paused'].includes(await job.getState()) : false;
+      }
+    );
+  }
+
+  /**
+   * Get a backfill job with its overall progress and windows
+   */
+  async getBackfill(backfillId: string): Promise<BackfillProgress | null> {
+    return await this.backfillStore.get(backfillId);
+  }
+
   /**
    * Setup queue processors
    */
@@ -131,9 +193,9 @@ export class IngestionQueue {
    * Process an individual ingestion job
    */
   private async processIngestionJob(job: Job<QueueJobData>): Promise<IngestionResult> {
-    const { ingestionJob, retryCount = 0 } = job.data;
+    const ingestionJob = this.hydrateJob(job.data.ingestionJob);
     
-    console.log(`🔄 Processing ingestion job: ${ingestionJob.id} (attempt ${retryCount + 1})`);
+    console.log(`🔄 Processing ingestion job: ${ingestionJob.id} (attempt ${job.attemptsMade + 1})`);
     
     try {
       // Update job status
@@ -143,56 +205,43 @@ export class IngestionQueue {
       // Update progress
       await job.progress(10);
       
-      // Get the appropriate adapter and execute the job
-      const jobId = await this.ingestionManager.startJob(ingestionJob);
-      const result = await this.ingestionManager.getJobStatus(jobId);
+      // Get the appropriate adapter and run the job to completion
+      const result = await this.ingestionManager.runJob(ingestionJob);
       
       // Update progress
       await job.progress(50);
-      
-      // Store the feedback data in database
-      if (result && result.status === 'completed') {
-        await this.storeFeedbackData(ingestionJob, { 
-          success: true, 
-          itemsProcessed: result.progress.processed,
-          itemsSkipped: 0,
-          errors: [],
-          platform: ingestionJob.platform
-        });
+
+      // A cancelled job already persisted what it fetched; don't retry or defer it
+      if (result.cancelled) {
+        await this.storeFeedbackData(ingestionJob, result);
+        await job.progress(100);
+        console.log(`🛑 Ingestion job cancelled: ${ingestionJob.id} (${result.itemsProcessed} items)`);
+        return result;
       }
-      
-      // Update progress
-      await job.progress(90);
-      
-      // Update job status
-      ingestionJob.status = result && result.status === 'completed' ? 'completed' : 'failed';
-      ingestionJob.completedAt = new Date();
-      
-      if (result && result.error) {
-        ingestionJob.error = result.error;
+
+      // Hand the job back to the queue if the shared rate limit budget ran dry
+      const retryAt = this.getRateLimitRetryAt(result);
+      if (retryAt) {
+        await this.rescheduleJob(ingestionJob, retryAt);
+        await job.progress(100);
+        return result;
+      }
+
+      // Fail the attempt so Bull retries it or, once exhausted, it is dead-lettered
+      if (!result.success) {
+        throw new IngestionJobFailedError(result.errors);
       }
       
+      // Publish the persisted feedback to the live feed
+      await this.storeFeedbackData(ingestionJob, result);
+      await this.recordBackfillWindow(ingestionJob, result);
+      
       // Final progress update
       await job.progress(100);
       
-      // Store updated job
-      await RedisManager.cacheUserSession(`ingestion_job:${ingestionJob.id}`, ingestionJob);
-      
-      console.log(`✅ Ingestion job completed: ${ingestionJob.id} (${result?.progress.processed || 0} items)`);
+      console.log(`✅ Ingestion job completed: ${ingestionJob.id} (${result.itemsProcessed} items)`);
       
-      return {
-        success: result?.status === 'completed' || false,
-        platform: ingestionJob.platform,
-        itemsProcessed: result?.progress.processed || 0,
-        itemsSkipped: 0,
-        errors: result?.error ? [{ 
-          type: 'api_error' as const, 
-          message: result.error, 
-          code: 'unknown', 
-          retryable: true, 
-          timestamp: new Date() 
-        }] : []
-      };
+      return result;
       
     } catch (error) {
       console.error(`❌ Ingestion job failed: ${ingestionJob.id}`, error);
@@ -204,20 +253,120 @@ export class IngestionQueue {
       
       // Store failed job
       await RedisManager.cacheUserSession(`ingestion_job:${ingestionJob.id}`, ingestionJob);
+
+      await this.recordFailedAttempt(job, error);
       
       throw error;
     }
   }
 
   /**
-   * Store feedback data in database
+   * Keep an attempt's errors on the Bull job and dead-letter the job once it won't run again.
+   * Non-retryable failures such as auth errors skip the remaining attempts.
+   */
+  private async recordFailedAttempt(job: Job<QueueJobData>, error: unknown): Promise<void> {
+    const attemptErrors: IngestionError[] = error instanceof IngestionJobFailedError
+      ? error.errors
+      : [{
+          type: 'api_error',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          retryable: true,
+          timestamp: new Date()
+        }];
+
+    const errors = [...(job.data.errors || []), ...attemptErrors];
+    const attempts = job.attemptsMade + 1;
+    const retryable = attemptErrors.every(attemptError => attemptError.retryable && attemptError.type !== 'auth_error');
+    const isFinalAttempt = !retryable || attempts >= (job.opts.attempts || 1);
+
+    try {
+      await job.update({ ...job.data, retryCount: attempts, errors });
+
+      if (isFinalAttempt) {
+        if (!retryable) {
+          await job.discard();
+        }
+        await this.deadLetterStore.capture(job.data.ingestionJob, errors, attempts);
+        await this.recordBackfillWindow(job.data.ingestionJob, null, errors[errors.length - 1]?.message);
+      }
+    } catch (captureError) {
+      console.error(`❌ Failed to record failed attempt for job ${job.id}:`, captureError);
+    }
+  }
+
+  /**
+   * Find when a job blocked on rate limit budget can run again
+   */
+  private getRateLimitRetryAt(result: IngestionResult): Date | null {
+    const error = result.errors.find(e => e.type === 'rate_limit' && e.context?.retryAt);
+    return error ? new Date(error.context.retryAt) : null;
+  }
+
+  /**
+   * Re-queue a job to run once rate limit budget is available again
+   */
+  private async rescheduleJob(ingestionJob: IngestionJob, retryAt: Date): Promise<void> {
+    const delay = Math.max(0, retryAt.getTime() - Date.now());
+    const deferredJob: IngestionJob = {
+      ...ingestionJob,
+      id: `${ingestionJob.id}_deferred_${Date.now()}`,
+      status: 'pending',
+      startedAt: undefined,
+      completedAt: undefined,
+      error: undefined
+    };
+
+    await this.addJob(deferredJob, {
+      delay,
+      ...(ingestionJob.backfillId ? { priority: BACKFILL_PRIORITY } : {})
+    });
+    if (ingestionJob.backfillId) {
+      await this.backfillStore.trackWindowJob(deferredJob);
+    }
+    console.log(`⏳ Rescheduled ${ingestionJob.id} as ${deferredJob.id} in ${delay}ms (rate limit)`);
+  }
+
+  /**
+   * Record how a backfill window's job finished without failing the job over it;
+   * windows with pages left continue in a follow-up job at backfill priority
+   */
+  private async recordBackfillWindow(
+    ingestionJob: IngestionJob,
+    result: IngestionResult | null,
+    error?: string
+  ): Promise<void> {
+    if (!ingestionJob.backfillId) {
+      return;
+    }
+
+    try {
+      await this.backfillStore.finishWindow(ingestionJob, result, async nextJobs => {
+        await this.addBulkJobs(nextJobs, { priority: BACKFILL_PRIORITY });
+      }, error);
+    } catch (trackError) {
+      console.error(`❌ Failed to record backfill window for job ${ingestionJob.id}:`, trackError);
+    }
+  }
+
+  /**
+   * Restore Date fields lost when the job was serialized into the queue
+   */
+  private hydrateJob(ingestionJob: IngestionJob): IngestionJob {
+    return {
+      ...ingestionJob,
+      since: ingestionJob.since ? new Date(ingestionJob.since) : undefined,
+      until: ingestionJob.until ? new Date(ingestionJob.until) : undefined,
+      createdAt: new Date(ingestionJob.createdAt)
+    };
+  }
+
+  /**
+   * Publish ingested feedback to the live feed
    */
   private async storeFeedbackData(ingestionJob: IngestionJob, result: any): Promise<void> {
-    // This is a simplified version - in a real implementation,
-    // you would get the actual feedback items from the result
-    // and store them in the database
-    
-    console.log(`💾 Storing ${result.itemsProcessed || 0} feedback items for job ${ingestionJob.id}`);
+    // Items are persisted by the adapter's ingestion sink; this only
+    // announces the batch on the live feed
+    console.log(`💾 Publishing ${result.itemsProcessed || 0} feedback items for job ${ingestionJob.id}`);
     
     // Add to Redis for real-time processing
     await RedisManager.addToLiveFeed({
@@ -290,12 +439,25 @@ export class IngestionQueue {
       case 'reddit':
         priority += 80;
         break;
+      case 'hackernews':
+        priority += 70;
+        break;
       case 'trustpilot':
         priority += 60;
         break;
       case 'appstore':
+      case 'googleplay':
         priority += 40;
         break;
+      case 'webhook':
+        priority += 30;
+        break;
+      case 'rss':
+        priority += 20;
+        break;
+      case 'import':
+        priority += 10;
+        break;
     }
     
     // Job type priority
@@ -362,17 +524,35 @@ export class IngestionQueue {
   }
 
   /**
-   * Cancel a job
+   * Get the ingestion job behind a queue job
+   */
+  async getQueuedJob(jobId: string): Promise<IngestionJob | null> {
+    const job = await this.queue.getJob(jobId);
+    return job ? job.data.ingestionJob : null;
+  }
+
+  /**
+   * Cancel a job. Waiting jobs are removed; active jobs running in this process
+   * are aborted and complete with what they processed so far.
    */
   async cancelJob(jobId: string): Promise<boolean> {
     try {
       const job = await this.queue.getJob(jobId);
-      if (job) {
-        await job.remove();
-        console.log(`🛑 Cancelled job: ${jobId}`);
-        return true;
+      if (!job) {
+        return false;
       }
-      return false;
+
+      if (await job.isActive()) {
+        const cancelled = await this.ingestionManager.cancelJob(job.data.ingestionJob.id);
+        if (!cancelled) {
+          console.warn(`⚠️ Job ${jobId} is active in another worker and can't be cancelled from here`);
+        }
+        return cancelled;
+      }
+
+      await job.remove();
+      console.log(`🛑 Cancelled job: ${jobId}`);
+      return true;
     } catch (error) {
       console.error(`❌ Failed to cancel job ${jobId}:`, error);
       return false;
@@ -397,6 +577,15 @@ export class IngestionQueue {
     }
   }
 
+  /**
+   * Replay dead-lettered jobs matching the filters as new queue jobs
+   */
+  async retryDeadLetters(filters: DeadLetterFilters): Promise<DeadLetterRetryResult> {
+    return await this.deadLetterStore.retry(filters, async job => {
+      await this.addJob(job);
+    });
+  }
+
   /**
    * Clean old jobs from the queue
    */
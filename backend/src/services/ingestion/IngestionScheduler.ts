@@ -1,18 +1,24 @@
 import cron from 'node-cron';
-import { IngestionSchedule, IngestionJob, Platform } from '@/types/ingestion';
+import { parseExpression } from 'cron-parser';
+import { IngestionSchedule, IngestionJob, IngestionCheckpoint, CatchUpPolicy, Platform } from '@/types/ingestion';
 import { IngestionManager } from './IngestionManager';
 import { IngestionQueue } from './IngestionQueue';
-import { RedisManager } from '@/utils/redis-manager';
+import { cache } from '@/utils/database';
+import { REDIS_KEYS } from '@/utils/redis-keys';
+import { IngestionCheckpointRepository } from '@/repositories/IngestionCheckpointRepository';
 
 export interface SchedulerConfig {
     enabled: boolean;
     timezone?: string;
     maxConcurrentJobs?: number;
+    catchUpPolicy?: CatchUpPolicy;
+    maxCatchUpRuns?: number;
 }
 
 export class IngestionScheduler {
     private ingestionManager: IngestionManager;
     private ingestionQueue: IngestionQueue;
+    private checkpointRepository: IngestionCheckpointRepository;
     private schedules: Map<string, IngestionSchedule> = new Map();
     private cronJobs: Map<string, cron.ScheduledTask> = new Map();
     private config: SchedulerConfig;
@@ -25,6 +31,7 @@ export class IngestionScheduler {
     ) {
         this.ingestionManager = ingestionManager;
         this.ingestionQueue = ingestionQueue;
+        this.checkpointRepository = new IngestionCheckpointRepository();
         this.config = config;
     }
 
@@ -58,13 +65,14 @@ export class IngestionScheduler {
             id: this.generateScheduleId(),
             createdAt: new Date(),
             updatedAt: new Date(),
-            nextRun: this.calculateNextRun(schedule.cronExpression)
+            nextRun: new Date()
         };
 
         // Validate cron expression
         if (!cron.validate(newSchedule.cronExpression)) {
             throw new Error(`Invalid cron expression: ${newSchedule.cronExpression}`);
         }
+        newSchedule.nextRun = this.calculateNextRun(newSchedule.cronExpression, this.getTimezone(newSchedule));
 
         // Store schedule
         this.schedules.set(newSchedule.id, newSchedule);
@@ -99,12 +107,12 @@ export class IngestionScheduler {
             updatedAt: new Date()
         };
 
-        // Recalculate next run if cron expression changed
-        if (updates.cronExpression) {
-            if (!cron.validate(updates.cronExpression)) {
-                throw new Error(`Invalid cron expression: ${updates.cronExpression}`);
+        // Recalculate next run if cron expression or timezone changed
+        if (updates.cronExpression || updates.timezone) {
+            if (!cron.validate(updatedSchedule.cronExpression)) {
+                throw new Error(`Invalid cron expression: ${updatedSchedule.cronExpression}`);
             }
-            updatedSchedule.nextRun = this.calculateNextRun(updates.cronExpression);
+            updatedSchedule.nextRun = this.calculateNextRun(updatedSchedule.cronExpression, this.getTimezone(updatedSchedule));
         }
 
         // Store updated schedule
@@ -134,12 +142,19 @@ export class IngestionScheduler {
 
         // Remove from memory and Redis
         this.schedules.delete(scheduleId);
-        await RedisManager.getUserSession(`ingestion_schedule:${scheduleId}`);
+        await cache.hashDelete(REDIS_KEYS.INGESTION_SCHEDULES, scheduleId);
 
         console.log(`📅 Deleted schedule: ${scheduleId}`);
         return true;
     }
 
+    /**
+     * Get the incremental sync checkpoint for a schedule
+     */
+    async getCheckpoint(scheduleId: string): Promise<IngestionCheckpoint | null> {
+        return await this.checkpointRepository.findByScheduleId(scheduleId);
+    }
+
     /**
      * Get a schedule by ID
      */
@@ -183,7 +198,7 @@ export class IngestionScheduler {
                 },
                 {
                     scheduled: true,
-                    timezone: this.config.timezone || 'UTC'
+                    timezone: this.getTimezone(schedule)
                 }
             );
 
@@ -241,12 +256,18 @@ export class IngestionScheduler {
     }
 
     /**
-     * Execute a scheduled job
+     * Execute a scheduled job. A window bounds a catch-up run to one missed interval
      */
-    private async executeScheduledJob(schedule: IngestionSchedule): Promise<void> {
+    private async executeScheduledJob(
+        schedule: IngestionSchedule,
+        window?: { since: Date; until: Date }
+    ): Promise<void> {
         console.log(`🔄 Executing scheduled job: ${schedule.id} (${schedule.platform})`);
 
         try {
+            // Resume from the schedule's last committed position
+            const checkpoint = window ? null : await this.checkpointRepository.findByScheduleId(schedule.id);
+
             // Create ingestion job based on schedule
             const ingestionJob: IngestionJob = {
                 id: `scheduled_${schedule.id}_${Date.now()}`,
@@ -255,6 +276,11 @@ export class IngestionScheduler {
                 query: schedule.query,
                 userId: schedule.userId,
                 maxResults: schedule.maxResults,
+                scheduleId: schedule.id,
+                since: window ? window.since : checkpoint?.highWaterAt,
+                until: window?.until,
+                sinceId: checkpoint?.highWaterId,
+                cursor: checkpoint?.cursor,
                 status: 'pending',
                 createdAt: new Date(),
                 progress: {
@@ -266,8 +292,8 @@ export class IngestionScheduler {
             await this.ingestionQueue.addJob(ingestionJob);
 
             // Update schedule's last run time
-            schedule.lastRun = new Date();
-            schedule.nextRun = this.calculateNextRun(schedule.cronExpression);
+            schedule.lastRun = window ? window.until : new Date();
+            schedule.nextRun = this.calculateNextRun(schedule.cronExpression, this.getTimezone(schedule));
             schedule.updatedAt = new Date();
 
             // Save updated schedule
@@ -283,15 +309,77 @@ export class IngestionScheduler {
     /**
      * Calculate next run time for a cron expression
      */
-    private calculateNextRun(cronExpression: string): Date {
+    private calculateNextRun(cronExpression: string, timezone: string, from: Date = new Date()): Date {
         try {
-            // This is a simplified calculation - in production you might want to use a more robust library
-            const now = new Date();
-            const nextRun = new Date(now.getTime() + 60 * 60 * 1000); // Default to 1 hour from now
-            return nextRun;
+            const interval = parseExpression(cronExpression, { currentDate: from, tz: timezone });
+            return interval.next().toDate();
         } catch (error) {
             console.error('Failed to calculate next run time:', error);
-            return new Date(Date.now() + 60 * 60 * 1000); // Fallback to 1 hour
+            return new Date(from.getTime() + 60 * 60 * 1000); // Fallback to 1 hour
+        }
+    }
+
+    /**
+     * List fire times that fell between the last run and now
+     */
+    private getMissedRuns(schedule: IngestionSchedule, now: Date = new Date()): Date[] {
+        const from = schedule.lastRun || schedule.createdAt;
+        const missed: Date[] = [];
+
+        try {
+            const interval = parseExpression(schedule.cronExpression, {
+                currentDate: from,
+                endDate: now,
+                tz: this.getTimezone(schedule)
+            });
+
+            while (interval.hasNext()) {
+                missed.push(interval.next().toDate());
+            }
+        } catch (error) {
+            console.error(`❌ Failed to evaluate missed runs for ${schedule.id}:`, error);
+        }
+
+        return missed;
+    }
+
+    /**
+     * Enqueue catch-up jobs for runs missed while the scheduler was down
+     */
+    private async catchUpSchedule(schedule: IngestionSchedule): Promise<void> {
+        const policy = schedule.catchUpPolicy || this.config.catchUpPolicy || 'run_once';
+        const missedRuns = this.getMissedRuns(schedule);
+
+        if (missedRuns.length === 0) {
+            return;
+        }
+
+        console.log(`⏰ Schedule ${schedule.id} missed ${missedRuns.length} runs (policy: ${policy})`);
+
+        switch (policy) {
+            case 'skip':
+                schedule.nextRun = this.calculateNextRun(schedule.cronExpression, this.getTimezone(schedule));
+                await this.saveSchedule(schedule);
+                break;
+
+            case 'run_once':
+                await this.executeScheduledJob(schedule);
+                break;
+
+            case 'run_all': {
+                // Keep the most recent windows when the backlog exceeds the cap
+                const maxRuns = this.config.maxCatchUpRuns || 24;
+                const windowEnds = missedRuns.slice(-maxRuns);
+                let windowStart = missedRuns.length > maxRuns
+                    ? missedRuns[missedRuns.length - maxRuns - 1]
+                    : schedule.lastRun || schedule.createdAt;
+
+                for (const windowEnd of windowEnds) {
+                    await this.executeScheduledJob(schedule, { since: windowStart, until: windowEnd });
+                    windowStart = windowEnd;
+                }
+                break;
+            }
         }
     }
 
@@ -300,13 +388,20 @@ export class IngestionScheduler {
      */
     private async loadSchedules(): Promise<void> {
         try {
-            // In a real implementation, you would load all schedules from Redis
-            // For now, we'll just log that we're loading
             console.log('📥 Loading schedules from Redis...');
 
-            // This would be implemented with a Redis scan or similar operation
-            // to load all keys matching the pattern "ingestion_schedule:*"
+            const stored = await cache.hashGetAll<IngestionSchedule>(REDIS_KEYS.INGESTION_SCHEDULES);
+
+            for (const data of Object.values(stored)) {
+                const schedule = this.reviveSchedule(data);
+                this.schedules.set(schedule.id, schedule);
 
+                if (schedule.enabled) {
+                    await this.catchUpSchedule(schedule);
+                }
+            }
+
+            console.log(`📥 Loaded ${this.schedules.size} schedules`);
         } catch (error) {
             console.error('❌ Failed to load schedules:', error);
         }
@@ -316,7 +411,27 @@ export class IngestionScheduler {
      * Save schedule to Redis
      */
     private async saveSchedule(schedule: IngestionSchedule): Promise<void> {
-        await RedisManager.cacheUserSession(`ingestion_schedule:${schedule.id}`, schedule);
+        await cache.hashSet(REDIS_KEYS.INGESTION_SCHEDULES, schedule.id, schedule);
+    }
+
+    /**
+     * Restore Date fields on a schedule read back from Redis
+     */
+    private reviveSchedule(data: IngestionSchedule): IngestionSchedule {
+        return {
+            ...data,
+            lastRun: data.lastRun ? new Date(data.lastRun) : undefined,
+            nextRun: new Date(data.nextRun),
+            createdAt: new Date(data.createdAt),
+            updatedAt: new Date(data.updatedAt)
+        };
+    }
+
+    /**
+     * Resolve the timezone a schedule fires in
+     */
+    private getTimezone(schedule: IngestionSchedule): string {
+        return schedule.timezone || this.config.timezone || 'UTC';
     }
 
     /**
@@ -343,7 +458,12 @@ export class IngestionScheduler {
             twitter: 0,
             reddit: 0,
             trustpilot: 0,
-            appstore: 0
+            appstore: 0,
+            googleplay: 0,
+            hackernews: 0,
+            rss: 0,
+            import: 0,
+            webhook: 0
         };
 
         schedules.forEach(schedule => {
@@ -394,6 +514,30 @@ export class IngestionScheduler {
                 enabled: true,
                 cronExpression: '0 */8 * * *', // Every 8 hours
                 maxResults: 30
+            },
+            {
+                platform: 'googleplay' as Platform,
+                type: 'search' as const,
+                query: '*',
+                enabled: true,
+                cronExpression: '30 */8 * * *', // Every 8 hours, offset from App Store
+                maxResults: 30
+            },
+            {
+                platform: 'hackernews' as Platform,
+                type: 'search' as const,
+                query: 'customer support',
+                enabled: true,
+                cronExpression: '15 * * * *', // Hourly
+                maxResults: 100
+            },
+            {
+                platform: 'rss' as Platform,
+                type: 'search' as const,
+                query: '*', // every entry of the configured feeds
+                enabled: true,
+                cronExpression: '*/30 * * * *', // Every 30 minutes
+                maxResults: 200
             }
         ];
 
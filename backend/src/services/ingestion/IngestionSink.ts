@@ -0,0 +1,187 @@
+import { FeedbackSink, SinkResult, IngestionJob, IngestionError } from '@/types/ingestion';
+import { FeedbackData } from '@/types/feedback';
+import { FeedbackRepository } from '@/repositories/FeedbackRepository';
+import { EngagementSnapshotRepository } from '@/repositories/EngagementSnapshotRepository';
+import { QuarantineRepository } from '@/repositories/QuarantineRepository';
+import { RedisManager } from '@/utils/redis-manager';
+import { PiiRedactor } from '@/services/privacy';
+import { AuthorRegistry } from '@/services/authors';
+import { ContentFilter } from './ContentFilter';
+
+/**
+ * Persists transformed feedback from platform adapters.
+ *
+ * Items are deduplicated on (platform, external_id): new items are inserted and
+ * queued for analysis, while re-ingested items only get their engagement refreshed.
+ * Every write records an engagement snapshot so velocity can be measured over time.
+ * Reingest jobs replaying archived payloads rewrite the derived fields instead.
+ * New items the content filter flags are quarantined for review rather than stored.
+ * Content has PII redacted before anything is stored, quarantined or filtered.
+ * Authors are registered with their latest follower counts on every write.
+ */
+export class IngestionSink implements FeedbackSink {
+  private feedbackRepository: FeedbackRepository;
+  private snapshotRepository: EngagementSnapshotRepository;
+  private contentFilter: ContentFilter | null;
+  private quarantineRepository: QuarantineRepository;
+  private piiRedactor: PiiRedactor | null;
+  private authorRegistry: AuthorRegistry;
+
+  constructor(
+    feedbackRepository: FeedbackRepository = new FeedbackRepository(),
+    snapshotRepository: EngagementSnapshotRepository = new EngagementSnapshotRepository(),
+    contentFilter: ContentFilter | null = null,
+    quarantineRepository: QuarantineRepository = new QuarantineRepository(),
+    piiRedactor: PiiRedactor | null = null,
+    authorRegistry: AuthorRegistry = new AuthorRegistry()
+  ) {
+    this.feedbackRepository = feedbackRepository;
+    this.snapshotRepository = snapshotRepository;
+    this.contentFilter = contentFilter;
+    this.quarantineRepository = quarantineRepository;
+    this.piiRedactor = piiRedactor;
+    this.authorRegistry = authorRegistry;
+  }
+
+  /**
+   * Upsert a batch of feedback items
+   */
+  async persist(items: FeedbackData[], job?: IngestionJob): Promise<SinkResult> {
+    const result: SinkResult = {
+      created: [],
+      updated: [],
+      quarantined: [],
+      errors: []
+    };
+
+    for (const received of items) {
+      const item = this.piiRedactor ? this.piiRedactor.protectItem(received) : received;
+
+      try {
+        const existing = item.external_id
+          ? await this.feedbackRepository.findByExternalId(item.external_id, item.platform)
+          : null;
+
+        if (existing && job?.type === 'reingest') {
+          result.updated.push(await this.replaceFromArchive(existing, item));
+          continue;
+        }
+
+        if (existing) {
+          const updated = await this.feedbackRepository.updateEngagement(
+            existing.id,
+            item.engagement.likes,
+            item.engagement.shares,
+            item.engagement.comments
+          );
+          await this.snapshotRepository.recordSnapshot(existing.id, item.engagement);
+          await this.authorRegistry.register(item, false);
+          result.updated.push(updated || existing);
+          continue;
+        }
+
+        if (await this.holdBack(item, job)) {
+          result.quarantined.push(item);
+          continue;
+        }
+
+        result.created.push(await this.createItem(item));
+      } catch (error) {
+        result.errors.push(this.createError(item, error));
+      }
+    }
+
+    if (job) {
+      console.log(`💾 Job ${job.id}: ${result.created.length} created, ${result.updated.length} updated, ${result.quarantined.length} quarantined, ${result.errors.length} failed`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Store a quarantined item a reviewer released, unless it has been stored since
+   */
+  async release(received: FeedbackData): Promise<FeedbackData> {
+    const item = this.piiRedactor ? this.piiRedactor.protectItem(received) : received;
+    const existing = item.external_id
+      ? await this.feedbackRepository.findByExternalId(item.external_id, item.platform)
+      : null;
+
+    return existing || await this.createItem(item);
+  }
+
+  /**
+   * Insert a new item and queue it for NLP analysis
+   */
+  private async createItem(item: FeedbackData): Promise<FeedbackData> {
+    const { id, ingested_at, ...data } = item;
+    const authorId = await this.authorRegistry.register(item, true);
+    const created = await this.feedbackRepository.createFeedback({ ...data, author_id: authorId });
+    await this.snapshotRepository.recordSnapshot(created.id, created.engagement);
+    await RedisManager.addToPendingAnalysis(created.id);
+    return created;
+  }
+
+  /**
+   * Quarantine a new item the content filter flags. Items already awaiting review
+   * only get their latest copy stored.
+   */
+  private async holdBack(item: FeedbackData, job?: IngestionJob): Promise<boolean> {
+    if (!this.contentFilter) {
+      return false;
+    }
+
+    if (item.external_id) {
+      const quarantined = await this.quarantineRepository.findByExternalId(item.external_id, item.platform);
+      if (quarantined?.status === 'quarantined') {
+        await this.quarantineRepository.refreshItem(quarantined.id, item);
+        return true;
+      }
+    }
+
+    const verdict = await this.contentFilter.evaluate(item);
+    if (!verdict.quarantine) {
+      return false;
+    }
+
+    await this.quarantineRepository.quarantine({
+      platform: item.platform,
+      externalId: item.external_id,
+      item,
+      score: verdict.score,
+      reasons: verdict.reasons,
+      duplicateOf: verdict.duplicateOf,
+      jobId: job?.id
+    });
+    return true;
+  }
+
+  /**
+   * Rewrite an item from an archived payload. Archived engagement is older than what
+   * is stored, so it is left alone; changed content is queued for analysis again.
+   */
+  private async replaceFromArchive(existing: FeedbackData, item: FeedbackData): Promise<FeedbackData> {
+    const { id, ingested_at, ...data } = item;
+    const replaced = await this.feedbackRepository.replaceSourceFields(existing.id, data);
+
+    if (replaced && replaced.content !== existing.content) {
+      await RedisManager.addToPendingAnalysis(existing.id);
+    }
+
+    return replaced || existing;
+  }
+
+  /**
+   * Build an ingestion error for a failed item
+   */
+  private createError(item: FeedbackData, error: unknown): IngestionError {
+    return {
+      type: 'api_error',
+      message: `Failed to persist ${item.platform} item ${item.external_id || '(no id)'}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      code: 'persist_failed',
+      retryable: true,
+      timestamp: new Date(),
+      context: { platform: item.platform, externalId: item.external_id }
+    };
+  }
+}
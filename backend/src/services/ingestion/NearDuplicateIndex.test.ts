@@ -0,0 +1,36 @@
+import { estimateSimilarity, minHashSignature, tokenize } from './NearDuplicateIndex';
+
+const signatureOf = (text: string) => minHashSignature(tokenize(text));
+
+const BASE = 'the new update completely broke syncing between my phone and laptop and support has not replied in three days';
+
+describe('tokenize', () => {
+  it('lowercases and drops URLs and punctuation', () => {
+    expect(tokenize('Great app!! See https://example.com/x?y=1 #love @dev'))
+      .toEqual(['great', 'app', 'see', '#love', '@dev']);
+  });
+});
+
+describe('MinHash similarity', () => {
+  it('gives identical signatures for identical token lists', () => {
+    expect(signatureOf(BASE)).toEqual(signatureOf(BASE));
+    expect(estimateSimilarity(signatureOf(BASE), signatureOf(BASE))).toBe(1);
+  });
+
+  it('ignores case, punctuation and links', () => {
+    const variant = `The NEW update completely broke syncing between my phone, and laptop - and support has not replied in three days! https://t.co/abc`;
+    expect(estimateSimilarity(signatureOf(BASE), signatureOf(variant))).toBe(1);
+  });
+
+  it('scores a one-word edit as highly similar', () => {
+    const edited = BASE.replace('three', 'four');
+    const similarity = estimateSimilarity(signatureOf(BASE), signatureOf(edited));
+    expect(similarity).toBeGreaterThan(0.6);
+    expect(similarity).toBeLessThan(1);
+  });
+
+  it('scores unrelated text as dissimilar', () => {
+    const other = 'loving the dark mode and the faster search results that came with this release overall';
+    expect(estimateSimilarity(signatureOf(BASE), signatureOf(other))).toBeLessThan(0.2);
+  });
+});
@@ -0,0 +1,172 @@
+import { cache } from '@/utils/database';
+import { REDIS_KEYS } from '@/utils/redis-keys';
+
+const NUM_HASHES = 64;
+const BANDS = 16; // 4 rows per band: pairs above ~0.5 similarity usually share a band
+const ROWS_PER_BAND = NUM_HASHES / BANDS;
+const SHINGLE_SIZE = 3;
+
+// Seeds for the NUM_HASHES hash functions, fixed so every worker computes the same signatures
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => fmix32(Math.imul(i + 1, 0x9e3779b9)));
+
+/**
+ * Look up every item sharing a band bucket with the new one, then add the new one.
+ *
+ * KEYS: band buckets, then the new item's signature key
+ * ARGV: member, signature, window in ms, signature key prefix
+ * Returns [member, signature, ...] for candidates whose signatures are still live.
+ */
+const LOOKUP_AND_ADD_SCRIPT = `
+local bands = #KEYS - 1
+local seen = {}
+local result = {}
+
+for i = 1, bands do
+  for _, member in ipairs(redis.call('SMEMBERS', KEYS[i])) do
+    if member ~= ARGV[1] and not seen[member] then
+      seen[member] = true
+      local signature = redis.call('GET', ARGV[4] .. member)
+      if signature then
+        table.insert(result, member)
+        table.insert(result, signature)
+      else
+        redis.call('SREM', KEYS[i], member)
+      end
+    end
+  end
+  redis.call('SADD', KEYS[i], ARGV[1])
+  redis.call('PEXPIRE', KEYS[i], ARGV[3])
+end
+
+redis.call('SET', KEYS[bands + 1], ARGV[2], 'PX', ARGV[3])
+return result
+`;
+
+export interface NearDuplicateMatch {
+  member: string;
+  similarity: number;
+}
+
+/**
+ * Split text into normalized word tokens, ignoring URLs and punctuation
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[^\p{L}\p{N}@#]+/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * MinHash signature over the word shingles of a token list
+ */
+export function minHashSignature(tokens: string[]): number[] {
+  const signature = new Array<number>(NUM_HASHES).fill(0xffffffff);
+  const shingleCount = Math.max(1, tokens.length - SHINGLE_SIZE + 1);
+
+  for (let i = 0; i < shingleCount; i++) {
+    const shingle = fnv1a32(tokens.slice(i, i + SHINGLE_SIZE).join(' '));
+    for (let h = 0; h < NUM_HASHES; h++) {
+      const value = fmix32(shingle ^ SEEDS[h]);
+      if (value < signature[h]) {
+        signature[h] = value;
+      }
+    }
+  }
+
+  return signature;
+}
+
+/**
+ * Estimate Jaccard similarity from two MinHash signatures
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  let matches = 0;
+  for (let i = 0; i < NUM_HASHES; i++) {
+    if (a[i] === b[i]) {
+      matches++;
+    }
+  }
+  return matches / NUM_HASHES;
+}
+
+/**
+ * Near-Duplicate Index
+ *
+ * Remembers MinHash signatures of recently ingested text in Redis for a rolling
+ * window, bucketed by locality-sensitive hashing bands so a new item is only
+ * compared against items likely to be similar.
+ */
+export class NearDuplicateIndex {
+  private windowMs: number;
+  private threshold: number;
+  private minTokens: number;
+
+  constructor(windowMs: number, threshold: number, minTokens: number) {
+    this.windowMs = windowMs;
+    this.threshold = threshold;
+    this.minTokens = minTokens;
+  }
+
+  /**
+   * Find the most similar remembered item above the threshold, and remember this one.
+   * Texts with fewer than the minimum tokens are neither compared nor remembered.
+   */
+  async findAndAdd(member: string, text: string): Promise<NearDuplicateMatch | null> {
+    const tokens = tokenize(text);
+    if (tokens.length < this.minTokens) {
+      return null;
+    }
+
+    const signature = minHashSignature(tokens);
+    const keys: string[] = [];
+    for (let band = 0; band < BANDS; band++) {
+      const rows = signature.slice(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND);
+      keys.push(REDIS_KEYS.INGESTION_DEDUP_BAND(band, fnv1a32(rows.join(',')).toString(16)));
+    }
+    keys.push(REDIS_KEYS.INGESTION_DEDUP_SIGNATURE(member));
+
+    const candidates = await cache.evalScript<string[]>(
+      LOOKUP_AND_ADD_SCRIPT,
+      keys,
+      [member, signature.join(','), this.windowMs, REDIS_KEYS.INGESTION_DEDUP_SIGNATURE('')]
+    );
+
+    let best: NearDuplicateMatch | null = null;
+    for (let i = 0; i < candidates.length; i += 2) {
+      const similarity = estimateSimilarity(signature, candidates[i + 1].split(',').map(Number));
+      if (similarity >= this.threshold && (!best || similarity > best.similarity)) {
+        best = { member: candidates[i], similarity };
+      }
+    }
+
+    return best;
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+function fnv1a32(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * MurmurHash3 finalizer, used to derive independent hash functions from one hash
+ */
+function fmix32(value: number): number {
+  let hash = value >>> 0;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
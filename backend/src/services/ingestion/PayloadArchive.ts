@@ -0,0 +1,257 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import cron from 'node-cron';
+import { promisify } from 'util';
+import { ArchivedPayload, PayloadArchiveStore } from '@/types/ingestion';
+import { Platform } from '@/types/feedback';
+import { PiiRedactor } from '@/services/privacy/PiiRedactor';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+export interface PayloadArchiveConfig {
+  enabled: boolean;
+  dir: string;
+  maxAgeDays: number; // jobs whose newest payload is older are pruned
+  maxSizeBytes: number; // oldest jobs are pruned once the archive grows past this
+  pruneCronExpression: string;
+}
+
+export interface ArchivedJobSummary {
+  platform: Platform;
+  jobId: string;
+  payloads: number;
+}
+
+export interface PayloadArchivePruneResult {
+  jobsRemoved: number;
+  bytesRemoved: number;
+  bytesRetained: number;
+}
+
+// Raw responses hold user content and author details, so only the service user may read them
+const DIR_MODE = 0o700;
+const FILE_MODE = 0o600;
+
+// Response fields adapters map into feedback content; only these are redacted, since
+// IDs elsewhere in a body can look like card or phone numbers and must replay intact
+const CONTENT_FIELDS: Record<Platform, string[]> = {
+  twitter: ['text'],
+  reddit: ['title', 'selftext', 'selftext_html', 'body', 'body_html'],
+  trustpilot: ['title', 'text'],
+  appstore: ['title', 'content'],
+  googleplay: ['text'],
+  hackernews: ['title', 'text', 'story_text', 'comment_text'],
+  rss: ['title', 'content', 'summary', 'description', 'content:encoded'],
+  import: ['content'],
+  webhook: ['content']
+};
+
+/**
+ * Payload Archive
+ *
+ * Stores every raw API response body as a gzipped JSON file under
+ * `<dir>/<platform>/<jobId>/`, so feedback can be re-derived with newer
+ * adapter transforms and real responses can be used as fixtures.
+ * Text fields of bodies go through the PII redactor, files are readable by the service user
+ * only, and old jobs are pruned by age and total size.
+ */
+export class PayloadArchive implements PayloadArchiveStore {
+  private config: PayloadArchiveConfig;
+  private redactor: PiiRedactor | null;
+  private sequence: number = 0;
+  private rootReady: Promise<void> | null = null;
+  private task: cron.ScheduledTask | null = null;
+
+  constructor(config: PayloadArchiveConfig, redactor: PiiRedactor | null = null) {
+    this.config = config;
+    this.redactor = redactor;
+  }
+
+  /**
+   * Prune old payloads on the configured schedule while archiving is enabled
+   */
+  start(): void {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    if (!cron.validate(this.config.pruneCronExpression)) {
+      throw new Error(`Invalid cron expression: ${this.config.pruneCronExpression}`);
+    }
+
+    this.task = cron.schedule(this.config.pruneCronExpression, () => {
+      this.prune().catch(error => {
+        console.error('❌ Payload archive prune failed:', error);
+      });
+    });
+
+    console.log(`🗄️ Payload archive retention started (${this.config.maxAgeDays} days, ${this.config.pruneCronExpression})`);
+  }
+
+  /**
+   * Stop scheduled pruning
+   */
+  stop(): void {
+    if (this.task) {
+      this.task.stop();
+      this.task = null;
+    }
+  }
+
+  /**
+   * Archive a response body; a no-op while archiving is disabled
+   */
+  async write(payload: ArchivedPayload): Promise<void> {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    await this.ensureRoot();
+    const jobDir = this.getJobDir(payload.platform, payload.jobId);
+    await fs.promises.mkdir(jobDir, { recursive: true, mode: DIR_MODE });
+
+    // Zero-padded capture time plus a sequence keeps files in capture order
+    this.sequence = (this.sequence + 1) % 1000000;
+    const fileName = `${payload.capturedAt.getTime().toString().padStart(15, '0')}-${this.sequence.toString().padStart(6, '0')}.json.gz`;
+
+    // Content is redacted like stored feedback; a reingest replays the redacted text
+    const stored = this.redactor ? { ...payload, body: this.redactBody(this.redactor, payload) } : payload;
+
+    await fs.promises.writeFile(path.join(jobDir, fileName), await gzip(JSON.stringify(stored)), { mode: FILE_MODE });
+  }
+
+  /**
+   * Remove jobs whose newest payload is past maxAgeDays, then the oldest jobs
+   * until the archive fits in maxSizeBytes
+   */
+  async prune(now: Date = new Date()): Promise<PayloadArchivePruneResult> {
+    const result: PayloadArchivePruneResult = { jobsRemoved: 0, bytesRemoved: 0, bytesRetained: 0 };
+    const cutoff = now.getTime() - this.config.maxAgeDays * 24 * 60 * 60 * 1000;
+
+    const jobs: Array<{ dir: string; bytes: number; newestAt: number }> = [];
+    for (const platform of await this.listFiles(this.config.dir)) {
+      const platformDir = path.join(this.config.dir, platform);
+      for (const jobId of await this.listFiles(platformDir)) {
+        const dir = path.join(platformDir, jobId);
+        let bytes = 0;
+        let newestAt = 0;
+        for (const file of await this.listFiles(dir)) {
+          const stat = await fs.promises.stat(path.join(dir, file));
+          bytes += stat.size;
+          newestAt = Math.max(newestAt, stat.mtimeMs);
+        }
+        jobs.push({ dir, bytes, newestAt });
+      }
+    }
+
+    jobs.sort((a, b) => a.newestAt - b.newestAt);
+    let total = jobs.reduce((sum, job) => sum + job.bytes, 0);
+
+    for (const job of jobs) {
+      if (job.newestAt >= cutoff && total <= this.config.maxSizeBytes) {
+        break;
+      }
+      await fs.promises.rm(job.dir, { recursive: true, force: true });
+      total -= job.bytes;
+      result.jobsRemoved++;
+      result.bytesRemoved += job.bytes;
+    }
+
+    result.bytesRetained = total;
+    if (result.jobsRemoved > 0) {
+      console.log(`🗄️ Pruned ${result.jobsRemoved} archived jobs (${result.bytesRemoved} bytes)`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Read a job's archived payloads in capture order
+   */
+  async readJob(platform: Platform, jobId: string): Promise<ArchivedPayload[]> {
+    const jobDir = this.getJobDir(platform, jobId);
+    const files = (await this.listFiles(jobDir)).filter(file => file.endsWith('.json.gz')).sort();
+
+    const payloads: ArchivedPayload[] = [];
+    for (const file of files) {
+      const payload = JSON.parse((await gunzip(await fs.promises.readFile(path.join(jobDir, file)))).toString('utf8'));
+      payloads.push({ ...payload, capturedAt: new Date(payload.capturedAt) });
+    }
+
+    return payloads;
+  }
+
+  /**
+   * List archived jobs, optionally for one platform
+   */
+  async listJobs(platform?: Platform): Promise<ArchivedJobSummary[]> {
+    const platforms = platform
+      ? [platform]
+      : (await this.listFiles(this.config.dir)) as Platform[];
+
+    const jobs: ArchivedJobSummary[] = [];
+    for (const entry of platforms) {
+      const platformDir = path.join(this.config.dir, entry);
+      for (const jobId of (await this.listFiles(platformDir)).sort()) {
+        const files = await this.listFiles(path.join(platformDir, jobId));
+        jobs.push({
+          platform: entry,
+          jobId,
+          payloads: files.filter(file => file.endsWith('.json.gz')).length
+        });
+      }
+    }
+
+    return jobs;
+  }
+
+  /**
+   * Redact the content fields of a JSON body; text bodies such as feeds can't be replayed,
+   * so they are redacted whole
+   */
+  private redactBody(redactor: PiiRedactor, payload: ArchivedPayload): any {
+    if (typeof payload.body === 'string') {
+      return redactor.redact(payload.body).text;
+    }
+    return redactor.redactFields(payload.body, CONTENT_FIELDS[payload.platform]);
+  }
+
+  /**
+   * Create the archive root as a private directory, tightening one that already exists
+   */
+  private async ensureRoot(): Promise<void> {
+    if (!this.rootReady) {
+      this.rootReady = (async () => {
+        await fs.promises.mkdir(this.config.dir, { recursive: true, mode: DIR_MODE });
+        await fs.promises.chmod(this.config.dir, DIR_MODE);
+      })().catch(error => {
+        this.rootReady = null;
+        throw error;
+      });
+    }
+    await this.rootReady;
+  }
+
+  /**
+   * Directory a job's payloads are stored in
+   */
+  private getJobDir(platform: Platform, jobId: string): string {
+    return path.join(this.config.dir, platform, jobId.replace(/[^\w.-]/g, '_'));
+  }
+
+  /**
+   * List a directory, treating a missing directory as empty
+   */
+  private async listFiles(dir: string): Promise<string[]> {
+    try {
+      return await fs.promises.readdir(dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
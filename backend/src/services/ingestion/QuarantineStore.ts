@@ -0,0 +1,73 @@
+import { QuarantinedItem, QuarantineFilters, QuarantineReleaseResult } from '@/types/ingestion';
+import { QuarantineRepository } from '@/repositories/QuarantineRepository';
+import { IngestionSink } from './IngestionSink';
+
+/**
+ * Quarantine Store
+ *
+ * Lets reviewers inspect items the content filter held back, and release
+ * false positives into the feedback table as if they had just been ingested.
+ */
+export class QuarantineStore {
+  private sink: IngestionSink;
+  private repository: QuarantineRepository;
+
+  constructor(
+    sink: IngestionSink = new IngestionSink(),
+    repository: QuarantineRepository = new QuarantineRepository()
+  ) {
+    this.sink = sink;
+    this.repository = repository;
+  }
+
+  /**
+   * List quarantined items
+   */
+  async list(filters: QuarantineFilters = {}): Promise<{ items: QuarantinedItem[]; total: number }> {
+    return await this.repository.list(filters);
+  }
+
+  /**
+   * Get a single quarantined item
+   */
+  async get(id: string): Promise<QuarantinedItem | null> {
+    return await this.repository.findById(id);
+  }
+
+  /**
+   * Release items by ID, storing and queueing each for analysis
+   */
+  async release(ids: string[], releasedBy?: string): Promise<QuarantineReleaseResult> {
+    const result: QuarantineReleaseResult = { released: [], skipped: [] };
+    const { items } = await this.repository.list({ ids, limit: ids.length });
+    const found = new Set(items.map(item => item.id));
+
+    ids.filter(id => !found.has(id)).forEach(id => {
+      result.skipped.push({ id, reason: 'Quarantined item not found' });
+    });
+
+    for (const entry of items) {
+      if (entry.status === 'released') {
+        result.skipped.push({ id: entry.id, reason: `Already released as feedback ${entry.feedbackId}` });
+        continue;
+      }
+
+      try {
+        const feedback = await this.sink.release(entry.item);
+        await this.repository.markReleased(entry.id, feedback.id, releasedBy);
+        result.released.push({ id: entry.id, feedbackId: feedback.id });
+      } catch (error) {
+        result.skipped.push({
+          id: entry.id,
+          reason: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    if (result.released.length > 0) {
+      console.log(`🔓 Released ${result.released.length} quarantined feedback items`);
+    }
+
+    return result;
+  }
+}
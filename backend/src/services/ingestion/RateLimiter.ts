@@ -0,0 +1,164 @@
+import { IngestionConfig, Platform, RateLimitStatus } from '@/types/ingestion';
+import { cache } from '@/utils/database';
+import { REDIS_KEYS } from '@/utils/redis-keys';
+
+const WINDOWS = [
+  { name: 'minute', ms: 60 * 1000 },
+  { name: 'hour', ms: 60 * 60 * 1000 },
+  { name: 'day', ms: 24 * 60 * 60 * 1000 }
+] as const;
+
+/**
+ * Refills each window bucket, then takes `cost` tokens from all of them only if
+ * every bucket and the upstream budget reported by the platform can cover it.
+ *
+ * KEYS: minute, hour, day, upstream
+ * ARGV: now, cost, then capacity and window length (ms) for each bucket
+ * Returns: allowed, waitMs, minute/hour/day remaining, upstream remaining (-1 if unknown), resetInMs
+ */
+const ACQUIRE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local cost = tonumber(ARGV[2])
+local tokens = {}
+local wait = 0
+local resetIn = 0
+
+for i = 1, 3 do
+  local cap = tonumber(ARGV[1 + i * 2])
+  local window = tonumber(ARGV[2 + i * 2])
+  local state = redis.call('HMGET', KEYS[i], 'tokens', 'ts')
+  local t = tonumber(state[1]) or cap
+  local ts = tonumber(state[2]) or now
+  t = math.min(cap, t + (now - ts) * cap / window)
+  tokens[i] = t
+  if t < cost then
+    wait = math.max(wait, math.ceil((cost - t) * window / cap))
+  end
+end
+
+local upstream = redis.call('HMGET', KEYS[4], 'remaining', 'reset')
+local upRemaining = tonumber(upstream[1])
+local upReset = tonumber(upstream[2])
+if upRemaining == nil or upReset == nil or upReset <= now then
+  upRemaining = -1
+elseif upRemaining < cost then
+  wait = math.max(wait, upReset - now)
+end
+
+local allowed = 0
+if wait == 0 then
+  allowed = 1
+end
+
+for i = 1, 3 do
+  local cap = tonumber(ARGV[1 + i * 2])
+  local window = tonumber(ARGV[2 + i * 2])
+  if allowed == 1 then
+    tokens[i] = tokens[i] - cost
+  end
+  redis.call('HSET', KEYS[i], 'tokens', tokens[i], 'ts', now)
+  redis.call('PEXPIRE', KEYS[i], window)
+  resetIn = math.max(resetIn, math.ceil((cap - tokens[i]) * window / cap))
+end
+
+if allowed == 1 and upRemaining >= 0 then
+  upRemaining = upRemaining - cost
+  redis.call('HSET', KEYS[4], 'remaining', upRemaining)
+end
+
+return { allowed, wait, math.floor(tokens[1]), math.floor(tokens[2]), math.floor(tokens[3]), upRemaining, resetIn }
+`;
+
+/**
+ * Redis-backed multi-window token bucket for one platform.
+ *
+ * State lives in Redis so every queue worker draws from the same budget.
+ */
+export class PlatformRateLimiter {
+  private platform: Platform;
+  private limits: IngestionConfig['rateLimit'];
+
+  constructor(platform: Platform, limits: IngestionConfig['rateLimit']) {
+    this.platform = platform;
+    this.limits = limits;
+  }
+
+  /**
+   * Try to take tokens for a request
+   */
+  async acquire(cost: number = 1): Promise<RateLimitStatus> {
+    return await this.run(cost);
+  }
+
+  /**
+   * Read the current budget without consuming it
+   */
+  async getStatus(): Promise<RateLimitStatus> {
+    return await this.run(0);
+  }
+
+  /**
+   * Record the remaining budget reported by the platform's response headers
+   */
+  async recordUpstream(remaining: number, resetAt: Date): Promise<void> {
+    const ttl = resetAt.getTime() - Date.now();
+    if (ttl <= 0) {
+      return;
+    }
+
+    const key = REDIS_KEYS.RATE_LIMIT_BUCKET(this.platform, 'upstream');
+    await cache.evalScript(
+      `redis.call('HSET', KEYS[1], 'remaining', ARGV[1], 'reset', ARGV[2])
+       redis.call('PEXPIRE', KEYS[1], ARGV[3])
+       return 1`,
+      [key],
+      [remaining, resetAt.getTime(), ttl]
+    );
+  }
+
+  /**
+   * Execute the acquire script and shape its reply
+   */
+  private async run(cost: number): Promise<RateLimitStatus> {
+    const now = Date.now();
+    const capacities = [
+      this.limits.requestsPerMinute,
+      this.limits.requestsPerHour,
+      this.limits.requestsPerDay
+    ];
+
+    const keys = [
+      ...WINDOWS.map(window => REDIS_KEYS.RATE_LIMIT_BUCKET(this.platform, window.name)),
+      REDIS_KEYS.RATE_LIMIT_BUCKET(this.platform, 'upstream')
+    ];
+    const args: number[] = [now, cost];
+    WINDOWS.forEach((window, index) => args.push(capacities[index], window.ms));
+
+    const [allowed, waitMs, minute, hour, day, upstream, resetIn] =
+      await cache.evalScript<number[]>(ACQUIRE_SCRIPT, keys, args);
+
+    const windows = { minute, hour, day };
+    const remaining = Math.min(minute, hour, day, upstream >= 0 ? upstream : Infinity);
+
+    return {
+      allowed: allowed === 1,
+      waitMs,
+      remaining: Math.max(0, remaining),
+      resetAt: new Date(now + Math.max(waitMs, resetIn)),
+      windows
+    };
+  }
+}
+
+/**
+ * Thrown when a request would wait longer than the adapter allows for budget
+ */
+export class RateLimitExceededError extends Error {
+  public readonly retryAt: Date;
+
+  constructor(platform: Platform, retryAt: Date) {
+    super(`${platform} rate limit budget exhausted until ${retryAt.toISOString()}`);
+    this.name = 'RateLimitExceededError';
+    this.retryAt = retryAt;
+  }
+}
@@ -15,7 +15,7 @@ import { FeedbackData } from '@/types/feedback';
  * with the actual App Store Connect API or scraping service.
  */
 export class AppStoreAdapter extends BasePlatformAdapter {
-  private config: AppStoreConfig;
+  public readonly config: AppStoreConfig;
   private mockReviews: MockAppStoreReview[] = [];
 
   constructor(config: AppStoreConfig) {
@@ -176,6 +176,7 @@ export class AppStoreAdapter extends BasePlatformAdapter {
       external_id: rawItem.id,
       content: rawItem.content,
       author: {
+        id: rawItem.author.id,
         username: rawItem.author.username,
         followerCount: rawItem.author.followerCount,
         verified: rawItem.author.verified
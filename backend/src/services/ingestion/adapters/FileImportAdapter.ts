@@ -0,0 +1,407 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { BasePlatformAdapter } from '../BasePlatformAdapter';
+import {
+  FileImportConfig,
+  FileImportReport,
+  FileImportSource,
+  IngestionJob,
+  IngestionResult,
+  RawFeedbackItem,
+  SearchOptions,
+  UserFeedbackOptions
+} from '@/types/ingestion';
+import { FeedbackData } from '@/types/feedback';
+import { RedisManager } from '@/utils/redis-manager';
+import { mapRecordToRawItem } from '../fieldMapping';
+
+type ImportRow = Record<string, any>;
+
+export class FileImportAdapter extends BasePlatformAdapter {
+  public readonly config: FileImportConfig;
+
+  constructor(config: FileImportConfig) {
+    super('import', config);
+    this.config = config;
+  }
+
+  /**
+   * No HTTP client is needed for local files
+   */
+  protected async setupHttpClient(): Promise<void> {
+    await fs.promises.mkdir(this.config.uploadDir, { recursive: true });
+  }
+
+  /**
+   * File imports need no credentials
+   */
+  async authenticate(): Promise<boolean> {
+    this.isAuthenticated = true;
+    return true;
+  }
+
+  /**
+   * Get health check endpoint
+   */
+  protected getHealthCheckEndpoint(): string {
+    return '';
+  }
+
+  /**
+   * Check the upload directory is writable
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      await fs.promises.mkdir(this.config.uploadDir, { recursive: true });
+      await fs.promises.access(this.config.uploadDir, fs.constants.W_OK);
+      return true;
+    } catch (error) {
+      console.error('❌ Import upload directory is not writable:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Run an import job, falling back to the base pipeline for other job types
+   */
+  async fetchFeedback(job: IngestionJob, signal?: AbortSignal): Promise<IngestionResult> {
+    if (job.type !== 'import') {
+      return await super.fetchFeedback(job, signal);
+    }
+
+    const result: IngestionResult = {
+      success: false,
+      platform: this.platform,
+      itemsProcessed: 0,
+      itemsSkipped: 0,
+      errors: []
+    };
+
+    try {
+      if (!job.importSource) {
+        throw new Error('Import source is required for import jobs');
+      }
+
+      if (!this.isInitialized) {
+        await this.initialize();
+      }
+
+      await this.importFile(job, job.importSource, result, signal);
+      result.success = result.itemsProcessed > 0 || result.itemsSkipped === 0;
+
+      // A cancelled import keeps its upload so it can be run again
+      if (result.success && job.status !== 'cancelled' && !signal?.aborted) {
+        await this.removeUpload(job.importSource.filePath);
+      }
+    } catch (error) {
+      result.errors.push(this.handleError(error));
+      result.success = false;
+    }
+
+    return result;
+  }
+
+  /**
+   * Stream rows from the file, persisting them in batches
+   */
+  private async importFile(
+    job: IngestionJob,
+    source: FileImportSource,
+    result: IngestionResult,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const stream = fs.createReadStream(source.filePath, { encoding: 'utf8' });
+    const report: FileImportReport = {
+      jobId: job.id,
+      fileName: source.fileName,
+      rowsRead: 0,
+      rowsImported: 0,
+      rowsRejected: 0,
+      bytesRead: 0,
+      fileSize: source.fileSize,
+      rowErrors: [],
+      updatedAt: new Date().toISOString()
+    };
+
+    stream.on('data', (chunk: string | Buffer) => {
+      report.bytesRead += Buffer.byteLength(chunk);
+    });
+
+    const rows = source.format === 'csv'
+      ? readCsvRows(stream, source.delimiter || ',')
+      : readJsonLines(stream);
+
+    let batch: RawFeedbackItem[] = [];
+
+    try {
+      for await (const { row, rowNumber, parseError } of rows) {
+        if (job.status === 'cancelled' || signal?.aborted) {
+          break;
+        }
+
+        report.rowsRead++;
+
+        if (parseError) {
+          this.rejectRow(report, result, rowNumber, parseError);
+          continue;
+        }
+
+        // Rows are numbered per export, so IDs are scoped to the source system or file
+        const rawItem = mapRecordToRawItem(row!, source.mapping, 'import', {
+          import_source: source.source,
+          import_file: source.fileName,
+          import_row: rowNumber
+        }, source.source || source.fileName);
+        if (!this.validateRawItem(rawItem)) {
+          this.rejectRow(report, result, rowNumber, 'Row is missing content or author after mapping');
+          continue;
+        }
+
+        batch.push(rawItem);
+        if (batch.length >= this.config.batchSize) {
+          await this.flushBatch(batch, job, result, report);
+          batch = [];
+        }
+      }
+
+      if (batch.length > 0) {
+        await this.flushBatch(batch, job, result, report);
+      }
+    } finally {
+      stream.destroy();
+    }
+
+    job.progress.total = report.rowsRead;
+    await this.saveReport(report);
+
+    console.log(`📥 Imported ${report.rowsImported}/${report.rowsRead} rows from ${source.fileName} (${report.rowsRejected} rejected)`);
+  }
+
+  /**
+   * Delete an uploaded file once imported; files outside the upload directory are left alone
+   */
+  private async removeUpload(filePath: string): Promise<void> {
+    const relative = path.relative(this.config.uploadDir, filePath);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      return;
+    }
+
+    await fs.promises.unlink(filePath).catch(error => {
+      console.warn(`⚠️ Failed to remove imported file ${filePath}:`, error);
+    });
+  }
+
+  /**
+   * Persist a batch and publish progress
+   */
+  private async flushBatch(
+    batch: RawFeedbackItem[],
+    job: IngestionJob,
+    result: IngestionResult,
+    report: FileImportReport
+  ): Promise<void> {
+    const processedBefore = result.itemsProcessed;
+    await this.persistItems(batch, job, result);
+
+    report.rowsImported += result.itemsProcessed - processedBefore;
+    job.progress.processed = result.itemsProcessed;
+    job.progress.lastProcessedId = batch[batch.length - 1].id;
+
+    await this.saveReport(report);
+  }
+
+  /**
+   * Record a rejected row on the report and result
+   */
+  private rejectRow(report: FileImportReport, result: IngestionResult, row: number, message: string): void {
+    report.rowsRejected++;
+    result.itemsSkipped++;
+
+    if (report.rowErrors.length < this.config.maxRowErrors) {
+      report.rowErrors.push({ row, message });
+      result.errors.push({
+        type: 'validation_error',
+        message: `Row ${row}: ${message}`,
+        code: 'invalid_row',
+        retryable: false,
+        timestamp: new Date(),
+        context: { row }
+      });
+    }
+  }
+
+  /**
+   * Store the import report for the progress endpoint
+   */
+  private async saveReport(report: FileImportReport): Promise<void> {
+    report.updatedAt = new Date().toISOString();
+    await RedisManager.cacheUserSession(`ingestion_import:${report.jobId}`, report, 24 * 60 * 60);
+  }
+
+  /**
+   * Imports have no remote search
+   */
+  async searchFeedback(query: string, options?: SearchOptions): Promise<RawFeedbackItem[]> {
+    throw new Error('Search is not supported for file imports');
+  }
+
+  /**
+   * Imports have no remote user timeline
+   */
+  async getUserFeedback(userId: string, options?: UserFeedbackOptions): Promise<RawFeedbackItem[]> {
+    throw new Error('User feedback is not supported for file imports');
+  }
+
+  /**
+   * Transform RawFeedbackItem to FeedbackData
+   */
+  transformToFeedback(rawItem: RawFeedbackItem): FeedbackData {
+    return {
+      id: '', // Will be generated by database
+      platform: 'import',
+      external_id: rawItem.id,
+      parent_external_id: rawItem.parentId,
+      root_external_id: rawItem.rootId,
+      content: rawItem.content,
+      author: {
+        id: rawItem.author.id,
+        username: rawItem.author.username,
+        followerCount: rawItem.author.followerCount,
+        verified: rawItem.author.verified
+      },
+      engagement: {
+        likes: rawItem.engagement.likes,
+        shares: rawItem.engagement.shares,
+        comments: rawItem.engagement.comments
+      },
+      posted_at: rawItem.timestamps.created,
+      ingested_at: new Date(),
+      metadata: {
+        ...rawItem.metadata,
+        author_display_name: rawItem.author.displayName
+      }
+    };
+  }
+}
+
+interface ParsedRow {
+  row?: ImportRow;
+  rowNumber: number;
+  parseError?: string;
+}
+
+/**
+ * Read JSONL/NDJSON one line at a time
+ */
+async function* readJsonLines(stream: fs.ReadStream): AsyncGenerator<ParsedRow> {
+  const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+  let rowNumber = 0;
+
+  for await (const line of lines) {
+    rowNumber++;
+    if (line.trim().length === 0) {
+      continue;
+    }
+
+    try {
+      const parsed = JSON.parse(line);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        yield { rowNumber, parseError: 'Line is not a JSON object' };
+      } else {
+        yield { row: parsed, rowNumber };
+      }
+    } catch (error) {
+      yield { rowNumber, parseError: `Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}` };
+    }
+  }
+}
+
+/**
+ * Read CSV records chunk by chunk, handling quoted fields that span lines.
+ * The first record is the header row.
+ */
+async function* readCsvRows(stream: fs.ReadStream, delimiter: string): AsyncGenerator<ParsedRow> {
+  let headers: string[] | null = null;
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let pendingQuote = false;
+  let rowNumber = 0;
+
+  const finishRecord = (): ParsedRow | null => {
+    record.push(field);
+    const values = record;
+    record = [];
+    field = '';
+
+    // Skip blank lines
+    if (values.length === 1 && values[0].trim() === '') {
+      return null;
+    }
+
+    if (!headers) {
+      headers = values.map(header => header.trim());
+      return null;
+    }
+
+    rowNumber++;
+    if (values.length !== headers.length) {
+      return { rowNumber, parseError: `Expected ${headers.length} columns but found ${values.length}` };
+    }
+
+    const row: ImportRow = {};
+    headers.forEach((header, index) => {
+      row[header] = values[index];
+    });
+    return { row, rowNumber };
+  };
+
+  for await (const chunk of stream) {
+    const text = chunk as string;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === '"') {
+          // Escaped quote inside a quoted field
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          pendingQuote = true;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"' && field.length === 0) {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        record.push(field);
+        field = '';
+      } else if (char === '\n') {
+        const parsed = finishRecord();
+        if (parsed) {
+          yield parsed;
+        }
+      } else if (char !== '\r') {
+        field += char;
+      }
+    }
+  }
+
+  if (field.length > 0 || record.length > 0) {
+    const parsed = finishRecord();
+    if (parsed) {
+      yield parsed;
+    }
+  }
+}
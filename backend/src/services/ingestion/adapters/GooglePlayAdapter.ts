@@ -0,0 +1,397 @@
+import { BasePlatformAdapter } from '../BasePlatformAdapter';
+import {
+  GooglePlayConfig,
+  RawFeedbackItem,
+  SearchOptions,
+  UserFeedbackOptions,
+  FeedbackPage
+} from '@/types/ingestion';
+import { FeedbackData } from '@/types/feedback';
+
+interface GooglePlayTimestamp {
+  seconds: string;
+  nanos?: number;
+}
+
+interface GooglePlayUserComment {
+  text: string;
+  lastModified: GooglePlayTimestamp;
+  starRating: number;
+  reviewerLanguage?: string;
+  device?: string;
+  androidOsVersion?: number;
+  appVersionCode?: number;
+  appVersionName?: string;
+  thumbsUpCount?: number;
+  thumbsDownCount?: number;
+  originalText?: string;
+  deviceMetadata?: {
+    productName?: string;
+    manufacturer?: string;
+    deviceClass?: string;
+    ramMb?: number;
+  };
+}
+
+interface GooglePlayDeveloperComment {
+  text: string;
+  lastModified: GooglePlayTimestamp;
+}
+
+interface GooglePlayReview {
+  reviewId: string;
+  authorName?: string;
+  comments: Array<{
+    userComment?: GooglePlayUserComment;
+    developerComment?: GooglePlayDeveloperComment;
+  }>;
+}
+
+interface GooglePlayReviewsResponse {
+  reviews?: GooglePlayReview[];
+  tokenPagination?: {
+    nextPageToken?: string;
+    previousPageToken?: string;
+  };
+  pageInfo?: {
+    totalResults: number;
+    resultPerPage: number;
+    startIndex?: number;
+  };
+}
+
+/**
+ * Google Play Adapter
+ *
+ * Reads reviews from the Google Play Developer API (androidpublisher v3).
+ * `baseUrl` can point at a local fixture server for development and testing.
+ */
+export class GooglePlayAdapter extends BasePlatformAdapter {
+  public readonly config: GooglePlayConfig;
+  private baseUrl: string;
+
+  constructor(config: GooglePlayConfig) {
+    super('googleplay', config);
+    this.config = config;
+    this.baseUrl = config.baseUrl || 'https://androidpublisher.googleapis.com/androidpublisher/v3';
+  }
+
+  /**
+   * Setup HTTP client with Google Play-specific configuration
+   */
+  protected async setupHttpClient(): Promise<void> {
+    this.httpClient.defaults.baseURL = this.baseUrl;
+
+    // The API expects an OAuth access token for a service account with Play Console access
+    if (this.config.bearerToken) {
+      this.httpClient.defaults.headers.common['Authorization'] = `Bearer ${this.config.bearerToken}`;
+    }
+  }
+
+  /**
+   * Authenticate with the Google Play Developer API
+   */
+  async authenticate(): Promise<boolean> {
+    try {
+      const response = await this.makeRequest('GET', this.getHealthCheckEndpoint());
+      this.isAuthenticated = response.status === 200;
+
+      if (this.isAuthenticated) {
+        console.log('✅ Google Play authentication successful');
+      }
+
+      return this.isAuthenticated;
+    } catch (error) {
+      console.error('❌ Google Play authentication failed:', error);
+      this.isAuthenticated = false;
+      return false;
+    }
+  }
+
+  /**
+   * Get health check endpoint
+   */
+  protected getHealthCheckEndpoint(): string {
+    return `${this.getReviewsPath()}?maxResults=1`;
+  }
+
+  /**
+   * Search for reviews containing the query
+   */
+  async searchFeedback(query: string, options: SearchOptions = {}): Promise<RawFeedbackItem[]> {
+    const page = await this.searchFeedbackPage(query, options);
+    return page.items;
+  }
+
+  /**
+   * Search a single page of reviews, following the page token.
+   * The API has no text search, so the query is matched client-side; `*` matches every review.
+   */
+  protected async searchFeedbackPage(query: string, options: SearchOptions = {}): Promise<FeedbackPage> {
+    const needle = query.trim().toLowerCase();
+    const matchesQuery = (review: RawFeedbackItem) =>
+      needle === '' || needle === '*' || review.content.toLowerCase().includes(needle);
+
+    try {
+      return await this.fetchReviewsPage(options, matchesQuery);
+    } catch (error) {
+      console.error('❌ Google Play review search failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get reviews written by an author
+   */
+  async getUserFeedback(userId: string, options: UserFeedbackOptions = {}): Promise<RawFeedbackItem[]> {
+    const page = await this.getUserFeedbackPage(userId, options);
+    return page.items;
+  }
+
+  /**
+   * Get a single page of reviews by author name
+   */
+  protected async getUserFeedbackPage(userId: string, options: UserFeedbackOptions = {}): Promise<FeedbackPage> {
+    try {
+      return await this.fetchReviewsPage(options, review => review.author.username === userId);
+    } catch (error) {
+      console.error('❌ Google Play user reviews fetch failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch one page of reviews, keeping those that match and fall inside the date range.
+   * Reviews come newest first, so paging stops once a page reaches `since`.
+   */
+  private async fetchReviewsPage(
+    options: SearchOptions,
+    predicate: (review: RawFeedbackItem) => boolean
+  ): Promise<FeedbackPage> {
+    const params = new URLSearchParams();
+    params.append('maxResults', Math.min(options.maxResults || 100, 100).toString());
+
+    if (options.cursor) {
+      params.append('token', options.cursor);
+    }
+
+    if (this.config.translationLanguage) {
+      params.append('translationLanguage', this.config.translationLanguage);
+    }
+
+    const response = await this.makeRequest('GET', `${this.getReviewsPath()}?${params.toString()}`);
+    const reviewsResponse: GooglePlayReviewsResponse = response.data;
+    const reviews = this.transformGooglePlayResponse(reviewsResponse);
+
+    const items = reviews.filter(review =>
+      (!options.since || review.timestamps.created >= options.since) &&
+      (!options.until || review.timestamps.created <= options.until) &&
+      predicate(review)
+    );
+
+    const reachedSince = options.since !== undefined &&
+      reviews.some(review => review.timestamps.created < options.since!);
+
+    return {
+      items,
+      nextCursor: reachedSince ? undefined : reviewsResponse.tokenPagination?.nextPageToken
+    };
+  }
+
+  /**
+   * Transform a reviews response to RawFeedbackItem[]
+   */
+  private transformGooglePlayResponse(response: GooglePlayReviewsResponse): RawFeedbackItem[] {
+    if (!response.reviews || response.reviews.length === 0) {
+      return [];
+    }
+
+    return response.reviews
+      .map(review => this.transformGooglePlayReview(review))
+      .filter((item): item is RawFeedbackItem => item !== null);
+  }
+
+  /**
+   * Transform a single review to RawFeedbackItem
+   */
+  private transformGooglePlayReview(review: GooglePlayReview): RawFeedbackItem | null {
+    const userComment = review.comments.find(comment => comment.userComment)?.userComment;
+    if (!userComment) {
+      return null;
+    }
+
+    const developerComment = review.comments.find(comment => comment.developerComment)?.developerComment;
+    const authorName = review.authorName || 'Google Play user';
+
+    return {
+      id: review.reviewId,
+      platform: 'googleplay',
+      content: userComment.text.trim(),
+      author: {
+        id: authorName,
+        username: authorName,
+        displayName: authorName,
+        followerCount: 0,
+        verified: false
+      },
+      engagement: {
+        likes: userComment.thumbsUpCount || 0,
+        shares: 0,
+        comments: developerComment ? 1 : 0,
+        views: 0
+      },
+      timestamps: {
+        created: this.toDate(userComment.lastModified)
+      },
+      metadata: {
+        rating: userComment.starRating,
+        app_version: userComment.appVersionName,
+        app_version_code: userComment.appVersionCode,
+        device: userComment.deviceMetadata?.productName || userComment.device,
+        device_manufacturer: userComment.deviceMetadata?.manufacturer,
+        android_os_version: userComment.androidOsVersion,
+        reviewer_language: userComment.reviewerLanguage,
+        original_text: userComment.originalText,
+        thumbs_up_count: userComment.thumbsUpCount || 0,
+        thumbs_down_count: userComment.thumbsDownCount || 0,
+        developer_reply: developerComment?.text,
+        developer_reply_at: developerComment ? this.toDate(developerComment.lastModified).toISOString() : undefined,
+        package_name: this.config.packageName,
+        review_id: review.reviewId
+      },
+      urls: [],
+      mentions: [],
+      hashtags: []
+    };
+  }
+
+  /**
+   * Transform RawFeedbackItem to FeedbackData
+   */
+  transformToFeedback(rawItem: RawFeedbackItem): FeedbackData {
+    return {
+      id: '', // Will be generated by database
+      platform: 'googleplay',
+      external_id: rawItem.id,
+      content: rawItem.content,
+      author: {
+        id: rawItem.author.id,
+        username: rawItem.author.username,
+        followerCount: rawItem.author.followerCount,
+        verified: rawItem.author.verified
+      },
+      engagement: {
+        likes: rawItem.engagement.likes,
+        shares: rawItem.engagement.shares,
+        comments: rawItem.engagement.comments
+      },
+      posted_at: rawItem.timestamps.created,
+      ingested_at: new Date(),
+      metadata: rawItem.metadata
+    };
+  }
+
+  /**
+   * Get reviews by star rating
+   */
+  async getReviewsByRating(rating: number, options: { limit?: number } = {}): Promise<RawFeedbackItem[]> {
+    console.log(`⭐ Google Play reviews by rating: ${rating}`);
+    return await this.scanReviews(review => review.metadata.rating === rating, options.limit);
+  }
+
+  /**
+   * Get reviews by app version name
+   */
+  async getReviewsByVersion(version: string, options: { limit?: number } = {}): Promise<RawFeedbackItem[]> {
+    console.log(`📱 Google Play reviews by version: ${version}`);
+    return await this.scanReviews(review => review.metadata.app_version === version, options.limit);
+  }
+
+  /**
+   * Get app statistics over the reviews the API exposes
+   */
+  async getAppStats(): Promise<{
+    total_reviews: number;
+    average_rating: number;
+    rating_distribution: Record<number, number>;
+    version_distribution: Record<string, number>;
+    device_distribution: Record<string, number>;
+    language_distribution: Record<string, number>;
+  }> {
+    console.log(`📊 Google Play app statistics`);
+
+    const reviews = await this.scanReviews(() => true);
+    const ratingDistribution: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    const versionDistribution: Record<string, number> = {};
+    const deviceDistribution: Record<string, number> = {};
+    const languageDistribution: Record<string, number> = {};
+    let totalRating = 0;
+
+    reviews.forEach(review => {
+      const { rating, app_version, device, reviewer_language } = review.metadata;
+      ratingDistribution[rating] = (ratingDistribution[rating] || 0) + 1;
+      totalRating += rating;
+
+      if (app_version) {
+        versionDistribution[app_version] = (versionDistribution[app_version] || 0) + 1;
+      }
+      if (device) {
+        deviceDistribution[device] = (deviceDistribution[device] || 0) + 1;
+      }
+      if (reviewer_language) {
+        languageDistribution[reviewer_language] = (languageDistribution[reviewer_language] || 0) + 1;
+      }
+    });
+
+    return {
+      total_reviews: reviews.length,
+      average_rating: reviews.length > 0 ? totalRating / reviews.length : 0,
+      rating_distribution: ratingDistribution,
+      version_distribution: versionDistribution,
+      device_distribution: deviceDistribution,
+      language_distribution: languageDistribution
+    };
+  }
+
+  /**
+   * Page through recent reviews collecting those that match, up to the scan limit
+   */
+  private async scanReviews(
+    predicate: (review: RawFeedbackItem) => boolean,
+    limit?: number
+  ): Promise<RawFeedbackItem[]> {
+    const maxPages = this.config.maxScanPages || 10;
+    const matches: RawFeedbackItem[] = [];
+    let cursor: string | undefined;
+
+    for (let page = 0; page < maxPages; page++) {
+      const result = await this.fetchReviewsPage({ cursor, maxResults: 100 }, predicate);
+      matches.push(...result.items);
+
+      if (limit && matches.length >= limit) {
+        return matches.slice(0, limit);
+      }
+
+      if (!result.nextCursor) {
+        break;
+      }
+      cursor = result.nextCursor;
+    }
+
+    return matches;
+  }
+
+  /**
+   * Reviews endpoint for the configured package
+   */
+  private getReviewsPath(): string {
+    return `/applications/${encodeURIComponent(this.config.packageName)}/reviews`;
+  }
+
+  /**
+   * Convert a protobuf-style timestamp to a Date
+   */
+  private toDate(timestamp: GooglePlayTimestamp): Date {
+    return new Date(Number(timestamp.seconds) * 1000 + Math.floor((timestamp.nanos || 0) / 1e6));
+  }
+}
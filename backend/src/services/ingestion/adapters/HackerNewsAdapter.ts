@@ -0,0 +1,387 @@
+import { BasePlatformAdapter } from '../BasePlatformAdapter';
+import {
+  HackerNewsConfig,
+  RawFeedbackItem,
+  SearchOptions,
+  UserFeedbackOptions,
+  FeedbackPage,
+  ArchivedPayload
+} from '@/types/ingestion';
+import { FeedbackData } from '@/types/feedback';
+import { htmlToText } from '../fieldMapping';
+
+interface HackerNewsItem {
+  id: number;
+  type: 'story' | 'comment' | 'job' | 'poll' | 'pollopt';
+  by?: string;
+  time: number;
+  text?: string;
+  title?: string;
+  url?: string;
+  score?: number;
+  descendants?: number;
+  parent?: number;
+  kids?: number[];
+  deleted?: boolean;
+  dead?: boolean;
+}
+
+interface HackerNewsSearchHit {
+  objectID: string;
+  created_at_i: number;
+  author: string;
+  title?: string | null;
+  url?: string | null;
+  story_text?: string | null;
+  comment_text?: string | null;
+  points?: number | null;
+  num_comments?: number | null;
+  parent_id?: number | null;
+  story_id?: number | null;
+  story_title?: string | null;
+  _tags: string[];
+}
+
+interface HackerNewsSearchResponse {
+  hits: HackerNewsSearchHit[];
+  page: number;
+  nbPages: number;
+  hitsPerPage: number;
+}
+
+export class HackerNewsAdapter extends BasePlatformAdapter {
+  public readonly config: HackerNewsConfig;
+  private baseUrl: string;
+  private searchUrl: string;
+
+  constructor(config: HackerNewsConfig) {
+    super('hackernews', config);
+    this.config = config;
+    this.baseUrl = config.baseUrl || 'https://hacker-news.firebaseio.com/v0';
+    this.searchUrl = config.searchUrl || 'https://hn.algolia.com/api/v1';
+  }
+
+  /**
+   * Setup HTTP client; item lookups go to the Firebase API and searches to Algolia
+   */
+  protected async setupHttpClient(): Promise<void> {
+    this.httpClient.defaults.baseURL = this.baseUrl;
+  }
+
+  /**
+   * The public Hacker News APIs need no credentials
+   */
+  async authenticate(): Promise<boolean> {
+    this.isAuthenticated = true;
+    return true;
+  }
+
+  /**
+   * Get health check endpoint
+   */
+  protected getHealthCheckEndpoint(): string {
+    return '/maxitem.json';
+  }
+
+  /**
+   * Search stories and comments
+   */
+  async searchFeedback(query: string, options: SearchOptions = {}): Promise<RawFeedbackItem[]> {
+    const page = await this.searchFeedbackPage(query, options);
+    return page.items;
+  }
+
+  /**
+   * Search a single page of stories and comments, newest first
+   */
+  protected async searchFeedbackPage(query: string, options: SearchOptions = {}): Promise<FeedbackPage> {
+    try {
+      return await this.searchPage({ query, tags: '(story,comment)' }, options);
+    } catch (error) {
+      console.error('❌ Hacker News search failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get stories and comments posted by a user
+   */
+  async getUserFeedback(userId: string, options: UserFeedbackOptions = {}): Promise<RawFeedbackItem[]> {
+    const page = await this.getUserFeedbackPage(userId, options);
+    return page.items;
+  }
+
+  /**
+   * Get a single page of a user's stories and comments
+   */
+  protected async getUserFeedbackPage(userId: string, options: UserFeedbackOptions = {}): Promise<FeedbackPage> {
+    const types = options.includeReplies === false ? 'story' : '(story,comment)';
+
+    try {
+      return await this.searchPage({ tags: `${types},author_${userId}` }, options);
+    } catch (error) {
+      console.error('❌ Hacker News user items fetch failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Run an Algolia search_by_date query; the cursor is the next page number
+   */
+  private async searchPage(
+    search: { query?: string; tags: string },
+    options: SearchOptions
+  ): Promise<FeedbackPage> {
+    const params = new URLSearchParams();
+    params.append('tags', search.tags);
+    params.append('hitsPerPage', Math.min(options.maxResults || 100, 1000).toString());
+
+    if (search.query && search.query !== '*') {
+      params.append('query', search.query);
+    }
+
+    const filters: string[] = [];
+    if (options.since) {
+      filters.push(`created_at_i>${Math.floor(options.since.getTime() / 1000)}`);
+    }
+    if (options.until) {
+      filters.push(`created_at_i<=${Math.floor(options.until.getTime() / 1000)}`);
+    }
+    if (filters.length > 0) {
+      params.append('numericFilters', filters.join(','));
+    }
+
+    const page = options.cursor ? parseInt(options.cursor, 10) : 0;
+    params.append('page', page.toString());
+
+    const response = await this.makeRequest('GET', `${this.searchUrl}/search_by_date?${params.toString()}`);
+    const searchResponse: HackerNewsSearchResponse = response.data;
+
+    return {
+      items: searchResponse.hits.map(hit => this.transformSearchHit(hit)),
+      nextCursor: searchResponse.page + 1 < searchResponse.nbPages ? (searchResponse.page + 1).toString() : undefined
+    };
+  }
+
+  /**
+   * Walk a story's comment tree breadth first, keeping parent/child IDs in metadata
+   */
+  async getStoryComments(storyId: string, options: { maxDepth?: number; limit?: number } = {}): Promise<RawFeedbackItem[]> {
+    const maxDepth = options.maxDepth ?? this.config.maxCommentDepth;
+    const limit = options.limit ?? this.config.maxComments;
+
+    try {
+      const story = await this.getItem(parseInt(storyId, 10));
+      if (!story) {
+        return [];
+      }
+
+      const comments: RawFeedbackItem[] = [];
+      let level = (story.kids || []).map(id => ({ id, depth: 1 }));
+
+      while (level.length > 0 && comments.length < limit) {
+        const next: Array<{ id: number; depth: number }> = [];
+
+        // Fetch a level in small batches to stay polite to the API
+        for (let i = 0; i < level.length && comments.length < limit; i += 10) {
+          const batch = level.slice(i, i + 10);
+          const items = await Promise.all(batch.map(entry => this.getItem(entry.id)));
+
+          items.forEach((item, index) => {
+            if (!item || item.deleted || item.dead || item.type !== 'comment' || comments.length >= limit) {
+              return;
+            }
+
+            const depth = batch[index].depth;
+            comments.push(this.transformItem(item, story.id, depth));
+
+            if (depth < maxDepth) {
+              (item.kids || []).forEach(id => next.push({ id, depth: depth + 1 }));
+            }
+          });
+        }
+
+        level = next;
+      }
+
+      console.log(`💬 Fetched ${comments.length} comments for Hacker News story ${storyId}`);
+      return comments;
+    } catch (error) {
+      console.error('❌ Hacker News story comments fetch failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Look stories and comments up by ID in small batches
+   */
+  protected async getItemsByIds(externalIds: string[]): Promise<RawFeedbackItem[]> {
+    const items: RawFeedbackItem[] = [];
+
+    try {
+      for (let i = 0; i < externalIds.length; i += 10) {
+        const batch = await Promise.all(
+          externalIds.slice(i, i + 10).map(id => this.getItem(parseInt(id, 10)))
+        );
+
+        batch.forEach(item => {
+          if (item && !item.deleted && !item.dead) {
+            // A lookup doesn't know which story a comment sits under; refreshes only need engagement
+            items.push(this.transformItem(item, item.type === 'comment' ? undefined : item.id, 0));
+          }
+        });
+      }
+    } catch (error) {
+      console.error('❌ Hacker News item lookup failed:', error);
+      throw error;
+    }
+
+    return items;
+  }
+
+  /**
+   * Re-derive items from archived search pages and item lookups
+   */
+  protected async parseArchivedPayloads(payloads: ArchivedPayload[]): Promise<RawFeedbackItem[]> {
+    const items: RawFeedbackItem[] = [];
+
+    for (const payload of payloads) {
+      if (Array.isArray(payload.body?.hits)) {
+        const searchResponse: HackerNewsSearchResponse = payload.body;
+        items.push(...searchResponse.hits.map(hit => this.transformSearchHit(hit)));
+        continue;
+      }
+
+      const item: HackerNewsItem | null = payload.body;
+      if (item && typeof item.id === 'number' && !item.deleted && !item.dead) {
+        items.push(this.transformItem(item, item.type === 'comment' ? undefined : item.id, 0));
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Fetch a single item from the Firebase API
+   */
+  private async getItem(id: number): Promise<HackerNewsItem | null> {
+    const response = await this.makeRequest('GET', `/item/${id}.json`);
+    return response.data || null;
+  }
+
+  /**
+   * Transform a Firebase item to RawFeedbackItem
+   */
+  private transformItem(item: HackerNewsItem, storyId: number | undefined, depth: number): RawFeedbackItem {
+    const content = item.type === 'comment'
+      ? htmlToText(item.text || '')
+      : [item.title, item.text ? htmlToText(item.text) : ''].filter(Boolean).join('\n\n');
+
+    return {
+      id: item.id.toString(),
+      platform: 'hackernews',
+      parentId: item.type === 'comment' && item.parent ? item.parent.toString() : undefined,
+      rootId: item.type === 'comment' ? storyId?.toString() : undefined,
+      content,
+      author: {
+        id: item.by || '[deleted]',
+        username: item.by || '[deleted]',
+        followerCount: 0, // Hacker News doesn't have followers
+        verified: false
+      },
+      engagement: {
+        likes: item.score || 0,
+        shares: 0,
+        comments: item.type === 'comment' ? (item.kids || []).length : item.descendants || 0,
+        views: 0
+      },
+      timestamps: {
+        created: new Date(item.time * 1000)
+      },
+      metadata: {
+        item_type: item.type,
+        story_id: storyId?.toString(),
+        parent_id: item.parent ? item.parent.toString() : undefined,
+        child_ids: (item.kids || []).map(id => id.toString()),
+        depth,
+        url: item.url,
+        permalink: `https://news.ycombinator.com/item?id=${item.id}`
+      },
+      urls: item.url ? [item.url] : [],
+      mentions: [],
+      hashtags: []
+    };
+  }
+
+  /**
+   * Transform an Algolia search hit to RawFeedbackItem
+   */
+  private transformSearchHit(hit: HackerNewsSearchHit): RawFeedbackItem {
+    const isComment = hit._tags.includes('comment');
+    const content = isComment
+      ? htmlToText(hit.comment_text || '')
+      : [hit.title, hit.story_text ? htmlToText(hit.story_text) : ''].filter(Boolean).join('\n\n');
+
+    return {
+      id: hit.objectID,
+      platform: 'hackernews',
+      parentId: isComment && hit.parent_id ? hit.parent_id.toString() : undefined,
+      rootId: isComment && hit.story_id ? hit.story_id.toString() : undefined,
+      content,
+      author: {
+        id: hit.author,
+        username: hit.author,
+        followerCount: 0,
+        verified: false
+      },
+      engagement: {
+        likes: hit.points || 0,
+        shares: 0,
+        comments: hit.num_comments || 0,
+        views: 0
+      },
+      timestamps: {
+        created: new Date(hit.created_at_i * 1000)
+      },
+      metadata: {
+        item_type: isComment ? 'comment' : 'story',
+        story_id: (hit.story_id ?? hit.objectID).toString(),
+        parent_id: hit.parent_id ? hit.parent_id.toString() : undefined,
+        story_title: hit.story_title || hit.title || undefined,
+        url: hit.url || undefined,
+        permalink: `https://news.ycombinator.com/item?id=${hit.objectID}`
+      },
+      urls: hit.url ? [hit.url] : [],
+      mentions: [],
+      hashtags: []
+    };
+  }
+
+  /**
+   * Transform RawFeedbackItem to FeedbackData
+   */
+  transformToFeedback(rawItem: RawFeedbackItem): FeedbackData {
+    return {
+      id: '', // Will be generated by database
+      platform: 'hackernews',
+      external_id: rawItem.id,
+      parent_external_id: rawItem.parentId,
+      root_external_id: rawItem.rootId,
+      content: rawItem.content,
+      author: {
+        id: rawItem.author.id,
+        username: rawItem.author.username,
+        followerCount: rawItem.author.followerCount,
+        verified: rawItem.author.verified
+      },
+      engagement: {
+        likes: rawItem.engagement.likes,
+        shares: rawItem.engagement.shares,
+        comments: rawItem.engagement.comments
+      },
+      posted_at: rawItem.timestamps.created,
+      ingested_at: new Date(),
+      metadata: rawItem.metadata
+    };
+  }
+}
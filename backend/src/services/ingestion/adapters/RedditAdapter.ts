@@ -3,7 +3,9 @@ import {
   RedditConfig, 
   RawFeedbackItem, 
   SearchOptions, 
-  UserFeedbackOptions 
+  UserFeedbackOptions,
+  FeedbackPage,
+  ArchivedPayload
 } from '@/types/ingestion';
 import { FeedbackData } from '@/types/feedback';
 import { AxiosResponse } from 'axios';
@@ -88,14 +90,16 @@ interface RedditUser {
 
 export class RedditAdapter extends BasePlatformAdapter {
   public readonly config: RedditConfig;
-  private baseUrl = 'https://oauth.reddit.com';
-  private authUrl = 'https://www.reddit.com/api/v1/access_token';
+  private baseUrl: string;
+  private authUrl: string;
   private accessToken?: string;
   private tokenExpiresAt?: Date;
 
   constructor(config: RedditConfig) {
     super('reddit', config);
     this.config = config;
+    this.baseUrl = config.baseUrl || 'https://oauth.reddit.com';
+    this.authUrl = config.authUrl || 'https://www.reddit.com/api/v1/access_token';
   }
 
   /**
@@ -165,15 +169,30 @@ export class RedditAdapter extends BasePlatformAdapter {
    * Search for Reddit posts and comments
    */
   async searchFeedback(query: string, options: SearchOptions = {}): Promise<RawFeedbackItem[]> {
+    const page = await this.searchFeedbackPage(query, options);
+    return page.items;
+  }
+
+  /**
+   * Search a single page of Reddit posts, following the listing's after token
+   */
+  protected async searchFeedbackPage(query: string, options: SearchOptions = {}): Promise<FeedbackPage> {
+    // Incremental syncs read newest-first so paging can stop at the high-water mark
+    const sort = options.sortBy || !options.since ? this.mapSortOption(options.sortBy) : 'new';
+
     const params = new URLSearchParams();
     params.append('q', query);
     params.append('type', 'link,sr'); // Search posts and subreddits
-    params.append('sort', this.mapSortOption(options.sortBy));
+    params.append('sort', sort);
     
     if (options.maxResults) {
       params.append('limit', Math.min(options.maxResults, 100).toString());
     }
 
+    if (options.cursor) {
+      params.append('after', options.cursor);
+    }
+
     // Reddit doesn't support date filtering in search, so we'll filter after fetching
     
     try {
@@ -183,13 +202,29 @@ export class RedditAdapter extends BasePlatformAdapter {
       const items = await this.transformRedditListing(listing);
       
       // Apply date filtering if specified
-      return this.filterByDate(items, options.since, options.until);
+      const filtered = this.filterByDate(items, options.since, options.until);
+
+      // Once a newest-first page reaches items older than since, later pages are older still
+      const reachedSince = sort === 'new' && !!options.since &&
+        items.some(item => item.timestamps.created < options.since!);
+
+      return {
+        items: filtered,
+        nextCursor: reachedSince ? undefined : listing.data?.after || undefined
+      };
     } catch (error) {
       console.error('❌ Reddit search failed:', error);
       throw error;
     }
   }
 
+  /**
+   * Get a single page of posts mentioning a user
+   */
+  protected async getMentionsPage(username: string, options: SearchOptions = {}): Promise<FeedbackPage> {
+    return await this.searchFeedbackPage(`"u/${username}"`, options);
+  }
+
   /**
    * Get user's posts and comments
    */
@@ -284,6 +319,44 @@ export class RedditAdapter extends BasePlatformAdapter {
     }
   }
 
+  /**
+   * Look posts and comments up by ID. Stored IDs carry no type prefix, so both
+   * the post (t3_) and comment (t1_) fullnames are asked for.
+   */
+  protected async getItemsByIds(externalIds: string[]): Promise<RawFeedbackItem[]> {
+    const fullnames = externalIds.flatMap(id => [`t3_${id}`, `t1_${id}`]);
+    const items: RawFeedbackItem[] = [];
+
+    for (let i = 0; i < fullnames.length; i += 100) {
+      try {
+        const response = await this.makeRequest('GET', `/api/info?id=${fullnames.slice(i, i + 100).join(',')}`);
+        items.push(...await this.transformRedditListing(response.data));
+      } catch (error) {
+        console.error('❌ Reddit item lookup failed:', error);
+        throw error;
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Re-derive posts and comments from archived listings. Comment pages come back as
+   * a [post, comments] pair, of which only the comments were ingested.
+   */
+  protected async parseArchivedPayloads(payloads: ArchivedPayload[]): Promise<RawFeedbackItem[]> {
+    const items: RawFeedbackItem[] = [];
+
+    for (const payload of payloads) {
+      const listing: RedditListing | undefined = Array.isArray(payload.body) ? payload.body[1] : payload.body;
+      if (listing?.kind === 'Listing') {
+        items.push(...await this.transformRedditListing(listing));
+      }
+    }
+
+    return items;
+  }
+
   /**
    * Transform Reddit listing to RawFeedbackItem[]
    */
@@ -372,6 +445,8 @@ export class RedditAdapter extends BasePlatformAdapter {
     return {
       id: comment.id,
       platform: 'reddit',
+      parentId: this.stripFullnamePrefix(comment.parent_id),
+      rootId: this.stripFullnamePrefix(comment.link_id),
       content: comment.body,
       author: {
         id: comment.author,
@@ -408,6 +483,13 @@ export class RedditAdapter extends BasePlatformAdapter {
     };
   }
 
+  /**
+   * Strip the type prefix from a Reddit fullname (t1_abc -> abc)
+   */
+  private stripFullnamePrefix(fullname?: string): string | undefined {
+    return fullname ? fullname.replace(/^t\d_/, '') : undefined;
+  }
+
   /**
    * Transform RawFeedbackItem to FeedbackData
    */
@@ -416,8 +498,11 @@ export class RedditAdapter extends BasePlatformAdapter {
       id: '', // Will be generated by database
       platform: 'reddit',
       external_id: rawItem.id,
+      parent_external_id: rawItem.parentId,
+      root_external_id: rawItem.rootId,
       content: rawItem.content,
       author: {
+        id: rawItem.author.id,
         username: rawItem.author.username,
         followerCount: rawItem.author.followerCount,
         verified: rawItem.author.verified
@@ -506,13 +591,12 @@ export class RedditAdapter extends BasePlatformAdapter {
     const remaining = response.headers['x-ratelimit-remaining'];
     const reset = response.headers['x-ratelimit-reset'];
 
-    if (remaining !== undefined) {
-      this.rateLimitInfo.remaining = parseInt(remaining);
+    if (remaining === undefined || reset === undefined) {
+      return;
     }
 
-    if (reset !== undefined) {
-      this.rateLimitInfo.resetAt = new Date(parseInt(reset) * 1000);
-    }
+    // Reddit reports the reset as seconds from now
+    this.feedRateLimit(parseInt(remaining), new Date(Date.now() + parseInt(reset) * 1000));
   }
 
   /**
@@ -0,0 +1,324 @@
+import { XMLParser } from 'fast-xml-parser';
+import { BasePlatformAdapter } from '../BasePlatformAdapter';
+import {
+  RssFeedConfig,
+  RawFeedbackItem,
+  SearchOptions,
+  UserFeedbackOptions
+} from '@/types/ingestion';
+import { FeedbackData } from '@/types/feedback';
+import { htmlToText, parseDate, stableItemId, toText } from '../fieldMapping';
+
+interface FeedEntry {
+  id?: string;
+  title: string;
+  link?: string;
+  author?: string;
+  content: string;
+  categories: string[];
+  commentsUrl?: string;
+  published?: Date;
+}
+
+interface FeedDocument {
+  title: string;
+  link?: string;
+  entries: FeedEntry[];
+}
+
+// Elements that may repeat and should always parse as arrays
+const REPEATED_ELEMENTS = new Set(['item', 'entry', 'link', 'category', 'author']);
+
+export class RssFeedAdapter extends BasePlatformAdapter {
+  public readonly config: RssFeedConfig;
+  private parser: XMLParser;
+  private feedCache: Map<string, { etag?: string; lastModified?: string; feed: FeedDocument }> = new Map();
+
+  constructor(config: RssFeedConfig) {
+    super('rss', config);
+    this.config = config;
+    this.parser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      textNodeName: '#text',
+      parseTagValue: false,
+      trimValues: true,
+      isArray: (tagName) => REPEATED_ELEMENTS.has(tagName)
+    });
+  }
+
+  /**
+   * Feeds are fetched by absolute URL, so only headers need setting up
+   */
+  protected async setupHttpClient(): Promise<void> {
+    this.httpClient.defaults.headers.common['Accept'] =
+      'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8';
+  }
+
+  /**
+   * Public feeds need no credentials
+   */
+  async authenticate(): Promise<boolean> {
+    this.isAuthenticated = true;
+    return true;
+  }
+
+  /**
+   * Get health check endpoint
+   */
+  protected getHealthCheckEndpoint(): string {
+    return this.config.feedUrls[0] || '';
+  }
+
+  /**
+   * Check that every configured feed can be fetched and parsed
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      for (const feedUrl of this.config.feedUrls) {
+        await this.fetchFeed(feedUrl);
+      }
+      return true;
+    } catch (error) {
+      console.error('❌ RSS feed connection test failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Poll feeds for entries. A URL query polls that feed; any other query filters
+   * the configured feeds by keyword, with `*` matching every entry.
+   */
+  async searchFeedback(query: string, options: SearchOptions = {}): Promise<RawFeedbackItem[]> {
+    const trimmed = query.trim();
+    const isUrl = /^https?:\/\//i.test(trimmed);
+    const needle = isUrl || trimmed === '*' ? '' : trimmed.toLowerCase();
+
+    return await this.pollFeeds(isUrl ? [trimmed] : this.config.feedUrls, options, entry =>
+      needle === '' || `${entry.title}\n${entry.content}`.toLowerCase().includes(needle)
+    );
+  }
+
+  /**
+   * Get entries written by an author across the configured feeds
+   */
+  async getUserFeedback(userId: string, options: UserFeedbackOptions = {}): Promise<RawFeedbackItem[]> {
+    return await this.pollFeeds(this.config.feedUrls, options, entry =>
+      (entry.author || '').toLowerCase() === userId.toLowerCase()
+    );
+  }
+
+  /**
+   * Fetch the feeds and transform matching entries inside the date range
+   */
+  private async pollFeeds(
+    feedUrls: string[],
+    options: SearchOptions,
+    predicate: (entry: FeedEntry) => boolean
+  ): Promise<RawFeedbackItem[]> {
+    const items: RawFeedbackItem[] = [];
+
+    for (const feedUrl of feedUrls) {
+      try {
+        const feed = await this.fetchFeed(feedUrl);
+        const entries = feed.entries
+          .filter(entry =>
+            (!options.since || !entry.published || entry.published >= options.since) &&
+            (!options.until || !entry.published || entry.published <= options.until) &&
+            predicate(entry)
+          )
+          .slice(0, this.config.maxEntriesPerFeed);
+
+        items.push(...entries.map(entry => this.transformEntry(entry, feed, feedUrl)));
+      } catch (error) {
+        console.error(`❌ RSS feed fetch failed for ${feedUrl}:`, error);
+        if (feedUrls.length === 1) {
+          throw error;
+        }
+      }
+    }
+
+    return options.maxResults ? items.slice(0, options.maxResults) : items;
+  }
+
+  /**
+   * Fetch and parse a feed, using conditional GETs so unchanged feeds are served from cache
+   */
+  private async fetchFeed(feedUrl: string): Promise<FeedDocument> {
+    const cached = this.feedCache.get(feedUrl);
+    const headers: Record<string, string> = {};
+
+    if (cached?.etag) {
+      headers['If-None-Match'] = cached.etag;
+    }
+    if (cached?.lastModified) {
+      headers['If-Modified-Since'] = cached.lastModified;
+    }
+
+    const response = await this.makeRequest('GET', feedUrl, {
+      headers,
+      responseType: 'text',
+      validateStatus: status => (status >= 200 && status < 300) || status === 304
+    });
+
+    if (response.status === 304 && cached) {
+      return cached.feed;
+    }
+
+    const feed = this.parseFeed(response.data);
+    this.feedCache.set(feedUrl, {
+      etag: response.headers['etag'],
+      lastModified: response.headers['last-modified'],
+      feed
+    });
+
+    return feed;
+  }
+
+  /**
+   * Parse RSS 2.0, RSS 1.0 (RDF) or Atom documents
+   */
+  private parseFeed(xml: string): FeedDocument {
+    const document = this.parser.parse(xml);
+
+    if (document.feed) {
+      const feed = document.feed;
+      return {
+        title: textOf(feed.title),
+        link: atomLink(feed.link),
+        entries: (feed.entry || []).map((entry: any): FeedEntry => ({
+          id: textOf(entry.id) || undefined,
+          title: textOf(entry.title),
+          link: atomLink(entry.link),
+          author: entry.author ? textOf(entry.author[0]?.name) || undefined : undefined,
+          content: htmlToText(textOf(entry.content) || textOf(entry.summary)),
+          categories: (entry.category || []).map((category: any) => category['@_term'] || textOf(category)),
+          commentsUrl: atomLink(entry.link, 'replies'),
+          published: parseDate(textOf(entry.published) || textOf(entry.updated))
+        }))
+      };
+    }
+
+    const channel = document.rss?.channel || document['rdf:RDF']?.channel;
+    const rawItems = document.rss?.channel?.item || document['rdf:RDF']?.item;
+    if (!channel && !rawItems) {
+      throw new Error('Document is not an RSS or Atom feed');
+    }
+
+    return {
+      title: textOf(channel?.title),
+      link: textOf(channel?.link?.[0]) || undefined,
+      entries: (rawItems || []).map((item: any): FeedEntry => ({
+        id: textOf(item.guid) || textOf(item['@_rdf:about']) || undefined,
+        title: textOf(item.title),
+        link: textOf(item.link?.[0]) || undefined,
+        author: textOf(item['dc:creator']) || textOf(item.author?.[0]) || undefined,
+        content: htmlToText(textOf(item['content:encoded']) || textOf(item.description)),
+        categories: (item.category || []).map((category: any) => textOf(category)),
+        commentsUrl: textOf(item.comments) || undefined,
+        published: parseDate(textOf(item.pubDate) || textOf(item['dc:date']))
+      }))
+    };
+  }
+
+  /**
+   * Transform a feed entry to RawFeedbackItem
+   */
+  private transformEntry(entry: FeedEntry, feed: FeedDocument, feedUrl: string): RawFeedbackItem {
+    const author = entry.author || feed.title || 'unknown';
+    const content = [entry.title, entry.content].filter(Boolean).join('\n\n');
+
+    return {
+      id: entry.id || entry.link || stableItemId(content, author, entry.published),
+      platform: 'rss',
+      content,
+      author: {
+        id: author,
+        username: author,
+        displayName: author,
+        followerCount: 0,
+        verified: false
+      },
+      engagement: {
+        likes: 0,
+        shares: 0,
+        comments: 0,
+        views: 0
+      },
+      timestamps: {
+        created: entry.published || new Date()
+      },
+      metadata: {
+        feed_url: feedUrl,
+        feed_title: feed.title,
+        title: entry.title,
+        url: entry.link,
+        comments_url: entry.commentsUrl,
+        categories: entry.categories
+      },
+      urls: entry.link ? [entry.link] : [],
+      mentions: [],
+      hashtags: entry.categories
+    };
+  }
+
+  /**
+   * Transform RawFeedbackItem to FeedbackData
+   */
+  transformToFeedback(rawItem: RawFeedbackItem): FeedbackData {
+    return {
+      id: '', // Will be generated by database
+      platform: 'rss',
+      external_id: rawItem.id,
+      content: rawItem.content,
+      author: {
+        id: rawItem.author.id,
+        username: rawItem.author.username,
+        followerCount: rawItem.author.followerCount,
+        verified: rawItem.author.verified
+      },
+      engagement: {
+        likes: rawItem.engagement.likes,
+        shares: rawItem.engagement.shares,
+        comments: rawItem.engagement.comments
+      },
+      posted_at: rawItem.timestamps.created,
+      ingested_at: new Date(),
+      metadata: {
+        ...rawItem.metadata,
+        hashtags: rawItem.hashtags
+      }
+    };
+  }
+}
+
+/**
+ * Read the text of a parsed XML node, which may be a string or an element with attributes
+ */
+function textOf(node: any): string {
+  if (node === undefined || node === null) {
+    return '';
+  }
+  if (Array.isArray(node)) {
+    return textOf(node[0]);
+  }
+  if (typeof node === 'object') {
+    return toText(node['#text']);
+  }
+  return toText(node);
+}
+
+/**
+ * Pick an Atom link by rel, defaulting to the alternate link
+ */
+function atomLink(links: any[] | undefined, rel: string = 'alternate'): string | undefined {
+  if (!links || links.length === 0) {
+    return undefined;
+  }
+
+  const match = links.find(link => (link['@_rel'] || 'alternate') === rel);
+  if (match) {
+    return match['@_href'];
+  }
+  return rel === 'alternate' ? links[0]['@_href'] || textOf(links[0]) || undefined : undefined;
+}
@@ -15,7 +15,7 @@ import { FeedbackData } from '@/types/feedback';
  * with the actual TrustPilot API.
  */
 export class TrustPilotAdapter extends BasePlatformAdapter {
-  private config: TrustPilotConfig;
+  public readonly config: TrustPilotConfig;
   private mockReviews: MockTrustPilotReview[] = [];
 
   constructor(config: TrustPilotConfig) {
@@ -178,6 +178,7 @@ export class TrustPilotAdapter extends BasePlatformAdapter {
       external_id: rawItem.id,
       content: rawItem.content,
       author: {
+        id: rawItem.author.id,
         username: rawItem.author.username,
         followerCount: rawItem.author.followerCount,
         verified: rawItem.author.verified
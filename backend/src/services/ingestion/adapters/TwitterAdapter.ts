@@ -3,7 +3,9 @@ import {
   TwitterConfig, 
   RawFeedbackItem, 
   SearchOptions, 
-  UserFeedbackOptions 
+  UserFeedbackOptions,
+  FeedbackPage,
+  ArchivedPayload
 } from '@/types/ingestion';
 import { FeedbackData } from '@/types/feedback';
 import { AxiosResponse } from 'axios';
@@ -37,6 +39,7 @@ interface TwitterTweet {
     type: 'retweeted' | 'quoted' | 'replied_to';
     id: string;
   }>;
+  conversation_id?: string;
 }
 
 interface TwitterUser {
@@ -80,12 +83,13 @@ interface TwitterSearchResponse {
 }
 
 export class TwitterAdapter extends BasePlatformAdapter {
-  private config: TwitterConfig;
-  private baseUrl = 'https://api.twitter.com/2';
+  public readonly config: TwitterConfig;
+  private baseUrl: string;
 
   constructor(config: TwitterConfig) {
     super('twitter', config);
     this.config = config;
+    this.baseUrl = config.baseUrl || 'https://api.twitter.com/2';
   }
 
   /**
@@ -132,35 +136,44 @@ export class TwitterAdapter extends BasePlatformAdapter {
    * Search for tweets
    */
   async searchFeedback(query: string, options: SearchOptions = {}): Promise<RawFeedbackItem[]> {
+    const page = await this.searchFeedbackPage(query, options);
+    return page.items;
+  }
+
+  /**
+   * Search a single page of tweets, following next_token
+   */
+  protected async searchFeedbackPage(query: string, options: SearchOptions = {}): Promise<FeedbackPage> {
     const params = new URLSearchParams();
     
     // Build search query
     params.append('query', this.buildSearchQuery(query, options));
     
-    // Set result limit
+    // Recent search requires at least 10 results per page
     if (options.maxResults) {
-      params.append('max_results', Math.min(options.maxResults, 100).toString());
+      params.append('max_results', Math.max(10, Math.min(options.maxResults, 100)).toString());
     }
     
-    // Set date range
-    if (options.since) {
-      params.append('start_time', options.since.toISOString());
-    }
-    
-    if (options.until) {
-      params.append('end_time', options.until.toISOString());
+    // Set date range, preferring the last seen tweet ID over a timestamp
+    this.appendRangeParams(params, options);
+
+    if (options.cursor) {
+      params.append('next_token', options.cursor);
     }
 
     // Request additional fields
-    params.append('tweet.fields', 'created_at,public_metrics,context_annotations,entities,geo,lang,possibly_sensitive,referenced_tweets');
-    params.append('user.fields', 'username,name,public_metrics,verified,profile_image_url,location,description');
+    params.append('tweet.fields', 'created_at,public_metrics,context_annotations,entities,geo,lang,possibly_sensitive,referenced_tweets,conversation_id');
+    params.append('user.fields', 'username,name,public_metrics,verified,profile_image_url,location,description,created_at');
     params.append('expansions', 'author_id,geo.place_id');
 
     try {
       const response = await this.makeRequest('GET', `/tweets/search/recent?${params.toString()}`);
       const searchResponse: TwitterSearchResponse = response.data;
       
-      return this.transformTwitterResponse(searchResponse);
+      return {
+        items: this.transformTwitterResponse(searchResponse),
+        nextCursor: searchResponse.meta?.next_token
+      };
     } catch (error) {
       console.error('❌ Twitter search failed:', error);
       throw error;
@@ -171,20 +184,26 @@ export class TwitterAdapter extends BasePlatformAdapter {
    * Get user timeline tweets
    */
   async getUserFeedback(userId: string, options: UserFeedbackOptions = {}): Promise<RawFeedbackItem[]> {
+    const page = await this.getUserFeedbackPage(userId, options);
+    return page.items;
+  }
+
+  /**
+   * Get a single page of user timeline tweets, following pagination_token
+   */
+  protected async getUserFeedbackPage(userId: string, options: UserFeedbackOptions = {}): Promise<FeedbackPage> {
     const params = new URLSearchParams();
     
-    // Set result limit
+    // User timeline requires at least 5 results per page
     if (options.maxResults) {
-      params.append('max_results', Math.min(options.maxResults, 100).toString());
+      params.append('max_results', Math.max(5, Math.min(options.maxResults, 100)).toString());
     }
     
-    // Set date range
-    if (options.since) {
-      params.append('start_time', options.since.toISOString());
-    }
-    
-    if (options.until) {
-      params.append('end_time', options.until.toISOString());
+    // Set date range, preferring the last seen tweet ID over a timestamp
+    this.appendRangeParams(params, options);
+
+    if (options.cursor) {
+      params.append('pagination_token', options.cursor);
     }
 
     // Exclude replies and retweets if specified
@@ -200,21 +219,73 @@ export class TwitterAdapter extends BasePlatformAdapter {
     }
 
     // Request additional fields
-    params.append('tweet.fields', 'created_at,public_metrics,context_annotations,entities,geo,lang,possibly_sensitive,referenced_tweets');
-    params.append('user.fields', 'username,name,public_metrics,verified,profile_image_url,location,description');
+    params.append('tweet.fields', 'created_at,public_metrics,context_annotations,entities,geo,lang,possibly_sensitive,referenced_tweets,conversation_id');
+    params.append('user.fields', 'username,name,public_metrics,verified,profile_image_url,location,description,created_at');
     params.append('expansions', 'author_id,geo.place_id');
 
     try {
       const response = await this.makeRequest('GET', `/users/${userId}/tweets?${params.toString()}`);
       const searchResponse: TwitterSearchResponse = response.data;
       
-      return this.transformTwitterResponse(searchResponse);
+      return {
+        items: this.transformTwitterResponse(searchResponse),
+        nextCursor: searchResponse.meta?.next_token
+      };
     } catch (error) {
       console.error('❌ Twitter user timeline fetch failed:', error);
       throw error;
     }
   }
 
+  /**
+   * Look tweets up by ID, 100 per request
+   */
+  protected async getItemsByIds(externalIds: string[]): Promise<RawFeedbackItem[]> {
+    const items: RawFeedbackItem[] = [];
+
+    for (let i = 0; i < externalIds.length; i += 100) {
+      const params = new URLSearchParams();
+      params.append('ids', externalIds.slice(i, i + 100).join(','));
+      params.append('tweet.fields', 'created_at,public_metrics,context_annotations,entities,geo,lang,possibly_sensitive,referenced_tweets,conversation_id');
+      params.append('user.fields', 'username,name,public_metrics,verified,profile_image_url,location,description,created_at');
+      params.append('expansions', 'author_id,geo.place_id');
+
+      try {
+        const response = await this.makeRequest('GET', `/tweets?${params.toString()}`);
+        items.push(...this.transformTwitterResponse(response.data));
+      } catch (error) {
+        console.error('❌ Twitter tweet lookup failed:', error);
+        throw error;
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Re-derive tweets from archived search, timeline, mention and lookup responses
+   */
+  protected async parseArchivedPayloads(payloads: ArchivedPayload[]): Promise<RawFeedbackItem[]> {
+    return payloads
+      .filter(payload => Array.isArray(payload.body?.data))
+      .flatMap(payload => this.transformTwitterResponse(payload.body));
+  }
+
+  /**
+   * Append since_id or start_time/end_time parameters
+   */
+  private appendRangeParams(params: URLSearchParams, options: SearchOptions | UserFeedbackOptions): void {
+    if (options.sinceId) {
+      params.append('since_id', options.sinceId);
+    } else if (options.since) {
+      params.append('start_time', options.since.toISOString());
+    }
+    
+    if (options.until) {
+      params.append('end_time', options.until.toISOString());
+    }
+  }
+
   /**
    * Transform Twitter API response to RawFeedbackItem[]
    */
@@ -252,16 +323,22 @@ export class TwitterAdapter extends BasePlatformAdapter {
   ): RawFeedbackItem {
     const user = userMap.get(tweet.author_id);
     const place = tweet.geo?.place_id ? placeMap.get(tweet.geo.place_id) : null;
+    const repliedTo = tweet.referenced_tweets?.find(reference => reference.type === 'replied_to');
 
     return {
       id: tweet.id,
       platform: 'twitter',
+      parentId: repliedTo?.id,
+      // The conversation ID is the ID of the tweet that started the thread
+      rootId: repliedTo ? tweet.conversation_id || repliedTo.id : undefined,
       content: tweet.text,
       author: {
         id: tweet.author_id,
         username: user?.username || 'unknown',
         displayName: user?.name,
         followerCount: user?.public_metrics?.followers_count,
+        followingCount: user?.public_metrics?.following_count,
+        createdAt: user?.created_at ? new Date(user.created_at) : undefined,
         verified: user?.verified || false,
         profileUrl: user ? `https://twitter.com/${user.username}` : undefined,
         avatarUrl: user?.profile_image_url
@@ -280,6 +357,7 @@ export class TwitterAdapter extends BasePlatformAdapter {
         possibly_sensitive: tweet.possibly_sensitive,
         context_annotations: tweet.context_annotations,
         referenced_tweets: tweet.referenced_tweets,
+        conversation_id: tweet.conversation_id,
         quote_count: tweet.public_metrics?.quote_count || 0
       },
       urls: tweet.entities?.urls?.map(url => url.expanded_url) || [],
@@ -300,10 +378,15 @@ export class TwitterAdapter extends BasePlatformAdapter {
       id: '', // Will be generated by database
       platform: 'twitter',
       external_id: rawItem.id,
+      parent_external_id: rawItem.parentId,
+      root_external_id: rawItem.rootId,
       content: rawItem.content,
       author: {
+        id: rawItem.author.id,
         username: rawItem.author.username,
         followerCount: rawItem.author.followerCount,
+        followingCount: rawItem.author.followingCount,
+        accountCreatedAt: rawItem.author.createdAt,
         verified: rawItem.author.verified
       },
       engagement: {
@@ -357,25 +440,55 @@ export class TwitterAdapter extends BasePlatformAdapter {
     const remaining = response.headers['x-rate-limit-remaining'];
     const reset = response.headers['x-rate-limit-reset'];
 
-    if (remaining !== undefined) {
-      this.rateLimitInfo.remaining = parseInt(remaining);
+    if (remaining === undefined || reset === undefined) {
+      return;
     }
 
-    if (reset !== undefined) {
-      this.rateLimitInfo.resetAt = new Date(parseInt(reset) * 1000);
-    }
+    this.feedRateLimit(parseInt(remaining), new Date(parseInt(reset) * 1000));
   }
 
   /**
    * Get mentions of a specific user
    */
   async getMentions(userId: string, options: SearchOptions = {}): Promise<RawFeedbackItem[]> {
-    // Get user info first to get username
-    const userResponse = await this.makeRequest('GET', `/users/${userId}`);
-    const username = userResponse.data.data.username;
+    const page = await this.getMentionsPage(userId, options);
+    return page.items;
+  }
+
+  /**
+   * Get a single page of tweets mentioning a user, following pagination_token
+   */
+  protected async getMentionsPage(userId: string, options: SearchOptions = {}): Promise<FeedbackPage> {
+    const params = new URLSearchParams();
 
-    // Search for mentions
-    return await this.searchFeedback(`@${username}`, options);
+    // Mentions timeline requires at least 5 results per page
+    if (options.maxResults) {
+      params.append('max_results', Math.max(5, Math.min(options.maxResults, 100)).toString());
+    }
+
+    this.appendRangeParams(params, options);
+
+    if (options.cursor) {
+      params.append('pagination_token', options.cursor);
+    }
+
+    // Request additional fields
+    params.append('tweet.fields', 'created_at,public_metrics,context_annotations,entities,geo,lang,possibly_sensitive,referenced_tweets,conversation_id');
+    params.append('user.fields', 'username,name,public_metrics,verified,profile_image_url,location,description,created_at');
+    params.append('expansions', 'author_id,geo.place_id');
+
+    try {
+      const response = await this.makeRequest('GET', `/users/${userId}/mentions?${params.toString()}`);
+      const searchResponse: TwitterSearchResponse = response.data;
+
+      return {
+        items: this.transformTwitterResponse(searchResponse),
+        nextCursor: searchResponse.meta?.next_token
+      };
+    } catch (error) {
+      console.error('❌ Twitter mentions fetch failed:', error);
+      throw error;
+    }
   }
 
   /**
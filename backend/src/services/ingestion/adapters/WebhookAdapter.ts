@@ -0,0 +1,275 @@
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { BasePlatformAdapter } from '../BasePlatformAdapter';
+import {
+  IngestionJob,
+  IngestionResult,
+  RawFeedbackItem,
+  SearchOptions,
+  UserFeedbackOptions,
+  WebhookConfig,
+  WebhookSource
+} from '@/types/ingestion';
+import { FeedbackData } from '@/types/feedback';
+import { WebhookSourceRepository } from '@/repositories/WebhookSourceRepository';
+import { cache } from '@/utils/database';
+import { REDIS_KEYS } from '@/utils/redis-keys';
+import { mapRecordToRawItem, parseDate, selectItems } from '../fieldMapping';
+
+/**
+ * Thrown when an inbound delivery fails signature or replay checks
+ */
+export class WebhookVerificationError extends Error {
+  public readonly code: string;
+  public readonly statusCode: number;
+
+  constructor(code: string, message: string, statusCode: number = 401) {
+    super(message);
+    this.name = 'WebhookVerificationError';
+    this.code = code;
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * A delivery that passed signature and replay checks
+ */
+export interface VerifiedWebhookDelivery {
+  source: WebhookSource;
+  nonce: string; // sender's nonce header, or the signature digest when none is sent
+  replayKeys: string[]; // replay-cache keys claimed for the delivery
+}
+
+export class WebhookAdapter extends BasePlatformAdapter {
+  public readonly config: WebhookConfig;
+  private sourceRepository: WebhookSourceRepository;
+
+  constructor(config: WebhookConfig, sourceRepository: WebhookSourceRepository = new WebhookSourceRepository()) {
+    super('webhook', config);
+    this.config = config;
+    this.sourceRepository = sourceRepository;
+  }
+
+  /**
+   * Webhooks are pushed to us, so no HTTP client is needed
+   */
+  protected async setupHttpClient(): Promise<void> {
+    // Nothing to set up
+  }
+
+  /**
+   * Deliveries are authenticated per request by their signature
+   */
+  async authenticate(): Promise<boolean> {
+    this.isAuthenticated = true;
+    return true;
+  }
+
+  /**
+   * Get health check endpoint
+   */
+  protected getHealthCheckEndpoint(): string {
+    return '';
+  }
+
+  /**
+   * Webhooks have no upstream to reach
+   */
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Check the signature, timestamp and nonce of a delivery.
+   * Returns the source, the delivery's nonce and the replay keys it consumed.
+   */
+  async verifyDelivery(
+    sourceId: string,
+    headers: IncomingHttpHeaders,
+    rawBody: Buffer
+  ): Promise<VerifiedWebhookDelivery> {
+    const source = await this.sourceRepository.findEnabledById(sourceId);
+    if (!source) {
+      throw new WebhookVerificationError('SOURCE_NOT_FOUND', 'Webhook source not found', 404);
+    }
+
+    const signatureHeader = getHeader(headers, source.signatureHeader);
+    const timestampHeader = getHeader(headers, source.timestampHeader);
+    if (!signatureHeader || !timestampHeader) {
+      throw new WebhookVerificationError('MISSING_SIGNATURE', 'Signature and timestamp headers are required');
+    }
+
+    const sentAt = parseDate(timestampHeader);
+    const toleranceMs = this.config.signatureToleranceSeconds * 1000;
+    if (!sentAt || Math.abs(Date.now() - sentAt.getTime()) > toleranceMs) {
+      throw new WebhookVerificationError('STALE_TIMESTAMP', 'Webhook timestamp is outside the accepted window');
+    }
+
+    // Sign `<timestamp>.<body>` so a captured body cannot be replayed with a fresh timestamp
+    const expected = crypto
+      .createHmac('sha256', source.secret)
+      .update(`${timestampHeader}.`)
+      .update(rawBody)
+      .digest();
+
+    // Several signatures may be sent while a secret is being rotated
+    const signatures = signatureHeader
+      .split(/[\s,]+/)
+      .map(value => value.replace(/^sha256=/i, ''))
+      .filter(value => /^[0-9a-f]+$/i.test(value));
+
+    const valid = signatures.some(signature => {
+      const provided = Buffer.from(signature, 'hex');
+      return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+    });
+    if (!valid) {
+      throw new WebhookVerificationError('INVALID_SIGNATURE', 'Webhook signature is invalid');
+    }
+
+    // The nonce header is not signed, so replays are always keyed on the signed digest;
+    // a sender's nonce only adds a second key that catches re-signed duplicates
+    const digest = expected.toString('hex');
+    const headerNonce = source.nonceHeader ? getHeader(headers, source.nonceHeader) : undefined;
+    const delivery: VerifiedWebhookDelivery = {
+      source,
+      nonce: headerNonce || digest,
+      replayKeys: []
+    };
+
+    const candidates = [`sig:${digest}`, ...(headerNonce ? [`nonce:${headerNonce}`] : [])];
+    for (const key of candidates) {
+      const fresh = await cache.setIfAbsent(
+        REDIS_KEYS.WEBHOOK_NONCE(source.id, key),
+        sentAt.toISOString(),
+        this.config.signatureToleranceSeconds * 2
+      );
+      if (!fresh) {
+        await this.releaseDelivery(delivery);
+        throw new WebhookVerificationError('REPLAYED_DELIVERY', 'Webhook delivery has already been received', 409);
+      }
+      delivery.replayKeys.push(key);
+    }
+
+    return delivery;
+  }
+
+  /**
+   * Forget a delivery's replay keys so the sender can retry a delivery we failed to store
+   */
+  async releaseDelivery(delivery: VerifiedWebhookDelivery): Promise<void> {
+    for (const key of delivery.replayKeys) {
+      await cache.del(REDIS_KEYS.WEBHOOK_NONCE(delivery.source.id, key));
+    }
+  }
+
+  /**
+   * Persist a webhook delivery, falling back to the base pipeline for other job types
+   */
+  async fetchFeedback(job: IngestionJob, signal?: AbortSignal): Promise<IngestionResult> {
+    if (job.type !== 'webhook') {
+      return await super.fetchFeedback(job, signal);
+    }
+
+    const result: IngestionResult = {
+      success: false,
+      platform: this.platform,
+      itemsProcessed: 0,
+      itemsSkipped: 0,
+      errors: []
+    };
+
+    try {
+      const delivery = job.webhookDelivery;
+      if (!delivery) {
+        throw new Error('Webhook delivery is required for webhook jobs');
+      }
+
+      const items = selectItems(delivery.payload, delivery.mapping.items);
+      if (items.length > this.config.maxItemsPerDelivery) {
+        throw new Error(`Delivery contains ${items.length} items; at most ${this.config.maxItemsPerDelivery} are accepted`);
+      }
+
+      const rawItems: RawFeedbackItem[] = [];
+      items.forEach((item, index) => {
+        if (!item || typeof item !== 'object' || Array.isArray(item)) {
+          result.itemsSkipped++;
+          result.errors.push({
+            type: 'validation_error',
+            message: `Item ${index} is not an object`,
+            code: 'invalid_item',
+            retryable: false,
+            timestamp: new Date(),
+            context: { sourceId: delivery.sourceId, index }
+          });
+          return;
+        }
+
+        rawItems.push(mapRecordToRawItem(item, delivery.mapping, 'webhook', {
+          webhook_source: delivery.sourceId,
+          webhook_nonce: delivery.nonce
+        }, delivery.sourceId));
+      });
+
+      await this.persistItems(rawItems, job, result);
+
+      job.progress.total = items.length;
+      job.progress.processed = result.itemsProcessed;
+      result.success = !result.errors.some(error => error.retryable);
+    } catch (error) {
+      result.errors.push(this.handleError(error));
+      result.success = false;
+    }
+
+    return result;
+  }
+
+  /**
+   * Webhooks have no remote search
+   */
+  async searchFeedback(query: string, options?: SearchOptions): Promise<RawFeedbackItem[]> {
+    throw new Error('Search is not supported for webhooks');
+  }
+
+  /**
+   * Webhooks have no remote user timeline
+   */
+  async getUserFeedback(userId: string, options?: UserFeedbackOptions): Promise<RawFeedbackItem[]> {
+    throw new Error('User feedback is not supported for webhooks');
+  }
+
+  /**
+   * Transform RawFeedbackItem to FeedbackData
+   */
+  transformToFeedback(rawItem: RawFeedbackItem): FeedbackData {
+    return {
+      id: '', // Will be generated by database
+      platform: 'webhook',
+      external_id: rawItem.id,
+      parent_external_id: rawItem.parentId,
+      root_external_id: rawItem.rootId,
+      content: rawItem.content,
+      author: {
+        id: rawItem.author.id,
+        username: rawItem.author.username,
+        followerCount: rawItem.author.followerCount,
+        verified: rawItem.author.verified
+      },
+      engagement: {
+        likes: rawItem.engagement.likes,
+        shares: rawItem.engagement.shares,
+        comments: rawItem.engagement.comments
+      },
+      posted_at: rawItem.timestamps.created,
+      ingested_at: new Date(),
+      metadata: {
+        ...rawItem.metadata,
+        author_display_name: rawItem.author.displayName
+      }
+    };
+  }
+}
+
+function getHeader(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
@@ -0,0 +1,262 @@
+import crypto from 'crypto';
+import { FileImportMapping, RawFeedbackItem } from '@/types/ingestion';
+import { Platform } from '@/types/feedback';
+
+type PathToken = string | number | '*';
+
+/**
+ * Map a flat row or nested record onto a RawFeedbackItem.
+ * Mapping values are column names or JSONPath-style paths. Item and author IDs are
+ * prefixed with the namespace, e.g. a webhook source, since sources sharing a platform
+ * number their rows independently.
+ */
+export function mapRecordToRawItem(
+  record: Record<string, any>,
+  mapping: FileImportMapping,
+  platform: Platform,
+  baseMetadata: Record<string, any> = {},
+  namespace?: string
+): RawFeedbackItem {
+  const content = toText(resolvePath(record, mapping.content));
+  const username = toText(resolvePath(record, mapping.author)) || 'anonymous';
+  const createdAt = parseDate(resolvePath(record, mapping.createdAt));
+  const scoped = (id: string) => (id && namespace ? `${namespace}:${id}` : id);
+
+  const metadata: Record<string, any> = { ...baseMetadata };
+  for (const [key, path] of Object.entries(mapping.metadata || {})) {
+    const value = resolvePath(record, path);
+    if (value !== undefined && value !== '') {
+      metadata[key] = value;
+    }
+  }
+
+  return {
+    id: scoped(toText(resolvePath(record, mapping.id)) || stableItemId(content, username, createdAt)),
+    platform,
+    parentId: scoped(toText(resolvePath(record, mapping.parentId))) || undefined,
+    rootId: scoped(toText(resolvePath(record, mapping.rootId))) || undefined,
+    content,
+    author: {
+      id: scoped(username),
+      username,
+      displayName: toText(resolvePath(record, mapping.authorDisplayName)) || undefined,
+      followerCount: toNumber(resolvePath(record, mapping.authorFollowers)),
+      verified: toBoolean(resolvePath(record, mapping.authorVerified))
+    },
+    engagement: {
+      likes: toNumber(resolvePath(record, mapping.likes)) || 0,
+      shares: toNumber(resolvePath(record, mapping.shares)) || 0,
+      comments: toNumber(resolvePath(record, mapping.comments)) || 0
+    },
+    timestamps: {
+      created: createdAt || new Date()
+    },
+    metadata
+  };
+}
+
+/**
+ * Resolve a column name, dotted path or JSONPath (`$.a.b[0]`, `$['a b']`, `$.items[*].id`).
+ * Paths containing a wildcard return every match as an array.
+ */
+export function resolvePath(record: any, path?: string): any {
+  if (!path || record === undefined || record === null) {
+    return undefined;
+  }
+
+  if (typeof record === 'object' && !path.startsWith('$') && path in record) {
+    return record[path];
+  }
+
+  const tokens = tokenizePath(path);
+  const matches = collect(record, tokens);
+  return tokens.includes('*') ? matches : matches[0];
+}
+
+/**
+ * Select the list of items a payload carries; the payload itself is the only item without a path
+ */
+export function selectItems(payload: any, path?: string): any[] {
+  if (!path) {
+    return Array.isArray(payload) ? payload : [payload];
+  }
+
+  const selected = resolvePath(payload, path);
+  if (selected === undefined || selected === null) {
+    return [];
+  }
+  return Array.isArray(selected) ? selected : [selected];
+}
+
+/**
+ * Replace every value a column name or path resolves to, in place
+ */
+export function updatePath(record: any, path: string, update: (value: any) => any): void {
+  if (record === undefined || record === null || typeof record !== 'object') {
+    return;
+  }
+
+  if (!path.startsWith('$') && path in record) {
+    record[path] = update(record[path]);
+    return;
+  }
+
+  const tokens = tokenizePath(path);
+  const last = tokens.pop();
+  if (last === undefined) {
+    return;
+  }
+
+  for (const parent of collect(record, tokens)) {
+    if (parent === null || typeof parent !== 'object') {
+      continue;
+    }
+
+    const keys = last === '*'
+      ? Object.keys(parent)
+      : [typeof last === 'number' && Array.isArray(parent) && last < 0 ? parent.length + last : last];
+    for (const key of keys) {
+      if (key in parent) {
+        parent[key] = update(parent[key]);
+      }
+    }
+  }
+}
+
+/**
+ * Derive a stable ID so re-delivering the same item updates rather than duplicates
+ */
+export function stableItemId(content: string, username: string, createdAt?: Date): string {
+  return crypto
+    .createHash('sha1')
+    .update(`${username}\n${createdAt ? createdAt.toISOString() : ''}\n${content}`)
+    .digest('hex');
+}
+
+/**
+ * Split a path into property names, array indexes and wildcards
+ */
+function tokenizePath(path: string): PathToken[] {
+  const tokens: PathToken[] = [];
+  const pattern = /\[\s*(?:'([^']*)'|"([^"]*)"|(\*)|(-?\d+))\s*\]|\.?([^.[\]]+)/g;
+  const body = path.startsWith('$') ? path.slice(1) : path;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(body)) !== null) {
+    const [, singleQuoted, doubleQuoted, wildcard, index, name] = match;
+    if (singleQuoted !== undefined || doubleQuoted !== undefined) {
+      tokens.push((singleQuoted ?? doubleQuoted) as string);
+    } else if (wildcard) {
+      tokens.push('*');
+    } else if (index !== undefined) {
+      tokens.push(Number(index));
+    } else if (name === '*') {
+      tokens.push('*');
+    } else if (name !== undefined) {
+      tokens.push(name);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Walk the tokens, fanning out at wildcards
+ */
+function collect(value: any, tokens: PathToken[]): any[] {
+  if (tokens.length === 0) {
+    return value === undefined ? [] : [value];
+  }
+  if (value === undefined || value === null || typeof value !== 'object') {
+    return [];
+  }
+
+  const [token, ...rest] = tokens;
+  if (token === '*') {
+    const children = Array.isArray(value) ? value : Object.values(value);
+    return children.flatMap(child => collect(child, rest));
+  }
+
+  if (typeof token === 'number' && Array.isArray(value)) {
+    return collect(value[token < 0 ? value.length + token : token], rest);
+  }
+
+  return collect(value[token], rest);
+}
+
+export function toText(value: any): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return String(value).trim();
+}
+
+export function toNumber(value: any): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export function toBoolean(value: any): boolean {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  return ['true', '1', 'yes', 'y'].includes(toText(value).toLowerCase());
+}
+
+export function parseDate(value: any): Date | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  // Accept epoch seconds or milliseconds as well as date strings
+  const numeric = Number(value);
+  const date = Number.isFinite(numeric)
+    ? new Date(numeric < 1e12 ? numeric * 1000 : numeric)
+    : new Date(value);
+
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+};
+
+/**
+ * Decode a numeric character reference; NUL, surrogates and values past U+10FFFF
+ * become U+FFFD as in HTML parsers, since String.fromCodePoint throws on out-of-range values
+ */
+function decodeCodePoint(value: number): string {
+  if (!Number.isInteger(value) || value <= 0 || value > 0x10ffff || (value >= 0xd800 && value <= 0xdfff)) {
+    return '\uFFFD';
+  }
+  return String.fromCodePoint(value);
+}
+
+/**
+ * Convert an HTML fragment (HN comments, feed summaries) to plain text
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?p(\s[^>]*)?>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return decodeCodePoint(value);
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
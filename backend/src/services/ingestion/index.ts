@@ -0,0 +1,448 @@
+/**
+ * Feedback Ingestion Service - Main Export
+ *
+ * This module wires together the ingestion pipeline:
+ * - Platform adapters that fetch and normalise feedback
+ * - The ingestion manager that runs jobs and tracks metrics
+ * - Upserting persistence through the ingestion sink
+ * - File imports from uploaded CSV/JSONL exports
+ * - Signed inbound webhooks from third-party tools
+ * - Google Play reviews for the configured Android package
+ * - Hacker News threads and RSS/Atom feeds
+ * - Twitter and Reddit search when API credentials are configured
+ * - Engagement refreshes for recent risky feedback on a decaying cadence
+ * - A dead-letter store for jobs that exhaust their retries
+ * - A compressed archive of raw API responses that reingest jobs replay
+ * - Spam, bot and near-duplicate filtering that quarantines new items for review
+ * - PII redaction of content before it is stored, with optional encrypted originals
+ * - Historical backfills split into low-priority time windows that resume where they stopped
+ */
+
+import os from 'os';
+import path from 'path';
+import { IngestionManager } from './IngestionManager';
+import { IngestionQueue } from './IngestionQueue';
+import { IngestionScheduler, SchedulerConfig } from './IngestionScheduler';
+import { DeadLetterStore } from './DeadLetterStore';
+import { PayloadArchive, PayloadArchiveConfig } from './PayloadArchive';
+import { ContentFilter } from './ContentFilter';
+import { QuarantineStore } from './QuarantineStore';
+import { IngestionSink } from './IngestionSink';
+import { piiRedactor } from '@/services/privacy';
+import { FileImportAdapter } from './adapters/FileImportAdapter';
+import { WebhookAdapter } from './adapters/WebhookAdapter';
+import { GooglePlayAdapter } from './adapters/GooglePlayAdapter';
+import { HackerNewsAdapter } from './adapters/HackerNewsAdapter';
+import { RssFeedAdapter } from './adapters/RssFeedAdapter';
+import { TwitterAdapter } from './adapters/TwitterAdapter';
+import { RedditAdapter } from './adapters/RedditAdapter';
+import { EngagementRefreshScheduler, EngagementRefreshConfig } from './EngagementRefreshScheduler';
+import { createViralityAnalysisService } from '@/services/virality';
+import { getNLPAnalysisService } from '@/services/nlp';
+import {
+  ContentFilterConfig,
+  FileImportConfig,
+  GooglePlayConfig,
+  HackerNewsConfig,
+  RedditConfig,
+  RssFeedConfig,
+  TwitterConfig,
+  WebhookConfig
+} from '@/types/ingestion';
+
+// Core Services
+export { IngestionManager } from './IngestionManager';
+export { IngestionSink } from './IngestionSink';
+export { IngestionQueue, IngestionJobFailedError } from './IngestionQueue';
+export { IngestionScheduler, SchedulerConfig } from './IngestionScheduler';
+export { DeadLetterStore, credentialFingerprint } from './DeadLetterStore';
+export { BackfillStore, planBackfillWindows } from './BackfillStore';
+export {
+  PayloadArchive,
+  PayloadArchiveConfig,
+  ArchivedJobSummary,
+  PayloadArchivePruneResult
+} from './PayloadArchive';
+export { ContentFilter } from './ContentFilter';
+export { NearDuplicateIndex, NearDuplicateMatch } from './NearDuplicateIndex';
+export { QuarantineStore } from './QuarantineStore';
+export { PlatformRateLimiter, RateLimitExceededError } from './RateLimiter';
+export { IngestionCancelledError } from './BasePlatformAdapter';
+export {
+  EngagementRefreshScheduler,
+  EngagementRefreshConfig,
+  EngagementRefreshTier,
+  EngagementRefreshRunResult
+} from './EngagementRefreshScheduler';
+
+// Adapters
+export { FileImportAdapter } from './adapters/FileImportAdapter';
+export { WebhookAdapter, WebhookVerificationError, VerifiedWebhookDelivery } from './adapters/WebhookAdapter';
+export { GooglePlayAdapter } from './adapters/GooglePlayAdapter';
+export { HackerNewsAdapter } from './adapters/HackerNewsAdapter';
+export { RssFeedAdapter } from './adapters/RssFeedAdapter';
+export { TwitterAdapter } from './adapters/TwitterAdapter';
+export { RedditAdapter } from './adapters/RedditAdapter';
+
+/**
+ * Default file import configuration
+ */
+export const DEFAULT_FILE_IMPORT_CONFIG: FileImportConfig = {
+  platform: 'import',
+  enabled: true,
+  uploadDir: process.env.IMPORT_UPLOAD_DIR || path.join(os.tmpdir(), 'feedback-imports'),
+  maxUploadBytes: parseInt(process.env.IMPORT_MAX_UPLOAD_MB || '100', 10) * 1024 * 1024,
+  maxRowErrors: 100,
+  rateLimit: {
+    requestsPerMinute: 1000,
+    requestsPerHour: 60000,
+    requestsPerDay: 1000000
+  },
+  retryConfig: {
+    maxRetries: 0,
+    baseDelay: 1000,
+    maxDelay: 1000,
+    backoffMultiplier: 1
+  },
+  batchSize: 500,
+  pollInterval: 0
+};
+
+/**
+ * Default webhook configuration
+ */
+export const DEFAULT_WEBHOOK_CONFIG: WebhookConfig = {
+  platform: 'webhook',
+  enabled: true,
+  signatureToleranceSeconds: 300,
+  maxItemsPerDelivery: 500,
+  rateLimit: {
+    requestsPerMinute: 1000,
+    requestsPerHour: 60000,
+    requestsPerDay: 1000000
+  },
+  retryConfig: {
+    maxRetries: 0,
+    baseDelay: 1000,
+    maxDelay: 1000,
+    backoffMultiplier: 1
+  },
+  batchSize: 500,
+  pollInterval: 0
+};
+
+/**
+ * Default Google Play configuration; GOOGLE_PLAY_API_URL can point at a local fixture server
+ */
+export const DEFAULT_GOOGLE_PLAY_CONFIG: GooglePlayConfig = {
+  platform: 'googleplay',
+  enabled: !!process.env.GOOGLE_PLAY_PACKAGE_NAME,
+  packageName: process.env.GOOGLE_PLAY_PACKAGE_NAME || '',
+  bearerToken: process.env.GOOGLE_PLAY_ACCESS_TOKEN,
+  baseUrl: process.env.GOOGLE_PLAY_API_URL,
+  maxScanPages: 10,
+  rateLimit: {
+    requestsPerMinute: 60,
+    requestsPerHour: 3000,
+    requestsPerDay: 200000
+  },
+  retryConfig: {
+    maxRetries: 3,
+    baseDelay: 1000,
+    maxDelay: 30000,
+    backoffMultiplier: 2
+  },
+  batchSize: 100,
+  pollInterval: 300000
+};
+
+/**
+ * Default Hacker News configuration
+ */
+export const DEFAULT_HACKER_NEWS_CONFIG: HackerNewsConfig = {
+  platform: 'hackernews',
+  enabled: process.env.HACKERNEWS_ENABLED !== 'false',
+  maxCommentDepth: 5,
+  maxComments: 500,
+  rateLimit: {
+    requestsPerMinute: 300,
+    requestsPerHour: 10000,
+    requestsPerDay: 100000
+  },
+  retryConfig: {
+    maxRetries: 3,
+    baseDelay: 1000,
+    maxDelay: 30000,
+    backoffMultiplier: 2
+  },
+  batchSize: 100,
+  pollInterval: 300000
+};
+
+/**
+ * Default RSS/Atom configuration; RSS_FEED_URLS is a comma-separated list
+ */
+export const DEFAULT_RSS_FEED_CONFIG: RssFeedConfig = {
+  platform: 'rss',
+  enabled: !!process.env.RSS_FEED_URLS,
+  feedUrls: (process.env.RSS_FEED_URLS || '').split(',').map(url => url.trim()).filter(Boolean),
+  maxEntriesPerFeed: 100,
+  rateLimit: {
+    requestsPerMinute: 30,
+    requestsPerHour: 600,
+    requestsPerDay: 10000
+  },
+  retryConfig: {
+    maxRetries: 2,
+    baseDelay: 2000,
+    maxDelay: 30000,
+    backoffMultiplier: 2
+  },
+  batchSize: 100,
+  pollInterval: 900000
+};
+
+/**
+ * Default Twitter configuration; enabled when a bearer token is set
+ */
+export const DEFAULT_TWITTER_CONFIG: TwitterConfig = {
+  platform: 'twitter',
+  enabled: !!process.env.TWITTER_BEARER_TOKEN,
+  bearerToken: process.env.TWITTER_BEARER_TOKEN,
+  consumerKey: process.env.TWITTER_CONSUMER_KEY || '',
+  consumerSecret: process.env.TWITTER_CONSUMER_SECRET || '',
+  rateLimit: {
+    requestsPerMinute: 30,
+    requestsPerHour: 1800,
+    requestsPerDay: 40000
+  },
+  retryConfig: {
+    maxRetries: 3,
+    baseDelay: 1000,
+    maxDelay: 60000,
+    backoffMultiplier: 2
+  },
+  batchSize: 100,
+  pollInterval: 300000
+};
+
+/**
+ * Default Reddit configuration; enabled when OAuth client credentials are set
+ */
+export const DEFAULT_REDDIT_CONFIG: RedditConfig = {
+  platform: 'reddit',
+  enabled: !!(process.env.REDDIT_CLIENT_ID && process.env.REDDIT_CLIENT_SECRET),
+  clientId: process.env.REDDIT_CLIENT_ID || '',
+  clientSecret: process.env.REDDIT_CLIENT_SECRET || '',
+  userAgent: process.env.REDDIT_USER_AGENT || 'feedback-analyzer/1.0',
+  rateLimit: {
+    requestsPerMinute: 60,
+    requestsPerHour: 3600,
+    requestsPerDay: 80000
+  },
+  retryConfig: {
+    maxRetries: 3,
+    baseDelay: 1000,
+    maxDelay: 30000,
+    backoffMultiplier: 2
+  },
+  batchSize: 100,
+  pollInterval: 300000
+};
+
+/**
+ * Most jobs the API runs directly in its own process at once; further jobs must be queued
+ */
+export const MAX_DIRECT_JOBS = parseInt(process.env.INGESTION_MAX_DIRECT_JOBS || '2', 10);
+
+/**
+ * Default ingestion scheduler configuration
+ */
+export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  enabled: process.env.INGESTION_SCHEDULER_ENABLED !== 'false',
+  catchUpPolicy: 'run_once',
+  maxCatchUpRuns: 24
+};
+
+/**
+ * Default engagement refresh configuration: every 5 minutes for the first hour,
+ * backing off to every 6 hours until items are three days old
+ */
+export const DEFAULT_ENGAGEMENT_REFRESH_CONFIG: EngagementRefreshConfig = {
+  enabled: process.env.ENGAGEMENT_REFRESH_ENABLED !== 'false',
+  cronExpression: '* * * * *',
+  platforms: ['twitter', 'reddit', 'hackernews'],
+  riskLevels: ['high', 'viral-threat'],
+  cadence: [
+    { maxAgeHours: 1, intervalMinutes: 5 },
+    { maxAgeHours: 6, intervalMinutes: 15 },
+    { maxAgeHours: 24, intervalMinutes: 60 },
+    { maxAgeHours: 72, intervalMinutes: 360 }
+  ],
+  batchSize: 100,
+  snapshotRetentionDays: parseInt(process.env.ENGAGEMENT_SNAPSHOT_RETENTION_DAYS || '30', 10)
+};
+
+/**
+ * Default raw payload archive configuration: off unless enabled, since raw responses
+ * carry author details beyond the feedback itself; when on, kept for 30 days and at most 1 GB
+ */
+export const DEFAULT_PAYLOAD_ARCHIVE_CONFIG: PayloadArchiveConfig = {
+  enabled: process.env.PAYLOAD_ARCHIVE_ENABLED === 'true',
+  dir: process.env.PAYLOAD_ARCHIVE_DIR || path.join(process.cwd(), 'data', 'payload-archive'),
+  maxAgeDays: parseInt(process.env.PAYLOAD_ARCHIVE_MAX_AGE_DAYS || '30', 10),
+  maxSizeBytes: parseInt(process.env.PAYLOAD_ARCHIVE_MAX_SIZE_MB || '1024', 10) * 1024 * 1024,
+  pruneCronExpression: '15 * * * *'
+};
+
+/**
+ * Default content filter configuration: quarantine on a near-duplicate within a day,
+ * or on spam-like text combined with a bot-like author signal
+ */
+export const DEFAULT_CONTENT_FILTER_CONFIG: ContentFilterConfig = {
+  enabled: process.env.CONTENT_FILTER_ENABLED !== 'false',
+  quarantineThreshold: 0.6,
+  minAccountAgeDays: 7,
+  minFollowerRatio: 0.05,
+  minFollowingForRatio: 200,
+  burstWindowMs: 10 * 60 * 1000,
+  burstMaxPosts: 8,
+  duplicateWindowMs: 24 * 60 * 60 * 1000,
+  duplicateSimilarity: 0.8,
+  minDuplicateTokens: 8
+};
+
+/**
+ * Shared archive of raw API responses
+ */
+export const payloadArchive = new PayloadArchive(DEFAULT_PAYLOAD_ARCHIVE_CONFIG, piiRedactor);
+
+/**
+ * Shared ingestion-time content filter
+ */
+export const contentFilter = new ContentFilter(DEFAULT_CONTENT_FILTER_CONFIG);
+
+/**
+ * Shared ingestion manager used by the API routes
+ */
+export const ingestionManager = new IngestionManager(payloadArchive, contentFilter, piiRedactor);
+
+/**
+ * Shared store of quarantined items awaiting review
+ */
+export const quarantineStore = new QuarantineStore(
+  new IngestionSink(undefined, undefined, null, undefined, piiRedactor)
+);
+
+/**
+ * Shared dead-letter store for failed ingestion jobs
+ */
+export const deadLetterStore = new DeadLetterStore(ingestionManager, undefined, piiRedactor);
+
+let ingestionQueue: IngestionQueue | null = null;
+
+/**
+ * Shared ingestion queue, created on first use so Bull only connects when jobs are queued
+ */
+export function getIngestionQueue(): IngestionQueue {
+  if (!ingestionQueue) {
+    ingestionQueue = new IngestionQueue(ingestionManager, undefined, {}, deadLetterStore);
+  }
+  return ingestionQueue;
+}
+
+let ingestionScheduler: IngestionScheduler | null = null;
+
+/**
+ * Shared ingestion scheduler; the server initializes it so saved schedules start running
+ */
+export function getIngestionScheduler(): IngestionScheduler {
+  if (!ingestionScheduler) {
+    ingestionScheduler = new IngestionScheduler(ingestionManager, getIngestionQueue(), DEFAULT_SCHEDULER_CONFIG);
+  }
+  return ingestionScheduler;
+}
+
+let engagementRefreshScheduler: EngagementRefreshScheduler | null = null;
+
+/**
+ * Shared engagement refresh scheduler; the server starts it after the adapters are registered
+ */
+export function getEngagementRefreshScheduler(): EngagementRefreshScheduler {
+  if (!engagementRefreshScheduler) {
+    engagementRefreshScheduler = new EngagementRefreshScheduler(
+      ingestionManager,
+      createViralityAnalysisService(getNLPAnalysisService()),
+      DEFAULT_ENGAGEMENT_REFRESH_CONFIG
+    );
+  }
+  return engagementRefreshScheduler;
+}
+
+/**
+ * Start engagement refreshes for the registered platforms; the NLP and virality
+ * services behind re-scoring are only built when refreshes are enabled
+ */
+export function startEngagementRefresh(): void {
+  if (!DEFAULT_ENGAGEMENT_REFRESH_CONFIG.enabled) {
+    console.log('📈 Engagement refresh is disabled');
+    return;
+  }
+
+  const skipped = DEFAULT_ENGAGEMENT_REFRESH_CONFIG.platforms
+    .filter(platform => !ingestionManager.isPlatformRegistered(platform));
+  if (skipped.length > 0) {
+    console.log(`📈 Engagement refresh skips ${skipped.join(', ')}: no adapter is configured`);
+  }
+
+  getEngagementRefreshScheduler().start();
+}
+
+/**
+ * Stop the schedules and queues started by the server
+ */
+export async function shutdownIngestion(): Promise<void> {
+  engagementRefreshScheduler?.stop();
+  payloadArchive.stop();
+  if (ingestionScheduler) {
+    await ingestionScheduler.shutdown();
+  }
+  if (ingestionQueue) {
+    await ingestionQueue.shutdown();
+  }
+}
+
+/**
+ * Shared webhook adapter used to verify inbound deliveries
+ */
+export const webhookAdapter = new WebhookAdapter(DEFAULT_WEBHOOK_CONFIG);
+
+/**
+ * Register the built-in adapters and initialize the ingestion manager
+ */
+export async function initializeIngestion(): Promise<IngestionManager> {
+  if (!ingestionManager.isPlatformRegistered('import')) {
+    ingestionManager.registerAdapter(new FileImportAdapter(DEFAULT_FILE_IMPORT_CONFIG));
+  }
+  if (!ingestionManager.isPlatformRegistered('webhook')) {
+    ingestionManager.registerAdapter(webhookAdapter);
+  }
+  if (DEFAULT_GOOGLE_PLAY_CONFIG.enabled && !ingestionManager.isPlatformRegistered('googleplay')) {
+    ingestionManager.registerAdapter(new GooglePlayAdapter(DEFAULT_GOOGLE_PLAY_CONFIG));
+  }
+  if (DEFAULT_HACKER_NEWS_CONFIG.enabled && !ingestionManager.isPlatformRegistered('hackernews')) {
+    ingestionManager.registerAdapter(new HackerNewsAdapter(DEFAULT_HACKER_NEWS_CONFIG));
+  }
+  if (DEFAULT_RSS_FEED_CONFIG.enabled && !ingestionManager.isPlatformRegistered('rss')) {
+    ingestionManager.registerAdapter(new RssFeedAdapter(DEFAULT_RSS_FEED_CONFIG));
+  }
+  if (DEFAULT_TWITTER_CONFIG.enabled && !ingestionManager.isPlatformRegistered('twitter')) {
+    ingestionManager.registerAdapter(new TwitterAdapter(DEFAULT_TWITTER_CONFIG));
+  }
+  if (DEFAULT_REDDIT_CONFIG.enabled && !ingestionManager.isPlatformRegistered('reddit')) {
+    ingestionManager.registerAdapter(new RedditAdapter(DEFAULT_REDDIT_CONFIG));
+  }
+
+  await ingestionManager.initialize();
+  return ingestionManager;
+}
@@ -0,0 +1,31 @@
+import { AdapterConformanceSuite, ConformanceCheckResult } from './AdapterConformanceSuite';
+import { CONFORMANCE_TARGETS } from './fixtures';
+
+// Retry checks wait out real backoff delays against the mock server
+const SUITE_TIMEOUT_MS = 120000;
+
+describe.each(CONFORMANCE_TARGETS.map(target => [target.name, target] as const))('%s adapter', (_name, target) => {
+  let results: ConformanceCheckResult[] = [];
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    results = await new AdapterConformanceSuite(target).run();
+  }, SUITE_TIMEOUT_MS);
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('passes every shared check it has fixtures for', () => {
+    const failed = results
+      .filter(result => !result.passed)
+      .map(result => `${result.check}: ${result.message}`);
+
+    expect(results.length).toBeGreaterThan(0);
+    expect(failed).toEqual([]);
+  });
+});
@@ -0,0 +1,500 @@
+import axios from 'axios';
+import net from 'net';
+import Joi from 'joi';
+import {
+  FeedbackSink,
+  IngestionConfig,
+  IngestionJob,
+  IngestionResult,
+  RateLimitStatus,
+  SinkResult
+} from '@/types/ingestion';
+import { FeedbackData, Platform } from '@/types/feedback';
+import { feedbackDataSchema } from '@/utils/validation';
+import { BasePlatformAdapter } from '../BasePlatformAdapter';
+import { PlatformRateLimiter, RateLimitExceededError } from '../RateLimiter';
+import { MockPlatformServer } from './MockPlatformServer';
+import { ConformanceTarget, JobSpec } from './fixtures';
+
+export interface ConformanceCheckResult {
+  target: string;
+  check: string;
+  passed: boolean;
+  skipped?: boolean;
+  message: string;
+  durationMs: number;
+}
+
+// Adapters fill in id and ingested_at before the database does
+const FEEDBACK_OUTPUT_SCHEMA = feedbackDataSchema.keys({
+  id: Joi.string().allow('').optional(),
+  ingested_at: Joi.date().optional()
+});
+
+// How handleError must classify each failure, and whether it is retried
+const STATUS_CLASSIFICATIONS: Array<{ status: number; type: string; retryable: boolean }> = [
+  { status: 400, type: 'validation_error', retryable: false },
+  { status: 401, type: 'auth_error', retryable: false },
+  { status: 403, type: 'auth_error', retryable: false },
+  { status: 422, type: 'validation_error', retryable: false },
+  { status: 429, type: 'rate_limit', retryable: true },
+  { status: 500, type: 'api_error', retryable: true },
+  { status: 502, type: 'api_error', retryable: true },
+  { status: 503, type: 'api_error', retryable: true },
+  { status: 504, type: 'api_error', retryable: true }
+];
+
+const CHECK_TIMEOUT_MS = 15000;
+
+/**
+ * In-process rate limiter, so adapters run without Redis. Honours budgets
+ * reported upstream (headers and 429 retry-after) and records every report.
+ */
+export class InMemoryRateLimiter extends PlatformRateLimiter {
+  public upstreamReports: Array<{ remaining: number; resetAt: Date }> = [];
+  private budget: IngestionConfig['rateLimit'];
+  private upstream: { remaining: number; resetAt: Date } | null = null;
+  private used: number = 0;
+
+  constructor(platform: Platform, limits: IngestionConfig['rateLimit']) {
+    super(platform, limits);
+    this.budget = limits;
+  }
+
+  async acquire(cost: number = 1): Promise<RateLimitStatus> {
+    const now = Date.now();
+    const upstream = this.upstream && this.upstream.resetAt.getTime() > now ? this.upstream : null;
+
+    if (upstream && upstream.remaining < cost) {
+      return this.status(false, upstream.resetAt.getTime() - now);
+    }
+
+    if (upstream) {
+      upstream.remaining -= cost;
+    }
+    this.used += cost;
+    return this.status(true, 0);
+  }
+
+  async getStatus(): Promise<RateLimitStatus> {
+    return this.status(true, 0);
+  }
+
+  async recordUpstream(remaining: number, resetAt: Date): Promise<void> {
+    this.upstreamReports.push({ remaining, resetAt });
+    this.upstream = { remaining, resetAt };
+  }
+
+  private status(allowed: boolean, waitMs: number): RateLimitStatus {
+    const windows = {
+      minute: Math.max(0, this.budget.requestsPerMinute - this.used),
+      hour: Math.max(0, this.budget.requestsPerHour - this.used),
+      day: Math.max(0, this.budget.requestsPerDay - this.used)
+    };
+    const upstream = this.upstream && this.upstream.resetAt.getTime() > Date.now() ? this.upstream.remaining : Infinity;
+
+    return {
+      allowed,
+      waitMs,
+      remaining: Math.max(0, Math.min(windows.minute, windows.hour, windows.day, upstream)),
+      resetAt: new Date(Date.now() + Math.max(waitMs, 60000)),
+      windows
+    };
+  }
+}
+
+/**
+ * Sink that keeps persisted items in memory
+ */
+export class CollectingSink implements FeedbackSink {
+  public items: FeedbackData[] = [];
+
+  async persist(items: FeedbackData[]): Promise<SinkResult> {
+    this.items.push(...items);
+    return { created: items, updated: [], quarantined: [], errors: [] };
+  }
+}
+
+interface AdapterHarness {
+  adapter: BasePlatformAdapter;
+  sink: CollectingSink;
+  rateLimiter: InMemoryRateLimiter;
+}
+
+class CheckFailure extends Error {}
+
+// Thrown by a check that doesn't apply to the target
+class SkipCheck extends Error {}
+
+/**
+ * Adapter Conformance Suite
+ *
+ * Runs one PlatformAdapter implementation against a mock platform server and
+ * checks the behaviour every adapter shares: pagination, retry and backoff in
+ * makeRequest, error classification and valid transformToFeedback output.
+ */
+export class AdapterConformanceSuite {
+  private target: ConformanceTarget;
+  private server: MockPlatformServer;
+  private jobCount: number = 0;
+
+  constructor(target: ConformanceTarget) {
+    this.target = target;
+    this.server = new MockPlatformServer(target.routes || []);
+  }
+
+  /**
+   * Run every check, one at a time
+   */
+  async run(): Promise<ConformanceCheckResult[]> {
+    const checks: Array<[string, () => Promise<string>]> = [
+      ['transform', () => this.checkTransform()],
+      ['pagination', () => this.checkPagination()],
+      ['user_timeline', () => this.checkUserTimeline()],
+      ['auth', () => this.checkAuth()],
+      ['rate_limit_headers', () => this.checkRateLimitHeaders()],
+      ['retry_5xx', () => this.checkRetryOnServerError()],
+      ['retry_429', () => this.checkRetryOnRateLimit()],
+      ['no_retry_4xx', () => this.checkNoRetryOnAuthError()],
+      ['handle_error', () => this.checkErrorClassification()]
+    ];
+
+    const results: ConformanceCheckResult[] = [];
+    await this.server.start();
+
+    try {
+      for (const [check, run] of checks) {
+        this.server.reset();
+        const startedAt = Date.now();
+
+        try {
+          const message = await this.withTimeout(run());
+          results.push({ target: this.target.name, check, passed: true, message, durationMs: Date.now() - startedAt });
+        } catch (error) {
+          const skipped = error instanceof SkipCheck;
+          results.push({
+            target: this.target.name,
+            check,
+            passed: skipped,
+            skipped,
+            message: error instanceof Error ? error.message : 'Unknown error',
+            durationMs: Date.now() - startedAt
+          });
+        }
+      }
+    } finally {
+      await this.server.stop();
+    }
+
+    return results;
+  }
+
+  /**
+   * Transformed items must satisfy the feedback schema
+   */
+  private async checkTransform(): Promise<string> {
+    const { adapter, sink } = this.createHarness();
+
+    if (this.target.sampleItems) {
+      for (const rawItem of this.target.sampleItems) {
+        this.assert(adapter.validateRawItem(rawItem), `sample item ${rawItem.id} failed validateRawItem`);
+        sink.items.push(adapter.transformToFeedback(rawItem));
+      }
+    } else {
+      const spec = this.target.transformJob || this.target.pagination?.job;
+      if (!spec) {
+        throw new SkipCheck('no fixture job to collect items from');
+      }
+      const result = await adapter.fetchFeedback(this.createJob(adapter, spec));
+      this.assertSucceeded(result);
+    }
+
+    this.assert(sink.items.length > 0, 'no items were transformed');
+
+    for (const item of sink.items) {
+      this.assert(item.platform === adapter.platform, `item ${item.external_id} has platform ${item.platform}`);
+      const { error } = FEEDBACK_OUTPUT_SCHEMA.validate(item, { abortEarly: false });
+      this.assert(!error, `item ${item.external_id} is invalid: ${error?.message}`);
+    }
+
+    return `${sink.items.length} items match the feedback schema`;
+  }
+
+  /**
+   * A job follows every page and stops when the platform has no more
+   */
+  private async checkPagination(): Promise<string> {
+    const pagination = this.requireFixture(this.target.pagination, 'no paginated fixture');
+    const { adapter, sink } = await this.createInitializedHarness();
+
+    const result = await adapter.fetchFeedback(this.createJob(adapter, pagination.job));
+    this.assertSucceeded(result);
+
+    const requests = this.server.requestsFor(pagination.path).length;
+    this.assert(requests === pagination.pages, `expected ${pagination.pages} page requests, got ${requests}`);
+    this.assert(sink.items.length === pagination.items, `expected ${pagination.items} items, got ${sink.items.length}`);
+    this.assert(!result.nextCursor, `pagination stopped early at cursor ${result.nextCursor}`);
+
+    return `${pagination.items} items across ${pagination.pages} pages`;
+  }
+
+  /**
+   * User timeline jobs read the user's endpoint
+   */
+  private async checkUserTimeline(): Promise<string> {
+    const timeline = this.requireFixture(this.target.userTimeline, 'no user timeline fixture');
+    const { adapter, sink } = await this.createInitializedHarness();
+
+    const result = await adapter.fetchFeedback(this.createJob(adapter, timeline.job));
+    this.assertSucceeded(result);
+
+    this.assert(this.server.requestsFor(timeline.path).length > 0, `${timeline.path} was never requested`);
+    this.assert(sink.items.length === timeline.items, `expected ${timeline.items} items, got ${sink.items.length}`);
+
+    return `${timeline.items} items from ${timeline.path}`;
+  }
+
+  /**
+   * Credentials are obtained before, and sent with, every API request
+   */
+  private async checkAuth(): Promise<string> {
+    const auth = this.requireFixture(this.target.auth, 'platform needs no credentials');
+    const pagination = this.requireFixture(this.target.pagination, 'no paginated fixture');
+    const { adapter } = this.createHarness();
+
+    const result = await adapter.fetchFeedback(this.createJob(adapter, pagination.job));
+    this.assertSucceeded(result);
+
+    const requests = this.server.requests;
+    if (auth.tokenPath) {
+      this.assert(
+        requests[0]?.method === 'POST' && requests[0]?.path === auth.tokenPath,
+        `expected a token request to ${auth.tokenPath} first, got ${requests[0]?.method} ${requests[0]?.path}`
+      );
+    }
+
+    const apiRequests = requests.filter(request => request.path !== auth.tokenPath);
+    const unauthorized = apiRequests.filter(request => request.headers['authorization'] !== auth.header);
+    this.assert(
+      unauthorized.length === 0,
+      `${unauthorized.length} requests lacked the expected Authorization header (first: ${unauthorized[0]?.path})`
+    );
+
+    return `${apiRequests.length} API requests carried credentials`;
+  }
+
+  /**
+   * Budgets reported in response headers reach the shared rate limiter
+   */
+  private async checkRateLimitHeaders(): Promise<string> {
+    const expected = this.requireFixture(this.target.rateLimitRemaining, 'fixtures report no rate limit headers');
+    const pagination = this.requireFixture(this.target.pagination, 'no paginated fixture');
+    const { adapter, rateLimiter } = await this.createInitializedHarness();
+
+    const result = await adapter.fetchFeedback(this.createJob(adapter, pagination.job));
+    this.assertSucceeded(result);
+
+    const report = rateLimiter.upstreamReports[rateLimiter.upstreamReports.length - 1];
+    this.assert(!!report, 'no upstream budget was recorded');
+    this.assert(report.remaining === expected, `expected remaining ${expected}, recorded ${report.remaining}`);
+    this.assert(report.resetAt.getTime() > Date.now(), 'recorded reset time is in the past');
+
+    return `recorded ${report.remaining} remaining until ${report.resetAt.toISOString()}`;
+  }
+
+  /**
+   * A 5xx is retried with backoff and the job still succeeds
+   */
+  private async checkRetryOnServerError(): Promise<string> {
+    const pagination = this.requireFixture(this.target.pagination, 'no paginated fixture');
+    const { adapter, sink } = await this.createInitializedHarness();
+
+    this.server.enqueue(pagination.path, { status: 503, body: { error: 'Service Unavailable' } });
+    const result = await adapter.fetchFeedback(this.createJob(adapter, pagination.job));
+    this.assertSucceeded(result);
+
+    const requests = this.server.requestsFor(pagination.path).length;
+    this.assert(requests === pagination.pages + 1, `expected ${pagination.pages + 1} requests, got ${requests}`);
+    this.assert(sink.items.length === pagination.items, `expected ${pagination.items} items, got ${sink.items.length}`);
+
+    return 'recovered from a 503 after one retry';
+  }
+
+  /**
+   * A 429 parks the budget until retry-after elapses, then the request is retried
+   */
+  private async checkRetryOnRateLimit(): Promise<string> {
+    const pagination = this.requireFixture(this.target.pagination, 'no paginated fixture');
+    const { adapter, rateLimiter } = await this.createInitializedHarness();
+
+    this.server.enqueue(pagination.path, { status: 429, headers: { 'retry-after': '1' }, body: { error: 'Too Many Requests' } });
+    const startedAt = Date.now();
+    const result = await adapter.fetchFeedback(this.createJob(adapter, pagination.job));
+    const elapsed = Date.now() - startedAt;
+    this.assertSucceeded(result);
+
+    const requests = this.server.requestsFor(pagination.path).length;
+    this.assert(requests === pagination.pages + 1, `expected ${pagination.pages + 1} requests, got ${requests}`);
+    this.assert(rateLimiter.upstreamReports.some(report => report.remaining === 0), 'the 429 did not empty the budget');
+    // Timers may fire a few milliseconds early
+    this.assert(elapsed >= 950, `retried after ${elapsed}ms instead of waiting for retry-after`);
+
+    return `waited ${elapsed}ms for retry-after before retrying`;
+  }
+
+  /**
+   * Auth failures fail the job at once without retrying
+   */
+  private async checkNoRetryOnAuthError(): Promise<string> {
+    const pagination = this.requireFixture(this.target.pagination, 'no paginated fixture');
+    const { adapter } = await this.createInitializedHarness();
+
+    this.server.enqueue(pagination.path, { status: 401, body: { error: 'Unauthorized' } });
+    const result = await adapter.fetchFeedback(this.createJob(adapter, pagination.job));
+
+    this.assert(!result.success, 'job succeeded despite a 401');
+    this.assert(result.errors[0]?.type === 'auth_error', `expected auth_error, got ${result.errors[0]?.type}`);
+    this.assert(!adapter.shouldRetry(result.errors[0]), 'auth_error was marked for retry');
+
+    const requests = this.server.requestsFor(pagination.path).length;
+    this.assert(requests === 1, `expected 1 request, got ${requests}`);
+
+    return 'failed with auth_error after a single request';
+  }
+
+  /**
+   * handleError classifies HTTP statuses, network failures and exhausted budgets
+   */
+  private async checkErrorClassification(): Promise<string> {
+    const { adapter } = this.createHarness();
+    const cases: Array<{ label: string; error: any; type: string; retryable: boolean }> = [];
+
+    for (const expected of STATUS_CLASSIFICATIONS) {
+      cases.push({
+        label: `HTTP ${expected.status}`,
+        error: await this.captureError(`${this.server.url}/__status/${expected.status}`),
+        type: expected.type,
+        retryable: expected.retryable
+      });
+    }
+
+    cases.push({
+      label: 'connection refused',
+      error: await this.captureError(await this.closedPortUrl()),
+      type: 'network_error',
+      retryable: true
+    });
+    cases.push({
+      label: 'budget exhausted',
+      error: new RateLimitExceededError(adapter.platform, new Date(Date.now() + 60000)),
+      type: 'rate_limit',
+      retryable: true
+    });
+
+    for (const testCase of cases) {
+      const classified = adapter.handleError(testCase.error);
+      this.assert(classified.type === testCase.type, `${testCase.label} classified as ${classified.type}, expected ${testCase.type}`);
+      this.assert(
+        adapter.shouldRetry(classified) === testCase.retryable,
+        `${testCase.label} ${testCase.retryable ? 'should' : 'should not'} be retried`
+      );
+    }
+
+    return `${cases.length} failure cases classified`;
+  }
+
+  /**
+   * Create an adapter wired to an in-memory sink and rate limiter
+   */
+  private createHarness(): AdapterHarness {
+    const adapter = this.target.create(this.server.url);
+    const sink = new CollectingSink();
+    const rateLimiter = new InMemoryRateLimiter(adapter.platform, adapter.config.rateLimit);
+
+    adapter.setSink(sink);
+    adapter.setRateLimiter(rateLimiter);
+
+    return { adapter, sink, rateLimiter };
+  }
+
+  /**
+   * Create and initialize an adapter, then forget the requests initialization made
+   */
+  private async createInitializedHarness(): Promise<AdapterHarness> {
+    if (!this.target.routes) {
+      throw new SkipCheck(this.target.skipReason || 'no platform fixtures');
+    }
+
+    const harness = this.createHarness();
+    await harness.adapter.initialize();
+    this.server.reset();
+    return harness;
+  }
+
+  private createJob(adapter: BasePlatformAdapter, spec: JobSpec): IngestionJob {
+    return {
+      id: `conformance_${adapter.platform}_${++this.jobCount}`,
+      platform: adapter.platform,
+      status: 'running',
+      createdAt: new Date(),
+      progress: { processed: 0 },
+      ...spec
+    };
+  }
+
+  private requireFixture<T>(fixture: T | undefined, reason: string): T {
+    if (!this.target.routes) {
+      throw new SkipCheck(this.target.skipReason || 'no platform fixtures');
+    }
+    if (fixture === undefined) {
+      throw new SkipCheck(reason);
+    }
+    return fixture;
+  }
+
+  private assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new CheckFailure(message);
+    }
+  }
+
+  private assertSucceeded(result: IngestionResult): void {
+    this.assert(result.success, `job failed: ${result.errors.map(error => `${error.type}: ${error.message}`).join('; ')}`);
+  }
+
+  /**
+   * Make a request expected to fail and return its error
+   */
+  private async captureError(url: string): Promise<any> {
+    try {
+      await axios.get(url, { timeout: 5000 });
+    } catch (error) {
+      return error;
+    }
+    throw new CheckFailure(`request to ${url} unexpectedly succeeded`);
+  }
+
+  /**
+   * A local URL nothing is listening on
+   */
+  private async closedPortUrl(): Promise<string> {
+    const probe = net.createServer();
+    await new Promise<void>(resolve => probe.listen(0, '127.0.0.1', resolve));
+    const { port } = probe.address() as net.AddressInfo;
+    await new Promise<void>(resolve => probe.close(() => resolve()));
+    return `http://127.0.0.1:${port}`;
+  }
+
+  private async withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new CheckFailure(`timed out after ${CHECK_TIMEOUT_MS}ms`)), CHECK_TIMEOUT_MS);
+    });
+
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
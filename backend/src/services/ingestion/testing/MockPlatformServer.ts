@@ -0,0 +1,161 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ArchivedPayload } from '@/types/ingestion';
+
+export interface MockResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: any; // objects are sent as JSON, strings as-is
+}
+
+export interface MockRoute {
+  method?: 'GET' | 'POST';
+  path: string;
+  // Query params the request must carry; null means the param must be absent
+  query?: Record<string, string | null>;
+  // Served in order, the last one repeating
+  responses: MockResponse[];
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Mock Platform Server
+ *
+ * A local HTTP stand-in for a platform API, answering from fixture routes and
+ * recording every request. One-shot responses can be queued ahead of the routes
+ * to inject 429s, 5xx errors or auth failures.
+ */
+export class MockPlatformServer {
+  private server: http.Server;
+  private routes: MockRoute[];
+  private hits: Map<MockRoute, number> = new Map();
+  private queued: Map<string, MockResponse[]> = new Map();
+  public requests: RecordedRequest[] = [];
+
+  constructor(routes: MockRoute[] = []) {
+    this.routes = routes;
+    this.server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => this.handle(req, res, body));
+    });
+  }
+
+  /**
+   * Listen on a free local port
+   */
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return this.url;
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  get url(): string {
+    const address = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  /**
+   * Serve these responses, once each, to the next requests for a path
+   */
+  enqueue(path: string, ...responses: MockResponse[]): void {
+    this.queued.set(path, [...(this.queued.get(path) || []), ...responses]);
+  }
+
+  /**
+   * Forget recorded requests, queued responses and route positions
+   */
+  reset(): void {
+    this.requests = [];
+    this.queued.clear();
+    this.hits.clear();
+  }
+
+  /**
+   * Requests received for a path, optionally filtered by method
+   */
+  requestsFor(path: string, method?: string): RecordedRequest[] {
+    return this.requests.filter(request => request.path === path && (!method || request.method === method));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse, body: string): void {
+    const url = new URL(req.url || '/', this.url);
+    const request: RecordedRequest = {
+      method: req.method || 'GET',
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams.entries()),
+      headers: req.headers,
+      body
+    };
+    this.requests.push(request);
+
+    // Any status can be requested directly, e.g. to exercise error classification
+    const statusMatch = request.path.match(/^\/__status\/(\d{3})$/);
+    if (statusMatch) {
+      return this.send(res, { status: parseInt(statusMatch[1], 10), body: { error: 'mock status' } });
+    }
+
+    const queued = this.queued.get(request.path);
+    if (queued && queued.length > 0) {
+      return this.send(res, queued.shift()!);
+    }
+
+    const route = this.routes.find(candidate => this.matches(candidate, request));
+    if (!route) {
+      return this.send(res, { status: 404, body: { error: `No fixture for ${request.method} ${request.path}` } });
+    }
+
+    const hit = this.hits.get(route) || 0;
+    this.hits.set(route, hit + 1);
+    this.send(res, route.responses[Math.min(hit, route.responses.length - 1)]);
+  }
+
+  private matches(route: MockRoute, request: RecordedRequest): boolean {
+    if ((route.method || 'GET') !== request.method || route.path !== request.path) {
+      return false;
+    }
+
+    return Object.entries(route.query || {}).every(([name, value]) =>
+      value === null ? !(name in request.query) : request.query[name] === value
+    );
+  }
+
+  private send(res: http.ServerResponse, response: MockResponse): void {
+    const isText = typeof response.body === 'string';
+    res.writeHead(response.status || 200, {
+      'Content-Type': isText ? 'application/xml' : 'application/json',
+      ...response.headers
+    });
+    res.end(isText ? response.body : JSON.stringify(response.body ?? {}));
+  }
+}
+
+/**
+ * Build fixture routes from archived payloads, replaying each path's responses in capture order
+ */
+export function routesFromArchive(payloads: ArchivedPayload[]): MockRoute[] {
+  const routes = new Map<string, MockRoute>();
+
+  payloads.forEach(payload => {
+    const path = new URL(payload.url, 'http://archive.local').pathname;
+    const key = `${payload.method} ${path}`;
+    const route = routes.get(key) || { method: payload.method as MockRoute['method'], path, responses: [] };
+    route.responses.push({ status: payload.status, body: payload.body });
+    routes.set(key, route);
+  });
+
+  return Array.from(routes.values());
+}
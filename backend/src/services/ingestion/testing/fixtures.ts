@@ -0,0 +1,426 @@
+import os from 'os';
+import path from 'path';
+import { IngestionConfig, IngestionJob, RawFeedbackItem } from '@/types/ingestion';
+import { BasePlatformAdapter } from '../BasePlatformAdapter';
+import { TwitterAdapter } from '../adapters/TwitterAdapter';
+import { RedditAdapter } from '../adapters/RedditAdapter';
+import { TrustPilotAdapter } from '../adapters/TrustPilotAdapter';
+import { AppStoreAdapter } from '../adapters/AppStoreAdapter';
+import { GooglePlayAdapter } from '../adapters/GooglePlayAdapter';
+import { HackerNewsAdapter } from '../adapters/HackerNewsAdapter';
+import { RssFeedAdapter } from '../adapters/RssFeedAdapter';
+import { FileImportAdapter } from '../adapters/FileImportAdapter';
+import { WebhookAdapter } from '../adapters/WebhookAdapter';
+import { mapRecordToRawItem } from '../fieldMapping';
+import { MockResponse, MockRoute } from './MockPlatformServer';
+
+export type JobSpec = Pick<IngestionJob, 'type'> & Partial<IngestionJob>;
+
+/**
+ * How an adapter is exercised by the conformance suite. Checks whose
+ * fixtures are missing are reported as skipped.
+ */
+export interface ConformanceTarget {
+  name: string;
+  create: (serverUrl: string) => BasePlatformAdapter;
+  // Platform endpoints; omitted for adapters that make no HTTP requests
+  routes?: MockRoute[];
+  skipReason?: string;
+  // A paginated job, the path its pages are read from and what it should yield
+  pagination?: { job: JobSpec; path: string; pages: number; items: number };
+  userTimeline?: { job: JobSpec; path: string; items: number };
+  // Credentials every API request should carry, fetched from tokenPath first when set
+  auth?: { tokenPath?: string; header: string };
+  // Remaining budget the fixture responses report in their rate limit headers
+  rateLimitRemaining?: number;
+  // Job whose items are validated, for adapters without HTTP fixtures
+  transformJob?: JobSpec;
+  // Raw items transformed directly, for adapters fed by uploads or pushes
+  sampleItems?: RawFeedbackItem[];
+}
+
+// Fast retries and a generous budget keep the suite quick
+export const CONFORMANCE_CONFIG: Omit<IngestionConfig, 'platform'> = {
+  enabled: true,
+  rateLimit: {
+    requestsPerMinute: 1000,
+    requestsPerHour: 60000,
+    requestsPerDay: 1000000,
+    maxWaitMs: 5000
+  },
+  retryConfig: {
+    maxRetries: 2,
+    baseDelay: 10,
+    maxDelay: 50,
+    backoffMultiplier: 2
+  },
+  batchSize: 10,
+  pollInterval: 0
+};
+
+const json = (body: any, headers?: Record<string, string>): MockResponse => ({ status: 200, headers, body });
+
+// Twitter
+
+const TWITTER_RATE_HEADERS = (): Record<string, string> => ({
+  'x-rate-limit-remaining': '450',
+  'x-rate-limit-reset': Math.floor(Date.now() / 1000 + 900).toString()
+});
+
+const twitterUser = {
+  id: '42',
+  username: 'acme_fan',
+  name: 'Acme Fan',
+  public_metrics: { followers_count: 120, following_count: 80, tweet_count: 900, listed_count: 1 },
+  verified: false,
+  created_at: '2020-01-01T00:00:00.000Z'
+};
+
+const tweet = (id: string, text: string, replyTo?: string) => ({
+  id,
+  text,
+  author_id: '42',
+  created_at: `2024-03-0${id.slice(-1)}T12:00:00.000Z`,
+  public_metrics: { retweet_count: 2, like_count: 10, reply_count: 1, quote_count: 0 },
+  entities: { hashtags: [{ start: 0, end: 5, tag: 'acme' }] },
+  lang: 'en',
+  conversation_id: replyTo || id,
+  referenced_tweets: replyTo ? [{ type: 'replied_to', id: replyTo }] : undefined
+});
+
+const twitterPage = (tweets: any[], nextToken?: string) => ({
+  data: tweets,
+  includes: { users: [twitterUser] },
+  meta: { result_count: tweets.length, next_token: nextToken }
+});
+
+const twitterTarget: ConformanceTarget = {
+  name: 'twitter',
+  create: url => new TwitterAdapter({
+    ...CONFORMANCE_CONFIG,
+    platform: 'twitter',
+    baseUrl: url,
+    bearerToken: 'twitter-test-token',
+    consumerKey: 'key',
+    consumerSecret: 'secret'
+  }),
+  routes: [
+    { path: '/users/me', responses: [json({ data: twitterUser })] },
+    {
+      path: '/tweets/search/recent',
+      query: { next_token: null },
+      responses: [json(twitterPage([tweet('1001', '#acme checkout is broken again'), tweet('1002', 'Loving the new #acme app')], 'page2'), TWITTER_RATE_HEADERS())]
+    },
+    {
+      path: '/tweets/search/recent',
+      query: { next_token: 'page2' },
+      responses: [json(twitterPage([tweet('1003', '@acme any update on the outage?', '1001')]), TWITTER_RATE_HEADERS())]
+    },
+    {
+      path: '/users/42/tweets',
+      responses: [json(twitterPage([tweet('1004', 'Switched to #acme last week')]), TWITTER_RATE_HEADERS())]
+    }
+  ],
+  pagination: { job: { type: 'search', query: 'acme' }, path: '/tweets/search/recent', pages: 2, items: 3 },
+  userTimeline: { job: { type: 'user_timeline', userId: '42' }, path: '/users/42/tweets', items: 1 },
+  auth: { header: 'Bearer twitter-test-token' },
+  rateLimitRemaining: 450
+};
+
+// Reddit
+
+const REDDIT_RATE_HEADERS = { 'x-ratelimit-remaining': '580', 'x-ratelimit-reset': '420' };
+
+const redditPost = (id: string, title: string) => ({
+  kind: 't3',
+  data: {
+    id,
+    title,
+    selftext: 'Posted from the mock platform server',
+    author: 'alice',
+    subreddit: 'acme',
+    created_utc: 1709726400,
+    score: 40,
+    upvote_ratio: 0.9,
+    num_comments: 3,
+    permalink: `/r/acme/comments/${id}/`,
+    url: `https://reddit.com/r/acme/comments/${id}/`,
+    is_self: true,
+    over_18: false,
+    spoiler: false,
+    locked: false,
+    stickied: false,
+    distinguished: null,
+    gilded: 0,
+    total_awards_received: 0
+  }
+});
+
+const redditComment = (id: string, body: string, parentId: string) => ({
+  kind: 't1',
+  data: {
+    id,
+    body,
+    author: 'bob',
+    subreddit: 'acme',
+    created_utc: 1709730000,
+    score: 5,
+    ups: 5,
+    downs: 0,
+    permalink: `/r/acme/comments/${parentId}/_/${id}/`,
+    parent_id: `t3_${parentId}`,
+    link_id: `t3_${parentId}`,
+    depth: 0,
+    is_submitter: false,
+    distinguished: null,
+    gilded: 0,
+    total_awards_received: 0
+  }
+});
+
+const redditListing = (children: any[], after: string | null) => ({
+  kind: 'Listing',
+  data: { after, before: null, children, dist: children.length, modhash: '' }
+});
+
+const redditTarget: ConformanceTarget = {
+  name: 'reddit',
+  create: url => new RedditAdapter({
+    ...CONFORMANCE_CONFIG,
+    platform: 'reddit',
+    baseUrl: url,
+    authUrl: `${url}/api/v1/access_token`,
+    clientId: 'client-id',
+    clientSecret: 'client-secret',
+    userAgent: 'feedback-analyzer-conformance/1.0'
+  }),
+  routes: [
+    {
+      method: 'POST',
+      path: '/api/v1/access_token',
+      responses: [json({ access_token: 'reddit-test-token', token_type: 'bearer', expires_in: 3600 })]
+    },
+    { path: '/api/v1/me', responses: [json({ name: 'conformance' }, REDDIT_RATE_HEADERS)] },
+    {
+      path: '/search',
+      query: { after: null },
+      responses: [json(redditListing([redditPost('p1', 'Acme keeps logging me out'), redditPost('p2', 'Acme support was great')], 't3_p2'), REDDIT_RATE_HEADERS)]
+    },
+    {
+      path: '/search',
+      query: { after: 't3_p2' },
+      responses: [json(redditListing([redditComment('c1', 'Same problem here since the update', 'p1')], null), REDDIT_RATE_HEADERS)]
+    },
+    {
+      path: '/user/alice/submitted',
+      responses: [json(redditListing([redditPost('p3', 'Acme feature request thread')], null), REDDIT_RATE_HEADERS)]
+    }
+  ],
+  pagination: { job: { type: 'search', query: 'acme' }, path: '/search', pages: 2, items: 3 },
+  userTimeline: { job: { type: 'user_timeline', userId: 'alice' }, path: '/user/alice/submitted', items: 1 },
+  auth: { tokenPath: '/api/v1/access_token', header: 'Bearer reddit-test-token' },
+  rateLimitRemaining: 580
+};
+
+// Google Play
+
+const PLAY_REVIEWS_PATH = '/applications/com.acme.app/reviews';
+
+const playReview = (id: string, text: string, seconds: number) => ({
+  reviewId: id,
+  authorName: 'Jordan',
+  comments: [{
+    userComment: {
+      text,
+      lastModified: { seconds: seconds.toString() },
+      starRating: 2,
+      reviewerLanguage: 'en',
+      appVersionName: '3.2.0',
+      thumbsUpCount: 4
+    }
+  }]
+});
+
+const googlePlayTarget: ConformanceTarget = {
+  name: 'googleplay',
+  create: url => new GooglePlayAdapter({
+    ...CONFORMANCE_CONFIG,
+    platform: 'googleplay',
+    baseUrl: url,
+    bearerToken: 'play-test-token',
+    packageName: 'com.acme.app',
+    maxScanPages: 2
+  }),
+  routes: [
+    {
+      path: PLAY_REVIEWS_PATH,
+      query: { token: null },
+      responses: [json({
+        reviews: [playReview('gp1', 'App crashes on launch', 1709726400), playReview('gp2', 'Sync is slow', 1709640000)],
+        tokenPagination: { nextPageToken: 'page2' }
+      })]
+    },
+    {
+      path: PLAY_REVIEWS_PATH,
+      query: { token: 'page2' },
+      responses: [json({ reviews: [playReview('gp3', 'Dark mode please', 1709553600)] })]
+    }
+  ],
+  pagination: { job: { type: 'search', query: '*' }, path: PLAY_REVIEWS_PATH, pages: 2, items: 3 },
+  userTimeline: { job: { type: 'user_timeline', userId: 'Jordan' }, path: PLAY_REVIEWS_PATH, items: 3 },
+  auth: { header: 'Bearer play-test-token' }
+};
+
+// Hacker News
+
+const hnHit = (id: string, text: string, isComment: boolean) => ({
+  objectID: id,
+  created_at_i: 1709726400,
+  author: 'pg_fan',
+  title: isComment ? null : text,
+  comment_text: isComment ? `<p>${text}</p>` : null,
+  points: isComment ? null : 12,
+  num_comments: isComment ? null : 4,
+  parent_id: isComment ? 5001 : null,
+  story_id: isComment ? 5001 : null,
+  _tags: [isComment ? 'comment' : 'story', 'author_pg_fan']
+});
+
+const hnPage = (hits: any[], page: number) => ({ hits, page, nbPages: 2, hitsPerPage: 10 });
+
+const hackerNewsTarget: ConformanceTarget = {
+  name: 'hackernews',
+  create: url => new HackerNewsAdapter({
+    ...CONFORMANCE_CONFIG,
+    platform: 'hackernews',
+    baseUrl: url,
+    searchUrl: url,
+    maxCommentDepth: 2,
+    maxComments: 20
+  }),
+  routes: [
+    { path: '/maxitem.json', responses: [json(40000000)] },
+    {
+      path: '/search_by_date',
+      query: { page: '0' },
+      responses: [json(hnPage([hnHit('5001', 'Show HN: Acme 2.0', false), hnHit('5002', 'Acme pricing is confusing', true)], 0))]
+    },
+    {
+      path: '/search_by_date',
+      query: { page: '1' },
+      responses: [json(hnPage([hnHit('5003', 'We migrated off Acme', true)], 1))]
+    }
+  ],
+  pagination: { job: { type: 'search', query: 'acme' }, path: '/search_by_date', pages: 2, items: 3 },
+  userTimeline: { job: { type: 'user_timeline', userId: 'pg_fan' }, path: '/search_by_date', items: 3 }
+};
+
+// RSS
+
+const RSS_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>Acme Status</title>
+    <link>https://status.acme.test</link>
+    <item>
+      <guid>status-1</guid>
+      <title>Degraded checkout performance</title>
+      <link>https://status.acme.test/incidents/1</link>
+      <dc:creator>Acme Ops</dc:creator>
+      <description>&lt;p&gt;Checkout requests are slower than usual.&lt;/p&gt;</description>
+      <pubDate>Wed, 06 Mar 2024 12:00:00 GMT</pubDate>
+    </item>
+    <item>
+      <guid>status-2</guid>
+      <title>Resolved: login errors</title>
+      <link>https://status.acme.test/incidents/2</link>
+      <dc:creator>Acme Ops</dc:creator>
+      <description>Logins are working again.</description>
+      <pubDate>Tue, 05 Mar 2024 09:30:00 GMT</pubDate>
+    </item>
+  </channel>
+</rss>`;
+
+const rssTarget: ConformanceTarget = {
+  name: 'rss',
+  create: url => new RssFeedAdapter({
+    ...CONFORMANCE_CONFIG,
+    platform: 'rss',
+    feedUrls: [`${url}/feed.xml`],
+    maxEntriesPerFeed: 50
+  }),
+  routes: [
+    { path: '/feed.xml', responses: [{ status: 200, headers: { 'Content-Type': 'application/rss+xml' }, body: RSS_FEED }] }
+  ],
+  pagination: { job: { type: 'search', query: '*' }, path: '/feed.xml', pages: 1, items: 2 },
+  userTimeline: { job: { type: 'user_timeline', userId: 'Acme Ops' }, path: '/feed.xml', items: 2 }
+};
+
+// Mock-data adapters
+
+const trustPilotTarget: ConformanceTarget = {
+  name: 'trustpilot',
+  create: () => new TrustPilotAdapter({ ...CONFORMANCE_CONFIG, platform: 'trustpilot', businessUnitId: 'acme' }),
+  skipReason: 'serves generated mock data and makes no HTTP requests',
+  transformJob: { type: 'search', query: 'service' }
+};
+
+const appStoreTarget: ConformanceTarget = {
+  name: 'appstore',
+  create: () => new AppStoreAdapter({ ...CONFORMANCE_CONFIG, platform: 'appstore', appId: 'acme', country: 'us' }),
+  skipReason: 'serves generated mock data and makes no HTTP requests',
+  transformJob: { type: 'search', query: 'app' }
+};
+
+// Upload and push adapters
+
+const SAMPLE_MAPPING = {
+  id: 'id',
+  content: 'text',
+  author: 'user',
+  likes: 'likes',
+  createdAt: 'created',
+  metadata: { channel: 'channel' }
+};
+
+const SAMPLE_RECORDS = [
+  { id: 'row-1', text: 'The export button does nothing', user: 'casey', likes: '3', created: '2024-03-06T10:00:00Z', channel: 'support' },
+  { text: 'Please add SSO', user: 'riley', created: '2024-03-05T08:00:00Z' }
+];
+
+const fileImportTarget: ConformanceTarget = {
+  name: 'import',
+  create: () => new FileImportAdapter({
+    ...CONFORMANCE_CONFIG,
+    platform: 'import',
+    uploadDir: path.join(os.tmpdir(), 'feedback-conformance-uploads'),
+    maxUploadBytes: 10 * 1024 * 1024,
+    maxRowErrors: 10
+  }),
+  skipReason: 'reads uploaded files rather than a platform API',
+  sampleItems: SAMPLE_RECORDS.map(record => mapRecordToRawItem(record, SAMPLE_MAPPING, 'import', { source_file: 'sample.csv' }, 'sample.csv'))
+};
+
+const webhookTarget: ConformanceTarget = {
+  name: 'webhook',
+  create: () => new WebhookAdapter({
+    ...CONFORMANCE_CONFIG,
+    platform: 'webhook',
+    signatureToleranceSeconds: 300,
+    maxItemsPerDelivery: 100
+  }),
+  skipReason: 'receives pushed deliveries rather than calling a platform API',
+  sampleItems: SAMPLE_RECORDS.map(record => mapRecordToRawItem(record, SAMPLE_MAPPING, 'webhook', { webhook_source_id: 'sample' }, 'sample'))
+};
+
+export const CONFORMANCE_TARGETS: ConformanceTarget[] = [
+  twitterTarget,
+  redditTarget,
+  googlePlayTarget,
+  hackerNewsTarget,
+  rssTarget,
+  trustPilotTarget,
+  appStoreTarget,
+  fileImportTarget,
+  webhookTarget
+];
@@ -0,0 +1,15 @@
+/**
+ * Adapter conformance harness
+ *
+ * A local mock platform server, per-platform fixtures and a shared suite that
+ * every PlatformAdapter implementation is run through.
+ */
+
+export { MockPlatformServer, MockResponse, MockRoute, RecordedRequest, routesFromArchive } from './MockPlatformServer';
+export {
+  AdapterConformanceSuite,
+  ConformanceCheckResult,
+  InMemoryRateLimiter,
+  CollectingSink
+} from './AdapterConformanceSuite';
+export { CONFORMANCE_TARGETS, CONFORMANCE_CONFIG, ConformanceTarget, JobSpec } from './fixtures';
@@ -0,0 +1,263 @@
+import { AspectExtractionConfig } from '@/types/nlp';
+import { AspectSentiment, AspectSource } from '@/types/feedback';
+import { LexiconProvider } from './providers/LexiconProvider';
+import { VALENCE_LEXICON } from './providers/lexicon/valence';
+import { BOOSTERS, NEGATIONS } from './providers/lexicon/modifiers';
+
+/**
+ * Product aspects and the words that mention them
+ */
+export const DEFAULT_ASPECT_DICTIONARY: Record<string, string[]> = {
+  checkout: ['checkout', 'check out', 'cart', 'basket', 'payment page', 'purchase flow'],
+  login: ['login', 'log in', 'sign in', 'signin', 'password', '2fa', 'two factor', 'authentication', 'account access'],
+  signup: ['signup', 'sign up', 'registration', 'onboarding'],
+  pricing: ['price', 'pricing', 'cost', 'subscription', 'plan', 'fee', 'charge'],
+  billing: ['billing', 'invoice', 'refund', 'payment', 'card', 'charged'],
+  support: ['support', 'customer service', 'help desk', 'helpdesk', 'agent', 'representative', 'live chat'],
+  ui: ['ui', 'interface', 'design', 'layout', 'dark mode', 'theme', 'screen', 'button', 'menu'],
+  performance: ['performance', 'speed', 'loading', 'load time', 'lag', 'battery'],
+  search: ['search', 'filter', 'results'],
+  notifications: ['notification', 'push notification', 'alert', 'email', 'reminder'],
+  delivery: ['delivery', 'shipping', 'shipment', 'courier', 'package', 'parcel', 'tracking'],
+  sync: ['sync', 'syncing', 'backup', 'offline mode'],
+  integrations: ['integration', 'api', 'plugin', 'extension', 'webhook']
+};
+
+/**
+ * Extra aspects as a JSON object of aspect -> terms, merged over the defaults,
+ * e.g. {"checkout":["checkout","buy button"],"maps":["map","navigation"]}
+ */
+function parseAspectDictionary(value?: string): Record<string, string[]> {
+  if (!value) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('not an object');
+    }
+
+    return Object.entries(parsed).reduce((dictionary, [aspect, terms]) => {
+      if (Array.isArray(terms)) {
+        dictionary[aspect.toLowerCase()] = terms.filter(term => typeof term === 'string' && term.trim());
+      }
+      return dictionary;
+    }, {} as Record<string, string[]>);
+  } catch (error) {
+    console.warn('⚠️ Ignoring NLP_ASPECT_DICTIONARY: not a JSON object of aspect -> terms');
+    return {};
+  }
+}
+
+/**
+ * Default aspect extraction configuration
+ */
+export const DEFAULT_ASPECT_CONFIG: AspectExtractionConfig = {
+  dictionary: { ...DEFAULT_ASPECT_DICTIONARY, ...parseAspectDictionary(process.env.NLP_ASPECT_DICTIONARY) },
+  detectNounPhrases: process.env.NLP_ASPECT_NOUN_PHRASES !== 'false',
+  maxAspects: 10
+};
+
+// Clause boundaries: sentence punctuation, contrastive conjunctions and an "and" that starts a new subject
+const CLAUSE_SPLIT = /[.!?;\n]+|,?\s+\b(?:but|however|although|though|whereas|except|while)\b\s+|,?\s+and\s+(?=(?:the|my|your|this|that|its|their|our|it|i|they|we|you)\b)/i;
+
+// Placeholders the PII redactor leaves behind, e.g. [EMAIL], which must not read as the "email" aspect
+const REDACTION_PLACEHOLDER = /\[[A-Z][A-Z0-9_]*\]/g;
+
+const DETERMINERS = new Set(['the', 'my', 'your', 'this', 'that', 'these', 'those', 'their', 'our', 'its', 'his', 'her', 'a', 'an']);
+
+// Words that can sit between a determiner and its noun without being part of the aspect
+const NOUN_MODIFIERS = new Set(['new', 'old', 'latest', 'last', 'first', 'current', 'whole', 'entire', 'same', 'other', 'recent']);
+
+// Too general to tell the product team anything
+const GENERIC_NOUNS = new Set([
+  'app', 'apps', 'application', 'product', 'products', 'company', 'service', 'thing', 'things', 'one',
+  'way', 'time', 'day', 'days', 'experience', 'team', 'guys', 'people', 'lot', 'bit', 'update', 'version',
+  'it', 'everything', 'anything', 'something', 'nothing', 'stuff', 'world', 'life', 'week', 'month', 'year'
+]);
+
+const STOPWORDS = new Set([
+  'is', 'are', 'was', 'were', 'be', 'been', 'being', 'am', 'has', 'have', 'had', 'do', 'does', 'did',
+  'will', 'would', 'can', 'could', 'should', 'may', 'might', 'must', 'keeps', 'keep', 'kept', 'just',
+  'and', 'or', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'from', 'by', 'about', 'as', 'into', 'after',
+  'before', 'since', 'than', 'then', 'so', 'too', 'also', 'again', 'still', 'even', 'ever', 'now',
+  'i', 'me', 'you', 'he', 'she', 'we', 'they', 'them', 'us', 'him', 'what', 'which', 'who', 'when',
+  'where', 'why', 'how', 'there', 'here', 'all', 'any', 'some', 'every', 'each', 'more', 'most', 'much',
+  'many', 'only', 'own', 'up', 'down', 'out', 'off', 'over', 'under', 'if', 'because', 'until', 'gets', 'got'
+]);
+
+interface AspectMatch {
+  aspect: string;
+  source: AspectSource;
+  mentions: Set<string>;
+  clauses: Set<number>;
+  firstSeen: number;
+}
+
+/**
+ * Aspect Extractor
+ *
+ * Finds the product aspects a piece of feedback talks about, from the aspect
+ * dictionary plus opinionated noun phrases, and scores each one on only the
+ * clauses that mention it, so "love the new UI but checkout keeps crashing"
+ * comes out positive for ui and negative for checkout.
+ */
+export class AspectExtractor {
+  private config: AspectExtractionConfig;
+  private lexicon: LexiconProvider;
+  private patterns: Array<{ aspect: string; pattern: RegExp }>;
+
+  constructor(config: AspectExtractionConfig = DEFAULT_ASPECT_CONFIG, lexicon: LexiconProvider = new LexiconProvider()) {
+    this.config = config;
+    this.lexicon = lexicon;
+    this.patterns = Object.entries(config.dictionary)
+      .filter(([, terms]) => terms.length > 0)
+      .map(([aspect, terms]) => ({ aspect, pattern: this.buildPattern(terms) }));
+  }
+
+  /**
+   * Extract aspects with per-aspect sentiment and emotions
+   */
+  extract(text: string): AspectSentiment[] {
+    const clauses = this.splitClauses(text.replace(REDACTION_PLACEHOLDER, ' '));
+    const matches = new Map<string, AspectMatch>();
+    let order = 0;
+
+    const record = (aspect: string, source: AspectSource, mention: string, clauseIndex: number) => {
+      let match = matches.get(aspect);
+      if (!match) {
+        match = { aspect, source, mentions: new Set(), clauses: new Set(), firstSeen: order++ };
+        matches.set(aspect, match);
+      }
+      match.mentions.add(mention.toLowerCase());
+      match.clauses.add(clauseIndex);
+    };
+
+    clauses.forEach((clause, index) => {
+      let found = false;
+
+      this.patterns.forEach(({ aspect, pattern }) => {
+        for (const hit of clause.matchAll(pattern)) {
+          record(aspect, 'dictionary', hit[0], index);
+          found = true;
+        }
+      });
+
+      // Noun phrases only where the dictionary found nothing, to keep noise down
+      if (!found && this.config.detectNounPhrases && this.isOpinionated(clause)) {
+        this.findNounPhrases(clause).forEach(phrase => record(phrase, 'noun_phrase', phrase, index));
+      }
+    });
+
+    return Array.from(matches.values())
+      .sort((a, b) => a.firstSeen - b.firstSeen)
+      .slice(0, this.config.maxAspects)
+      .map(match => this.score(match, clauses));
+  }
+
+  /**
+   * Split text into clauses; comma-separated parts count as clauses only when each
+   * carries its own opinion, so lists like "checkout, login and search are broken" stay whole
+   */
+  private splitClauses(text: string): string[] {
+    return text
+      .split(CLAUSE_SPLIT)
+      .map(clause => clause.trim())
+      .filter(Boolean)
+      .flatMap(clause => {
+        const parts = clause.split(/\s*,\s*/).filter(Boolean);
+        return parts.length > 1 && parts.every(part => this.isOpinionated(part)) ? parts : [clause];
+      });
+  }
+
+  /**
+   * Score an aspect on the clauses that mention it
+   */
+  private score(match: AspectMatch, clauses: string[]): AspectSentiment {
+    const snippet = Array.from(match.clauses)
+      .sort((a, b) => a - b)
+      .map(index => clauses[index])
+      .join('. ');
+
+    const sentiment = this.lexicon.scoreSentiment(snippet);
+    const emotions = this.lexicon.scoreEmotions(snippet);
+
+    return {
+      aspect: match.aspect,
+      source: match.source,
+      mentions: Array.from(match.mentions),
+      snippet,
+      sentiment: sentiment.sentiment,
+      emotions: emotions.emotions
+    };
+  }
+
+  /**
+   * Case-insensitive whole-word pattern for an aspect's terms, allowing plurals
+   * and either spaces or hyphens inside phrases
+   */
+  private buildPattern(terms: string[]): RegExp {
+    const alternatives = terms
+      .map(term => term.toLowerCase().trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/[\s-]+/g, '[\\s-]*'))
+      .sort((a, b) => b.length - a.length);
+
+    return new RegExp(`\\b(?:${alternatives.join('|')})(?:s|es)?\\b`, 'gi');
+  }
+
+  /**
+   * Whether a clause carries any sentiment worth attributing to a noun phrase
+   */
+  private isOpinionated(clause: string): boolean {
+    return this.lexicon.scoreSentiment(clause).sentiment.label !== 'neutral';
+  }
+
+  /**
+   * Noun phrases introduced by a determiner ("the export button", "my invoices"),
+   * skipping sentiment words and generic nouns
+   */
+  private findNounPhrases(clause: string): string[] {
+    const words = clause.toLowerCase().replace(/[^\w\s'-]/g, ' ').split(/\s+/).filter(Boolean);
+    const phrases: string[] = [];
+
+    for (let i = 0; i < words.length; i++) {
+      if (!DETERMINERS.has(words[i])) {
+        continue;
+      }
+
+      let j = i + 1;
+      while (j < words.length && (NOUN_MODIFIERS.has(words[j]) || this.isSentimentWord(words[j]))) {
+        j++;
+      }
+
+      const nouns: string[] = [];
+      while (j < words.length && nouns.length < 2 && this.isNounCandidate(words[j])) {
+        nouns.push(words[j]);
+        j++;
+      }
+
+      const phrase = nouns.join(' ');
+      if (nouns.length > 0 && !GENERIC_NOUNS.has(nouns[nouns.length - 1]) && !phrases.includes(phrase)) {
+        phrases.push(phrase);
+      }
+      i = j - 1;
+    }
+
+    return phrases;
+  }
+
+  private isSentimentWord(word: string): boolean {
+    return VALENCE_LEXICON[word] !== undefined || BOOSTERS[word] !== undefined;
+  }
+
+  private isNounCandidate(word: string): boolean {
+    return word.length >= 3
+      && /^[a-z][a-z'-]*$/.test(word)
+      && !STOPWORDS.has(word)
+      && !DETERMINERS.has(word)
+      && !NEGATIONS.has(word)
+      && !word.endsWith("n't")
+      && !this.isSentimentWord(word)
+      && !/(?:ing|ed|ly)$/.test(word);
+  }
+}
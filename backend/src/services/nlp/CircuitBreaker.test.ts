@@ -0,0 +1,105 @@
+import { CircuitBreaker } from './CircuitBreaker';
+
+const options = {
+  windowSize: 10,
+  minimumCalls: 4,
+  errorRateThreshold: 0.5,
+  slowCallThreshold: 1000,
+  slowCallRateThreshold: 0.75,
+  openDuration: 30000
+};
+
+const failWith = (breaker: CircuitBreaker, count: number) => {
+  for (let i = 0; i < count; i++) {
+    breaker.recordFailure(50, new Error('upstream 503'));
+  }
+};
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('stays closed until the window has the minimum number of calls', () => {
+    const breaker = new CircuitBreaker('huggingface', options);
+    failWith(breaker, 3);
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('opens once the error rate crosses the threshold and refuses calls', () => {
+    const breaker = new CircuitBreaker('huggingface', options);
+    breaker.recordSuccess(50);
+    breaker.recordSuccess(50);
+    failWith(breaker, 2);
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.getSnapshot()).toMatchObject({ errorRate: 0.5, totalCalls: 4, totalFailures: 2, lastError: 'upstream 503' });
+  });
+
+  it('opens on a high slow-call rate even when calls succeed', () => {
+    const breaker = new CircuitBreaker('openai', options);
+    for (let i = 0; i < 3; i++) {
+      breaker.recordSuccess(5000);
+    }
+    breaker.recordSuccess(50);
+
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('only rates the most recent calls', () => {
+    const breaker = new CircuitBreaker('openai', { ...options, windowSize: 4 });
+    failWith(breaker, 1);
+    for (let i = 0; i < 4; i++) {
+      breaker.recordSuccess(50);
+    }
+
+    expect(breaker.getSnapshot()).toMatchObject({ windowSize: 4, errorRate: 0 });
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('is due for a probe after the open duration and stays open while the probe fails', () => {
+    const breaker = new CircuitBreaker('huggingface', options);
+    failWith(breaker, 4);
+    const { nextProbeAt } = breaker.getSnapshot();
+
+    expect(breaker.isProbeDue(new Date(nextProbeAt!.getTime() - 1))).toBe(false);
+    expect(breaker.isProbeDue(nextProbeAt!)).toBe(true);
+
+    breaker.recordProbe(false);
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getSnapshot().nextProbeAt!.getTime()).toBeGreaterThanOrEqual(nextProbeAt!.getTime());
+  });
+
+  it('lets a single trial call through when half-open and closes on success', () => {
+    const breaker = new CircuitBreaker('huggingface', options);
+    failWith(breaker, 4);
+    breaker.recordProbe(true);
+
+    expect(breaker.getState()).toBe('half_open');
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordSuccess(50);
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getSnapshot()).toMatchObject({ windowSize: 0, openedAt: undefined, nextProbeAt: undefined });
+  });
+
+  it('opens again when the half-open trial call fails', () => {
+    const breaker = new CircuitBreaker('huggingface', options);
+    failWith(breaker, 4);
+    breaker.recordProbe(true);
+    breaker.tryAcquire();
+
+    breaker.recordFailure(50, new Error('timeout'));
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getSnapshot().lastError).toBe('timeout');
+  });
+});
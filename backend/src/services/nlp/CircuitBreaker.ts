@@ -0,0 +1,185 @@
+import { CircuitBreakerSnapshot, CircuitState } from '@/types/nlp';
+
+export interface CircuitBreakerOptions {
+  windowSize: number; // number of recent calls the rates are computed over
+  minimumCalls: number; // calls needed in the window before the breaker can trip
+  errorRateThreshold: number; // 0-1
+  slowCallThreshold: number; // ms above which a call counts as slow
+  slowCallRateThreshold: number; // 0-1
+  openDuration: number; // ms to wait before probing an open provider
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  windowSize: 20,
+  minimumCalls: 5,
+  errorRateThreshold: 0.5,
+  slowCallThreshold: 10000,
+  slowCallRateThreshold: 0.8,
+  openDuration: 30000
+};
+
+interface CallOutcome {
+  success: boolean;
+  latency: number;
+}
+
+/**
+ * Circuit breaker for a single NLP provider
+ *
+ * Closed: calls flow and outcomes fill a sliding window. The breaker opens once
+ * the window's error rate or slow-call rate crosses its threshold.
+ * Open: calls are refused. After openDuration the owner probes the provider and
+ * moves it to half-open if the probe succeeds.
+ * Half-open: one trial call is let through; success closes the breaker, failure
+ * opens it again.
+ */
+export class CircuitBreaker {
+  private options: CircuitBreakerOptions;
+  private state: CircuitState = 'closed';
+  private window: CallOutcome[] = [];
+  private totalCalls = 0;
+  private totalFailures = 0;
+  private openedAt?: Date;
+  private nextProbeAt?: Date;
+  private lastError?: string;
+  private trialInFlight = false;
+
+  constructor(public readonly provider: string, options: Partial<CircuitBreakerOptions> = {}) {
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Whether a call may go through now; claims the trial slot when half-open
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Whether the breaker is open and due for an availability probe
+   */
+  isProbeDue(now: Date = new Date()): boolean {
+    return this.state === 'open' && !!this.nextProbeAt && now >= this.nextProbeAt;
+  }
+
+  /**
+   * Apply the result of an availability probe on an open breaker
+   */
+  recordProbe(available: boolean): void {
+    if (this.state !== 'open') {
+      return;
+    }
+
+    if (available) {
+      this.state = 'half_open';
+      this.trialInFlight = false;
+      console.log(`🟡 ${this.provider} circuit half-open, sending a trial request`);
+    } else {
+      this.nextProbeAt = new Date(Date.now() + this.options.openDuration);
+    }
+  }
+
+  recordSuccess(latency: number): void {
+    this.totalCalls++;
+
+    if (this.state === 'half_open') {
+      this.close();
+      return;
+    }
+
+    this.push({ success: true, latency });
+    this.evaluate();
+  }
+
+  recordFailure(latency: number, error: unknown): void {
+    this.totalCalls++;
+    this.totalFailures++;
+    this.lastError = error instanceof Error ? error.message : 'Unknown error';
+
+    if (this.state === 'half_open') {
+      this.open(`trial request failed: ${this.lastError}`);
+      return;
+    }
+
+    this.push({ success: false, latency });
+    this.evaluate();
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    const size = this.window.length;
+
+    return {
+      provider: this.provider,
+      state: this.state,
+      errorRate: size > 0 ? this.window.filter(call => !call.success).length / size : 0,
+      slowCallRate: size > 0 ? this.countSlow() / size : 0,
+      averageLatency: size > 0 ? this.window.reduce((sum, call) => sum + call.latency, 0) / size : 0,
+      windowSize: size,
+      totalCalls: this.totalCalls,
+      totalFailures: this.totalFailures,
+      openedAt: this.openedAt,
+      nextProbeAt: this.nextProbeAt,
+      lastError: this.lastError
+    };
+  }
+
+  private push(outcome: CallOutcome): void {
+    this.window.push(outcome);
+    if (this.window.length > this.options.windowSize) {
+      this.window.shift();
+    }
+  }
+
+  private countSlow(): number {
+    return this.window.filter(call => call.latency > this.options.slowCallThreshold).length;
+  }
+
+  /**
+   * Open the breaker if the sliding window crosses either threshold
+   */
+  private evaluate(): void {
+    const size = this.window.length;
+    if (this.state !== 'closed' || size < this.options.minimumCalls) {
+      return;
+    }
+
+    const errorRate = this.window.filter(call => !call.success).length / size;
+    const slowCallRate = this.countSlow() / size;
+
+    if (errorRate >= this.options.errorRateThreshold) {
+      this.open(`error rate ${Math.round(errorRate * 100)}% (last error: ${this.lastError})`);
+    } else if (slowCallRate >= this.options.slowCallRateThreshold) {
+      this.open(`slow-call rate ${Math.round(slowCallRate * 100)}%`);
+    }
+  }
+
+  private open(reason: string): void {
+    this.state = 'open';
+    this.trialInFlight = false;
+    this.openedAt = new Date();
+    this.nextProbeAt = new Date(Date.now() + this.options.openDuration);
+    console.warn(`🔴 ${this.provider} circuit opened, ${reason}`);
+  }
+
+  private close(): void {
+    this.state = 'closed';
+    this.trialInFlight = false;
+    this.window = [];
+    this.openedAt = undefined;
+    this.nextProbeAt = undefined;
+    console.log(`🟢 ${this.provider} circuit closed`);
+  }
+}
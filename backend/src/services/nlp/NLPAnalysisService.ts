@@ -6,16 +6,23 @@ import {
   BatchNLPRequest, 
   BatchNLPResult,
   NLPQueueJob,
-  NLPMetrics
+  NLPMetrics,
+  NLPModelProvider
 } from '@/types/nlp';
 import { AnalysisResult } from '@/types/feedback';
 import { SentimentAnalysisService } from './SentimentAnalysisService';
 import { EmotionAnalysisService } from './EmotionAnalysisService';
 import { TextPreprocessor } from './TextPreprocessor';
+import { AspectExtractor } from './AspectExtractor';
 import { HuggingFaceProvider } from './providers/HuggingFaceProvider';
+import { LexiconProvider } from './providers/LexiconProvider';
+import { OpenAINLPProvider } from './providers/OpenAINLPProvider';
+import { ProviderRouter } from './ProviderRouter';
 import { FeedbackRepository } from '@/repositories/FeedbackRepository';
 import { AnalysisRepository } from '@/repositories/AnalysisRepository';
 import { RedisManager } from '@/utils/redis-manager';
+import { ConversationThreadService, isShortReply } from '../threads/ConversationThreadService';
+import { piiRedactor } from '@/services/privacy';
 
 export interface NLPQueueOptions {
   concurrency?: number;
@@ -30,9 +37,12 @@ export class NLPAnalysisService {
   private queue: Queue<NLPQueueJob>;
   private sentimentService: SentimentAnalysisService;
   private emotionService: EmotionAnalysisService;
+  private aspectExtractor: AspectExtractor;
   private feedbackRepository: FeedbackRepository;
   private analysisRepository: AnalysisRepository;
-  private providers: Map<string, any> = new Map();
+  private threadService: ConversationThreadService;
+  private providers: Map<string, NLPModelProvider> = new Map();
+  private router: ProviderRouter;
   private isProcessing: boolean = false;
 
   constructor(
@@ -43,13 +53,16 @@ export class NLPAnalysisService {
     this.config = config;
     this.feedbackRepository = new FeedbackRepository();
     this.analysisRepository = new AnalysisRepository();
+    this.threadService = new ConversationThreadService(this.feedbackRepository, this.analysisRepository);
 
     // Initialize providers
     this.initializeProviders();
+    this.router = new ProviderRouter(this.buildProviderChain());
 
     // Initialize services
-    this.sentimentService = new SentimentAnalysisService(config);
-    this.emotionService = new EmotionAnalysisService(config, this.providers);
+    this.sentimentService = new SentimentAnalysisService(config, this.router);
+    this.emotionService = new EmotionAnalysisService(config, this.router);
+    this.aspectExtractor = new AspectExtractor();
 
     // Create Bull queue
     this.queue = new Bull('nlp-analysis-queue', redisUrl, {
@@ -83,6 +96,30 @@ export class NLPAnalysisService {
       this.providers.set('huggingface', hfProvider);
       console.log('✅ HuggingFace provider initialized for NLP analysis');
     }
+
+    // Initialize OpenAI-compatible provider if configured; self-hosted servers may need no key
+    const { provider, apiKey, baseUrl, modelName } = this.config.sentimentModel;
+    if (provider === 'openai' && (apiKey || baseUrl)) {
+      this.providers.set('openai', new OpenAINLPProvider({ apiKey, baseUrl, model: modelName }));
+      console.log(`✅ OpenAI provider initialized for NLP analysis (${baseUrl || 'api.openai.com'})`);
+    }
+
+    // Offline lexicon provider is always available as a fallback
+    this.providers.set('local', new LexiconProvider());
+  }
+
+  /**
+   * Order providers for routing: the configured one first, the offline lexicon last
+   */
+  private buildProviderChain(): NLPModelProvider[] {
+    const preferred = this.config.sentimentModel.provider;
+    const others = Array.from(this.providers.keys()).filter(key => key !== preferred && key !== 'local');
+    const chain = Array.from(new Set([preferred, ...others, 'local']))
+      .map(key => this.providers.get(key))
+      .filter((provider): provider is NLPModelProvider => !!provider);
+
+    console.log(`🔀 NLP provider chain: ${chain.map(provider => provider.name).join(' → ')}`);
+    return chain;
   }
 
   /**
@@ -93,15 +130,23 @@ export class NLPAnalysisService {
     const id = request.id || this.generateAnalysisId();
 
     try {
+      // Short replies ("same here") are read together with the post they answer.
+      // Redacted again here since requests can also come straight from the API.
+      const text = piiRedactor.redact(
+        request.context && isShortReply(request.text)
+          ? `${request.context}\n\n${request.text}`
+          : request.text
+      ).text;
+
       // Assess text quality
-      const quality = TextPreprocessor.assessTextQuality(request.text);
+      const quality = TextPreprocessor.assessTextQuality(text);
       if (!quality.isValid) {
         throw new Error(`Text quality insufficient: ${quality.issues.join(', ')}`);
       }
 
       // Preprocess text
       const processedText = TextPreprocessor.preprocess(
-        request.text,
+        text,
         request.preprocessingOptions
       );
 
@@ -117,6 +162,7 @@ export class NLPAnalysisService {
         processedText,
         sentiment: sentimentResult,
         emotions: emotionResult,
+        aspects: this.aspectExtractor.extract(processedText),
         language: request.language,
         processingTime: Date.now() - startTime,
         timestamp: new Date(),
@@ -206,11 +252,12 @@ export class NLPAnalysisService {
       // Create batch analysis request
       const batchRequest: BatchNLPRequest = {
         batchId: `pending_${Date.now()}`,
-        items: unanalyzedFeedback.map(feedback => ({
+        items: await Promise.all(unanalyzedFeedback.map(async feedback => ({
           id: feedback.id,
           text: feedback.content,
-          platform: feedback.platform
-        })),
+          platform: feedback.platform,
+          context: (await this.threadService.getContext(feedback)).parent?.content
+        }))),
         priority: 'normal'
       };
 
@@ -398,7 +445,8 @@ export class NLPAnalysisService {
           engagementVelocity: 0,
           userInfluence: 0
         },
-        risk_level: 'low' // Will be determined by virality service
+        risk_level: 'low', // Will be determined by virality service
+        aspects: nlpResult.aspects || []
       };
 
       await this.analysisRepository.create(analysisData);
@@ -514,6 +562,7 @@ export class NLPAnalysisService {
         ...sentimentMetrics?.modelsUsed,
         ...emotionMetrics?.modelsUsed
       },
+      providerHealth: this.router.getBreakerStates(),
       lastAnalyzedAt: sentimentMetrics?.lastAnalyzedAt || emotionMetrics?.lastAnalyzedAt
     };
   }
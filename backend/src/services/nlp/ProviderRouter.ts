@@ -0,0 +1,123 @@
+import {
+  NLPModelProvider,
+  SentimentAnalysisResult,
+  EmotionAnalysisResult,
+  CircuitBreakerSnapshot
+} from '@/types/nlp';
+import { CircuitBreaker, CircuitBreakerOptions } from './CircuitBreaker';
+
+/**
+ * Provider Router
+ *
+ * Sends each request to the first healthy provider in an ordered chain, keeping a
+ * circuit breaker per provider so one that keeps failing or stalling is skipped
+ * until an availability probe says it has recovered. Results are tagged with the
+ * provider that served them in `modelUsed` as `<provider>:<model>`.
+ */
+export class ProviderRouter implements NLPModelProvider {
+  public readonly name = 'Router';
+  private chain: NLPModelProvider[];
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  private probes: Map<string, Promise<void>> = new Map();
+
+  constructor(chain: NLPModelProvider[], breakerOptions: Partial<CircuitBreakerOptions> = {}) {
+    if (chain.length === 0) {
+      throw new Error('Provider router needs at least one provider');
+    }
+
+    this.chain = chain;
+    chain.forEach(provider => {
+      this.breakers.set(provider.name, new CircuitBreaker(provider.name, breakerOptions));
+    });
+  }
+
+  /**
+   * Analyze sentiment with the first healthy provider
+   */
+  async analyzeSentiment(text: string): Promise<SentimentAnalysisResult> {
+    return this.route(provider => provider.analyzeSentiment(text));
+  }
+
+  /**
+   * Analyze emotions with the first healthy provider
+   */
+  async analyzeEmotions(text: string): Promise<EmotionAnalysisResult> {
+    return this.route(provider => provider.analyzeEmotions(text));
+  }
+
+  /**
+   * Available while any provider's breaker would accept a call
+   */
+  async isAvailable(): Promise<boolean> {
+    return Array.from(this.breakers.values()).some(breaker => breaker.getState() !== 'open');
+  }
+
+  /**
+   * Model information of the first provider in the chain
+   */
+  getModelInfo() {
+    return this.chain[0].getModelInfo();
+  }
+
+  getProviders(): NLPModelProvider[] {
+    return [...this.chain];
+  }
+
+  getBreakerStates(): CircuitBreakerSnapshot[] {
+    return this.chain.map(provider => this.breakers.get(provider.name)!.getSnapshot());
+  }
+
+  /**
+   * Try each provider in order, skipping open breakers, until one succeeds
+   */
+  private async route<T extends { modelUsed: string }>(
+    call: (provider: NLPModelProvider) => Promise<T>
+  ): Promise<T> {
+    const failures: string[] = [];
+
+    for (const provider of this.chain) {
+      const breaker = this.breakers.get(provider.name)!;
+
+      // Probe in the background so requests never wait on a slow health check
+      if (breaker.isProbeDue()) {
+        this.probe(provider, breaker);
+      }
+
+      if (!breaker.tryAcquire()) {
+        failures.push(`${provider.name}: circuit ${breaker.getState()}`);
+        continue;
+      }
+
+      const startTime = Date.now();
+      try {
+        const result = await call(provider);
+        breaker.recordSuccess(Date.now() - startTime);
+
+        return {
+          ...result,
+          modelUsed: `${provider.name}:${result.modelUsed}`
+        };
+      } catch (error) {
+        breaker.recordFailure(Date.now() - startTime, error);
+        failures.push(`${provider.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    throw new Error(`All NLP providers failed (${failures.join('; ')})`);
+  }
+
+  /**
+   * Check an open provider with isAvailable, one probe at a time
+   */
+  private probe(provider: NLPModelProvider, breaker: CircuitBreaker): void {
+    if (this.probes.has(provider.name)) {
+      return;
+    }
+
+    const probe = provider.isAvailable()
+      .catch(() => false)
+      .then(available => breaker.recordProbe(available))
+      .finally(() => this.probes.delete(provider.name));
+    this.probes.set(provider.name, probe);
+  }
+}
@@ -3,56 +3,23 @@ import {
   NLPAnalysisRequest, 
   NLPAnalysisResult, 
   SentimentAnalysisResult,
-  NLPModelProvider,
-  TextQualityAssessment
+  TextQualityAssessment,
+  CircuitBreakerSnapshot
 } from '@/types/nlp';
 import { TextPreprocessor } from './TextPreprocessor';
-import { HuggingFaceProvider } from './providers/HuggingFaceProvider';
+import { LexiconProvider } from './providers/LexiconProvider';
+import { ProviderRouter } from './ProviderRouter';
 import { RedisManager } from '@/utils/redis-manager';
 import { REDIS_KEYS } from '@/utils/redis-keys';
 
 export class SentimentAnalysisService {
   private config: NLPConfig;
-  private providers: Map<string, NLPModelProvider> = new Map();
-  private primaryProvider: NLPModelProvider | null = null;
+  private router: ProviderRouter;
+  private lexiconProvider = new LexiconProvider();
 
-  constructor(config: NLPConfig) {
+  constructor(config: NLPConfig, router: ProviderRouter) {
     this.config = config;
-    this.initializeProviders();
-  }
-
-  /**
-   * Initialize NLP providers based on configuration
-   */
-  private async initializeProviders(): Promise<void> {
-    try {
-      // Initialize Hugging Face provider if configured
-      if (this.config.sentimentModel.provider === 'huggingface' && this.config.sentimentModel.apiKey) {
-        const hfProvider = new HuggingFaceProvider({
-          apiKey: this.config.sentimentModel.apiKey,
-          sentimentModel: this.config.sentimentModel.modelName,
-          emotionModel: this.config.emotionModel.modelName
-        });
-
-        this.providers.set('huggingface', hfProvider);
-        
-        // Check if provider is available
-        if (await hfProvider.isAvailable()) {
-          this.primaryProvider = hfProvider;
-          console.log('✅ HuggingFace provider initialized and available');
-        } else {
-          console.warn('⚠️ HuggingFace provider initialized but not available');
-        }
-      }
-
-      // Add other providers (OpenAI, local models) here in the future
-
-      if (!this.primaryProvider) {
-        console.warn('⚠️ No NLP providers available, using fallback analysis');
-      }
-    } catch (error) {
-      console.error('❌ Failed to initialize NLP providers:', error);
-    }
+    this.router = router;
   }
 
   /**
@@ -82,15 +49,8 @@ export class SentimentAnalysisService {
         request.preprocessingOptions
       );
 
-      let result: SentimentAnalysisResult;
-
-      if (this.primaryProvider) {
-        // Use primary provider
-        result = await this.primaryProvider.analyzeSentiment(processedText);
-      } else {
-        // Fallback to rule-based analysis
-        result = this.fallbackSentimentAnalysis(processedText);
-      }
+      // First healthy provider in the chain
+      const result = await this.router.analyzeSentiment(processedText);
 
       // Cache result if enabled
       if (this.config.cacheResults) {
@@ -122,24 +82,10 @@ export class SentimentAnalysisService {
       const batch = requests.slice(i, i + batchSize);
       
       try {
-        if (this.primaryProvider && 'batchAnalyzeSentiment' in this.primaryProvider) {
-          // Use provider's batch method if available
-          const texts = batch.map(req => {
-            const processedText = TextPreprocessor.preprocess(
-              req.text, 
-              req.preprocessingOptions
-            );
-            return processedText;
-          });
-          
-          const batchResults = await (this.primaryProvider as any).batchAnalyzeSentiment(texts);
-          results.push(...batchResults);
-        } else {
-          // Process individually
-          const batchPromises = batch.map(request => this.analyzeSentiment(request));
-          const batchResults = await Promise.all(batchPromises);
-          results.push(...batchResults);
-        }
+        // Each item is routed on its own so breakers see every call
+        const batchPromises = batch.map(request => this.analyzeSentiment(request));
+        const batchResults = await Promise.all(batchPromises);
+        results.push(...batchResults);
       } catch (error) {
         console.error(`Batch sentiment analysis failed for batch ${i}:`, error);
         
@@ -159,68 +105,10 @@ export class SentimentAnalysisService {
   }
 
   /**
-   * Fallback sentiment analysis using rule-based approach
+   * Fallback sentiment analysis using the offline lexicon
    */
   private fallbackSentimentAnalysis(text: string): SentimentAnalysisResult {
-    const startTime = Date.now();
-    
-    // Simple rule-based sentiment analysis
-    const positiveWords = [
-      'good', 'great', 'excellent', 'amazing', 'wonderful', 'fantastic', 'awesome',
-      'love', 'like', 'enjoy', 'happy', 'pleased', 'satisfied', 'perfect',
-      'best', 'brilliant', 'outstanding', 'superb', 'magnificent', 'incredible'
-    ];
-    
-    const negativeWords = [
-      'bad', 'terrible', 'awful', 'horrible', 'disgusting', 'hate', 'dislike',
-      'angry', 'frustrated', 'disappointed', 'upset', 'annoyed', 'furious',
-      'worst', 'useless', 'broken', 'failed', 'problem', 'issue', 'bug'
-    ];
-
-    const words = text.toLowerCase().split(/\s+/);
-    let positiveScore = 0;
-    let negativeScore = 0;
-
-    words.forEach(word => {
-      if (positiveWords.includes(word)) {
-        positiveScore++;
-      } else if (negativeWords.includes(word)) {
-        negativeScore++;
-      }
-    });
-
-    // Calculate scores
-    const totalSentimentWords = positiveScore + negativeScore;
-    let positive = 0, negative = 0, neutral = 1;
-
-    if (totalSentimentWords > 0) {
-      positive = positiveScore / totalSentimentWords;
-      negative = negativeScore / totalSentimentWords;
-      neutral = Math.max(0, 1 - positive - negative);
-    }
-
-    // Determine primary sentiment
-    let primarySentiment: 'positive' | 'neutral' | 'negative' = 'neutral';
-    let confidence = neutral;
-
-    if (positive > negative && positive > neutral) {
-      primarySentiment = 'positive';
-      confidence = positive;
-    } else if (negative > positive && negative > neutral) {
-      primarySentiment = 'negative';
-      confidence = negative;
-    }
-
-    return {
-      sentiment: {
-        label: primarySentiment,
-        confidence
-      },
-      confidence,
-      scores: { positive, neutral, negative },
-      processingTime: Date.now() - startTime,
-      modelUsed: 'fallback-rule-based'
-    };
+    return this.lexiconProvider.scoreSentiment(text);
   }
 
   /**
@@ -303,17 +191,19 @@ export class SentimentAnalysisService {
   async getStatistics(): Promise<{
     sentiment: any;
     emotion: any;
-    providers: Array<{ name: string; available: boolean; info: any }>;
+    providers: Array<{ name: string; available: boolean; info: any; circuit?: CircuitBreakerSnapshot }>;
   }> {
     const sentimentMetrics = await RedisManager.getUserSession('nlp_metrics_sentiment') || {};
     const emotionMetrics = await RedisManager.getUserSession('nlp_metrics_emotion') || {};
 
+    const health = this.router.getBreakerStates();
     const providers = [];
-    for (const [name, provider] of this.providers) {
+    for (const provider of this.router.getProviders()) {
       providers.push({
-        name,
+        name: provider.name,
         available: await provider.isAvailable(),
-        info: provider.getModelInfo()
+        info: provider.getModelInfo(),
+        circuit: health.find(snapshot => snapshot.provider === provider.name)
       });
     }
 
@@ -233,7 +233,7 @@ export class TextPreprocessor {
   /**
    * Detect if text is likely spam
    */
-  private static isLikelySpam(text: string): boolean {
+  static isLikelySpam(text: string): boolean {
     const spamIndicators = [
       /(.)\1{4,}/g, // Repeated characters (5+ times)
       /\b(buy|sale|discount|offer|free|win|prize|click|visit)\b/gi,
@@ -254,7 +254,7 @@ export class TextPreprocessor {
   /**
    * Check for excessive repetition
    */
-  private static hasExcessiveRepetition(text: string): boolean {
+  static hasExcessiveRepetition(text: string): boolean {
     const words = text.toLowerCase().split(/\s+/);
     const wordCounts = new Map<string, number>();
 
@@ -0,0 +1,65 @@
+/**
+ * NLP Analysis - Main Export
+ *
+ * Sentiment, emotion and aspect analysis of feedback through a chain of providers
+ * (HuggingFace, OpenAI-compatible, offline lexicon) behind per-provider circuit breakers.
+ */
+
+import { NLPConfig } from '@/types/nlp';
+import { NLPAnalysisService } from './NLPAnalysisService';
+
+export { NLPAnalysisService, NLPQueueOptions } from './NLPAnalysisService';
+export { AspectExtractor } from './AspectExtractor';
+export { CircuitBreaker } from './CircuitBreaker';
+export { ProviderRouter } from './ProviderRouter';
+
+const NLP_PROVIDER = (process.env.NLP_PROVIDER || 'local') as NLPConfig['sentimentModel']['provider'];
+const NLP_API_KEY = NLP_PROVIDER === 'openai' ? process.env.OPENAI_API_KEY : process.env.HUGGINGFACE_API_KEY;
+
+/**
+ * Default NLP configuration; NLP_PROVIDER picks huggingface, openai or the offline lexicon
+ */
+export const DEFAULT_NLP_CONFIG: NLPConfig = {
+  sentimentModel: {
+    provider: NLP_PROVIDER,
+    modelName: process.env.NLP_SENTIMENT_MODEL ||
+      (NLP_PROVIDER === 'openai' ? 'gpt-4o-mini' : 'cardiffnlp/twitter-roberta-base-sentiment-latest'),
+    apiKey: NLP_API_KEY,
+    baseUrl: process.env.NLP_BASE_URL || undefined,
+    threshold: 0.5
+  },
+  emotionModel: {
+    provider: NLP_PROVIDER,
+    modelName: process.env.NLP_EMOTION_MODEL ||
+      (NLP_PROVIDER === 'openai' ? 'gpt-4o-mini' : 'j-hartmann/emotion-english-distilroberta-base'),
+    apiKey: NLP_API_KEY,
+    baseUrl: process.env.NLP_BASE_URL || undefined,
+    threshold: 0.3
+  },
+  batchSize: 10,
+  maxTextLength: 2000,
+  cacheResults: true,
+  cacheTTL: 3600
+};
+
+let nlpAnalysisService: NLPAnalysisService | null = null;
+
+/**
+ * Shared NLP analysis service, created on first use so its queue only connects when needed
+ */
+export function getNLPAnalysisService(): NLPAnalysisService {
+  if (!nlpAnalysisService) {
+    nlpAnalysisService = new NLPAnalysisService(DEFAULT_NLP_CONFIG);
+  }
+  return nlpAnalysisService;
+}
+
+/**
+ * Close the shared NLP queue if it was ever opened
+ */
+export async function shutdownNLPAnalysisService(): Promise<void> {
+  if (nlpAnalysisService) {
+    await nlpAnalysisService.shutdown();
+    nlpAnalysisService = null;
+  }
+}
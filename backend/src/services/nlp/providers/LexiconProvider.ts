@@ -0,0 +1,439 @@
+import {
+  NLPModelProvider,
+  SentimentAnalysisResult,
+  EmotionAnalysisResult
+} from '@/types/nlp';
+import { EmotionType, SentimentLabel } from '@/types/feedback';
+import { VALENCE_LEXICON } from './lexicon/valence';
+import { BOOSTERS, CONTRASTIVE_CONJUNCTIONS, IDIOMS, NEGATIONS } from './lexicon/modifiers';
+import { EMOJI_POLARITY, EMOTICON_POLARITY, EmojiPolarity } from './lexicon/emoji';
+import { EMOTION_LEXICON, EMOTION_PHRASES, POSITIVE_EMOTIONS, SARCASM_PATTERNS } from './lexicon/emotions';
+
+interface Token {
+  text: string;
+  lower: string;
+  isCaps: boolean;
+  clauseEnd: boolean; // followed by , ; : . ! or ?
+  valence?: number; // set for idioms and emoji, which skip the word lexicon
+  emoji?: EmojiPolarity;
+}
+
+// Constants from the VADER paper (Hutto & Gilbert, 2014)
+const NEGATION_SCALAR = -0.74;
+const CAPS_INCREMENT = 0.733;
+const EXCLAMATION_INCREMENT = 0.292;
+const QUESTION_INCREMENT = 0.18;
+const NORMALIZATION_ALPHA = 15;
+
+// How many words back a negator or booster reaches, and how much a booster fades with distance
+const SCOPE_WINDOW = 3;
+const BOOSTER_DECAY = [1, 0.95, 0.9];
+
+// Weight of the clauses either side of a "but"
+const BEFORE_CONTRAST_WEIGHT = 0.5;
+const AFTER_CONTRAST_WEIGHT = 1.5;
+
+// Softmax temperatures fitted so |compound| >= 0.05 is non-neutral and 0.5 reads ~90% confident
+const SENTIMENT_POLARITY_GAIN = 4;
+const SENTIMENT_NEUTRAL_BIAS = 1.2;
+const SENTIMENT_NEUTRAL_DECAY = 3;
+
+// Emotion evidence of 1.0 with no competition scores ~0.4, 2.0 scores ~0.9
+const EMOTION_GAIN = 2.5;
+const EMOTION_BACKGROUND = 2;
+
+const EMOTION_TYPES: EmotionType[] = [
+  'anger', 'sarcasm', 'frustration', 'betrayal', 'confusion',
+  'joy', 'satisfaction', 'gratitude', 'appreciation', 'trust', 'disappointment'
+];
+
+const EMOJI_REGEX = /\p{Extended_Pictographic}️?/gu;
+const MAX_IDIOM_WORDS = 4;
+
+/**
+ * Lexicon Provider
+ *
+ * Offline sentiment and emotion analysis in the style of VADER: word valences
+ * adjusted for negation scope, boosters and dampeners, "but" clauses, ALL-CAPS
+ * and punctuation emphasis, plus emoji and emoticon polarity. Needs no network,
+ * so it backs the NLP services whenever no hosted model is configured.
+ */
+export class LexiconProvider implements NLPModelProvider {
+  public readonly name = 'Lexicon';
+
+  /**
+   * Analyze sentiment
+   */
+  async analyzeSentiment(text: string): Promise<SentimentAnalysisResult> {
+    return this.scoreSentiment(text);
+  }
+
+  /**
+   * Analyze emotions
+   */
+  async analyzeEmotions(text: string): Promise<EmotionAnalysisResult> {
+    return this.scoreEmotions(text);
+  }
+
+  /**
+   * The lexicon is bundled, so the provider is always available
+   */
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Get model information
+   */
+  getModelInfo() {
+    return {
+      sentimentModel: 'lexicon-valence',
+      emotionModel: 'lexicon-emotion',
+      version: '1.0.0',
+      capabilities: ['sentiment_analysis', 'emotion_detection', 'offline']
+    };
+  }
+
+  /**
+   * Score sentiment synchronously
+   */
+  scoreSentiment(text: string): SentimentAnalysisResult {
+    const startTime = Date.now();
+    const tokens = this.tokenize(text);
+    const mixedCase = this.isMixedCase(tokens);
+    const contrastAt = this.findContrast(tokens);
+    const sarcastic = this.isSarcastic(text);
+
+    let sum = 0;
+    tokens.forEach((token, index) => {
+      let valence = token.valence ?? VALENCE_LEXICON[token.lower] ?? 0;
+      if (valence === 0 || (token.valence === undefined && BOOSTERS[token.lower] !== undefined)) {
+        return;
+      }
+
+      if (token.isCaps && mixedCase) {
+        valence += Math.sign(valence) * CAPS_INCREMENT;
+      }
+      valence += Math.sign(valence) * this.getBoost(tokens, index, mixedCase);
+      if (this.isNegated(tokens, index)) {
+        valence *= NEGATION_SCALAR;
+      }
+      // "Oh great, it broke again" praises nothing
+      if (sarcastic && valence > 0) {
+        valence *= NEGATION_SCALAR;
+      }
+
+      sum += valence * this.getContrastWeight(index, contrastAt);
+    });
+
+    if (sum !== 0) {
+      sum += Math.sign(sum) * this.getPunctuationEmphasis(text);
+    }
+
+    const compound = sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA);
+    const scores = this.calibrateSentiment(compound);
+    const label = (Object.keys(scores) as SentimentLabel[])
+      .reduce((best, key) => scores[key] > scores[best] ? key : best, 'neutral' as SentimentLabel);
+
+    return {
+      sentiment: {
+        label,
+        confidence: scores[label]
+      },
+      confidence: scores[label],
+      scores,
+      processingTime: Date.now() - startTime,
+      modelUsed: 'lexicon-valence'
+    };
+  }
+
+  /**
+   * Score emotions synchronously
+   */
+  scoreEmotions(text: string): EmotionAnalysisResult {
+    const startTime = Date.now();
+    const tokens = this.tokenize(text);
+    const mixedCase = this.isMixedCase(tokens);
+    const contrastAt = this.findContrast(tokens);
+    const lowerText = text.toLowerCase();
+
+    const evidence = EMOTION_TYPES.reduce((acc, emotion) => {
+      acc[emotion] = 0;
+      return acc;
+    }, {} as Record<EmotionType, number>);
+
+    tokens.forEach((token, index) => {
+      const weights = token.emoji
+        ? (token.emoji.emotion ? { [token.emoji.emotion]: 1.0 } : {})
+        : EMOTION_LEXICON[token.lower];
+      if (!weights) {
+        return;
+      }
+
+      let multiplier = (1 + 2 * this.getBoost(tokens, index, mixedCase)) * this.getContrastWeight(index, contrastAt);
+      if (token.isCaps && mixedCase) {
+        multiplier *= 1.3;
+      }
+      const negated = !token.emoji && this.isNegated(tokens, index);
+
+      (Object.entries(weights) as Array<[EmotionType, number]>).forEach(([emotion, weight]) => {
+        const amount = weight * multiplier;
+        if (!negated) {
+          evidence[emotion] += amount;
+        } else if (POSITIVE_EMOTIONS.includes(emotion)) {
+          // "not happy" is disappointment, not a weaker joy
+          evidence.disappointment += amount * 0.7;
+        } else {
+          // "not angry" leaves little of the emotion behind
+          evidence[emotion] += amount * 0.2;
+        }
+      });
+    });
+
+    EMOTION_PHRASES.forEach(({ pattern, weights }) => {
+      const matches = (lowerText.match(pattern) || []).length;
+      (Object.entries(weights) as Array<[EmotionType, number]>).forEach(([emotion, weight]) => {
+        evidence[emotion] += matches * weight;
+      });
+    });
+
+    // Sarcasm turns the positive emotions its words carry into their opposite
+    if (this.isSarcastic(text)) {
+      evidence.sarcasm += 1.2;
+      POSITIVE_EMOTIONS.forEach(emotion => {
+        evidence.frustration += evidence[emotion] * 0.3;
+        evidence[emotion] *= 0.3;
+      });
+    }
+
+    // Shouting and repeated exclamation intensify whatever is already there
+    const exclamations = (text.match(/!/g) || []).length;
+    const shouted = mixedCase && tokens.filter(token => token.isCaps).length >= 2;
+    if (exclamations >= 2 || shouted) {
+      evidence.anger *= 1.3;
+      evidence.frustration *= 1.3;
+      evidence.betrayal *= 1.2;
+      evidence.joy *= 1.2;
+      evidence.gratitude *= 1.2;
+    }
+
+    const scores = this.calibrateEmotions(evidence);
+    const emotions = EMOTION_TYPES
+      .filter(emotion => scores[emotion] > 0.1)
+      .map(emotion => ({ emotion, confidence: scores[emotion] }))
+      .sort((a, b) => b.confidence - a.confidence);
+
+    const primaryEmotion = emotions.length > 0 ? emotions[0].emotion : 'confusion';
+
+    return {
+      emotions,
+      primaryEmotion,
+      confidence: scores[primaryEmotion],
+      scores,
+      processingTime: Date.now() - startTime,
+      modelUsed: 'lexicon-emotion'
+    };
+  }
+
+  /**
+   * Split text into words, emoji and emoticons, merging known idioms into single tokens
+   */
+  private tokenize(text: string): Token[] {
+    const normalized = text
+      .replace(/\bkind of\b/gi, 'kindof')
+      .replace(/\bsort of\b/gi, 'sortof')
+      .replace(EMOJI_REGEX, match => ` ${match} `);
+
+    const tokens: Token[] = [];
+    for (const raw of normalized.split(/\s+/)) {
+      if (!raw) {
+        continue;
+      }
+
+      const emoticon = EMOTICON_POLARITY[raw];
+      const emoji = EMOJI_POLARITY[raw] || EMOJI_POLARITY[raw.replace(/️/g, '')];
+      if (emoticon || emoji) {
+        const polarity = (emoticon || emoji)!;
+        tokens.push({ text: raw, lower: raw, isCaps: false, clauseEnd: false, valence: polarity.valence, emoji: polarity });
+        continue;
+      }
+
+      const word = raw.replace(/^[^\w']+|[^\w']+$/g, '');
+      if (!word) {
+        // Standalone punctuation still closes the clause before it
+        if (/[,;:.!?]/.test(raw) && tokens.length > 0) {
+          tokens[tokens.length - 1].clauseEnd = true;
+        }
+        continue;
+      }
+
+      tokens.push({
+        text: word,
+        lower: word.toLowerCase().replace(/’/g, "'"),
+        isCaps: word.length > 1 && /[A-Z]/.test(word) && word === word.toUpperCase(),
+        clauseEnd: /[,;:.!?]$/.test(raw.replace(/[)"'\]]+$/, ''))
+      });
+    }
+
+    return this.mergeIdioms(tokens);
+  }
+
+  /**
+   * Replace runs of words that form an idiom with one token carrying the idiom's valence
+   */
+  private mergeIdioms(tokens: Token[]): Token[] {
+    const merged: Token[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+      let matched = false;
+
+      for (let length = Math.min(MAX_IDIOM_WORDS, tokens.length - i); length >= 2 && !matched; length--) {
+        const run = tokens.slice(i, i + length);
+        // Idioms don't span clauses or emoji
+        if (run.slice(0, -1).some(token => token.clauseEnd) || run.some(token => token.emoji)) {
+          continue;
+        }
+
+        const phrase = run.map(token => token.lower).join(' ');
+        if (IDIOMS[phrase] !== undefined) {
+          merged.push({
+            text: run.map(token => token.text).join(' '),
+            lower: phrase,
+            isCaps: run.every(token => token.isCaps),
+            clauseEnd: run[run.length - 1].clauseEnd,
+            valence: IDIOMS[phrase]
+          });
+          i += length - 1;
+          matched = true;
+        }
+      }
+
+      if (!matched) {
+        merged.push(tokens[i]);
+      }
+    }
+
+    return merged;
+  }
+
+  /**
+   * Whether the text mixes cases, so ALL-CAPS words stand out as emphasis
+   */
+  private isMixedCase(tokens: Token[]): boolean {
+    const words = tokens.filter(token => !token.emoji && /[a-z]/i.test(token.text));
+    const caps = words.filter(token => token.isCaps).length;
+    return caps > 0 && caps < words.length;
+  }
+
+  /**
+   * Whether the text matches a stock sarcastic phrase
+   */
+  private isSarcastic(text: string): boolean {
+    const lowerText = text.toLowerCase();
+    return SARCASM_PATTERNS.some(pattern => pattern.test(lowerText));
+  }
+
+  /**
+   * Index of the first contrastive conjunction, if any
+   */
+  private findContrast(tokens: Token[]): number {
+    return tokens.findIndex(token => CONTRASTIVE_CONJUNCTIONS.has(token.lower));
+  }
+
+  private getContrastWeight(index: number, contrastAt: number): number {
+    if (contrastAt < 0) {
+      return 1;
+    }
+    return index < contrastAt ? BEFORE_CONTRAST_WEIGHT : index > contrastAt ? AFTER_CONTRAST_WEIGHT : 0;
+  }
+
+  /**
+   * Tokens before an index within the negation and booster window, stopping at a clause boundary
+   */
+  private getScope(tokens: Token[], index: number): Token[] {
+    const scope: Token[] = [];
+
+    for (let i = index - 1; i >= 0 && scope.length < SCOPE_WINDOW; i--) {
+      const token = tokens[i];
+      if (token.clauseEnd || token.emoji || CONTRASTIVE_CONJUNCTIONS.has(token.lower)) {
+        break;
+      }
+      scope.push(token);
+    }
+
+    return scope;
+  }
+
+  /**
+   * Combined booster and dampener scalar from the words just before a token
+   */
+  private getBoost(tokens: Token[], index: number, mixedCase: boolean): number {
+    return this.getScope(tokens, index).reduce((boost, token, distance) => {
+      const scalar = BOOSTERS[token.lower];
+      if (scalar === undefined) {
+        return boost;
+      }
+
+      const emphasis = token.isCaps && mixedCase ? Math.sign(scalar) * CAPS_INCREMENT : 0;
+      return boost + (scalar + emphasis) * BOOSTER_DECAY[distance];
+    }, 0);
+  }
+
+  /**
+   * Whether a negator within the scope window precedes a token
+   */
+  private isNegated(tokens: Token[], index: number): boolean {
+    return this.getScope(tokens, index).some(token =>
+      NEGATIONS.has(token.lower) || token.lower.endsWith("n't")
+    );
+  }
+
+  /**
+   * Extra intensity from exclamation marks and runs of question marks
+   */
+  private getPunctuationEmphasis(text: string): number {
+    const exclamations = Math.min((text.match(/!/g) || []).length, 4);
+    const questions = (text.match(/\?/g) || []).length;
+    const questionEmphasis = questions > 3 ? 0.96 : questions > 1 ? questions * QUESTION_INCREMENT : 0;
+
+    return exclamations * EXCLAMATION_INCREMENT + questionEmphasis;
+  }
+
+  /**
+   * Turn a compound score in [-1, 1] into probabilities for the three labels
+   */
+  private calibrateSentiment(compound: number): Record<SentimentLabel, number> {
+    const logits: Record<SentimentLabel, number> = {
+      positive: SENTIMENT_POLARITY_GAIN * compound,
+      neutral: SENTIMENT_NEUTRAL_BIAS - SENTIMENT_NEUTRAL_DECAY * Math.abs(compound),
+      negative: -SENTIMENT_POLARITY_GAIN * compound
+    };
+
+    const exp = {
+      positive: Math.exp(logits.positive),
+      neutral: Math.exp(logits.neutral),
+      negative: Math.exp(logits.negative)
+    };
+    const total = exp.positive + exp.neutral + exp.negative;
+
+    return {
+      positive: exp.positive / total,
+      neutral: exp.neutral / total,
+      negative: exp.negative / total
+    };
+  }
+
+  /**
+   * Turn emotion evidence into scores, leaving probability mass for "no emotion"
+   * so text without cues scores low across the board
+   */
+  private calibrateEmotions(evidence: Record<EmotionType, number>): Record<EmotionType, number> {
+    const exp = EMOTION_TYPES.map(emotion => Math.exp(EMOTION_GAIN * evidence[emotion]));
+    const total = exp.reduce((sum, value) => sum + value, 0) + Math.exp(EMOTION_BACKGROUND);
+
+    return EMOTION_TYPES.reduce((scores, emotion, index) => {
+      scores[emotion] = exp[index] / total;
+      return scores;
+    }, {} as Record<EmotionType, number>);
+  }
+}
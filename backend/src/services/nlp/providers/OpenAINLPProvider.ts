@@ -0,0 +1,455 @@
+import axios, { AxiosInstance } from 'axios';
+import {
+  NLPModelProvider,
+  SentimentAnalysisResult,
+  EmotionAnalysisResult,
+  OpenAIAnalysisRequest,
+  OpenAIAnalysisResponse
+} from '@/types/nlp';
+import { SentimentLabel, EmotionType } from '@/types/feedback';
+
+export interface OpenAINLPConfig {
+  apiKey?: string; // optional for self-hosted servers without auth
+  model: string;
+  baseUrl?: string; // any OpenAI-compatible API root, e.g. http://localhost:8000/v1
+  timeout?: number;
+  temperature?: number;
+  batchSize?: number; // texts per completion call
+  batchWindowMs?: number; // how long to wait for more texts before sending a batch
+  maxTokensPerText?: number;
+}
+
+interface TextAnalysis {
+  sentiment: Record<SentimentLabel, number>;
+  emotions: Record<EmotionType, number>;
+  processingTime: number;
+}
+
+interface PendingText {
+  text: string;
+  resolve: (analysis: TextAnalysis) => void;
+  reject: (error: Error) => void;
+}
+
+const EMOTION_TYPES: EmotionType[] = [
+  'anger', 'sarcasm', 'frustration', 'betrayal', 'confusion',
+  'joy', 'satisfaction', 'gratitude', 'appreciation', 'trust', 'disappointment'
+];
+
+// Labels models commonly return instead of ours
+const EMOTION_ALIASES: Record<string, EmotionType> = {
+  angry: 'anger', rage: 'anger', annoyance: 'frustration', annoyed: 'frustration',
+  frustrated: 'frustration', sarcastic: 'sarcasm', irony: 'sarcasm', betrayed: 'betrayal',
+  confused: 'confusion', happiness: 'joy', happy: 'joy', excitement: 'joy',
+  satisfied: 'satisfaction', grateful: 'gratitude', thankful: 'gratitude', thanks: 'gratitude',
+  appreciative: 'appreciation', admiration: 'appreciation', trusting: 'trust',
+  disappointed: 'disappointment', sadness: 'disappointment', sad: 'disappointment'
+};
+
+const SYSTEM_PROMPT = `You classify customer feedback. For every input item return its sentiment and emotions.
+Respond with JSON only, no prose and no code fences, in exactly this shape:
+{"results":[{"id":<input id>,"sentiment":{"positive":<0-1>,"neutral":<0-1>,"negative":<0-1>},"emotions":{<emotion>:<0-1>}}]}
+Sentiment scores are probabilities that sum to 1.
+Emotion keys must come from this list and nothing else: ${EMOTION_TYPES.join(', ')}.
+Give each emotion a 0-1 intensity; leave out emotions that are absent.
+Return one result per input id.`;
+
+const REPAIR_PROMPT = 'The previous reply was not valid JSON. Return the same content as valid JSON in the required shape, with nothing else.';
+
+/**
+ * OpenAI NLP Provider
+ *
+ * Sentiment and emotion analysis through any OpenAI-compatible chat completions
+ * API. Texts arriving within a short window are sent together in one call, and
+ * sentiment and emotion requests for the same text share that call.
+ */
+export class OpenAINLPProvider implements NLPModelProvider {
+  public readonly name = 'OpenAI';
+  private config: Required<Omit<OpenAINLPConfig, 'apiKey'>> & { apiKey?: string };
+  private httpClient: AxiosInstance;
+  private queue: PendingText[] = [];
+  private inFlight: Map<string, Promise<TextAnalysis>> = new Map();
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(config: OpenAINLPConfig) {
+    // Explicit defaults so fields passed as undefined don't clear them
+    this.config = {
+      apiKey: config.apiKey,
+      model: config.model,
+      baseUrl: config.baseUrl ?? 'https://api.openai.com/v1',
+      timeout: config.timeout ?? 30000,
+      temperature: config.temperature ?? 0,
+      batchSize: config.batchSize ?? 10,
+      batchWindowMs: config.batchWindowMs ?? 50,
+      maxTokensPerText: config.maxTokensPerText ?? 150
+    };
+
+    this.httpClient = axios.create({
+      baseURL: this.config.baseUrl.replace(/\/+$/, ''),
+      timeout: this.config.timeout,
+      headers: {
+        ...(this.config.apiKey ? { 'Authorization': `Bearer ${this.config.apiKey}` } : {}),
+        'Content-Type': 'application/json'
+      }
+    });
+  }
+
+  /**
+   * Analyze sentiment using the chat model
+   */
+  async analyzeSentiment(text: string): Promise<SentimentAnalysisResult> {
+    try {
+      const analysis = await this.analyze(text);
+      const scores = analysis.sentiment;
+      const label = (Object.keys(scores) as SentimentLabel[])
+        .reduce((best, key) => scores[key] > scores[best] ? key : best, 'neutral' as SentimentLabel);
+
+      return {
+        sentiment: {
+          label,
+          confidence: scores[label]
+        },
+        confidence: scores[label],
+        scores,
+        processingTime: analysis.processingTime,
+        modelUsed: this.config.model
+      };
+    } catch (error) {
+      console.error('OpenAI sentiment analysis failed:', error);
+      throw new Error(`Sentiment analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Analyze emotions using the chat model
+   */
+  async analyzeEmotions(text: string): Promise<EmotionAnalysisResult> {
+    try {
+      const analysis = await this.analyze(text);
+      const scores = analysis.emotions;
+
+      const emotions = EMOTION_TYPES
+        .filter(emotion => scores[emotion] > 0.1)
+        .map(emotion => ({ emotion, confidence: scores[emotion] }))
+        .sort((a, b) => b.confidence - a.confidence);
+
+      return {
+        emotions,
+        primaryEmotion: emotions.length > 0 ? emotions[0].emotion : 'confusion',
+        confidence: emotions.length > 0 ? emotions[0].confidence : 0,
+        scores,
+        processingTime: analysis.processingTime,
+        modelUsed: this.config.model
+      };
+    } catch (error) {
+      console.error('OpenAI emotion analysis failed:', error);
+      throw new Error(`Emotion analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Check if the API answers and serves the configured model
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await this.httpClient.get('/models');
+      const models: Array<{ id: string }> = response.data?.data || [];
+      return models.length === 0 || models.some(model => model.id === this.config.model);
+    } catch (error) {
+      console.warn('OpenAI provider not available:', error instanceof Error ? error.message : 'Unknown error');
+      return false;
+    }
+  }
+
+  /**
+   * Get model information
+   */
+  getModelInfo() {
+    return {
+      sentimentModel: this.config.model,
+      emotionModel: this.config.model,
+      version: '1.0.0',
+      capabilities: ['sentiment_analysis', 'emotion_detection', 'batch_processing', 'structured_output']
+    };
+  }
+
+  /**
+   * Queue a text for the next batch, sharing any request already pending for it
+   */
+  private analyze(text: string): Promise<TextAnalysis> {
+    const existing = this.inFlight.get(text);
+    if (existing) {
+      return existing;
+    }
+
+    const promise = new Promise<TextAnalysis>((resolve, reject) => {
+      this.queue.push({ text, resolve, reject });
+    });
+    this.inFlight.set(text, promise);
+    const cleanup = () => { this.inFlight.delete(text); };
+    promise.then(cleanup, cleanup);
+
+    if (this.queue.length >= this.config.batchSize) {
+      this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), this.config.batchWindowMs);
+    }
+
+    return promise;
+  }
+
+  /**
+   * Send queued texts in one completion call
+   */
+  private flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const batch = this.queue.splice(0, this.config.batchSize);
+    if (this.queue.length > 0) {
+      this.flushTimer = setTimeout(() => this.flush(), this.config.batchWindowMs);
+    }
+    if (batch.length === 0) {
+      return;
+    }
+
+    const startTime = Date.now();
+    this.requestBatch(batch.map(item => item.text))
+      .then(results => {
+        const processingTime = Date.now() - startTime;
+        batch.forEach((item, index) => {
+          const result = results.get(index);
+          if (result) {
+            item.resolve({ ...result, processingTime });
+          } else {
+            item.reject(new Error('Model returned no result for this text'));
+          }
+        });
+      })
+      .catch(error => {
+        const failure = error instanceof Error ? error : new Error('Unknown error');
+        batch.forEach(item => item.reject(failure));
+      });
+  }
+
+  /**
+   * Ask the model for every text in a batch, repairing the reply if needed
+   */
+  private async requestBatch(texts: string[]): Promise<Map<number, Omit<TextAnalysis, 'processingTime'>>> {
+    const items = texts.map((text, id) => ({ id, text }));
+    const messages: OpenAIAnalysisRequest['messages'] = [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: JSON.stringify(items) }
+    ];
+
+    const content = await this.complete(messages, texts.length);
+    let parsed = this.parseJson(content);
+
+    if (parsed === undefined) {
+      // One round trip asking the model to fix its own output
+      console.warn('⚠️ OpenAI returned malformed JSON, requesting a repair');
+      const repaired = await this.complete([
+        ...messages,
+        { role: 'system', content: `${REPAIR_PROMPT}\n\nPrevious reply:\n${content}` }
+      ], texts.length);
+      parsed = this.parseJson(repaired);
+    }
+
+    if (parsed === undefined) {
+      throw new Error('Model did not return valid JSON');
+    }
+
+    return this.validateResults(parsed, texts.length);
+  }
+
+  private async complete(messages: OpenAIAnalysisRequest['messages'], count: number): Promise<string> {
+    const request: OpenAIAnalysisRequest = {
+      model: this.config.model,
+      messages,
+      temperature: this.config.temperature,
+      max_tokens: this.config.maxTokensPerText * count + 50
+    };
+
+    const response = await this.httpClient.post<OpenAIAnalysisResponse>('/chat/completions', request);
+    const content = response.data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string' || content.trim() === '') {
+      throw new Error('Model returned an empty completion');
+    }
+
+    return content;
+  }
+
+  /**
+   * Parse model output as JSON, fixing the usual mistakes: code fences, prose around
+   * the JSON, smart quotes, single quotes, trailing commas and truncated endings
+   */
+  private parseJson(content: string): unknown {
+    const attempt = (candidate: string): unknown => {
+      try {
+        return JSON.parse(candidate);
+      } catch {
+        return undefined;
+      }
+    };
+
+    let text = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    const direct = attempt(text);
+    if (direct !== undefined) {
+      return direct;
+    }
+
+    const start = text.search(/[[{]/);
+    if (start < 0) {
+      return undefined;
+    }
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+    text = text.slice(start, end > start ? end + 1 : undefined);
+
+    text = text
+      .replace(/[“”]/g, '"')
+      .replace(/[‘’]/g, "'")
+      .replace(/'([^'"\\]*)'(\s*[:,}\]])/g, '"$1"$2')
+      .replace(/([{,]\s*)([A-Za-z_][\w]*)\s*:/g, '$1"$2":')
+      .replace(/,\s*([}\]])/g, '$1');
+
+    const cleaned = attempt(text);
+    if (cleaned !== undefined) {
+      return cleaned;
+    }
+
+    // Close whatever a truncated reply left open, dropping a dangling partial entry
+    const closed = this.closeBrackets(text.replace(/,\s*"[^"]*"?\s*:?\s*[^,{}[\]]*$/, ''));
+    return closed ? attempt(closed.replace(/,\s*([}\]])/g, '$1')) : undefined;
+  }
+
+  private closeBrackets(text: string): string | null {
+    const stack: string[] = [];
+    let inString = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (inString) {
+        if (char === '\\') {
+          i++;
+        } else if (char === '"') {
+          inString = false;
+        }
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        stack.push(char === '{' ? '}' : ']');
+      } else if (char === '}' || char === ']') {
+        if (stack.pop() !== char) {
+          return null;
+        }
+      }
+    }
+
+    return (inString ? `${text}"` : text) + stack.reverse().join('');
+  }
+
+  /**
+   * Keep well-formed results for known ids, normalising scores into our taxonomy
+   */
+  private validateResults(parsed: unknown, count: number): Map<number, Omit<TextAnalysis, 'processingTime'>> {
+    const entries: unknown[] = Array.isArray(parsed)
+      ? parsed
+      : Array.isArray((parsed as any)?.results) ? (parsed as any).results : [parsed];
+    const results = new Map<number, Omit<TextAnalysis, 'processingTime'>>();
+
+    entries.forEach((entry: any, position) => {
+      if (!entry || typeof entry !== 'object') {
+        return;
+      }
+
+      // Fall back to position when the model drops ids
+      const id = Number.isInteger(Number(entry.id)) ? Number(entry.id) : (count === 1 ? 0 : position);
+      if (id < 0 || id >= count || results.has(id)) {
+        return;
+      }
+
+      const sentiment = this.normalizeSentiment(entry.sentiment);
+      if (!sentiment) {
+        return;
+      }
+
+      results.set(id, { sentiment, emotions: this.normalizeEmotions(entry.emotions) });
+    });
+
+    return results;
+  }
+
+  private normalizeSentiment(raw: any): Record<SentimentLabel, number> | null {
+    // Accept a bare label ("negative") as well as a score object
+    if (typeof raw === 'string') {
+      const label = raw.toLowerCase().trim();
+      if (label !== 'positive' && label !== 'neutral' && label !== 'negative') {
+        return null;
+      }
+      return {
+        positive: label === 'positive' ? 1 : 0,
+        neutral: label === 'neutral' ? 1 : 0,
+        negative: label === 'negative' ? 1 : 0
+      };
+    }
+
+    if (!raw || typeof raw !== 'object') {
+      return null;
+    }
+
+    const scores: Record<SentimentLabel, number> = {
+      positive: this.toScore(raw.positive),
+      neutral: this.toScore(raw.neutral),
+      negative: this.toScore(raw.negative)
+    };
+    const total = scores.positive + scores.neutral + scores.negative;
+    if (total === 0) {
+      return null;
+    }
+
+    return {
+      positive: scores.positive / total,
+      neutral: scores.neutral / total,
+      negative: scores.negative / total
+    };
+  }
+
+  private normalizeEmotions(raw: any): Record<EmotionType, number> {
+    const scores = EMOTION_TYPES.reduce((acc, emotion) => {
+      acc[emotion] = 0;
+      return acc;
+    }, {} as Record<EmotionType, number>);
+
+    // Accept ["anger", ...] and [{ emotion, confidence }] as well as a score object
+    const pairs: Array<[string, unknown]> = Array.isArray(raw)
+      ? raw.map((item: any) => typeof item === 'string'
+        ? [item, 1] as [string, unknown]
+        : [item?.emotion ?? item?.label ?? '', item?.confidence ?? item?.score ?? 1] as [string, unknown])
+      : raw && typeof raw === 'object' ? Object.entries(raw) : [];
+
+    pairs.forEach(([key, value]) => {
+      const name = String(key).toLowerCase().trim();
+      const emotion = (EMOTION_TYPES as string[]).includes(name)
+        ? name as EmotionType
+        : EMOTION_ALIASES[name];
+      if (emotion) {
+        scores[emotion] = Math.max(scores[emotion], this.toScore(value));
+      }
+    });
+
+    return scores;
+  }
+
+  /**
+   * Coerce a model score to 0-1, reading 0-100 values as percentages
+   */
+  private toScore(value: unknown): number {
+    const number = typeof value === 'string' ? parseFloat(value) : Number(value);
+    if (!Number.isFinite(number) || number <= 0) {
+      return 0;
+    }
+    return number > 1 ? Math.min(number / 100, 1) : number;
+  }
+}
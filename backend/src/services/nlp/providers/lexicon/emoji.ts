@@ -0,0 +1,123 @@
+import { EmotionType } from '@/types/feedback';
+
+export interface EmojiPolarity {
+  valence: number;
+  emotion?: EmotionType;
+}
+
+// Emoji valence on the word lexicon's -4..+4 scale, with the emotion each most often signals
+export const EMOJI_POLARITY: Record<string, EmojiPolarity> = {
+  '😀': { valence: 2.0, emotion: 'joy' },
+  '😃': { valence: 2.2, emotion: 'joy' },
+  '😄': { valence: 2.3, emotion: 'joy' },
+  '😁': { valence: 2.2, emotion: 'joy' },
+  '😆': { valence: 2.0, emotion: 'joy' },
+  '😂': { valence: 1.8, emotion: 'joy' },
+  '🤣': { valence: 1.8, emotion: 'joy' },
+  '😊': { valence: 2.2, emotion: 'satisfaction' },
+  '🙂': { valence: 1.3, emotion: 'satisfaction' },
+  '😉': { valence: 1.2 },
+  '😍': { valence: 3.0, emotion: 'joy' },
+  '🥰': { valence: 3.0, emotion: 'joy' },
+  '😘': { valence: 2.4, emotion: 'appreciation' },
+  '🤩': { valence: 3.0, emotion: 'joy' },
+  '🥳': { valence: 2.8, emotion: 'joy' },
+  '😎': { valence: 1.8, emotion: 'satisfaction' },
+  '😌': { valence: 1.6, emotion: 'satisfaction' },
+  '🤗': { valence: 2.2, emotion: 'gratitude' },
+  '🙏': { valence: 1.8, emotion: 'gratitude' },
+  '👏': { valence: 2.2, emotion: 'appreciation' },
+  '🙌': { valence: 2.4, emotion: 'appreciation' },
+  '👍': { valence: 1.9, emotion: 'satisfaction' },
+  '👌': { valence: 1.8, emotion: 'satisfaction' },
+  '💪': { valence: 1.6, emotion: 'trust' },
+  '🤝': { valence: 1.6, emotion: 'trust' },
+  '✅': { valence: 1.4, emotion: 'satisfaction' },
+  '💯': { valence: 2.4, emotion: 'satisfaction' },
+  '🔥': { valence: 1.6, emotion: 'joy' },
+  '⭐': { valence: 1.6, emotion: 'satisfaction' },
+  '🌟': { valence: 2.0, emotion: 'appreciation' },
+  '✨': { valence: 1.6, emotion: 'joy' },
+  '🎉': { valence: 2.6, emotion: 'joy' },
+  '🚀': { valence: 1.8, emotion: 'joy' },
+  '❤': { valence: 2.8, emotion: 'joy' },
+  '❤️': { valence: 2.8, emotion: 'joy' },
+  '💕': { valence: 2.8, emotion: 'joy' },
+  '💖': { valence: 2.8, emotion: 'joy' },
+  '💙': { valence: 2.4, emotion: 'joy' },
+  '💚': { valence: 2.4, emotion: 'joy' },
+  '😐': { valence: -0.4 },
+  '😑': { valence: -0.8, emotion: 'frustration' },
+  '😶': { valence: -0.4 },
+  '🤔': { valence: -0.2, emotion: 'confusion' },
+  '😕': { valence: -1.4, emotion: 'confusion' },
+  '🫤': { valence: -1.2, emotion: 'confusion' },
+  '😟': { valence: -1.6, emotion: 'disappointment' },
+  '🙁': { valence: -1.6, emotion: 'disappointment' },
+  '☹': { valence: -1.8, emotion: 'disappointment' },
+  '☹️': { valence: -1.8, emotion: 'disappointment' },
+  '😞': { valence: -2.0, emotion: 'disappointment' },
+  '😔': { valence: -1.8, emotion: 'disappointment' },
+  '😢': { valence: -2.2, emotion: 'disappointment' },
+  '😭': { valence: -2.4, emotion: 'disappointment' },
+  '😩': { valence: -2.2, emotion: 'frustration' },
+  '😫': { valence: -2.2, emotion: 'frustration' },
+  '😤': { valence: -2.3, emotion: 'frustration' },
+  '😒': { valence: -1.8, emotion: 'frustration' },
+  '🙄': { valence: -1.6, emotion: 'sarcasm' },
+  '🙃': { valence: -0.6, emotion: 'sarcasm' },
+  '😏': { valence: -0.4, emotion: 'sarcasm' },
+  '😠': { valence: -2.8, emotion: 'anger' },
+  '😡': { valence: -3.2, emotion: 'anger' },
+  '🤬': { valence: -3.4, emotion: 'anger' },
+  '👿': { valence: -2.8, emotion: 'anger' },
+  '💢': { valence: -2.4, emotion: 'anger' },
+  '🤮': { valence: -3.0, emotion: 'anger' },
+  '🤢': { valence: -2.4, emotion: 'frustration' },
+  '😱': { valence: -2.2, emotion: 'confusion' },
+  '😨': { valence: -2.0, emotion: 'confusion' },
+  '😳': { valence: -0.8, emotion: 'confusion' },
+  '🤯': { valence: -0.6, emotion: 'confusion' },
+  '🤡': { valence: -2.0, emotion: 'sarcasm' },
+  '🐍': { valence: -2.0, emotion: 'betrayal' },
+  '💔': { valence: -2.6, emotion: 'betrayal' },
+  '👎': { valence: -2.2, emotion: 'disappointment' },
+  '❌': { valence: -1.4, emotion: 'frustration' },
+  '🚫': { valence: -1.6, emotion: 'frustration' },
+  '💩': { valence: -2.4, emotion: 'anger' },
+  '🗑': { valence: -2.0, emotion: 'anger' },
+  '🗑️': { valence: -2.0, emotion: 'anger' },
+  '🐌': { valence: -1.2, emotion: 'frustration' }
+};
+
+// ASCII emoticons, matched as whole tokens
+export const EMOTICON_POLARITY: Record<string, EmojiPolarity> = {
+  ':)': { valence: 2.0, emotion: 'satisfaction' },
+  ':-)': { valence: 2.0, emotion: 'satisfaction' },
+  '(:': { valence: 2.0, emotion: 'satisfaction' },
+  ':]': { valence: 1.8, emotion: 'satisfaction' },
+  '=)': { valence: 2.0, emotion: 'satisfaction' },
+  ':D': { valence: 2.5, emotion: 'joy' },
+  ':-D': { valence: 2.5, emotion: 'joy' },
+  'xD': { valence: 2.2, emotion: 'joy' },
+  'XD': { valence: 2.2, emotion: 'joy' },
+  ';)': { valence: 1.2 },
+  ';-)': { valence: 1.2 },
+  ':P': { valence: 1.0 },
+  ':p': { valence: 1.0 },
+  '<3': { valence: 2.8, emotion: 'joy' },
+  '^_^': { valence: 2.0, emotion: 'joy' },
+  ':(': { valence: -2.0, emotion: 'disappointment' },
+  ':-(': { valence: -2.0, emotion: 'disappointment' },
+  '):': { valence: -2.0, emotion: 'disappointment' },
+  ':[': { valence: -1.8, emotion: 'disappointment' },
+  ":'(": { valence: -2.4, emotion: 'disappointment' },
+  ':/': { valence: -1.2, emotion: 'confusion' },
+  ':-/': { valence: -1.2, emotion: 'confusion' },
+  ':|': { valence: -0.6 },
+  ':@': { valence: -2.6, emotion: 'anger' },
+  '>:(': { valence: -2.8, emotion: 'anger' },
+  'D:': { valence: -2.0, emotion: 'disappointment' },
+  '</3': { valence: -2.6, emotion: 'betrayal' },
+  '-_-': { valence: -1.4, emotion: 'frustration' }
+};
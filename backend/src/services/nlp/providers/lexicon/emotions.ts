@@ -0,0 +1,162 @@
+import { EmotionType } from '@/types/feedback';
+
+type EmotionWeights = Partial<Record<EmotionType, number>>;
+
+// Emotions that read as approval; negating one of their cues signals disappointment instead
+export const POSITIVE_EMOTIONS: EmotionType[] = ['joy', 'satisfaction', 'gratitude', 'appreciation', 'trust'];
+
+/**
+ * Evidence each word contributes towards the emotions, roughly 0.5 for a hint
+ * and 1.0 for an explicit statement of the emotion
+ */
+export const EMOTION_LEXICON: Record<string, EmotionWeights> = {
+  // Anger
+  angry: { anger: 1.0 }, anger: { anger: 1.0 }, furious: { anger: 1.0 }, fury: { anger: 1.0 },
+  rage: { anger: 1.0 }, raging: { anger: 1.0 }, enraged: { anger: 1.0 }, livid: { anger: 1.0 },
+  outraged: { anger: 1.0 }, outrage: { anger: 0.9 }, outrageous: { anger: 0.7 }, pissed: { anger: 1.0 },
+  mad: { anger: 0.8 }, hate: { anger: 0.8 }, hated: { anger: 0.8 }, hates: { anger: 0.7 },
+  disgusting: { anger: 0.7 }, disgusted: { anger: 0.8 }, unacceptable: { anger: 0.7, frustration: 0.3 },
+  infuriating: { anger: 1.0 }, infuriated: { anger: 1.0 }, appalling: { anger: 0.7 }, appalled: { anger: 0.8 },
+  insulting: { anger: 0.7 }, insulted: { anger: 0.8 }, disgrace: { anger: 0.8 }, disgraceful: { anger: 0.8 },
+  pathetic: { anger: 0.6, disappointment: 0.3 }, wtf: { anger: 0.7 }, damn: { anger: 0.4 },
+  bullshit: { anger: 0.8 }, garbage: { anger: 0.5 }, trash: { anger: 0.5 }, stupid: { anger: 0.5 },
+  idiotic: { anger: 0.6 }, incompetent: { anger: 0.6, frustration: 0.3 }, rude: { anger: 0.6 },
+  ridiculous: { anger: 0.4, frustration: 0.4 }, worst: { anger: 0.4, disappointment: 0.3 },
+
+  // Frustration
+  frustrated: { frustration: 1.0 }, frustrating: { frustration: 1.0 }, frustration: { frustration: 1.0 },
+  annoying: { frustration: 0.8 }, annoyed: { frustration: 0.9 }, irritating: { frustration: 0.8 },
+  irritated: { frustration: 0.9 }, tired: { frustration: 0.4 }, exhausting: { frustration: 0.6 },
+  hassle: { frustration: 0.7 }, headache: { frustration: 0.6 }, struggling: { frustration: 0.6 },
+  struggle: { frustration: 0.5 }, stuck: { frustration: 0.6 }, again: { frustration: 0.2 },
+  still: { frustration: 0.2 }, waiting: { frustration: 0.4 }, waited: { frustration: 0.5 },
+  slow: { frustration: 0.4 }, laggy: { frustration: 0.6 }, crashes: { frustration: 0.6 },
+  crashing: { frustration: 0.6 }, crashed: { frustration: 0.5 }, broken: { frustration: 0.6 },
+  buggy: { frustration: 0.6 }, glitchy: { frustration: 0.5 }, useless: { frustration: 0.6, disappointment: 0.3 },
+  unusable: { frustration: 0.8 }, argh: { frustration: 0.8 }, ugh: { frustration: 0.7 }, grr: { frustration: 0.7 },
+  nightmare: { frustration: 0.7 }, impossible: { frustration: 0.5 }, unresponsive: { frustration: 0.5 },
+  ignored: { frustration: 0.5, betrayal: 0.2 }, ignoring: { frustration: 0.5 }, fail: { frustration: 0.4 },
+  fails: { frustration: 0.5 }, failed: { frustration: 0.4, disappointment: 0.3 },
+
+  // Betrayal
+  betrayed: { betrayal: 1.0 }, betrayal: { betrayal: 1.0 }, betray: { betrayal: 0.9 }, lied: { betrayal: 0.9 },
+  lie: { betrayal: 0.6 }, lies: { betrayal: 0.8 }, liar: { betrayal: 0.9 }, liars: { betrayal: 0.9 },
+  deceived: { betrayal: 1.0 }, deceptive: { betrayal: 0.8 }, misled: { betrayal: 0.9 },
+  misleading: { betrayal: 0.7 }, cheated: { betrayal: 0.9 }, scam: { betrayal: 0.8, anger: 0.3 },
+  scammed: { betrayal: 1.0, anger: 0.3 }, fraud: { betrayal: 0.8 }, dishonest: { betrayal: 0.8 },
+  bait: { betrayal: 0.5 }, overcharged: { betrayal: 0.6, anger: 0.3 }, stolen: { betrayal: 0.6 },
+  abandoned: { betrayal: 0.7, disappointment: 0.3 }, promised: { betrayal: 0.3 },
+
+  // Confusion
+  confused: { confusion: 1.0 }, confusing: { confusion: 0.9 }, confusion: { confusion: 1.0 },
+  unclear: { confusion: 0.8 }, puzzled: { confusion: 0.9 }, baffled: { confusion: 0.9 },
+  lost: { confusion: 0.4 }, understand: { confusion: 0.3 }, why: { confusion: 0.3 }, how: { confusion: 0.2 },
+  huh: { confusion: 0.7 }, weird: { confusion: 0.4 }, strange: { confusion: 0.4 }, unsure: { confusion: 0.7 },
+  wondering: { confusion: 0.4 }, explain: { confusion: 0.3 }, complicated: { confusion: 0.6 },
+  unintuitive: { confusion: 0.7, frustration: 0.2 },
+
+  // Joy
+  happy: { joy: 1.0 }, happiness: { joy: 1.0 }, joy: { joy: 1.0 }, joyful: { joy: 1.0 }, love: { joy: 0.9 },
+  loved: { joy: 0.8 }, loving: { joy: 0.8 }, loves: { joy: 0.8 }, excited: { joy: 0.9 }, exciting: { joy: 0.7 },
+  thrilled: { joy: 1.0 }, delighted: { joy: 1.0 }, delightful: { joy: 0.8 }, awesome: { joy: 0.7 },
+  amazing: { joy: 0.7 }, fantastic: { joy: 0.7 }, wonderful: { joy: 0.7 }, yay: { joy: 0.9 },
+  woohoo: { joy: 1.0 }, wow: { joy: 0.5 }, fun: { joy: 0.6 }, lol: { joy: 0.4 }, haha: { joy: 0.6 },
+  glad: { joy: 0.7 }, ecstatic: { joy: 1.0 }, stoked: { joy: 0.9 }, beautiful: { joy: 0.5 },
+
+  // Satisfaction
+  satisfied: { satisfaction: 1.0 }, satisfying: { satisfaction: 0.8 }, pleased: { satisfaction: 0.9 },
+  content: { satisfaction: 0.2 }, good: { satisfaction: 0.5 }, great: { satisfaction: 0.6, joy: 0.2 },
+  fine: { satisfaction: 0.3 }, decent: { satisfaction: 0.5 }, solid: { satisfaction: 0.6 },
+  works: { satisfaction: 0.3 }, working: { satisfaction: 0.2 }, fixed: { satisfaction: 0.6 },
+  resolved: { satisfaction: 0.7 }, solved: { satisfaction: 0.7 }, smooth: { satisfaction: 0.6 },
+  easy: { satisfaction: 0.5 }, perfect: { satisfaction: 0.8 }, perfectly: { satisfaction: 0.7 },
+  excellent: { satisfaction: 0.8 }, better: { satisfaction: 0.4 }, improved: { satisfaction: 0.6 },
+  fast: { satisfaction: 0.4 }, quick: { satisfaction: 0.4 }, recommend: { satisfaction: 0.6, trust: 0.3 },
+  worth: { satisfaction: 0.5 }, seamless: { satisfaction: 0.7 }, intuitive: { satisfaction: 0.6 },
+
+  // Gratitude
+  thank: { gratitude: 1.0 }, thanks: { gratitude: 1.0 }, thx: { gratitude: 0.9 }, ty: { gratitude: 0.8 },
+  thankful: { gratitude: 1.0 }, grateful: { gratitude: 1.0 }, gratitude: { gratitude: 1.0 },
+  appreciate: { gratitude: 0.7, appreciation: 0.5 }, appreciated: { gratitude: 0.6, appreciation: 0.5 },
+  lifesaver: { gratitude: 0.8, appreciation: 0.4 }, helped: { gratitude: 0.5 }, helpful: { gratitude: 0.4, appreciation: 0.4 },
+  kudos: { appreciation: 1.0 }, cheers: { gratitude: 0.5 },
+
+  // Appreciation
+  appreciation: { appreciation: 1.0 }, impressed: { appreciation: 0.9 }, impressive: { appreciation: 0.8 },
+  brilliant: { appreciation: 0.7 }, genius: { appreciation: 0.7 }, outstanding: { appreciation: 0.8 },
+  superb: { appreciation: 0.7 }, stellar: { appreciation: 0.8 }, praise: { appreciation: 0.8 },
+  bravo: { appreciation: 1.0 }, congrats: { appreciation: 0.9 }, congratulations: { appreciation: 0.9 },
+  props: { appreciation: 0.8 }, admire: { appreciation: 0.9 }, talented: { appreciation: 0.7 },
+  polished: { appreciation: 0.6 }, thoughtful: { appreciation: 0.7 }, attention: { appreciation: 0.2 },
+
+  // Trust
+  trust: { trust: 1.0 }, trusted: { trust: 0.9 }, trustworthy: { trust: 1.0 }, reliable: { trust: 0.9 },
+  reliably: { trust: 0.8 }, dependable: { trust: 0.9 }, consistent: { trust: 0.6 }, secure: { trust: 0.6 },
+  safe: { trust: 0.5 }, confident: { trust: 0.7 }, faith: { trust: 0.8 }, honest: { trust: 0.7 },
+  transparent: { trust: 0.7 }, stable: { trust: 0.5 }, always: { trust: 0.2 }, loyal: { trust: 0.5 }, loyalty: { trust: 0.6 },
+
+  // Disappointment
+  disappointed: { disappointment: 1.0 }, disappointing: { disappointment: 1.0 }, disappointment: { disappointment: 1.0 },
+  underwhelmed: { disappointment: 0.9 }, underwhelming: { disappointment: 0.9 }, sad: { disappointment: 0.8 },
+  sadly: { disappointment: 0.7 }, unfortunately: { disappointment: 0.6 }, regret: { disappointment: 0.8 },
+  meh: { disappointment: 0.6 }, mediocre: { disappointment: 0.7 }, downgrade: { disappointment: 0.7 },
+  worse: { disappointment: 0.6 }, missing: { disappointment: 0.4 }, lacking: { disappointment: 0.5 },
+  expected: { disappointment: 0.3 }, hoped: { disappointment: 0.4 }, shame: { disappointment: 0.6 },
+  pity: { disappointment: 0.5 }, bad: { disappointment: 0.5 }, poor: { disappointment: 0.5 },
+  terrible: { disappointment: 0.5, anger: 0.3 }, awful: { disappointment: 0.5, anger: 0.3 },
+  horrible: { disappointment: 0.5, anger: 0.3 }
+};
+
+// Multi-word cues, matched on the lowercased text before individual words
+export const EMOTION_PHRASES: Array<{ pattern: RegExp; weights: EmotionWeights }> = [
+  { pattern: /\bfed up\b/g, weights: { frustration: 1.0 } },
+  { pattern: /\bsick (?:and tired )?of\b/g, weights: { frustration: 1.0 } },
+  { pattern: /\bcan'?t believe\b/g, weights: { frustration: 0.6, anger: 0.3 } },
+  { pattern: /\bwhat the (?:hell|heck|fuck)\b/g, weights: { anger: 0.8 } },
+  { pattern: /\bstill (?:not|waiting|broken)\b/g, weights: { frustration: 0.8 } },
+  { pattern: /\b(?:doesn'?t|does not|won'?t|will not) work\b/g, weights: { frustration: 0.8 } },
+  { pattern: /\blet (?:me |us )?down\b/g, weights: { disappointment: 1.0 } },
+  { pattern: /\bexpected (?:more|better)\b/g, weights: { disappointment: 1.0 } },
+  { pattern: /\bhoped for (?:more|better)\b/g, weights: { disappointment: 1.0 } },
+  { pattern: /\bcould (?:be|have been) better\b/g, weights: { disappointment: 0.8 } },
+  { pattern: /\bnot what i expected\b/g, weights: { disappointment: 1.0 } },
+  { pattern: /\bused to (?:be|love|work)\b/g, weights: { disappointment: 0.6, betrayal: 0.3 } },
+  { pattern: /\bnot as (?:advertised|described|promised)\b/g, weights: { betrayal: 1.0 } },
+  { pattern: /\bfalse (?:advertising|promises?)\b/g, weights: { betrayal: 1.0 } },
+  { pattern: /\bbait and switch\b/g, weights: { betrayal: 1.0 } },
+  { pattern: /\bripp?(?:ed)? off\b/g, weights: { betrayal: 0.9, anger: 0.3 } },
+  { pattern: /\bbroke (?:your|their|the) promise\b/g, weights: { betrayal: 1.0 } },
+  { pattern: /\bhow do (?:i|you|we)\b/g, weights: { confusion: 0.7 } },
+  { pattern: /\bwhat does (?:this|that|it) mean\b/g, weights: { confusion: 0.9 } },
+  { pattern: /\b(?:i )?don'?t (?:understand|get it)\b/g, weights: { confusion: 1.0 } },
+  { pattern: /\bmakes? no sense\b/g, weights: { confusion: 0.9, frustration: 0.3 } },
+  { pattern: /\bany(?:one|body) know\b/g, weights: { confusion: 0.6 } },
+  { pattern: /\bthank you\b/g, weights: { gratitude: 1.0 } },
+  { pattern: /\bthanks (?:so|very) much\b/g, weights: { gratitude: 0.5 } },
+  { pattern: /\bwell done\b/g, weights: { appreciation: 1.0 } },
+  { pattern: /\bgood job\b/g, weights: { appreciation: 1.0 } },
+  { pattern: /\bgreat (?:job|work)\b/g, weights: { appreciation: 1.0 } },
+  { pattern: /\bkeep (?:it up|up the good work)\b/g, weights: { appreciation: 1.0 } },
+  { pattern: /\bhats off\b/g, weights: { appreciation: 1.0 } },
+  { pattern: /\bworks (?:well|great|perfectly|like a charm)\b/g, weights: { satisfaction: 1.0 } },
+  { pattern: /\bdoes the job\b/g, weights: { satisfaction: 0.8 } },
+  { pattern: /\bas expected\b/g, weights: { satisfaction: 0.5 } },
+  { pattern: /\bcan count on\b/g, weights: { trust: 1.0 } },
+  { pattern: /\bnever (?:fails|let me down)\b/g, weights: { trust: 1.0 } },
+  { pattern: /\bjust works\b/g, weights: { trust: 0.6, satisfaction: 0.6 } },
+  { pattern: /\blove (?:it|this)\b/g, weights: { joy: 0.6 } }
+];
+
+// Cues that a positive-sounding text is meant the other way
+export const SARCASM_PATTERNS: RegExp[] = [
+  /\boh (?:great|wonderful|perfect|joy|fantastic|brilliant)\b/,
+  /\bjust (?:great|perfect|wonderful|what i needed)\b/,
+  /\byeah,? right\b/,
+  /\bthanks for nothing\b/,
+  /\bwhat a (?:surprise|shock)\b/,
+  /\bsure,? (?:thing|jan)\b/,
+  /\bslow clap\b/,
+  /\bwonderful \(not\)/,
+  /\bnot!\B/,
+  /(?:^|\s)\/s\b/
+];
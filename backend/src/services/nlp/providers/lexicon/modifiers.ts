@@ -0,0 +1,74 @@
+/**
+ * Words that shift the strength or direction of the sentiment words around them
+ */
+
+// Words that flip the polarity of the sentiment words in their scope
+export const NEGATIONS = new Set([
+  'not', 'no', 'never', 'none', 'nobody', 'nothing', 'nowhere', 'neither', 'nor', 'without',
+  'cannot', 'cant', "can't", 'dont', "don't", 'doesnt', "doesn't", 'didnt', "didn't",
+  'isnt', "isn't", 'arent', "aren't", 'wasnt', "wasn't", 'werent', "weren't",
+  'wont', "won't", 'wouldnt', "wouldn't", 'shouldnt', "shouldn't", 'couldnt', "couldn't",
+  'hasnt', "hasn't", 'havent', "haven't", 'hadnt', "hadn't", 'aint', "ain't",
+  'mustnt', "mustn't", 'neednt', "needn't", 'darent', "daren't", 'rarely', 'seldom',
+  'lack', 'lacks', 'lacking'
+]);
+
+// Scalar added to a sentiment word's magnitude; negative values dampen it
+export const BOOSTERS: Record<string, number> = {
+  absolutely: 0.293, amazingly: 0.293, awfully: 0.293, completely: 0.293, considerably: 0.293,
+  decidedly: 0.293, deeply: 0.293, effing: 0.293, enormously: 0.293, entirely: 0.293,
+  especially: 0.293, exceptionally: 0.293, extremely: 0.293, fabulously: 0.293, flipping: 0.293,
+  freaking: 0.293, fricking: 0.293, frigging: 0.293, fucking: 0.293, fully: 0.293,
+  greatly: 0.293, hella: 0.293, highly: 0.293, hugely: 0.293, incredibly: 0.293,
+  intensely: 0.293, majorly: 0.293, more: 0.293, most: 0.293, particularly: 0.293,
+  purely: 0.293, quite: 0.293, really: 0.293, remarkably: 0.293, so: 0.293,
+  substantially: 0.293, super: 0.293, thoroughly: 0.293, totally: 0.293, tremendously: 0.293,
+  truly: 0.293, uber: 0.293, unbelievably: 0.293, unusually: 0.293, utterly: 0.293,
+  very: 0.293, insanely: 0.293, seriously: 0.293, ridiculously: 0.293,
+  almost: -0.293, barely: -0.293, hardly: -0.293, kinda: -0.293, kindof: -0.293,
+  less: -0.293, marginally: -0.293, occasionally: -0.293, partly: -0.293, scarcely: -0.293,
+  slightly: -0.293, somewhat: -0.293, sorta: -0.293, sortof: -0.293, fairly: -0.2,
+  mildly: -0.293, rather: -0.15
+};
+
+// Conjunctions after which the rest of the sentence outweighs what came before
+export const CONTRASTIVE_CONJUNCTIONS = new Set(['but', 'however']);
+
+// Phrases whose sentiment is not the sum of their words
+export const IDIOMS: Record<string, number> = {
+  'the shit': 3,
+  'the bomb': 3,
+  'bad ass': 1.5,
+  'yeah right': -2,
+  'kiss of death': -1.5,
+  'to die for': 3,
+  'cut the mustard': 2,
+  'hand to mouth': -2,
+  'back handed': -2,
+  'blow smoke': -2,
+  'blowing smoke': -2,
+  'upper hand': 1,
+  'break a leg': 2,
+  'cooking with gas': 2,
+  'in the black': 2,
+  'in the red': -2,
+  'on the ball': 2,
+  'under the weather': -2,
+  'waste of money': -3,
+  'waste of time': -3,
+  'rip off': -3,
+  'ripped off': -3,
+  'let down': -2,
+  'fed up': -2.2,
+  'sick of': -2.2,
+  'thanks for nothing': -2.5,
+  'no problem': 1.5,
+  'no worries': 1.5,
+  'not bad': 1.5,
+  'works like a charm': 3,
+  'works great': 2.8,
+  'does the job': 1.5,
+  'as advertised': 1.5,
+  'not as advertised': -2.5,
+  'false advertising': -2.8
+};
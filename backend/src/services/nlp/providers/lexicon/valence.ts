@@ -0,0 +1,124 @@
+/**
+ * Word valence from -4 (most negative) to +4 (most positive), on the scale of
+ * the VADER lexicon and extended with product and support vocabulary.
+ * Inflected forms are listed explicitly rather than stemmed.
+ */
+export const VALENCE_LEXICON: Record<string, number> = {
+  // Positive
+  able: 0.6, acclaim: 2.2, acclaimed: 2.2, accomplish: 1.8, accomplished: 1.9, accurate: 1.8,
+  ace: 2.4, admirable: 2.6, admire: 2.1, adorable: 2.2, adore: 2.6, adored: 2.6, advantage: 1.6,
+  affordable: 1.8, agree: 1.5, agreeable: 1.8, alive: 1.6, amaze: 2.5, amazed: 2.2, amazing: 2.8,
+  amazingly: 2.8, amused: 1.6, appealing: 2.0, appreciate: 1.7, appreciated: 2.3, appreciates: 2.3,
+  appreciation: 2.3, approve: 1.5, approved: 1.8, awesome: 3.1, awesomeness: 3.1, beautiful: 2.9,
+  beautifully: 2.7, beauty: 2.8, beloved: 2.3, benefit: 2.0, benefits: 1.6, best: 3.2, better: 1.9,
+  bless: 1.8, blessed: 2.9, bliss: 2.7, bonus: 2.1, boost: 1.7, brave: 2.4, breakthrough: 1.9,
+  breeze: 1.5, bright: 1.9, brilliant: 2.8, brilliantly: 3.0, calm: 1.3, capable: 1.6, care: 2.2,
+  cared: 1.8, careful: 0.6, caring: 2.2, celebrate: 2.7, charm: 1.7, charming: 2.8, cheap: 0.4,
+  cheer: 2.3, cheerful: 2.5, cheers: 2.1, clean: 1.7, clear: 1.6, clever: 2.0, comfort: 1.5,
+  comfortable: 2.3, compelling: 1.7, competent: 1.3, complement: 1.6, compliment: 2.1, confident: 2.2,
+  consistent: 1.4, convenient: 1.8, cool: 1.3, courteous: 2.3, creative: 1.9, crisp: 1.2, cute: 2.0,
+  dedicated: 2.0, delight: 2.9, delighted: 3.1, delightful: 2.9, dependable: 2.2, deserve: 0.8,
+  determined: 1.4, easier: 1.8, easily: 1.4, easy: 1.9, effective: 2.1, efficient: 1.8, effortless: 2.2,
+  elegant: 2.1, enjoy: 2.2, enjoyable: 1.9, enjoyed: 2.3, enjoying: 2.4, enjoys: 2.2, enthusiastic: 1.9,
+  epic: 2.4, essential: 1.1, excellence: 3.1, excellent: 2.7, exceptional: 2.6, excite: 2.1,
+  excited: 1.4, excitement: 2.2, exciting: 2.2, fab: 2.0, fabulous: 2.4, fair: 1.3, faithful: 1.9,
+  fan: 1.3, fantastic: 2.6, fascinating: 2.5, fast: 1.2, faster: 1.3, favor: 1.7, favorite: 2.0,
+  favourite: 2.0, fine: 0.8, fixed: 1.3, flawless: 2.3, flawlessly: 2.4, flexible: 1.3, fluent: 1.4,
+  fond: 1.9, fortunate: 1.9, free: 1.2, fresh: 1.3, friendly: 2.2, fun: 2.3, funny: 1.9, generous: 2.3,
+  genius: 2.4, gentle: 1.9, genuine: 1.7, gift: 1.9, glad: 2.0, gladly: 1.4, glorious: 3.2, good: 1.9,
+  goodness: 2.0, gorgeous: 3.0, grace: 1.8, graceful: 2.0, gracious: 2.6, grand: 2.0, grateful: 2.0,
+  gratitude: 2.3, great: 3.1, greater: 1.5, greatest: 3.2, handy: 1.8, happier: 2.4, happiest: 3.2,
+  happily: 2.6, happiness: 2.6, happy: 2.7, harmony: 1.7, heal: 1.4, healthy: 1.7, heaven: 2.3,
+  helpful: 1.9, helping: 1.2, hero: 2.6, heroes: 2.3, highlight: 1.4, honest: 2.3, honestly: 0.8,
+  honor: 2.2, hope: 1.9, hopeful: 1.6, hug: 2.1, hugs: 2.2, ideal: 2.4, impress: 1.9, impressed: 2.1,
+  impressive: 2.3, improve: 1.9, improved: 2.1, improvement: 2.0, improvements: 1.6, improving: 1.8,
+  incredible: 2.2, ingenious: 2.5, innovative: 1.9, inspire: 2.7, inspired: 2.2, inspiring: 2.4,
+  instant: 1.2, intuitive: 2.2, joy: 2.8, joyful: 2.9, keen: 1.5, kind: 2.4, kindly: 2.2, kindness: 2.0,
+  laugh: 2.6, laughing: 2.2, legendary: 2.3, legit: 1.6, lifesaver: 2.7, like: 1.5, liked: 1.8,
+  likes: 1.8, lol: 1.8, love: 3.2, loved: 2.9, lovely: 2.8, loves: 2.7, loving: 2.9, loyal: 2.1,
+  lucky: 1.8, magic: 1.6, magical: 2.2, magnificent: 2.9, marvelous: 2.9, masterpiece: 3.1, neat: 2.0,
+  nice: 1.8, nicely: 1.9, optimistic: 1.3, outstanding: 3.0, paradise: 3.2, passion: 2.0,
+  passionate: 2.4, patient: 1.2, peaceful: 2.2, perfect: 2.7, perfection: 2.7, perfectly: 3.2,
+  phenomenal: 2.6, pleasant: 2.3, pleased: 1.9, pleasure: 2.7, polished: 1.6, polite: 2.1, popular: 1.8,
+  positive: 2.6, powerful: 1.8, praise: 2.6, precious: 2.7, premium: 1.4, pretty: 2.2, pride: 1.4,
+  prize: 2.3, productive: 1.8, professional: 1.8, profit: 1.9, promising: 1.8, prompt: 1.3,
+  promptly: 1.4, proud: 2.1, quick: 1.3, quickly: 1.2, recommend: 1.5, recommended: 1.6, refreshing: 2.1,
+  relax: 1.9, relaxed: 2.2, relief: 2.1, relieved: 1.6, reliable: 1.9, remarkable: 2.4, resolve: 1.6,
+  resolved: 1.6, respect: 2.1, respectful: 2.2, responsive: 1.6, reward: 2.0, rewarding: 2.4, rich: 1.6,
+  robust: 1.4, rock: 1.0, rocks: 1.8, safe: 1.9, satisfied: 1.8, satisfying: 2.0, save: 2.2, saved: 1.8,
+  saves: 1.9, seamless: 2.1, seamlessly: 2.1, secure: 1.4, sharp: 0.8, shine: 2.0, simple: 1.1,
+  sleek: 1.8, slick: 1.8, smart: 1.7, smile: 1.5, smiling: 2.0, smooth: 1.6, smoothly: 1.6, snappy: 1.7,
+  solid: 1.7, solved: 1.7, sparkling: 2.3, special: 1.7, spectacular: 2.8, speedy: 1.5, splendid: 2.8,
+  stable: 1.2, stellar: 2.8, straightforward: 1.4, strength: 2.2, strong: 2.3, stunning: 2.7,
+  success: 2.7, successful: 2.8, superb: 3.1, superior: 2.3, supportive: 1.2, supported: 1.3,
+  sure: 1.3, surprised: 0.9, sweet: 2.0, swift: 1.6, terrific: 3.2, thank: 1.5, thankful: 2.7,
+  thanks: 1.9, thanx: 1.9, thorough: 1.4, thrilled: 1.9, thrive: 2.0, tidy: 1.5, top: 0.8,
+  transparent: 1.4, treasure: 2.7, trust: 2.3, trusted: 2.1, trustworthy: 2.6, ty: 1.6, useful: 1.9,
+  valuable: 2.1, value: 1.4, versatile: 1.6, victory: 2.8, vibrant: 2.2, warm: 0.9, welcome: 2.0,
+  well: 1.1, win: 2.8, winner: 2.8, winning: 2.4, wins: 2.7, wise: 2.1, wonder: 1.4, wonderful: 2.7,
+  wonderfully: 2.9, woo: 2.1, woohoo: 2.3, worth: 0.9, worthy: 1.9, wow: 2.8, yay: 2.4, yes: 1.7,
+  yummy: 2.4, zen: 1.4,
+
+  // Negative
+  abandon: -1.9, abandoned: -2.0, absurd: -1.3, abuse: -3.2, abused: -2.3, abusive: -3.2,
+  abysmal: -3.2, accident: -2.1, ache: -1.6, aggravated: -2.5, aggravating: -2.3, aggressive: -0.6,
+  agony: -3.2, alarm: -1.4, alarming: -2.2, anger: -2.7, angry: -2.3, anguish: -2.9, annoy: -1.9,
+  annoyance: -1.9, annoyed: -1.6, annoying: -1.7, anxious: -1.0, apologize: -0.3, appalled: -2.0,
+  appalling: -2.2, argh: -2.4, arrogant: -2.2, ashamed: -2.1, atrocious: -3.1, attack: -2.1,
+  awful: -2.0, awkward: -0.6, bad: -2.5, badly: -2.1, ban: -2.6, banned: -2.0, bankrupt: -2.6,
+  betray: -3.2, betrayed: -3.0, bitter: -1.8, blame: -1.4, blamed: -2.1, bleh: -1.5, blocked: -1.1,
+  bogus: -2.5, bored: -1.1, boring: -1.3, bother: -1.4, bothered: -1.2, broke: -1.8, broken: -2.1,
+  buggy: -2.2, bug: -1.1, bugs: -1.4, bullshit: -2.8, burden: -1.9, careless: -1.5, catastrophe: -3.4,
+  cheated: -2.3, cheater: -2.5, clumsy: -1.5, complain: -1.5, complained: -1.7, complaint: -1.2,
+  complaints: -1.7, complicated: -1.1, confused: -1.3, confusing: -0.9, corrupt: -3.0, corrupted: -2.2,
+  costly: -1.1, crap: -1.6, crappy: -2.5, crash: -1.7, crashed: -1.9, crashes: -1.9, crashing: -1.8,
+  crazy: -1.4, crisis: -3.1, critical: -1.3, cruel: -2.8, crushed: -1.8, cry: -2.1, crying: -2.1,
+  cumbersome: -1.5, damage: -2.2, damaged: -1.9, damn: -1.7, danger: -2.4, dangerous: -2.1, dead: -3.3,
+  deceive: -1.7, deceived: -1.9, deceptive: -2.2, declined: -1.1, defect: -1.4, defective: -1.9,
+  delay: -1.3, delayed: -0.9, delays: -1.5, deleted: -1.3, denied: -1.2, depressed: -2.3,
+  depressing: -1.6, desperate: -1.3, despise: -1.4, destroy: -2.5, destroyed: -3.4, disappoint: -2.3,
+  disappointed: -1.9, disappointing: -2.2, disappointment: -2.3, disaster: -3.1, disastrous: -2.9,
+  discouraged: -1.7, disgrace: -2.2, disgraceful: -2.2, disgust: -2.9, disgusted: -2.4,
+  disgusting: -2.4, dishonest: -2.7, dislike: -1.6, disliked: -1.7, dismissive: -1.6, dissatisfied: -1.6,
+  distressed: -1.8, disturbing: -2.3, doubt: -1.5, downgrade: -1.6, drain: -0.9, drained: -1.5,
+  dreadful: -2.4, dumb: -2.3, embarrassed: -1.5, embarrassing: -1.6, empty: -0.8, enraged: -3.4,
+  error: -1.7, errors: -1.4, evil: -3.4, exhausted: -1.5, expensive: -1.5, fail: -2.5, failed: -2.3,
+  failing: -2.3, fails: -1.8, failure: -2.3, fake: -2.1, fault: -1.7, faulty: -1.8, fear: -2.2,
+  fiasco: -2.3, filthy: -2.4, flaw: -1.2, flawed: -1.4, flaws: -1.2, fool: -1.9, foolish: -1.1,
+  fraud: -2.8, freeze: -0.4, freezes: -1.6, freezing: -1.5, froze: -1.4, frozen: -1.3, frustrate: -2.0,
+  frustrated: -2.4, frustrating: -1.9, frustration: -2.1, fuck: -2.5, fucked: -3.4, furious: -2.7,
+  garbage: -2.1, glitch: -1.6, glitches: -1.7, glitchy: -1.8, greed: -1.7, greedy: -1.3, grief: -2.2,
+  gross: -2.1, grr: -1.8, guilty: -1.8, hack: -1.0, hacked: -1.7, harm: -2.5, harmful: -2.3, harsh: -1.9,
+  hassle: -1.7, hate: -2.7, hated: -3.2, hateful: -2.2, hates: -1.9, hating: -2.3, headache: -1.8,
+  hell: -3.6, helpless: -2.0, hopeless: -2.0, horrible: -2.5, horribly: -2.4, horrific: -3.4,
+  horrid: -2.5, hostile: -2.2, hurt: -2.4, hurts: -2.1, idiot: -2.3, idiotic: -2.6, ignorant: -1.1,
+  ignore: -1.5, ignored: -2.2, ignoring: -1.7, ill: -1.8, impatient: -1.2, impossible: -1.5,
+  inaccurate: -1.6, inadequate: -1.7, incompetent: -2.3, inconsistent: -1.2, inconvenience: -1.5,
+  inconvenient: -1.4, ineffective: -1.9, inefficient: -1.6, inferior: -1.7, infuriating: -2.9,
+  insane: -1.7, insult: -2.3, insulted: -2.3, insulting: -2.2, issue: -0.6, issues: -0.9, jerk: -2.4,
+  joke: -0.4, junk: -2.1, kill: -3.7, killed: -3.5, killing: -3.4, lag: -1.4, lagging: -1.3, laggy: -1.9,
+  lame: -1.8, late: -0.9, lazy: -1.5, leak: -1.4, leaked: -1.3, liar: -2.9, lie: -2.0, lied: -1.6,
+  lies: -1.8, limited: -0.9, lose: -1.6, loser: -2.4, loses: -1.3, losing: -1.6, loss: -1.3, lost: -1.3,
+  lousy: -2.5, mad: -2.2, mediocre: -1.1, meh: -0.8, mess: -1.5, messed: -1.4, messy: -1.5,
+  misleading: -1.7, miserable: -2.2, misery: -2.7, miss: -0.6, missed: -1.2, missing: -1.2,
+  mistake: -1.4, mistakes: -1.5, misunderstood: -1.1, nasty: -2.6, negative: -2.7, neglect: -2.0,
+  neglected: -2.4, nervous: -1.1, nightmare: -2.7, noisy: -0.7, nonsense: -1.7, nuisance: -1.7,
+  obnoxious: -2.0, obsolete: -1.2, offended: -1.9, offensive: -2.2, outage: -1.9, outrage: -2.3,
+  outraged: -2.5, outrageous: -2.0, overcharged: -2.2, overpriced: -1.9, overwhelmed: -0.4, pain: -2.3,
+  painful: -1.9, panic: -2.3, pathetic: -2.7, penalty: -2.0, pissed: -3.2, pity: -1.2, pointless: -1.7,
+  poor: -2.1, poorly: -1.6, problem: -1.7, problematic: -1.9, problems: -1.7, punish: -2.4, rage: -2.6,
+  ranting: -1.2, regret: -1.8, regrets: -1.6, regretted: -1.6, reject: -1.7, rejected: -2.3,
+  ridiculous: -1.5, rip: -0.8, risk: -0.8, risky: -0.8, rotten: -2.3, rubbish: -1.8, rude: -2.0,
+  ruin: -2.8, ruined: -2.4, ruins: -1.9, sad: -2.1, sadly: -1.8, sadness: -1.9, scam: -2.7,
+  scammed: -2.8, scammer: -2.9, scary: -2.2, screwed: -2.2, shame: -2.1, shameful: -2.2, shit: -2.6,
+  shitty: -2.6, shocked: -1.3, shocking: -1.7, shoddy: -2.1, sick: -2.3, slow: -1.2, slower: -1.1,
+  sluggish: -1.3, sorry: -0.3, spam: -1.5, stolen: -2.2, stuck: -1.0, stupid: -2.4, suck: -1.9,
+  sucked: -2.0, sucks: -1.5, suffer: -2.5, suffering: -2.1, suspicious: -1.5, terrible: -2.1,
+  terribly: -2.1, terrified: -3.0, thief: -2.4, threat: -2.4, tired: -1.9, trash: -2.0, trouble: -1.7,
+  troubled: -2.0, ugh: -1.8, ugly: -2.3, unable: -1.2, unacceptable: -2.0, unavailable: -1.1,
+  uncomfortable: -1.6, unfair: -2.1, unfortunate: -2.0, unfortunately: -1.4, unhappy: -1.8,
+  unhelpful: -1.8, unprofessional: -2.1, unreliable: -2.0, unresponsive: -1.8, unstable: -1.5,
+  unusable: -2.5, upset: -1.6, useless: -1.8, vile: -3.1, violation: -2.2, waste: -1.8, wasted: -2.2,
+  wasting: -1.7, weak: -1.9, weird: -0.7, woe: -1.8, worried: -1.2, worry: -1.9, worse: -2.1,
+  worst: -3.1, worthless: -1.9, wrong: -2.1, wtf: -2.8, yikes: -1.7
+};
@@ -0,0 +1,42 @@
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v1';
+
+/**
+ * Content Cipher
+ *
+ * AES-256-GCM encryption for original feedback text. Ciphertexts are stored as
+ * `v1:<iv>:<auth tag>:<data>` in base64 so the format can change later.
+ */
+export class ContentCipher {
+  private key: Buffer;
+
+  constructor(key: string) {
+    this.key = /^[0-9a-f]{64}$/i.test(key) ? Buffer.from(key, 'hex') : Buffer.from(key, 'base64');
+
+    if (this.key.length !== 32) {
+      throw new Error('PII encryption key must be 32 bytes, hex or base64 encoded');
+    }
+  }
+
+  encrypt(plaintext: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return [VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), data.toString('base64')].join(':');
+  }
+
+  decrypt(ciphertext: string): string {
+    const [version, iv, tag, data] = ciphertext.split(':');
+    if (version !== VERSION || !iv || !tag || !data) {
+      throw new Error('Unrecognized encrypted content format');
+    }
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, this.key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+    return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+  }
+}
@@ -0,0 +1,87 @@
+import { PiiDetector, ibanValid, luhnValid } from './PiiDetector';
+
+const detector = new PiiDetector(['email', 'phone', 'credit_card', 'iban', 'ssn', 'ip_address']);
+
+const typesIn = (text: string) => detector.detect(text).map(match => match.type);
+
+describe('luhnValid', () => {
+  it('accepts valid card numbers', () => {
+    expect(luhnValid('4111111111111111')).toBe(true);
+    expect(luhnValid('5500005555555559')).toBe(true);
+    expect(luhnValid('378282246310005')).toBe(true);
+  });
+
+  it('rejects a wrong check digit', () => {
+    expect(luhnValid('4111111111111112')).toBe(false);
+  });
+
+  it('rejects numbers outside card lengths', () => {
+    expect(luhnValid('0')).toBe(false);
+    expect(luhnValid('00000000000000000000')).toBe(false);
+  });
+});
+
+describe('ibanValid', () => {
+  it('accepts valid IBANs', () => {
+    expect(ibanValid('GB82WEST12345698765432')).toBe(true);
+    expect(ibanValid('DE89370400440532013000')).toBe(true);
+  });
+
+  it('rejects a mistyped IBAN', () => {
+    expect(ibanValid('GB82WEST12345698765433')).toBe(false);
+  });
+});
+
+describe('PiiDetector', () => {
+  it('finds emails, cards, IBANs and SSNs', () => {
+    expect(typesIn('write to jane.doe@example.com')).toEqual(['email']);
+    expect(typesIn('card 4111 1111 1111 1111 was charged twice')).toEqual(['credit_card']);
+    expect(typesIn('refund to GB82 WEST 1234 5698 7654 32 please')).toEqual(['iban']);
+    expect(typesIn('my SSN is 123-45-6789')).toEqual(['ssn']);
+  });
+
+  it('skips card-like numbers that fail the Luhn check', () => {
+    expect(typesIn('tracking 4111 1111 1111 1112')).not.toContain('credit_card');
+  });
+
+  it('finds phone numbers in phone formats', () => {
+    expect(typesIn('call +44 20 7946 0958 anytime')).toEqual(['phone']);
+    expect(typesIn('reach me at (555) 123-4567')).toEqual(['phone']);
+    expect(typesIn('my number 555-123-4567 is new')).toEqual(['phone']);
+    expect(typesIn('office 020 7946 0958')).toEqual(['phone']);
+  });
+
+  it('finds ungrouped digits introduced as a phone number', () => {
+    expect(typesIn('text me on 5551234567')).toEqual(['phone']);
+    expect(typesIn('phone: 555123456')).toEqual(['phone']);
+  });
+
+  it('does not treat order or ticket numbers as phone numbers', () => {
+    expect(typesIn('order #123456789 never arrived')).toEqual([]);
+    expect(typesIn('see ticket 2024-0315-7788 for details')).toEqual([]);
+    expect(typesIn('invoice 987654321012')).toEqual([]);
+  });
+
+  it('finds IP addresses', () => {
+    expect(typesIn('blocked from 192.168.1.20 again')).toEqual(['ip_address']);
+    expect(typesIn('server at 10.0.0.1 is down')).toEqual(['ip_address']);
+  });
+
+  it('does not treat version strings as IP addresses', () => {
+    expect(typesIn('crashes since version 10.2.3.4')).toEqual([]);
+    expect(typesIn('after I updated to 10.2.3.4 it broke')).toEqual([]);
+    expect(typesIn('v10.2.3.4 is slow')).toEqual([]);
+    expect(typesIn('build 1.2.3.4.5 fixed it')).toEqual([]);
+    expect(typesIn('not an address: 999.1.1.1')).toEqual([]);
+  });
+
+  it('redacts matches with their placeholders', () => {
+    expect(detector.redact('mail jane@example.com or call +1 555 123 4567'))
+      .toBe('mail [EMAIL] or call [PHONE]');
+  });
+
+  it('applies custom patterns', () => {
+    const custom = new PiiDetector([], [{ type: 'order_id', pattern: 'ORD-\\d{6,}' }]);
+    expect(custom.redact('where is ORD-1234567?')).toBe('where is [ORDER_ID]?');
+  });
+});
@@ -0,0 +1,194 @@
+import { BuiltInPiiType, PiiMatch, PiiPattern, PiiType } from '@/types/privacy';
+
+// Validators see the candidate and the text just before it
+type Validator = (value: string, before: string) => boolean;
+
+interface Detector {
+  type: PiiType;
+  regex: RegExp;
+  placeholder: string;
+  validate?: Validator;
+}
+
+// How much text before a candidate validators look at for context
+const CONTEXT_CHARS = 40;
+
+// Grouped the way phone numbers are written: international prefix, area code in
+// parentheses, a trunk 0, or North American 3-3-4
+const PHONE_FORMAT = /^(?:\+|\(\d{2,4}\)|0\d|\d{3}[\s.-]\d{3}[\s.-]\d{4}$)/;
+
+// Other digit runs, like "order #123456789", only count when introduced as a phone number
+const PHONE_CONTEXT = /\b(?:phone|tel|telephone|mobile|cell|whatsapp|sms|fax|call|text|ring)(?:\s+(?:me|us))?(?:\s+(?:on|at))?\s*(?:number|no\.?|nr\.?|#)?\s*[:.-]?\s*$/i;
+
+// Dotted quads after these words are versions, e.g. "updated to 10.2.3.4"
+const VERSION_CONTEXT = /\b(?:v|ver|version|release|build|firmware|sdk|ios|android|app|since|before|after|(?:updated?|upgraded?|downgraded?)(?:\s+to)?)\s*[:#]?\s*$/i;
+
+const BUILT_IN_PATTERNS: Record<BuiltInPiiType, { regex: RegExp; validate?: Validator }> = {
+  email: {
+    regex: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi
+  },
+  phone: {
+    // Not part of a longer run of digit groups, such as a card number failing its checksum
+    regex: /(?<![\w+]|\d[ .-])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\d{2,4})[\s.-]?\d{3,4}[\s.-]?\d{3,4}\b(?![ .-]?\d)/g,
+    validate: (value, before) => {
+      const digits = value.replace(/\D/g, '').length;
+      return digits >= 9 && digits <= 15 && (PHONE_FORMAT.test(value) || PHONE_CONTEXT.test(before));
+    }
+  },
+  credit_card: {
+    regex: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: value => luhnValid(value.replace(/\D/g, ''))
+  },
+  iban: {
+    regex: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g,
+    validate: value => ibanValid(value.replace(/ /g, ''))
+  },
+  ssn: {
+    regex: /\b\d{3}-\d{2}-\d{4}\b/g,
+    validate: value => {
+      const [area, group, serial] = value.split('-');
+      return area !== '000' && area !== '666' && area[0] !== '9' && group !== '00' && serial !== '0000';
+    }
+  },
+  ip_address: {
+    // Not part of a longer dotted run such as 1.2.3.4.5
+    regex: /(?<![\w.])(?:\d{1,3}\.){3}\d{1,3}(?!\.?\d)/g,
+    validate: (value, before) =>
+      value.split('.').every(octet => parseInt(octet, 10) <= 255 && !/^0\d/.test(octet)) &&
+      !VERSION_CONTEXT.test(before)
+  }
+};
+
+/**
+ * Luhn checksum used by payment card numbers
+ */
+export function luhnValid(digits: string): boolean {
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i], 10);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
+
+/**
+ * ISO 13616 mod-97 check for IBANs
+ */
+export function ibanValid(iban: string): boolean {
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+
+  for (const char of rearranged) {
+    const value = /\d/.test(char) ? char : (char.charCodeAt(0) - 55).toString();
+    for (const digit of value) {
+      remainder = (remainder * 10 + parseInt(digit, 10)) % 97;
+    }
+  }
+
+  return remainder === 1;
+}
+
+/**
+ * PII Detector
+ *
+ * Finds personal data in free text with regular expressions, confirming
+ * candidates with checksums where the format has one (Luhn for cards,
+ * mod-97 for IBANs) and with the surrounding text where digits alone are
+ * ambiguous (phone numbers, IP addresses versus version numbers), plus any
+ * custom patterns the organization configures.
+ */
+export class PiiDetector {
+  private detectors: Detector[];
+
+  constructor(types: BuiltInPiiType[], customPatterns: PiiPattern[] = []) {
+    this.detectors = [
+      ...types.map(type => ({
+        type,
+        regex: BUILT_IN_PATTERNS[type].regex,
+        placeholder: `[${type.toUpperCase()}]`,
+        validate: BUILT_IN_PATTERNS[type].validate
+      })),
+      ...customPatterns.flatMap(pattern => this.compile(pattern))
+    ];
+  }
+
+  /**
+   * Find PII in text. Overlapping matches resolve to the longest one.
+   */
+  detect(text: string): PiiMatch[] {
+    const candidates: PiiMatch[] = [];
+
+    for (const detector of this.detectors) {
+      for (const match of text.matchAll(detector.regex)) {
+        const before = text.slice(Math.max(0, match.index! - CONTEXT_CHARS), match.index!);
+        if (match[0].length === 0 || (detector.validate && !detector.validate(match[0], before))) {
+          continue;
+        }
+        candidates.push({ type: detector.type, start: match.index!, end: match.index! + match[0].length });
+      }
+    }
+
+    candidates.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+
+    const matches: PiiMatch[] = [];
+    for (const candidate of candidates) {
+      const last = matches[matches.length - 1];
+      if (last && candidate.start < last.end) {
+        if (candidate.end - candidate.start > last.end - last.start) {
+          matches[matches.length - 1] = candidate;
+        }
+        continue;
+      }
+      matches.push(candidate);
+    }
+
+    return matches;
+  }
+
+  /**
+   * Replace each match with its type's placeholder
+   */
+  redact(text: string, matches: PiiMatch[] = this.detect(text)): string {
+    let redacted = '';
+    let cursor = 0;
+
+    for (const match of matches) {
+      redacted += text.slice(cursor, match.start) + this.placeholderFor(match.type);
+      cursor = match.end;
+    }
+
+    return redacted + text.slice(cursor);
+  }
+
+  private placeholderFor(type: PiiType): string {
+    return this.detectors.find(detector => detector.type === type)?.placeholder || `[${type.toUpperCase()}]`;
+  }
+
+  /**
+   * Compile a custom pattern, skipping it if the expression is invalid
+   */
+  private compile(pattern: PiiPattern): Detector[] {
+    try {
+      const flags = new Set(`${pattern.flags || ''}g`.split(''));
+      return [{
+        type: pattern.type,
+        regex: new RegExp(pattern.pattern, Array.from(flags).join('')),
+        placeholder: pattern.placeholder || `[${pattern.type.toUpperCase()}]`
+      }];
+    } catch (error) {
+      console.warn(`⚠️ Ignoring invalid PII pattern for ${pattern.type}:`, error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+}
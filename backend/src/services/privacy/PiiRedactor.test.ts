@@ -0,0 +1,47 @@
+import { PiiRedactor } from './PiiRedactor';
+
+const config = { enabled: true, detectors: ['email' as const, 'phone' as const], customPatterns: [] };
+
+describe('PiiRedactor.redactValue', () => {
+  it('redacts strings nested in objects and arrays, keeping the shape', () => {
+    const receivedAt = new Date('2024-04-01T00:00:00Z');
+    const redacted = new PiiRedactor(config).redactValue({
+      items: [{ body: 'mail jane@example.com', rating: 2 }],
+      author: { handle: 'jane', contact: '+1 555 123 4567' },
+      receivedAt
+    });
+
+    expect(redacted).toEqual({
+      items: [{ body: 'mail [EMAIL]', rating: 2 }],
+      author: { handle: 'jane', contact: '[PHONE]' },
+      receivedAt
+    });
+    expect(redacted.receivedAt).toBeInstanceOf(Date);
+  });
+
+  it('leaves values alone while redaction is disabled', () => {
+    const value = { body: 'mail jane@example.com' };
+    expect(new PiiRedactor({ ...config, enabled: false }).redactValue(value)).toBe(value);
+  });
+});
+
+describe('PiiRedactor.redactFields', () => {
+  const redactor = new PiiRedactor({ ...config, detectors: ['email', 'phone', 'credit_card'] });
+
+  it('redacts only strings under the given keys, leaving card-like IDs intact', () => {
+    const body = {
+      data: [{ id: '1790000000000000005', author_id: '1234567812345670', text: 'mail jane@example.com' }],
+      includes: { users: [{ id: '1234567812345670', description: 'call +1 555 123 4567' }] }
+    };
+
+    expect(redactor.redactFields(body, ['text'])).toEqual({
+      data: [{ id: '1790000000000000005', author_id: '1234567812345670', text: 'mail [EMAIL]' }],
+      includes: { users: [{ id: '1234567812345670', description: 'call +1 555 123 4567' }] }
+    });
+  });
+
+  it('redacts everything nested below a matching key', () => {
+    expect(redactor.redactFields({ body: { parts: ['mail jane@example.com'] } }, ['body']))
+      .toEqual({ body: { parts: ['mail [EMAIL]'] } });
+  });
+});
@@ -0,0 +1,121 @@
+import { PiiConfig, ProtectedContent, RedactionResult } from '@/types/privacy';
+import { FeedbackData } from '@/types/feedback';
+import { PiiDetector } from './PiiDetector';
+import { ContentCipher } from './ContentCipher';
+
+/**
+ * PII Redactor
+ *
+ * Redacts personal data from feedback before it is stored or sent to a model
+ * provider. When an encryption key is configured, the original text of items
+ * containing PII is kept encrypted so authorized users can view it.
+ */
+export class PiiRedactor {
+  private config: PiiConfig;
+  private detector: PiiDetector;
+  private cipher: ContentCipher | null;
+
+  constructor(config: PiiConfig) {
+    this.config = config;
+    this.detector = new PiiDetector(config.detectors, config.customPatterns);
+    this.cipher = config.encryptionKey ? new ContentCipher(config.encryptionKey) : null;
+  }
+
+  /**
+   * Redact PII from text
+   */
+  redact(text: string): RedactionResult {
+    if (!this.config.enabled) {
+      return { text, matches: [], types: [] };
+    }
+
+    const matches = this.detector.detect(text);
+    return {
+      text: matches.length > 0 ? this.detector.redact(text, matches) : text,
+      matches,
+      types: Array.from(new Set(matches.map(match => match.type)))
+    };
+  }
+
+  /**
+   * Redact the strings held under the given keys anywhere inside a JSON-like value,
+   * such as the text fields of a raw API response, keeping its shape.
+   * IDs and other fields are left alone, since they can look like card or phone numbers.
+   */
+  redactFields<T>(value: T, fields: string[]): T {
+    if (!this.config.enabled) {
+      return value;
+    }
+    return this.redactNested(value, new Set(fields), false);
+  }
+
+  /**
+   * Redact every string inside a JSON-like value, such as an error's context, keeping its shape
+   */
+  redactValue<T>(value: T): T {
+    if (!this.config.enabled) {
+      return value;
+    }
+    return this.redactNested(value, new Set(), true);
+  }
+
+  /**
+   * Walk a value, redacting strings everywhere or only below one of the given keys
+   */
+  private redactNested<T>(value: T, fields: Set<string>, redactStrings: boolean): T {
+    if (typeof value === 'string') {
+      return (redactStrings ? this.redact(value).text : value) as unknown as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(element => this.redactNested(element, fields, redactStrings)) as unknown as T;
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, field]) => [
+          key,
+          this.redactNested(field, fields, redactStrings || fields.has(key))
+        ])
+      ) as T;
+    }
+    return value;
+  }
+
+  /**
+   * Redact content for storage, encrypting the original if it contained PII
+   */
+  protect(content: string): ProtectedContent {
+    const { text, types } = this.redact(content);
+
+    return {
+      content: text,
+      contentEncrypted: types.length > 0 && this.cipher ? this.cipher.encrypt(content) : undefined,
+      piiTypes: types
+    };
+  }
+
+  /**
+   * Protect a feedback item's content. Items protected already are returned as-is.
+   */
+  protectItem(item: FeedbackData): FeedbackData {
+    if (item.pii_types !== undefined) {
+      return item;
+    }
+
+    const { content, contentEncrypted, piiTypes } = this.protect(item.content);
+    return { ...item, content, content_encrypted: contentEncrypted, pii_types: piiTypes };
+  }
+
+  /**
+   * Original content of a stored item, or null if none was kept
+   */
+  reveal(item: FeedbackData): string | null {
+    if (!item.content_encrypted) {
+      return item.pii_types && item.pii_types.length > 0 ? null : item.content;
+    }
+    if (!this.cipher) {
+      throw new Error('PII encryption key is not configured');
+    }
+
+    return this.cipher.decrypt(item.content_encrypted);
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Privacy - Main Export
+ *
+ * PII detection and redaction for feedback content:
+ * - Regex and checksum detectors for emails, phones, cards, IBANs, SSNs and IP addresses
+ * - Custom patterns for organization-specific identifiers such as order IDs
+ * - Optional AES-256-GCM encryption of original content for authorized viewing
+ */
+
+import { PiiConfig, PiiPattern } from '@/types/privacy';
+import { PiiRedactor } from './PiiRedactor';
+
+export { PiiDetector, luhnValid, ibanValid } from './PiiDetector';
+export { ContentCipher } from './ContentCipher';
+export { PiiRedactor } from './PiiRedactor';
+
+/**
+ * Custom patterns as a JSON array, e.g. [{"type":"order_id","pattern":"ORD-\\d{6,}"}]
+ */
+function parseCustomPatterns(value?: string): PiiPattern[] {
+  if (!value) {
+    return [];
+  }
+
+  try {
+    const patterns = JSON.parse(value);
+    return Array.isArray(patterns) ? patterns.filter(pattern => pattern?.type && pattern?.pattern) : [];
+  } catch (error) {
+    console.warn('⚠️ Ignoring PII_CUSTOM_PATTERNS: not valid JSON');
+    return [];
+  }
+}
+
+/**
+ * Default PII configuration
+ */
+export const DEFAULT_PII_CONFIG: PiiConfig = {
+  enabled: process.env.PII_REDACTION_ENABLED !== 'false',
+  detectors: ['email', 'phone', 'credit_card', 'iban', 'ssn', 'ip_address'],
+  customPatterns: parseCustomPatterns(process.env.PII_CUSTOM_PATTERNS),
+  encryptionKey: process.env.PII_ENCRYPTION_KEY || undefined
+};
+
+/**
+ * Shared redactor applied before persistence and before outbound model calls
+ */
+export const piiRedactor = new PiiRedactor(DEFAULT_PII_CONFIG);
@@ -162,6 +162,7 @@ export class ResponseFormattingService {
         formatted = this.formatForTrustPilot(formatted, options, modifications);
         break;
       case 'appstore':
+      case 'googleplay':
         formatted = this.formatForAppStore(formatted, options, modifications);
         break;
     }
@@ -642,6 +643,68 @@ export class ResponseFormattingService {
       requiresPublicResponse: true,
       supportedChannels: ['public_reply']
     });
+
+    // Google Play developer replies are capped at 350 characters
+    this.platformConstraints.set('googleplay', {
+      maxLength: 350,
+      allowsHtml: false,
+      allowsMarkdown: false,
+      allowsEmojis: false,
+      allowsHashtags: false,
+      allowsMentions: false,
+      allowsLinks: false,
+      requiresPublicResponse: true,
+      supportedChannels: ['public_reply']
+    });
+
+    // Hacker News comments are plain text; links are fine but marketing tone is not
+    this.platformConstraints.set('hackernews', {
+      maxLength: 2000,
+      allowsHtml: false,
+      allowsMarkdown: false,
+      allowsEmojis: false,
+      allowsHashtags: false,
+      allowsMentions: false,
+      allowsLinks: true,
+      requiresPublicResponse: true,
+      supportedChannels: ['public_reply']
+    });
+
+    this.platformConstraints.set('rss', {
+      maxLength: 1000,
+      allowsHtml: false,
+      allowsMarkdown: false,
+      allowsEmojis: false,
+      allowsHashtags: false,
+      allowsMentions: false,
+      allowsLinks: true,
+      requiresPublicResponse: false,
+      supportedChannels: ['public_reply', 'email']
+    });
+
+    this.platformConstraints.set('import', {
+      maxLength: 2000,
+      allowsHtml: false,
+      allowsMarkdown: false,
+      allowsEmojis: false,
+      allowsHashtags: false,
+      allowsMentions: false,
+      allowsLinks: true,
+      requiresPublicResponse: false,
+      supportedChannels: ['email', 'support_ticket']
+    });
+
+    this.platformConstraints.set('webhook', {
+      maxLength: 1000,
+      allowsHtml: false,
+      allowsMarkdown: false,
+      allowsEmojis: true,
+      allowsHashtags: false,
+      allowsMentions: false,
+      allowsLinks: true,
+      requiresPublicResponse: false,
+      supportedChannels: ['email', 'support_ticket']
+    });
   }
 
   /**
@@ -652,6 +715,11 @@ export class ResponseFormattingService {
     this.signatures.set('reddit', '- Official Support');
     this.signatures.set('trustpilot', '- Customer Care Team');
     this.signatures.set('appstore', '- App Support Team');
+    this.signatures.set('googleplay', '- App Support Team');
+    this.signatures.set('hackernews', '(I work on the product team)');
+    this.signatures.set('rss', '- Customer Support Team');
+    this.signatures.set('import', '- Customer Support Team');
+    this.signatures.set('webhook', '- Customer Support Team');
   }
 
   /**
@@ -662,6 +730,11 @@ export class ResponseFormattingService {
     this.contactInfo.set('reddit', 'Message us directly for personalized help.');
     this.contactInfo.set('trustpilot', 'Contact us at support@company.com');
     this.contactInfo.set('appstore', 'Visit our support page in the app for more help.');
+    this.contactInfo.set('googleplay', 'Visit our support page in the app for more help.');
+    this.contactInfo.set('hackernews', 'Happy to dig in further - my email is in my profile.');
+    this.contactInfo.set('rss', 'Contact us at support@company.com');
+    this.contactInfo.set('import', 'Reply to this message or contact us at support@company.com');
+    this.contactInfo.set('webhook', 'Reply to this message or contact us at support@company.com');
   }
 
   /**
@@ -12,6 +12,8 @@ import { FeedbackData, AnalysisResult, Platform } from '@/types/feedback';
 import { ResponseRepository } from '@/repositories/ResponseRepository';
 import { FeedbackRepository } from '@/repositories/FeedbackRepository';
 import { AnalysisRepository } from '@/repositories/AnalysisRepository';
+import { AuthorRegistry } from '@/services/authors';
+import { AuthorHistory } from '@/types/authors';
 
 export interface ResponseGenerationOptions {
   useCache?: boolean;
@@ -27,6 +29,7 @@ export class ResponseGenerationService {
   private responseRepo: ResponseRepository;
   private feedbackRepo: FeedbackRepository;
   private analysisRepo: AnalysisRepository;
+  private authorRegistry: AuthorRegistry;
   private templates: Map<string, ResponseTemplate> = new Map();
   private workflows: Map<string, ResponseWorkflow> = new Map();
 
@@ -35,13 +38,15 @@ export class ResponseGenerationService {
     responseConfig: ResponseConfig,
     responseRepo: ResponseRepository,
     feedbackRepo: FeedbackRepository,
-    analysisRepo: AnalysisRepository
+    analysisRepo: AnalysisRepository,
+    authorRegistry: AuthorRegistry = new AuthorRegistry()
   ) {
     this.openaiProvider = new OpenAIProvider(openaiConfig);
     this.config = responseConfig;
     this.responseRepo = responseRepo;
     this.feedbackRepo = feedbackRepo;
     this.analysisRepo = analysisRepo;
+    this.authorRegistry = authorRegistry;
     
     this.loadTemplates();
     this.loadWorkflows();
@@ -63,9 +68,10 @@ export class ResponseGenerationService {
       }
 
       const analysis = await this.analysisRepo.findByFeedbackId(feedbackId);
+      const authorHistory = await this.getAuthorHistory(feedback);
       
       // Determine appropriate tone if not specified
-      const selectedTone = tone || this.determineTone(feedback, analysis || undefined);
+      const selectedTone = tone || this.determineTone(feedback, analysis || undefined, authorHistory || undefined);
       
       // Build generation request
       const request: ResponseGenerationRequest = {
@@ -75,7 +81,8 @@ export class ResponseGenerationService {
         maxLength: this.getPlatformMaxLength(feedback.platform),
         variations: this.config.generateVariations ? this.config.variationCount : 1,
         companyContext: this.config.companyContext,
-        brandGuidelines: this.config.brandGuidelines
+        brandGuidelines: this.config.brandGuidelines,
+        authorHistory: authorHistory || undefined
       };
 
       // Check cache if enabled
@@ -194,7 +201,7 @@ export class ResponseGenerationService {
   /**
    * Determine appropriate tone based on feedback and analysis
    */
-  private determineTone(feedback: FeedbackData, analysis?: AnalysisResult): ResponseTone {
+  private determineTone(feedback: FeedbackData, analysis?: AnalysisResult, authorHistory?: AuthorHistory): ResponseTone {
     // Check if there's a workflow that matches this feedback
     const workflow = this.findMatchingWorkflow(feedback, analysis);
     if (workflow) {
@@ -212,9 +219,9 @@ export class ResponseGenerationService {
       const sentiment = analysis.sentiment.label;
       const emotions = analysis.emotions.map(e => e.emotion);
       
-      // Negative sentiment - use apologetic or empathetic
+      // Negative sentiment - use apologetic or empathetic; repeat complainers are owed an apology
       if (sentiment === 'negative') {
-        if (emotions.includes('anger') || emotions.includes('frustration')) {
+        if (emotions.includes('anger') || emotions.includes('frustration') || authorHistory?.repeatComplainer) {
           return 'apologetic';
         }
         return 'empathetic';
@@ -230,6 +237,18 @@ export class ResponseGenerationService {
     return this.config.defaultTone;
   }
 
+  /**
+   * Load the author's history. Drafting goes ahead without it if it cannot be loaded.
+   */
+  private async getAuthorHistory(feedback: FeedbackData): Promise<AuthorHistory | null> {
+    try {
+      return await this.authorRegistry.getHistoryForFeedback(feedback);
+    } catch (error) {
+      console.warn(`⚠️ Author history unavailable for feedback ${feedback.id}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Find matching workflow for feedback
    */
@@ -344,7 +344,12 @@ export class ResponseManagementService {
                 twitter: 0,
                 reddit: 0,
                 trustpilot: 0,
-                appstore: 0
+                appstore: 0,
+                googleplay: 0,
+                hackernews: 0,
+                rss: 0,
+                import: 0,
+                webhook: 0
             }
         };
 
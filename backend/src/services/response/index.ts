@@ -160,6 +160,31 @@ export const DEFAULT_RESPONSE_CONFIG: ResponseConfig = {
       maxLength: 350,
       preferredTone: 'informative',
       autoReply: false
+    },
+    googleplay: {
+      maxLength: 350,
+      preferredTone: 'informative',
+      autoReply: false
+    },
+    hackernews: {
+      maxLength: 2000,
+      preferredTone: 'informative',
+      autoReply: false
+    },
+    rss: {
+      maxLength: 1000,
+      preferredTone: 'professional',
+      autoReply: false
+    },
+    import: {
+      maxLength: 2000,
+      preferredTone: 'professional',
+      autoReply: false
+    },
+    webhook: {
+      maxLength: 1000,
+      preferredTone: 'empathetic',
+      autoReply: false
     }
   }
 };
@@ -265,5 +290,40 @@ export const PLATFORM_BEST_PRACTICES = {
     provideSupport: true,
     beHelpful: true,
     encourageContact: true
+  },
+  googleplay: {
+    maxLength: 350,
+    mentionUpdates: true,
+    provideSupport: true,
+    beHelpful: true,
+    encourageContact: true
+  },
+  hackernews: {
+    maxLength: 2000,
+    beTechnical: true,
+    discloseAffiliation: true,
+    avoidMarketing: true,
+    provideDetails: true
+  },
+  rss: {
+    maxLength: 1000,
+    thankAuthor: true,
+    addressPoints: true,
+    offerFollowUp: true,
+    stayConcise: true
+  },
+  import: {
+    maxLength: 2000,
+    replyPrivately: true,
+    referenceTicket: true,
+    beThorough: true,
+    followUp: true
+  },
+  webhook: {
+    maxLength: 1000,
+    replyPrivately: true,
+    acknowledgeChannel: true,
+    beHelpful: true,
+    followUp: true
   }
 } as const;
\ No newline at end of file
@@ -42,6 +42,7 @@ interface ResponseGenerationRequest {
   brandGuidelines?: string;
   customInstructions?: string;
   templateId?: string;
+  authorHistory?: AuthorHistory;
 }
 
 interface ResponseGenerationResult {
@@ -84,6 +85,9 @@ interface ResponseConfig {
   platformSettings: any;
 }
 import { FeedbackData, AnalysisResult } from '@/types/feedback';
+import { piiRedactor } from '@/services/privacy';
+import { summarizeAuthorHistory } from '@/services/authors';
+import { AuthorHistory } from '@/types/authors';
 
 export interface OpenAIConfig {
   apiKey: string;
@@ -343,7 +347,7 @@ Focus on providing helpful information and guidance. Response should be {maxLeng
     let prompt = template.user;
     
     // Replace placeholders
-    prompt = prompt.replace('{feedback}', request.feedback.content);
+    prompt = prompt.replace('{feedback}', piiRedactor.redact(request.feedback.content).text);
     prompt = prompt.replace('{platform}', request.feedback.platform);
     prompt = prompt.replace('{sentiment}', request.analysis?.sentiment.label || 'unknown');
     prompt = prompt.replace('{emotions}', 
@@ -354,6 +358,12 @@ Focus on providing helpful information and guidance. Response should be {maxLeng
     prompt = prompt.replace('{brandGuidelines}', request.brandGuidelines || 'Follow standard professional guidelines');
     prompt = prompt.replace('{maxLength}', (request.maxLength || 280).toString());
 
+    // Let drafts acknowledge repeat complaints and authors with a wide reach
+    const authorSummary = request.authorHistory ? summarizeAuthorHistory(request.authorHistory) : null;
+    if (authorSummary) {
+      prompt += `\n\nCustomer History: ${authorSummary}`;
+    }
+
     // Add examples if available
     if (template.examples && template.examples.length > 0) {
       const examples = template.examples
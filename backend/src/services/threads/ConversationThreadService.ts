@@ -0,0 +1,241 @@
+import {
+  AnalysisResult,
+  Emotion,
+  EmotionType,
+  FeedbackData,
+  FeedbackThread,
+  FeedbackThreadNode,
+  Platform,
+  Sentiment,
+  ThreadAggregate,
+  ThreadContext
+} from '@/types/feedback';
+import { FeedbackRepository } from '@/repositories/FeedbackRepository';
+import { AnalysisRepository } from '@/repositories/AnalysisRepository';
+
+// Replies this short ("same here", "+1", "this!!") echo the post they answer
+const SHORT_REPLY_MAX_WORDS = 6;
+
+/**
+ * Whether a reply is too short to carry meaning without its parent
+ */
+export function isShortReply(content: string): boolean {
+  const words = content.trim().split(/\s+/).filter(word => word.length > 0);
+  return words.length <= SHORT_REPLY_MAX_WORDS;
+}
+
+interface NodeSignal {
+  sentiment?: Sentiment;
+  emotions: Emotion[];
+}
+
+/**
+ * Conversation Thread Service
+ *
+ * Rebuilds reply trees from the parent/root external IDs adapters store on feedback,
+ * and rolls replies up into thread-level engagement and emotion aggregates.
+ */
+export class ConversationThreadService {
+  private feedbackRepo: FeedbackRepository;
+  private analysisRepo: AnalysisRepository;
+
+  constructor(
+    feedbackRepo: FeedbackRepository = new FeedbackRepository(),
+    analysisRepo: AnalysisRepository = new AnalysisRepository()
+  ) {
+    this.feedbackRepo = feedbackRepo;
+    this.analysisRepo = analysisRepo;
+  }
+
+  /**
+   * Load a thread by its root post's external ID
+   */
+  async getThread(platform: Platform, rootExternalId: string): Promise<FeedbackThread | null> {
+    const feedback = await this.feedbackRepo.findThread(platform, rootExternalId);
+    if (feedback.length === 0) {
+      return null;
+    }
+
+    const analyses = await this.analysisRepo.findByFeedbackIds(feedback.map(item => item.id));
+    return this.buildThread(platform, rootExternalId, feedback, analyses);
+  }
+
+  /**
+   * Load the thread a feedback item belongs to, or the thread it starts
+   */
+  async getThreadForFeedback(feedback: FeedbackData): Promise<FeedbackThread | null> {
+    const rootExternalId = feedback.root_external_id || feedback.external_id;
+    if (!rootExternalId) {
+      return null;
+    }
+
+    return await this.getThread(feedback.platform, rootExternalId);
+  }
+
+  /**
+   * Get the parent and root posts a reply was written under, when they were ingested
+   */
+  async getContext(feedback: FeedbackData): Promise<ThreadContext> {
+    if (!feedback.parent_external_id) {
+      return {};
+    }
+
+    const parent = await this.feedbackRepo.findByExternalId(feedback.parent_external_id, feedback.platform);
+    const root = feedback.root_external_id && feedback.root_external_id !== feedback.parent_external_id
+      ? await this.feedbackRepo.findByExternalId(feedback.root_external_id, feedback.platform)
+      : parent;
+
+    return {
+      parent: parent || undefined,
+      root: root || undefined
+    };
+  }
+
+  /**
+   * Assemble feedback rows into a tree. Replies whose parent was never ingested
+   * hang off the root, or are returned as detached when the root is missing too.
+   */
+  buildThread(
+    platform: Platform,
+    rootExternalId: string,
+    feedback: FeedbackData[],
+    analyses: AnalysisResult[]
+  ): FeedbackThread {
+    const analysisByFeedback = new Map(analyses.map(analysis => [analysis.feedback_id, analysis]));
+    const nodes = new Map<string, FeedbackThreadNode>();
+
+    feedback.forEach(item => {
+      nodes.set(item.external_id || item.id, {
+        feedback: item,
+        analysis: analysisByFeedback.get(item.id),
+        depth: 0,
+        missingParent: false,
+        children: []
+      });
+    });
+
+    const root = nodes.get(rootExternalId) || null;
+    const detached: FeedbackThreadNode[] = [];
+
+    nodes.forEach(node => {
+      if (node === root) {
+        return;
+      }
+
+      const parent = node.feedback.parent_external_id ? nodes.get(node.feedback.parent_external_id) : undefined;
+      if (parent && parent !== node) {
+        parent.children.push(node);
+        return;
+      }
+
+      node.missingParent = true;
+      if (root) {
+        root.children.push(node);
+      } else {
+        detached.push(node);
+      }
+    });
+
+    const tops = root ? [root] : detached;
+    tops.forEach(node => this.assignDepth(node, root ? 0 : 1, new Set()));
+
+    return {
+      platform,
+      rootExternalId,
+      root,
+      detached: root ? [] : detached,
+      size: nodes.size,
+      aggregate: this.aggregate(root, tops)
+    };
+  }
+
+  /**
+   * Roll a thread up into engagement and emotion totals.
+   * Short replies with no emotion of their own count as echoes of the post they answer.
+   */
+  aggregate(root: FeedbackThreadNode | null, tops: FeedbackThreadNode[]): ThreadAggregate {
+    const participants = new Set<string>();
+    const emotionTotals = new Map<EmotionType, number>();
+    let replyCount = 0;
+    let analyzed = 0;
+    let negative = 0;
+    let likes = 0;
+    let shares = 0;
+
+    const visit = (node: FeedbackThreadNode, parentSignal: NodeSignal | undefined, seen: Set<FeedbackThreadNode>) => {
+      if (seen.has(node)) {
+        return;
+      }
+      seen.add(node);
+
+      const signal = this.getSignal(node, node === root ? undefined : parentSignal);
+      participants.add(node.feedback.author.username);
+      likes += node.feedback.engagement.likes;
+      shares += node.feedback.engagement.shares;
+      if (node !== root) {
+        replyCount++;
+      }
+
+      if (signal.sentiment) {
+        analyzed++;
+        if (signal.sentiment.label === 'negative') {
+          negative++;
+        }
+        signal.emotions.forEach(emotion => {
+          emotionTotals.set(emotion.emotion, (emotionTotals.get(emotion.emotion) || 0) + emotion.confidence);
+        });
+      }
+
+      node.children.forEach(child => visit(child, signal, seen));
+    };
+
+    const seen = new Set<FeedbackThreadNode>();
+    tops.forEach(node => visit(node, undefined, seen));
+
+    const emotions: Emotion[] = Array.from(emotionTotals.entries())
+      .map(([emotion, total]) => ({ emotion, confidence: analyzed > 0 ? total / analyzed : 0 }))
+      .filter(emotion => emotion.confidence > 0)
+      .sort((a, b) => b.confidence - a.confidence);
+
+    return {
+      replyCount,
+      participantCount: participants.size,
+      engagement: {
+        likes,
+        shares,
+        comments: Math.max(root?.feedback.engagement.comments || 0, replyCount)
+      },
+      emotions,
+      negativeShare: analyzed > 0 ? negative / analyzed : 0
+    };
+  }
+
+  /**
+   * The sentiment and emotions a node contributes to its thread
+   */
+  private getSignal(node: FeedbackThreadNode, parentSignal?: NodeSignal): NodeSignal {
+    const own: NodeSignal = {
+      sentiment: node.analysis?.sentiment,
+      emotions: node.analysis?.emotions || []
+    };
+
+    const echoesParent = parentSignal?.sentiment !== undefined &&
+      isShortReply(node.feedback.content) &&
+      (!own.sentiment || own.sentiment.label === 'neutral' || own.emotions.length === 0);
+
+    return echoesParent ? parentSignal! : own;
+  }
+
+  /**
+   * Set node depths below a top-level node, guarding against malformed parent cycles
+   */
+  private assignDepth(node: FeedbackThreadNode, depth: number, seen: Set<FeedbackThreadNode>): void {
+    if (seen.has(node)) {
+      return;
+    }
+    seen.add(node);
+
+    node.depth = depth;
+    node.children.forEach(child => this.assignDepth(child, depth + 1, seen));
+  }
+}
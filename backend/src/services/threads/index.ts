@@ -0,0 +1,8 @@
+/**
+ * Conversation Threads - Main Export
+ *
+ * Rebuilds reply trees for threaded platforms (Reddit, Twitter, Hacker News)
+ * and aggregates replies into the engagement and emotion of the post they answer.
+ */
+
+export { ConversationThreadService, isShortReply } from './ConversationThreadService';
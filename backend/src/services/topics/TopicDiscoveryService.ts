@@ -0,0 +1,386 @@
+import cron from 'node-cron';
+import { randomUUID } from 'crypto';
+import { cache } from '@/utils/database';
+import { REDIS_KEYS } from '@/utils/redis-keys';
+import {
+  Topic,
+  TopicDiscoveryConfig,
+  TopicDocument,
+  TopicHeatmap,
+  TopicRun,
+  TopicRunResult,
+  TopicStatus
+} from '@/types/topics';
+import { TopicRepository, TopicUpdate } from '@/repositories/TopicRepository';
+import { DiscoveredCluster, TopicModel, TopicModelOptions, cosineSimilarity, labelFromKeywords } from './TopicModel';
+
+// Topic heatmaps outlive a missed run or two, then fall away
+const HEATMAP_TTL_SECONDS = 3 * 24 * 60 * 60;
+
+// A topic and the clusters that continue it in this run
+interface MatchedTopic {
+  topic?: Topic; // absent for a topic first seen in this run
+  clusters: DiscoveredCluster[];
+}
+
+/**
+ * Topic Discovery Service
+ *
+ * Clusters recently ingested feedback into topics on a schedule and keeps them stable
+ * across runs: each cluster continues the stored topic whose centroid it most
+ * resembles, following merges, so topic IDs, user-given labels and merges survive
+ * re-clustering. Topics are flagged new, growing, stable, shrinking or dormant by
+ * comparing their size with the previous run, every clustered item gets a topic_id,
+ * and per-topic sentiment and emotion counts are published to the topic heatmap keys.
+ */
+export class TopicDiscoveryService {
+  private config: TopicDiscoveryConfig;
+  private repository: TopicRepository;
+  private task: cron.ScheduledTask | null = null;
+  private isRunning: boolean = false;
+
+  constructor(config: TopicDiscoveryConfig, repository: TopicRepository = new TopicRepository()) {
+    this.config = config;
+    this.repository = repository;
+  }
+
+  /**
+   * Start discovery runs on the configured cron expression
+   */
+  start(): void {
+    if (!this.config.enabled) {
+      console.log('🧭 Topic discovery is disabled');
+      return;
+    }
+
+    if (!cron.validate(this.config.cronExpression)) {
+      throw new Error(`Invalid cron expression: ${this.config.cronExpression}`);
+    }
+
+    this.task = cron.schedule(this.config.cronExpression, () => {
+      this.runOnce().catch(error => {
+        console.error('❌ Topic discovery run failed:', error);
+      });
+    });
+
+    console.log(`🧭 Topic discovery started (${this.config.cronExpression})`);
+  }
+
+  /**
+   * Stop scheduled runs
+   */
+  stop(): void {
+    if (this.task) {
+      this.task.stop();
+      this.task = null;
+      console.log('🧭 Topic discovery stopped');
+    }
+  }
+
+  isRunInProgress(): boolean {
+    return this.isRunning;
+  }
+
+  /**
+   * Cluster the feedback window ending now and store the resulting topics
+   */
+  async runOnce(now: Date = new Date()): Promise<TopicRunResult> {
+    const startTime = Date.now();
+    const result: TopicRunResult = {
+      documentCount: 0,
+      assignedCount: 0,
+      topicCount: 0,
+      newTopics: [],
+      growingTopics: [],
+      dormantTopics: 0,
+      durationMs: 0
+    };
+
+    // Skip overlapping ticks while a slow run is still going
+    if (this.isRunning) {
+      return { ...result, skipped: 'A topic discovery run is already in progress' };
+    }
+    this.isRunning = true;
+    let openRunId: string | null = null;
+
+    try {
+      const windowStart = new Date(now.getTime() - this.config.windowDays * 24 * 60 * 60 * 1000);
+      const documents = await this.repository.findDocuments(windowStart, now, this.config.maxDocuments);
+      result.documentCount = documents.length;
+
+      if (documents.length < this.config.minDocuments) {
+        result.skipped = `Only ${documents.length} feedback items in the last ${this.config.windowDays} days, need ${this.config.minDocuments}`;
+        return result;
+      }
+
+      const run = await this.repository.startRun(windowStart, now, this.getModelParameters());
+      result.runId = run.id;
+      openRunId = run.id;
+
+      const model = this.createModel().fit(documents.map(document => document.content));
+      const existing = await this.repository.findAllTopics();
+      const matched = this.matchClusters(model.clusters, existing);
+
+      const updates: TopicUpdate[] = [];
+      const assignments: Array<{ feedbackId: string; topicId: string }> = [];
+
+      matched.forEach(match => {
+        const update = this.buildTopicUpdate(match, documents);
+        updates.push(update);
+
+        match.clusters.forEach(cluster => {
+          cluster.members.forEach(index => {
+            assignments.push({ feedbackId: documents[index].feedbackId, topicId: update.id });
+          });
+        });
+
+        if (update.status === 'new') {
+          result.newTopics.push(update.label);
+        } else if (update.status === 'growing') {
+          result.growingTopics.push(update.label);
+        }
+      });
+
+      const seen = new Set(updates.map(update => update.id));
+      result.dormantTopics = existing.filter(topic =>
+        !seen.has(topic.id) && topic.status !== 'merged' && topic.status !== 'dormant').length;
+
+      await this.repository.completeRun(run.id, {
+        topics: updates,
+        assignments,
+        unassigned: model.unassigned.map(index => documents[index].feedbackId),
+        documentCount: documents.length,
+        newTopics: result.newTopics.length,
+        growingTopics: result.growingTopics.length
+      });
+      openRunId = null;
+
+      result.assignedCount = assignments.length;
+      result.topicCount = updates.length;
+
+      await this.publishHeatmaps(updates, assignments, documents);
+
+      console.log(`🧭 Topic discovery: ${updates.length} topics over ${documents.length} items ` +
+        `(${result.newTopics.length} new, ${result.growingTopics.length} growing, ${result.dormantTopics} gone dormant)`);
+    } catch (error) {
+      // Close the run row so it doesn't stay open; the error still reaches the caller
+      if (openRunId) {
+        await this.repository.failRun(openRunId, error instanceof Error ? error.message : 'Unknown error')
+          .catch(failError => console.error(`❌ Failed to record topic run ${openRunId} as failed:`, failError));
+      }
+      throw error;
+    } finally {
+      this.isRunning = false;
+      result.durationMs = Date.now() - startTime;
+    }
+
+    return result;
+  }
+
+  async getTopics(statuses?: TopicStatus[]): Promise<Topic[]> {
+    return await this.repository.findTopics(statuses);
+  }
+
+  async getTopic(id: string): Promise<Topic | null> {
+    return await this.repository.findById(id);
+  }
+
+  async getRuns(limit: number = 20): Promise<TopicRun[]> {
+    return await this.repository.findRuns(limit);
+  }
+
+  /**
+   * Rename a topic; runs keep the new label. A null label hands labelling back to the runs.
+   */
+  async rename(id: string, label: string | null): Promise<Topic | null> {
+    return await this.repository.rename(id, label === null ? null : label.trim());
+  }
+
+  /**
+   * Merge a topic into another and return the combined topic
+   */
+  async merge(sourceId: string, targetId: string): Promise<Topic | null> {
+    await this.repository.merge(sourceId, targetId);
+    await cache.del(REDIS_KEYS.HEATMAP_TOPIC(sourceId)).catch(() => undefined);
+
+    return await this.repository.findById(targetId);
+  }
+
+  /**
+   * Pair each cluster with the stored topic it most resembles, resolving merged topics to
+   * their target. Several clusters can continue one topic, so a theme k-means happens to
+   * split this run stays one topic instead of spawning new ones.
+   */
+  private matchClusters(clusters: DiscoveredCluster[], existing: Topic[]): MatchedTopic[] {
+    const topicsById = new Map(existing.map(topic => [topic.id, topic]));
+    const matches = new Map<string, MatchedTopic>();
+    const unmatched: MatchedTopic[] = [];
+
+    clusters.forEach(cluster => {
+      let best: Topic | null = null;
+      let bestSimilarity = this.config.matchThreshold;
+
+      for (const topic of existing) {
+        const similarity = cosineSimilarity(cluster.centroid, topic.centroid);
+        if (similarity >= bestSimilarity) {
+          best = topic;
+          bestSimilarity = similarity;
+        }
+      }
+
+      if (!best) {
+        unmatched.push({ clusters: [cluster] });
+        return;
+      }
+
+      const target = best.mergedInto ? topicsById.get(best.mergedInto) || best : best;
+      const match = matches.get(target.id) || { topic: target, clusters: [] };
+      match.clusters.push(cluster);
+      matches.set(target.id, match);
+    });
+
+    return [...Array.from(matches.values()), ...unmatched];
+  }
+
+  /**
+   * Keywords, centroid, examples, size and status for a topic from its clusters this run
+   */
+  private buildTopicUpdate(match: MatchedTopic, documents: TopicDocument[]): TopicUpdate {
+    const size = match.clusters.reduce((sum, cluster) => sum + cluster.members.length, 0);
+    const centroid = this.combineCentroids(match.clusters);
+    const keywords = Object.entries(centroid)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, this.config.keywordCount)
+      .map(([term, weight]) => ({ term, weight }));
+
+    const examples = match.clusters
+      .flatMap(cluster => cluster.examples)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, this.config.exampleCount)
+      .map(example => ({
+        feedbackId: documents[example.index].feedbackId,
+        content: documents[example.index].content,
+        similarity: Math.round(example.similarity * 1000) / 1000
+      }));
+
+    const previousSize = match.topic ? match.topic.size : 0;
+
+    return {
+      id: match.topic ? match.topic.id : randomUUID(),
+      // The repository also keeps locked labels, in case a rename lands while this run is going
+      label: match.topic?.labelLocked ? match.topic.label : labelFromKeywords(keywords),
+      keywords,
+      centroid,
+      examples,
+      size,
+      previousSize,
+      status: this.classify(match.topic, size)
+    };
+  }
+
+  /**
+   * New on first sight; growing or shrinking when the size moved past the growth
+   * threshold since the previous run, otherwise stable
+   */
+  private classify(topic: Topic | undefined, size: number): TopicStatus {
+    if (!topic) {
+      return 'new';
+    }
+
+    // A dormant topic coming back is measured against its size before it went quiet
+    const previous = topic.status === 'dormant' ? topic.previousSize : topic.size;
+    if (size > previous * (1 + this.config.growthThreshold) && size - previous >= this.config.minClusterSize) {
+      return 'growing';
+    }
+    if (size < previous / (1 + this.config.growthThreshold)) {
+      return 'shrinking';
+    }
+    return 'stable';
+  }
+
+  /**
+   * Size-weighted mean of cluster centroids, trimmed and renormalised
+   */
+  private combineCentroids(clusters: DiscoveredCluster[]): Record<string, number> {
+    if (clusters.length === 1) {
+      return clusters[0].centroid;
+    }
+
+    const combined: Record<string, number> = {};
+    clusters.forEach(cluster => {
+      Object.entries(cluster.centroid).forEach(([term, weight]) => {
+        combined[term] = (combined[term] || 0) + weight * cluster.members.length;
+      });
+    });
+
+    const top = Object.entries(combined)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, this.config.centroidTerms);
+    const norm = Math.sqrt(top.reduce((sum, [, weight]) => sum + weight * weight, 0)) || 1;
+
+    return top.reduce((centroid, [term, weight]) => {
+      centroid[term] = Math.round((weight / norm) * 10000) / 10000;
+      return centroid;
+    }, {} as Record<string, number>);
+  }
+
+  /**
+   * Publish sentiment and emotion counts per topic for the heatmap
+   */
+  private async publishHeatmaps(
+    topics: TopicUpdate[],
+    assignments: Array<{ feedbackId: string; topicId: string }>,
+    documents: TopicDocument[]
+  ): Promise<void> {
+    const documentsById = new Map(documents.map(document => [document.feedbackId, document]));
+    const heatmaps = new Map<string, TopicHeatmap>(topics.map(topic => [topic.id, {
+      topic: topic.id,
+      label: topic.label,
+      emotions: {},
+      sentiment_breakdown: { positive: 0, neutral: 0, negative: 0, total: 0 },
+      total_feedback: 0
+    }]));
+
+    assignments.forEach(({ feedbackId, topicId }) => {
+      const heatmap = heatmaps.get(topicId)!;
+      const document = documentsById.get(feedbackId)!;
+      heatmap.total_feedback++;
+
+      if (document.sentiment) {
+        heatmap.sentiment_breakdown[document.sentiment]++;
+        heatmap.sentiment_breakdown.total++;
+      }
+      (document.emotions || []).forEach(({ emotion }) => {
+        heatmap.emotions[emotion] = (heatmap.emotions[emotion] || 0) + 1;
+      });
+    });
+
+    try {
+      await Promise.all(Array.from(heatmaps.values()).map(heatmap =>
+        cache.set(REDIS_KEYS.HEATMAP_TOPIC(heatmap.topic), heatmap, HEATMAP_TTL_SECONDS)));
+    } catch (error) {
+      console.warn('⚠️ Failed to publish topic heatmaps:', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  private createModel(): TopicModel {
+    return new TopicModel(this.getModelParameters());
+  }
+
+  private getModelParameters(): TopicModelOptions {
+    return {
+      clusters: this.config.clusters,
+      maxClusters: this.config.maxClusters,
+      minClusterSize: this.config.minClusterSize,
+      minDocumentFrequency: this.config.minDocumentFrequency,
+      maxDocumentFrequency: this.config.maxDocumentFrequency,
+      maxFeatures: this.config.maxFeatures,
+      maxIterations: this.config.maxIterations,
+      restarts: this.config.restarts,
+      keywordCount: this.config.keywordCount,
+      exampleCount: this.config.exampleCount,
+      centroidTerms: this.config.centroidTerms,
+      seed: this.config.seed
+    };
+  }
+}
@@ -0,0 +1,498 @@
+import { TopicKeyword } from '@/types/topics';
+
+export interface TopicModelOptions {
+  clusters?: number; // fixed k; chosen from the document count when unset
+  maxClusters: number;
+  minClusterSize: number;
+  minDocumentFrequency: number;
+  maxDocumentFrequency: number; // 0-1
+  maxFeatures: number;
+  maxIterations: number;
+  restarts: number; // k-means runs from different seeds; the most cohesive one is kept
+  keywordCount: number;
+  exampleCount: number;
+  centroidTerms: number; // terms kept in a cluster's stored centroid
+  seed: number;
+}
+
+export interface DiscoveredCluster {
+  members: number[]; // indices into the input texts
+  centroid: Record<string, number>; // top terms, L2-normalised
+  keywords: TopicKeyword[];
+  examples: Array<{ index: number; similarity: number }>;
+  similarities: number[]; // each member's similarity to the centroid, in member order
+  cohesion: number; // mean member similarity
+}
+
+export interface TopicModelResult {
+  clusters: DiscoveredCluster[]; // largest first
+  unassigned: number[]; // texts with no usable terms or in clusters below the minimum size
+  vocabularySize: number;
+  k: number;
+  iterations: number;
+}
+
+interface SparseVector {
+  indices: number[];
+  values: number[];
+}
+
+interface KMeansRun {
+  assignments: number[];
+  centroids: Float64Array[];
+  iterations: number;
+  score: number; // total member similarity to assigned centroids
+}
+
+const STOPWORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'almost', 'also', 'always', 'am', 'an', 'and',
+  'any', 'anyone', 'anything', 'are', 'around', 'as', 'at', 'back', 'be', 'because', 'been', 'before',
+  'being', 'below', 'between', 'both', 'but', 'by', 'can', 'cannot', 'cant', 'could', 'couldnt', 'did',
+  'didnt', 'do', 'does', 'doesnt', 'doing', 'done', 'dont', 'down', 'during', 'each', 'either', 'else',
+  'even', 'ever', 'every', 'everyone', 'everything', 'few', 'for', 'from', 'further', 'get', 'gets',
+  'getting', 'go', 'goes', 'going', 'gone', 'got', 'gotten', 'had', 'has', 'have', 'having', 'he', 'her',
+  'here', 'hers', 'herself', 'him', 'himself', 'his', 'how', 'however', 'i', 'if', 'im', 'in', 'into',
+  'is', 'isnt', 'it', 'its', 'itself', 'ive', 'just', 'know', 'let', 'lets', 'like', 'lot', 'make',
+  'makes', 'many', 'may', 'maybe', 'me', 'might', 'more', 'most', 'much', 'must', 'my', 'myself', 'need',
+  'needs', 'never', 'new', 'no', 'nor', 'not', 'now', 'of', 'off', 'ok', 'okay', 'on', 'once', 'one', 'only',
+  'or', 'other', 'our', 'ours', 'ourselves', 'out', 'over', 'own', 'please', 'pretty', 'quite', 'rather',
+  'really', 'right', 'said', 'same', 'say', 'says', 'see', 'seems', 'she', 'should', 'since', 'so',
+  'some', 'someone', 'something', 'still', 'such', 'sure', 'than', 'thank', 'thanks', 'that', 'thats',
+  'the', 'their', 'theirs', 'them', 'themselves', 'then', 'there', 'theres', 'these', 'they', 'theyre',
+  'thing', 'things', 'think', 'this', 'those', 'though', 'through', 'to', 'today', 'too', 'try', 'trying',
+  'under', 'until', 'up', 'us', 'use', 'used', 'using', 'very', 'want', 'wants', 'was', 'wasnt', 'way',
+  'we', 'well', 'were', 'what', 'whats', 'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'will',
+  'with', 'without', 'wont', 'would', 'wouldnt', 'yeah', 'yes', 'yet', 'you', 'your', 'youre', 'yours',
+  'yourself', 'yourselves',
+  // Opinion words say how people feel, not what about; left in they pull clusters together by tone
+  'amazing', 'awesome', 'awful', 'bad', 'best', 'better', 'excellent', 'fantastic', 'good', 'great',
+  'hate', 'horrible', 'love', 'loved', 'nice', 'terrible', 'worse', 'worst', 'lol', 'omg', 'wtf'
+]);
+
+/**
+ * Content terms of a piece of feedback: lowercased words of three or more letters
+ * without stopwords, plus bigrams of neighbouring content words
+ */
+export function tokenizeForTopics(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+|www\.\S+/g, ' ')
+    .replace(/[@#]\w+/g, match => match.startsWith('#') ? match.slice(1) : ' ')
+    .replace(/&\w+;/g, ' ')
+    .replace(/['’]s\b/g, '')
+    .replace(/['’]/g, '')
+    .match(/[a-z][a-z0-9-]*[a-z0-9]|[a-z]/g) || [];
+
+  const terms: string[] = [];
+  let previous: string | null = null;
+
+  for (const word of words) {
+    if (word.length < 3 || STOPWORDS.has(word)) {
+      previous = null;
+      continue;
+    }
+
+    terms.push(word);
+    if (previous) {
+      terms.push(`${previous} ${word}`);
+    }
+    previous = word;
+  }
+
+  return terms;
+}
+
+/**
+ * Readable label from a topic's top keywords, preferring a phrase over the words it
+ * is made of ("dark mode" rather than "dark, mode")
+ */
+export function labelFromKeywords(keywords: TopicKeyword[], maxTerms: number = 3): string {
+  let chosen: string[] = [];
+
+  for (const { term } of keywords) {
+    const words = term.split(' ');
+    // Already covered by a chosen phrase
+    if (chosen.some(existing => existing.includes(' ') && existing.split(' ').some(word => words.includes(word)))) {
+      continue;
+    }
+
+    const parts = chosen.filter(existing => words.includes(existing));
+    if (parts.length > 0) {
+      const position = chosen.indexOf(parts[0]);
+      chosen = chosen.filter(existing => !parts.includes(existing));
+      chosen.splice(Math.min(position, chosen.length), 0, term);
+    } else if (chosen.length < maxTerms) {
+      chosen.push(term);
+    }
+  }
+
+  return chosen.slice(0, maxTerms).join(', ') || 'Unlabelled topic';
+}
+
+/**
+ * Cosine similarity of two sparse term-weight maps
+ */
+export function cosineSimilarity(a: Record<string, number>, b: Record<string, number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (const [term, weight] of Object.entries(a)) {
+    normA += weight * weight;
+    if (b[term] !== undefined) {
+      dot += weight * b[term];
+    }
+  }
+  for (const weight of Object.values(b)) {
+    normB += weight * weight;
+  }
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Topic Model
+ *
+ * Clusters short texts into topics on the CPU: sublinear TF-IDF vectors over unigrams
+ * and bigrams, then spherical k-means (cosine distance) seeded with k-means++ from a
+ * fixed seed, so the same input always gives the same clusters. Several seedings are
+ * tried and the one with the highest total member similarity wins. Each cluster comes
+ * back with its strongest terms and the members closest to its centre.
+ */
+export class TopicModel {
+  private options: TopicModelOptions;
+
+  constructor(options: TopicModelOptions) {
+    this.options = options;
+  }
+
+  fit(texts: string[]): TopicModelResult {
+    const tokenized = texts.map(text => tokenizeForTopics(text));
+    const vocabulary = this.buildVocabulary(tokenized);
+    const vectors = this.vectorize(tokenized, vocabulary);
+
+    const usable = vectors
+      .map((vector, index) => ({ vector, index }))
+      .filter(({ vector }) => vector.indices.length > 0);
+    const unassigned = vectors
+      .map((vector, index) => ({ vector, index }))
+      .filter(({ vector }) => vector.indices.length === 0)
+      .map(({ index }) => index);
+
+    const k = this.chooseK(usable.length);
+    if (k < 1) {
+      return { clusters: [], unassigned: texts.map((_, index) => index), vocabularySize: vocabulary.terms.length, k: 0, iterations: 0 };
+    }
+
+    const dimensions = vocabulary.terms.length;
+    const random = createRandom(this.options.seed);
+    let best: KMeansRun | null = null;
+    for (let attempt = 0; attempt < Math.max(1, this.options.restarts); attempt++) {
+      const candidate = this.kMeans(usable.map(entry => entry.vector), k, dimensions, random);
+      if (!best || candidate.score > best.score) {
+        best = candidate;
+      }
+    }
+    const { assignments, centroids, iterations } = best!;
+
+    const clusters: DiscoveredCluster[] = [];
+    for (let cluster = 0; cluster < k; cluster++) {
+      const members: Array<{ index: number; similarity: number }> = [];
+      usable.forEach((entry, position) => {
+        if (assignments[position] === cluster) {
+          members.push({
+            index: entry.index,
+            similarity: this.similarity(entry.vector, centroids[cluster])
+          });
+        }
+      });
+
+      if (members.length < this.options.minClusterSize) {
+        unassigned.push(...members.map(member => member.index));
+        continue;
+      }
+
+      clusters.push(this.describeCluster(members, centroids[cluster], vocabulary.terms, tokenized));
+    }
+
+    clusters.sort((a, b) => b.members.length - a.members.length);
+    unassigned.sort((a, b) => a - b);
+
+    return { clusters, unassigned, vocabularySize: dimensions, k, iterations };
+  }
+
+  /**
+   * Terms within the document frequency bounds, most frequent first, capped at maxFeatures
+   */
+  private buildVocabulary(tokenized: string[][]): { terms: string[]; index: Map<string, number>; idf: number[] } {
+    const documentFrequency = new Map<string, number>();
+    tokenized.forEach(terms => {
+      new Set(terms).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+    });
+
+    const total = tokenized.length;
+    const maxFrequency = Math.max(this.options.minDocumentFrequency, Math.floor(total * this.options.maxDocumentFrequency));
+    const terms = Array.from(documentFrequency.entries())
+      .filter(([, frequency]) => frequency >= this.options.minDocumentFrequency && frequency <= maxFrequency)
+      .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+      .slice(0, this.options.maxFeatures)
+      .map(([term]) => term);
+
+    return {
+      terms,
+      index: new Map(terms.map((term, position) => [term, position])),
+      // Smoothed IDF, as if one extra document contained every term
+      idf: terms.map(term => Math.log((1 + total) / (1 + documentFrequency.get(term)!)) + 1)
+    };
+  }
+
+  /**
+   * Sublinear TF-IDF vectors, L2-normalised
+   */
+  private vectorize(
+    tokenized: string[][],
+    vocabulary: { index: Map<string, number>; idf: number[] }
+  ): SparseVector[] {
+    return tokenized.map(terms => {
+      const counts = new Map<number, number>();
+      terms.forEach(term => {
+        const position = vocabulary.index.get(term);
+        if (position !== undefined) {
+          counts.set(position, (counts.get(position) || 0) + 1);
+        }
+      });
+
+      const indices = Array.from(counts.keys()).sort((a, b) => a - b);
+      const values = indices.map(position => (1 + Math.log(counts.get(position)!)) * vocabulary.idf[position]);
+      const norm = Math.sqrt(values.reduce((sum, value) => sum + value * value, 0));
+
+      return { indices, values: values.map(value => value / norm) };
+    });
+  }
+
+  /**
+   * Fixed k when configured, otherwise about sqrt(n / 2), never more clusters than
+   * could each reach the minimum size
+   */
+  private chooseK(documents: number): number {
+    if (documents === 0) {
+      return 0;
+    }
+
+    const fitting = Math.max(1, Math.floor(documents / Math.max(1, this.options.minClusterSize)));
+    const wanted = this.options.clusters || Math.round(Math.sqrt(documents / 2));
+
+    return Math.max(1, Math.min(wanted, this.options.maxClusters, fitting, documents));
+  }
+
+  /**
+   * Spherical k-means: assign by highest cosine similarity, re-centre on the normalised
+   * member mean, and reseed empty clusters with the worst-fitting document
+   */
+  private kMeans(
+    vectors: SparseVector[],
+    k: number,
+    dimensions: number,
+    random: () => number
+  ): KMeansRun {
+    const centroids = this.initializeCentroids(vectors, k, dimensions, random);
+    const assignments = new Array<number>(vectors.length).fill(-1);
+    const similarities = new Array<number>(vectors.length).fill(0);
+    let iterations = 0;
+
+    while (iterations < this.options.maxIterations) {
+      iterations++;
+      let changed = 0;
+
+      vectors.forEach((vector, position) => {
+        let best = 0;
+        let bestSimilarity = -Infinity;
+        for (let cluster = 0; cluster < k; cluster++) {
+          const similarity = this.similarity(vector, centroids[cluster]);
+          if (similarity > bestSimilarity) {
+            best = cluster;
+            bestSimilarity = similarity;
+          }
+        }
+        if (assignments[position] !== best) {
+          assignments[position] = best;
+          changed++;
+        }
+        similarities[position] = bestSimilarity;
+      });
+
+      if (changed === 0) {
+        break;
+      }
+
+      const sizes = new Array<number>(k).fill(0);
+      centroids.forEach(centroid => centroid.fill(0));
+      vectors.forEach((vector, position) => {
+        const centroid = centroids[assignments[position]];
+        sizes[assignments[position]]++;
+        vector.indices.forEach((dimension, i) => {
+          centroid[dimension] += vector.values[i];
+        });
+      });
+
+      for (let cluster = 0; cluster < k; cluster++) {
+        if (sizes[cluster] === 0) {
+          // Take over the document that fits its own cluster worst
+          const worst = similarities.reduce((lowest, similarity, position) =>
+            similarity < similarities[lowest] ? position : lowest, 0);
+          this.setCentroid(centroids[cluster], vectors[worst]);
+          similarities[worst] = 1;
+          continue;
+        }
+        normalize(centroids[cluster]);
+      }
+    }
+
+    // Score against the final centroids, which may have moved since the last assignment pass
+    const score = vectors.reduce((sum, vector, position) =>
+      sum + this.similarity(vector, centroids[assignments[position]]), 0);
+
+    return { assignments, centroids, iterations, score };
+  }
+
+  /**
+   * k-means++ seeding: each next centre is drawn with probability proportional to
+   * the squared cosine distance from the nearest centre chosen so far
+   */
+  private initializeCentroids(
+    vectors: SparseVector[],
+    k: number,
+    dimensions: number,
+    random: () => number
+  ): Float64Array[] {
+    const centroids: Float64Array[] = [];
+    const first = new Float64Array(dimensions);
+    this.setCentroid(first, vectors[Math.floor(random() * vectors.length)]);
+    centroids.push(first);
+
+    const distances = vectors.map(vector => distanceSquared(this.similarity(vector, first)));
+
+    while (centroids.length < k) {
+      const total = distances.reduce((sum, distance) => sum + distance, 0);
+      let chosen = 0;
+
+      if (total > 0) {
+        let target = random() * total;
+        for (let position = 0; position < distances.length; position++) {
+          target -= distances[position];
+          if (target <= 0) {
+            chosen = position;
+            break;
+          }
+        }
+      } else {
+        chosen = Math.floor(random() * vectors.length);
+      }
+
+      const centroid = new Float64Array(dimensions);
+      this.setCentroid(centroid, vectors[chosen]);
+      centroids.push(centroid);
+
+      vectors.forEach((vector, position) => {
+        distances[position] = Math.min(distances[position], distanceSquared(this.similarity(vector, centroid)));
+      });
+    }
+
+    return centroids;
+  }
+
+  /**
+   * Keywords, stored centroid terms and closest examples of a kept cluster
+   */
+  private describeCluster(
+    members: Array<{ index: number; similarity: number }>,
+    centroid: Float64Array,
+    terms: string[],
+    tokenized: string[][]
+  ): DiscoveredCluster {
+    const ranked = Array.from(centroid)
+      .map((weight, dimension) => ({ term: terms[dimension], weight }))
+      .filter(entry => entry.weight > 0)
+      .sort((a, b) => b.weight - a.weight);
+
+    const stored = ranked.slice(0, this.options.centroidTerms);
+    const storedNorm = Math.sqrt(stored.reduce((sum, entry) => sum + entry.weight * entry.weight, 0)) || 1;
+
+    // Near-identical posts shouldn't fill every example slot
+    const seen = new Set<string>();
+    const examples = [...members]
+      .sort((a, b) => b.similarity - a.similarity)
+      .filter(member => {
+        const key = tokenized[member.index].join(' ');
+        if (seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      })
+      .slice(0, this.options.exampleCount);
+
+    return {
+      members: members.map(member => member.index),
+      centroid: stored.reduce((weights, entry) => {
+        weights[entry.term] = round(entry.weight / storedNorm);
+        return weights;
+      }, {} as Record<string, number>),
+      keywords: ranked.slice(0, this.options.keywordCount).map(entry => ({ term: entry.term, weight: round(entry.weight) })),
+      examples,
+      similarities: members.map(member => member.similarity),
+      cohesion: members.reduce((sum, member) => sum + member.similarity, 0) / members.length
+    };
+  }
+
+  private similarity(vector: SparseVector, centroid: Float64Array): number {
+    let dot = 0;
+    for (let i = 0; i < vector.indices.length; i++) {
+      dot += vector.values[i] * centroid[vector.indices[i]];
+    }
+    return dot;
+  }
+
+  private setCentroid(centroid: Float64Array, vector: SparseVector): void {
+    centroid.fill(0);
+    vector.indices.forEach((dimension, i) => {
+      centroid[dimension] = vector.values[i];
+    });
+  }
+}
+
+function normalize(vector: Float64Array): void {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i] * vector[i];
+  }
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] /= norm;
+    }
+  }
+}
+
+function distanceSquared(similarity: number): number {
+  const distance = Math.max(0, 1 - similarity);
+  return distance * distance;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Seeded PRNG (mulberry32) so clustering is repeatable between runs on the same data
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Topic Discovery - Main Export
+ *
+ * Unsupervised topics over recent feedback: TF-IDF and k-means clustering on a
+ * schedule, with topics carried across runs, growth tracking, and labels and
+ * merges from users that later runs respect.
+ */
+
+import { TopicDiscoveryConfig } from '@/types/topics';
+import { TopicDiscoveryService } from './TopicDiscoveryService';
+
+export { TopicDiscoveryService } from './TopicDiscoveryService';
+export {
+  TopicModel,
+  TopicModelOptions,
+  TopicModelResult,
+  DiscoveredCluster,
+  tokenizeForTopics,
+  labelFromKeywords,
+  cosineSimilarity
+} from './TopicModel';
+
+/**
+ * Default topic discovery configuration: nightly over the last two weeks of feedback
+ */
+export const DEFAULT_TOPIC_DISCOVERY_CONFIG: TopicDiscoveryConfig = {
+  enabled: process.env.TOPIC_DISCOVERY_ENABLED !== 'false',
+  cronExpression: process.env.TOPIC_DISCOVERY_CRON || '0 3 * * *',
+  windowDays: parseInt(process.env.TOPIC_DISCOVERY_WINDOW_DAYS || '14', 10),
+  maxDocuments: parseInt(process.env.TOPIC_DISCOVERY_MAX_DOCUMENTS || '5000', 10),
+  minDocuments: 20,
+  clusters: process.env.TOPIC_DISCOVERY_CLUSTERS ? parseInt(process.env.TOPIC_DISCOVERY_CLUSTERS, 10) : undefined,
+  maxClusters: 30,
+  minClusterSize: 5,
+  minDocumentFrequency: 2,
+  maxDocumentFrequency: 0.5,
+  maxFeatures: 3000,
+  maxIterations: 30,
+  restarts: 3,
+  matchThreshold: 0.3,
+  growthThreshold: 0.25,
+  keywordCount: 8,
+  exampleCount: 3,
+  centroidTerms: 50,
+  seed: 42
+};
+
+let topicDiscoveryService: TopicDiscoveryService | null = null;
+
+/**
+ * Shared topic discovery service; the server starts its schedule
+ */
+export function getTopicDiscoveryService(): TopicDiscoveryService {
+  if (!topicDiscoveryService) {
+    topicDiscoveryService = new TopicDiscoveryService(DEFAULT_TOPIC_DISCOVERY_CONFIG);
+  }
+  return topicDiscoveryService;
+}
@@ -1,9 +1,13 @@
 import { ViralityPredictionService, ViralityPrediction } from './ViralityPredictionService';
 import { NLPAnalysisService } from '../nlp/NLPAnalysisService';
-import { FeedbackData, AnalysisResult, ViralityFactors, EmotionType } from '@/types/feedback';
+import { ConversationThreadService } from '../threads/ConversationThreadService';
+import { FeedbackData, AnalysisResult, ViralityFactors, EmotionType, Emotion, Sentiment } from '@/types/feedback';
 import { AnalysisRepository } from '@/repositories/AnalysisRepository';
 import { FeedbackRepository } from '@/repositories/FeedbackRepository';
 import { AlertRepository } from '@/repositories/AlertRepository';
+import { EngagementSnapshotRepository } from '@/repositories/EngagementSnapshotRepository';
+import { AuthorRegistry } from '../authors/AuthorRegistry';
+import { AuthorHistory } from '@/types/authors';
 
 export interface ViralityAnalysisResult {
   feedbackId: string;
@@ -21,25 +25,37 @@ export interface ViralityBatchResult {
   errors: Array<{ feedbackId: string; error: string }>;
 }
 
+// How far back engagement snapshots are loaded for velocity
+const ENGAGEMENT_HISTORY_MS = 24 * 60 * 60 * 1000;
+
 export class ViralityAnalysisService {
   private viralityService: ViralityPredictionService;
   private nlpService: NLPAnalysisService;
   private analysisRepo: AnalysisRepository;
   private feedbackRepo: FeedbackRepository;
   private alertRepo: AlertRepository;
+  private threadService: ConversationThreadService;
+  private snapshotRepo: EngagementSnapshotRepository;
+  private authorRegistry: AuthorRegistry;
 
   constructor(
     viralityService: ViralityPredictionService,
     nlpService: NLPAnalysisService,
     analysisRepo: AnalysisRepository,
     feedbackRepo: FeedbackRepository,
-    alertRepo: AlertRepository
+    alertRepo: AlertRepository,
+    threadService: ConversationThreadService = new ConversationThreadService(feedbackRepo, analysisRepo),
+    snapshotRepo: EngagementSnapshotRepository = new EngagementSnapshotRepository(),
+    authorRegistry: AuthorRegistry = new AuthorRegistry()
   ) {
     this.viralityService = viralityService;
     this.nlpService = nlpService;
     this.analysisRepo = analysisRepo;
     this.feedbackRepo = feedbackRepo;
     this.alertRepo = alertRepo;
+    this.threadService = threadService;
+    this.snapshotRepo = snapshotRepo;
+    this.authorRegistry = authorRegistry;
   }
 
   /**
@@ -60,10 +76,12 @@ export class ViralityAnalysisService {
       
       // If no analysis exists, run NLP analysis first
       if (!analysis) {
+        const context = await this.threadService.getContext(feedback);
         const nlpResult = await this.nlpService.analyzeFeedback({
           id: feedbackId,
           text: feedback.content,
-          platform: feedback.platform
+          platform: feedback.platform,
+          context: context.parent?.content
         });
 
         // Store NLP analysis results
@@ -78,6 +96,7 @@ export class ViralityAnalysisService {
             userInfluence: 0
           },
           risk_level: 'low',
+          aspects: nlpResult.aspects || [],
           processed_at: new Date()
         });
       }
@@ -99,7 +118,9 @@ export class ViralityAnalysisService {
           scores: {} as Record<EmotionType, number>,
           processingTime: 0,
           modelUsed: 'stored'
-        }
+        },
+        await this.getEngagementHistory(feedbackId),
+        await this.getAuthorHistory(feedback)
       );
 
       // Update analysis with virality results
@@ -115,8 +136,26 @@ export class ViralityAnalysisService {
         alertCreated = await this.createViralityAlert(feedback, prediction);
       }
 
+      // Replies feed into the root post's score; a root with replies is scored as a thread
+      let threadResult: ViralityAnalysisResult | null = null;
+      if (feedback.root_external_id || feedback.engagement.comments > 0) {
+        try {
+          threadResult = await this.rescoreThreadRoot(feedback);
+        } catch (error) {
+          console.warn(`⚠️ Thread re-scoring failed for feedback ${feedbackId}:`, error);
+        }
+      }
+
       const processingTime = Date.now() - startTime;
 
+      if (threadResult && threadResult.feedbackId === feedbackId) {
+        return {
+          ...threadResult,
+          alertCreated: alertCreated || threadResult.alertCreated,
+          processingTime
+        };
+      }
+
       return {
         feedbackId,
         prediction,
@@ -249,7 +288,9 @@ export class ViralityAnalysisService {
           scores: {} as Record<EmotionType, number>,
           processingTime: 0,
           modelUsed: 'stored'
-        }
+        },
+        await this.getEngagementHistory(feedbackId),
+        await this.getAuthorHistory(feedback)
       );
 
       // Update analysis with new virality results
@@ -260,21 +301,7 @@ export class ViralityAnalysisService {
       });
 
       // Check if we need to create/update alerts
-      let alertCreated = false;
-      const existingAlert = await this.alertRepo.findByFeedbackId(feedbackId);
-      
-      if (prediction.riskLevel === 'high' || prediction.riskLevel === 'viral-threat') {
-        if (!existingAlert) {
-          alertCreated = await this.createViralityAlert(feedback, prediction);
-        } else if (existingAlert.severity !== this.mapRiskToSeverity(prediction.riskLevel)) {
-          // Update existing alert severity
-          await this.alertRepo.update(existingAlert.id, {
-            severity: this.mapRiskToSeverity(prediction.riskLevel),
-            message: this.generateAlertMessage(feedback, prediction)
-          } as any);
-          alertCreated = true;
-        }
-      }
+      const alertCreated = await this.syncViralityAlert(feedback, prediction);
 
       const processingTime = Date.now() - startTime;
 
@@ -293,6 +320,46 @@ export class ViralityAnalysisService {
     }
   }
 
+  /**
+   * Re-score the root post of a feedback item's thread, counting replies' engagement
+   * and emotions (short "same here" replies echo the post they answer)
+   */
+  async rescoreThreadRoot(feedback: FeedbackData): Promise<ViralityAnalysisResult | null> {
+    const startTime = Date.now();
+    const thread = await this.threadService.getThreadForFeedback(feedback);
+    if (!thread?.root?.analysis || thread.aggregate.replyCount === 0) {
+      return null;
+    }
+
+    const root = thread.root.feedback;
+    const { aggregate } = thread;
+    const prediction = await this.viralityService.predictVirality(
+      { ...root, engagement: aggregate.engagement },
+      this.toStoredSentiment(thread.root.analysis.sentiment),
+      this.toStoredEmotions(aggregate.emotions.length > 0 ? aggregate.emotions : thread.root.analysis.emotions),
+      [],
+      await this.getAuthorHistory(root)
+    );
+
+    const updatedAnalysis = await this.analysisRepo.update(thread.root.analysis.id, {
+      virality_score: prediction.score,
+      virality_factors: { ...prediction.factors, threadReplies: aggregate.replyCount },
+      risk_level: prediction.riskLevel
+    });
+
+    const alertCreated = await this.syncViralityAlert(root, prediction);
+
+    console.log(`🧵 Re-scored ${root.platform} thread ${thread.rootExternalId} with ${aggregate.replyCount} replies: ${prediction.riskLevel}`);
+
+    return {
+      feedbackId: root.id,
+      prediction,
+      analysisId: updatedAnalysis?.id,
+      alertCreated,
+      processingTime: Date.now() - startTime
+    };
+  }
+
   /**
    * Get virality statistics for a time period
    */
@@ -357,6 +424,77 @@ export class ViralityAnalysisService {
     };
   }
 
+  /**
+   * Load recent engagement snapshots for velocity
+   */
+  private async getEngagementHistory(feedbackId: string) {
+    return await this.snapshotRepo.findHistory(feedbackId, new Date(Date.now() - ENGAGEMENT_HISTORY_MS));
+  }
+
+  /**
+   * Load the author's history for influence. Scoring goes ahead without it if it cannot be loaded.
+   */
+  private async getAuthorHistory(feedback: FeedbackData): Promise<AuthorHistory | null> {
+    try {
+      return await this.authorRegistry.getHistoryForFeedback(feedback);
+    } catch (error) {
+      console.warn(`⚠️ Author history unavailable for feedback ${feedback.id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Create an alert for high-risk feedback, or bring an existing alert's severity up to date
+   */
+  private async syncViralityAlert(feedback: FeedbackData, prediction: ViralityPrediction): Promise<boolean> {
+    if (prediction.riskLevel !== 'high' && prediction.riskLevel !== 'viral-threat') {
+      return false;
+    }
+
+    const existingAlert = await this.alertRepo.findByFeedbackId(feedback.id);
+    if (!existingAlert) {
+      return await this.createViralityAlert(feedback, prediction);
+    }
+
+    if (existingAlert.severity !== this.mapRiskToSeverity(prediction.riskLevel)) {
+      // Update existing alert severity
+      await this.alertRepo.update(existingAlert.id, {
+        severity: this.mapRiskToSeverity(prediction.riskLevel),
+        message: this.generateAlertMessage(feedback, prediction)
+      } as any);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Wrap a stored sentiment in the shape the prediction service expects
+   */
+  private toStoredSentiment(sentiment: Sentiment) {
+    return {
+      sentiment,
+      confidence: sentiment.confidence,
+      scores: { positive: 0, neutral: 0, negative: 0 },
+      processingTime: 0,
+      modelUsed: 'stored'
+    };
+  }
+
+  /**
+   * Wrap stored emotions in the shape the prediction service expects
+   */
+  private toStoredEmotions(emotions: Emotion[]) {
+    return {
+      emotions,
+      primaryEmotion: emotions[0]?.emotion || 'neutral' as EmotionType,
+      confidence: emotions[0]?.confidence || 0,
+      scores: {} as Record<EmotionType, number>,
+      processingTime: 0,
+      modelUsed: 'stored'
+    };
+  }
+
   /**
    * Create virality alert
    */
@@ -365,7 +365,12 @@ export class ViralityConfigManager {
         twitter: 1.2,
         reddit: 1.0,
         trustpilot: 0.8,
-        appstore: 0.9
+        appstore: 0.9,
+        googleplay: 0.9,
+        hackernews: 1.1,
+        rss: 0.7,
+        import: 0.5,
+        webhook: 0.6
       },
       emotionWeights: {
         anger: 0.9,
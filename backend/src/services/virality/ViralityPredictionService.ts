@@ -1,5 +1,9 @@
-import { FeedbackData, AnalysisResult, ViralityFactors, RiskLevel, Sentiment, Emotion } from '@/types/feedback';
+import { FeedbackData, AnalysisResult, ViralityFactors, RiskLevel, Sentiment, Emotion, EngagementSnapshot, FeedbackEngagement } from '@/types/feedback';
 import { EmotionAnalysisResult, SentimentAnalysisResult } from '@/types/nlp';
+import { AuthorHistory } from '@/types/authors';
+
+// Velocity compares the latest snapshot with the oldest one inside this window
+const VELOCITY_WINDOW_MS = 6 * 60 * 60 * 1000;
 
 export interface ViralityFeatures {
   toneSeverity: number;
@@ -39,6 +43,11 @@ export interface ViralityConfig {
     reddit: number;
     trustpilot: number;
     appstore: number;
+    googleplay: number;
+    hackernews: number;
+    rss: number;
+    import: number;
+    webhook: number;
   };
   emotionWeights: {
     [key: string]: number;
@@ -68,7 +77,12 @@ export class ViralityPredictionService {
         twitter: 1.2,
         reddit: 1.0,
         trustpilot: 0.8,
-        appstore: 0.9
+        appstore: 0.9,
+        googleplay: 0.9,
+        hackernews: 1.1,
+        rss: 0.7,
+        import: 0.5,
+        webhook: 0.6
       },
       emotionWeights: {
         anger: 0.9,
@@ -88,15 +102,19 @@ export class ViralityPredictionService {
   }
 
   /**
-   * Predict virality for feedback with analysis results
+   * Predict virality for feedback with analysis results.
+   * Engagement snapshots, when given, turn velocity into a measured rate of change.
+   * Author history, when given, raises influence for past viral posters and repeat complainers.
    */
   async predictVirality(
     feedback: FeedbackData,
     sentimentResult: SentimentAnalysisResult,
-    emotionResult: EmotionAnalysisResult
+    emotionResult: EmotionAnalysisResult,
+    engagementHistory: EngagementSnapshot[] = [],
+    authorHistory: AuthorHistory | null = null
   ): Promise<ViralityPrediction> {
     // Extract features
-    const features = this.extractFeatures(feedback, sentimentResult, emotionResult);
+    const features = this.extractFeatures(feedback, sentimentResult, emotionResult, engagementHistory, authorHistory);
     
     // Calculate weighted score
     const score = this.calculateViralityScore(features);
@@ -115,7 +133,7 @@ export class ViralityPredictionService {
     const confidence = this.calculateConfidence(feedback, sentimentResult, emotionResult);
     
     // Generate reasoning
-    const reasoning = this.generateReasoning(features, score, riskLevel);
+    const reasoning = this.generateReasoning(features, score, riskLevel, authorHistory);
 
     return {
       score,
@@ -133,12 +151,14 @@ export class ViralityPredictionService {
   private extractFeatures(
     feedback: FeedbackData,
     sentimentResult: SentimentAnalysisResult,
-    emotionResult: EmotionAnalysisResult
+    emotionResult: EmotionAnalysisResult,
+    engagementHistory: EngagementSnapshot[],
+    authorHistory: AuthorHistory | null
   ): ViralityFeatures {
     return {
       toneSeverity: this.calculateToneSeverity(sentimentResult, emotionResult),
-      engagementVelocity: this.calculateEngagementVelocity(feedback),
-      userInfluence: this.calculateUserInfluence(feedback),
+      engagementVelocity: this.calculateEngagementVelocity(feedback, engagementHistory),
+      userInfluence: this.calculateUserInfluence(feedback, authorHistory),
       contentLength: this.calculateContentLengthFactor(feedback),
       platformMultiplier: this.getPlatformMultiplier(feedback.platform),
       timeDecay: this.calculateTimeDecay(feedback)
@@ -182,19 +202,31 @@ export class ViralityPredictionService {
   }
 
   /**
-   * Calculate engagement velocity (engagement per time unit)
+   * Calculate engagement velocity (engagement per time unit).
+   * With two or more snapshots this is the recent delta; otherwise the lifetime average.
    */
-  private calculateEngagementVelocity(feedback: FeedbackData): number {
-    const now = new Date();
-    const postedAt = feedback.posted_at || feedback.ingested_at;
-    const hoursElapsed = Math.max((now.getTime() - postedAt.getTime()) / (1000 * 60 * 60), 0.1);
-
-    const totalEngagement = 
-      feedback.engagement.likes + 
-      feedback.engagement.shares * 2 + // Shares are more valuable
-      feedback.engagement.comments * 1.5; // Comments show deeper engagement
-
-    const velocity = totalEngagement / hoursElapsed;
+  private calculateEngagementVelocity(feedback: FeedbackData, engagementHistory: EngagementSnapshot[] = []): number {
+    let velocity: number;
+
+    if (engagementHistory.length >= 2) {
+      const snapshots = [...engagementHistory].sort(
+        (a, b) => new Date(a.captured_at).getTime() - new Date(b.captured_at).getTime()
+      );
+      const latest = snapshots[snapshots.length - 1];
+      const latestAt = new Date(latest.captured_at).getTime();
+      const baseline = snapshots.find(snapshot =>
+        snapshot !== latest && latestAt - new Date(snapshot.captured_at).getTime() <= VELOCITY_WINDOW_MS
+      ) || snapshots[snapshots.length - 2];
+
+      const hoursElapsed = Math.max((latestAt - new Date(baseline.captured_at).getTime()) / (1000 * 60 * 60), 0.1);
+      const delta = Math.max(this.weightEngagement(latest) - this.weightEngagement(baseline), 0);
+      velocity = delta / hoursElapsed;
+    } else {
+      const now = new Date();
+      const postedAt = feedback.posted_at || feedback.ingested_at;
+      const hoursElapsed = Math.max((now.getTime() - postedAt.getTime()) / (1000 * 60 * 60), 0.1);
+      velocity = this.weightEngagement(feedback.engagement) / hoursElapsed;
+    }
 
     // Normalize velocity (log scale to handle wide ranges)
     const normalizedVelocity = Math.log10(velocity + 1) / Math.log10(1000); // Max expected ~1000 eng/hour
@@ -202,10 +234,19 @@ export class ViralityPredictionService {
     return Math.min(normalizedVelocity, 1.0);
   }
 
+  /**
+   * Weighted engagement total
+   */
+  private weightEngagement(engagement: FeedbackEngagement): number {
+    return engagement.likes +
+      engagement.shares * 2 + // Shares are more valuable
+      engagement.comments * 1.5; // Comments show deeper engagement
+  }
+
   /**
    * Calculate user influence score
    */
-  private calculateUserInfluence(feedback: FeedbackData): number {
+  private calculateUserInfluence(feedback: FeedbackData, authorHistory: AuthorHistory | null = null): number {
     let influence = 0;
 
     // Follower count influence (log scale)
@@ -219,6 +260,16 @@ export class ViralityPredictionService {
       influence += 0.3;
     }
 
+    // Authors whose posts went viral before can reach that audience again
+    if (authorHistory?.pastViralPoster) {
+      influence += Math.min(authorHistory.viralCount, 3) * 0.1;
+    }
+
+    // Repeat complainers' followers have already seen the earlier complaints
+    if (authorHistory?.repeatComplainer) {
+      influence += 0.1;
+    }
+
     // Platform-specific adjustments
     switch (feedback.platform) {
       case 'twitter':
@@ -231,8 +282,21 @@ export class ViralityPredictionService {
         influence *= 0.9; // Reviews carry weight but less viral
         break;
       case 'appstore':
+      case 'googleplay':
         influence *= 0.7; // App store reviews are more contained
         break;
+      case 'hackernews':
+        influence *= 1.0; // Front-page threads reach a concentrated developer audience
+        break;
+      case 'rss':
+        influence *= 0.8; // Blog posts spread slowly but persist in search
+        break;
+      case 'import':
+        influence *= 0.5; // Imported surveys and tickets are private
+        break;
+      case 'webhook':
+        influence *= 0.5; // Forms, chat widgets and helpdesks are private channels
+        break;
     }
 
     return Math.min(influence, 1.0);
@@ -357,7 +421,8 @@ export class ViralityPredictionService {
   private generateReasoning(
     features: ViralityFeatures,
     score: number,
-    riskLevel: RiskLevel
+    riskLevel: RiskLevel,
+    authorHistory: AuthorHistory | null = null
   ): string[] {
     const reasoning: string[] = [];
 
@@ -391,6 +456,13 @@ export class ViralityPredictionService {
       reasoning.push('Low user influence - author has limited reach');
     }
 
+    if (authorHistory?.pastViralPoster) {
+      reasoning.push(`Past viral poster - ${authorHistory.viralCount} earlier post(s) by this author went viral`);
+    }
+    if (authorHistory?.repeatComplainer) {
+      reasoning.push(`Repeat complainer - ${authorHistory.negativeCount} earlier negative posts by this author`);
+    }
+
     // Time factor
     if (features.timeDecay < 0.5) {
       reasoning.push('Content is aging - virality window is closing');
@@ -0,0 +1,47 @@
+import { Platform } from './feedback';
+
+export interface AuthorProfile {
+  id: string;
+  platform: Platform;
+  platformUserId: string;
+  username: string;
+  followerCount?: number;
+  verified: boolean;
+  identityId?: string; // shared by accounts linked as the same person
+  feedbackCount: number;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+}
+
+export interface AuthorFollowerPoint {
+  followerCount?: number;
+  verified: boolean;
+  recordedAt: Date;
+}
+
+export interface AuthorSentimentPoint {
+  period: Date; // start of the week
+  feedbackCount: number;
+  positive: number;
+  neutral: number;
+  negative: number;
+  averageSentiment: number; // -1 (all negative) to 1 (all positive), over analyzed feedback
+}
+
+export interface AuthorHistory {
+  author: AuthorProfile;
+  linkedAuthors: AuthorProfile[];
+  feedbackCount: number; // across linked accounts, within the lookback window
+  negativeCount: number;
+  viralCount: number;
+  followerHistory: AuthorFollowerPoint[];
+  sentimentTrajectory: AuthorSentimentPoint[];
+  repeatComplainer: boolean;
+  pastViralPoster: boolean;
+}
+
+export interface AuthorHistoryConfig {
+  lookbackDays: number;
+  repeatComplaintThreshold: number; // negative posts within the lookback window
+  viralScoreThreshold: number; // virality score counting a post as viral
+}
@@ -1,6 +1,6 @@
 import { ResponseData, ResponseDraft } from "./response";
 
-export type Platform = 'twitter' | 'reddit' | 'trustpilot' | 'appstore';
+export type Platform = 'twitter' | 'reddit' | 'trustpilot' | 'appstore' | 'googleplay' | 'hackernews' | 'rss' | 'import' | 'webhook';
 
 export type SentimentLabel = 'positive' | 'neutral' | 'negative';
 
@@ -13,9 +13,12 @@ export type ResponseStatus = 'draft' | 'approved' | 'sent' | 'failed';
 export type AlertSeverity = 'mild' | 'risky' | 'viral-threat';
 
 export interface FeedbackAuthor {
+  id?: string; // platform user ID; not stored, keys the authors registry
   username: string;
   followerCount?: number;
   verified?: boolean;
+  followingCount?: number; // not stored; used by ingestion-time bot filtering
+  accountCreatedAt?: Date; // not stored; used by ingestion-time bot filtering
 }
 
 export interface FeedbackEngagement {
@@ -37,11 +40,26 @@ export interface FeedbackMetadata {
   [key: string]: any;
 }
 
+export interface EngagementSnapshot {
+  id: string;
+  feedback_id: string;
+  likes: number;
+  shares: number;
+  comments: number;
+  captured_at: Date;
+}
+
 export interface FeedbackData {
   id: string;
   platform: Platform;
   external_id?: string;
-  content: string;
+  parent_external_id?: string;
+  root_external_id?: string;
+  content: string; // PII redacted
+  content_encrypted?: string; // original content, when it contained PII and encryption is configured
+  pii_types?: string[];
+  author_id?: string; // authors registry entry
+  topic_id?: string; // discovered topic, assigned by the last topic run that saw the item
   author: FeedbackAuthor;
   engagement: FeedbackEngagement;
   posted_at?: Date;
@@ -63,6 +81,7 @@ export interface ViralityFactors {
   toneSeverity: number;
   engagementVelocity: number;
   userInfluence: number;
+  threadReplies?: number;
 }
 
 export interface AnalysisResult {
@@ -73,9 +92,22 @@ export interface AnalysisResult {
   virality_score: number;
   virality_factors: ViralityFactors;
   risk_level: RiskLevel;
+  aspects?: AspectSentiment[];
   processed_at: Date;
 }
 
+// Product aspects ("checkout", "pricing") scored separately within one piece of feedback
+export type AspectSource = 'dictionary' | 'noun_phrase';
+
+export interface AspectSentiment {
+  aspect: string; // canonical name, e.g. 'checkout'
+  source: AspectSource;
+  mentions: string[]; // surface forms found in the text
+  snippet: string; // the clauses the aspect was scored on
+  sentiment: Sentiment;
+  emotions: Emotion[];
+}
+
 // ResponseDraft moved to @/types/response.ts to avoid conflicts
 
 // ResponseData moved to @/types/response.ts to avoid conflicts
@@ -99,6 +131,37 @@ export interface FeedbackWithAnalysis extends FeedbackData {
   alert?: AlertData;
 }
 
+// Conversation threads rebuilt from parent/root external IDs
+export interface FeedbackThreadNode {
+  feedback: FeedbackData;
+  analysis?: AnalysisResult;
+  depth: number;
+  missingParent: boolean;
+  children: FeedbackThreadNode[];
+}
+
+export interface ThreadAggregate {
+  replyCount: number;
+  participantCount: number;
+  engagement: FeedbackEngagement;
+  emotions: Emotion[];
+  negativeShare: number;
+}
+
+export interface FeedbackThread {
+  platform: Platform;
+  rootExternalId: string;
+  root: FeedbackThreadNode | null;
+  detached: FeedbackThreadNode[];
+  size: number;
+  aggregate: ThreadAggregate;
+}
+
+export interface ThreadContext {
+  root?: FeedbackData;
+  parent?: FeedbackData;
+}
+
 export interface AnalysisRequest {
   text: string;
   platform?: Platform;
@@ -131,6 +194,16 @@ export interface PlatformStats {
   count: number;
   sentiment_breakdown: SentimentStats;
   avg_virality_score: number;
+  aspect_breakdown?: AspectStats[];
+}
+
+export interface AspectStats {
+  aspect: string;
+  source: AspectSource; // noun-phrase aspects are free text and only listed once they recur
+  count: number;
+  sentiment_breakdown: SentimentStats;
+  negative_share: number;
+  emotions: EmotionStats;
 }
 
 export interface TimeSeriesData {
@@ -14,6 +14,7 @@ export interface IngestionConfig {
     requestsPerMinute: number;
     requestsPerHour: number;
     requestsPerDay: number;
+    maxWaitMs?: number; // longest a request blocks for budget before the job is rescheduled
   };
   retryConfig: {
     maxRetries: number;
@@ -28,7 +29,7 @@ export interface IngestionConfig {
 export interface IngestionJob {
   id: string;
   platform: Platform;
-  type: 'search' | 'stream' | 'user_timeline' | 'mentions';
+  type: 'search' | 'stream' | 'user_timeline' | 'mentions' | 'import' | 'webhook' | 'engagement_refresh' | 'reingest' | 'backfill';
   query?: string;
   userId?: string;
   hashtags?: string[];
@@ -36,6 +37,16 @@ export interface IngestionJob {
   since?: Date;
   until?: Date;
   maxResults?: number;
+  scheduleId?: string;
+  sinceId?: string;
+  cursor?: string;
+  importSource?: FileImportSource;
+  webhookDelivery?: WebhookDelivery;
+  externalIds?: string[];
+  reingestJobId?: string; // archived job whose payloads a reingest job replays
+  backfill?: BackfillSpec; // how a backfill job splits its date range
+  backfillId?: string; // backfill a window job belongs to
+  backfillWindow?: number; // index of the window within its backfill
   status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
   createdAt: Date;
   startedAt?: Date;
@@ -43,7 +54,7 @@ export interface IngestionJob {
   error?: string;
   progress: {
     processed: number;
-    total?: number;
+    total?: number; // percent complete for backfill jobs
     lastProcessedId?: string;
   };
 }
@@ -53,14 +64,37 @@ export interface IngestionResult {
   platform: Platform;
   itemsProcessed: number;
   itemsSkipped: number;
+  itemsCreated?: number;
+  itemsUpdated?: number;
+  itemsQuarantined?: number;
+  cancelled?: boolean; // stopped early through cancelJob, keeping what was processed
   errors: IngestionError[];
   nextCursor?: string;
+  highWater?: {
+    postedAt: Date;
+    externalId: string;
+  };
   rateLimit?: {
     remaining: number;
     resetAt: Date;
+    windows?: RateLimitWindows;
   };
 }
 
+export interface RateLimitWindows {
+  minute: number;
+  hour: number;
+  day: number;
+}
+
+export interface RateLimitStatus {
+  allowed: boolean;
+  waitMs: number;
+  remaining: number;
+  resetAt: Date;
+  windows: RateLimitWindows;
+}
+
 export interface IngestionError {
   type: 'api_error' | 'rate_limit' | 'validation_error' | 'network_error' | 'auth_error';
   message: string;
@@ -70,15 +104,165 @@ export interface IngestionError {
   context?: any;
 }
 
+export type DeadLetterStatus = 'failed' | 'parked' | 'retried';
+
+/**
+ * An ingestion job that exhausted its attempts, with every error it hit.
+ * Auth failures are parked until the platform's credentials change.
+ */
+export interface DeadLetterEntry {
+  id: string;
+  jobId: string;
+  platform: Platform;
+  jobType: IngestionJob['type'];
+  job: IngestionJob;
+  errors: IngestionError[];
+  errorType: IngestionError['type'];
+  attempts: number;
+  status: DeadLetterStatus;
+  credentialFingerprint?: string;
+  retryJobId?: string;
+  failedAt: Date;
+  retriedAt?: Date;
+}
+
+export interface DeadLetterFilters {
+  ids?: string[];
+  platform?: Platform;
+  errorType?: IngestionError['type'];
+  status?: DeadLetterStatus | DeadLetterStatus[];
+  before?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface DeadLetterRetryResult {
+  requeued: Array<{ id: string; jobId: string }>;
+  skipped: Array<{ id: string; reason: string }>;
+  remaining: number; // matching entries left untouched because of the limit
+}
+
+export interface ContentFilterConfig {
+  enabled: boolean;
+  quarantineThreshold: number; // combined reason weight at which an item is quarantined
+  minAccountAgeDays: number;
+  minFollowerRatio: number; // followers per account followed
+  minFollowingForRatio: number; // the ratio is only judged for accounts following at least this many
+  burstWindowMs: number;
+  burstMaxPosts: number; // posts by one author within the burst window, either side of an item
+  duplicateWindowMs: number; // how long items are remembered for near-duplicate matching
+  duplicateSimilarity: number; // estimated Jaccard similarity of word shingles
+  minDuplicateTokens: number; // shorter texts are too generic to compare
+}
+
+export type FilterReasonCode =
+  | 'spam_text'
+  | 'excessive_repetition'
+  | 'new_account'
+  | 'low_follower_ratio'
+  | 'posting_burst'
+  | 'near_duplicate';
+
+export interface FilterReason {
+  code: FilterReasonCode;
+  weight: number;
+  detail: string;
+}
+
+export interface FilterVerdict {
+  quarantine: boolean;
+  score: number;
+  reasons: FilterReason[];
+  duplicateOf?: string; // `<platform>:<external id>` of the earlier near-duplicate
+}
+
+export type QuarantineStatus = 'quarantined' | 'released';
+
+/**
+ * A new item held back by the content filter until a reviewer releases it
+ */
+export interface QuarantinedItem {
+  id: string;
+  platform: Platform;
+  externalId?: string;
+  item: FeedbackData;
+  score: number;
+  reasons: FilterReason[];
+  duplicateOf?: string;
+  status: QuarantineStatus;
+  jobId?: string;
+  feedbackId?: string; // set once released
+  releasedBy?: string;
+  quarantinedAt: Date;
+  releasedAt?: Date;
+}
+
+export interface QuarantineFilters {
+  ids?: string[];
+  platform?: Platform;
+  reason?: FilterReasonCode;
+  status?: QuarantineStatus;
+  limit?: number;
+  offset?: number;
+}
+
+export interface QuarantineReleaseResult {
+  released: Array<{ id: string; feedbackId: string }>;
+  skipped: Array<{ id: string; reason: string }>;
+}
+
+export interface BackfillSpec {
+  jobType: 'search' | 'user_timeline' | 'mentions';
+  windowMs: number;
+}
+
+export type BackfillWindowStatus = 'pending' | 'queued' | 'completed' | 'failed';
+
+/**
+ * A historical backfill, split into windows that are queued as separate jobs
+ */
+export interface IngestionBackfill {
+  id: string;
+  platform: Platform;
+  job: IngestionJob;
+  since: Date;
+  until: Date;
+  windowMs: number;
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+export interface BackfillWindow {
+  backfillId: string;
+  index: number;
+  since: Date;
+  until: Date;
+  status: BackfillWindowStatus;
+  jobId?: string;
+  itemsProcessed: number;
+  cursor?: string; // next page of a window that is partway through
+  error?: string;
+  updatedAt: Date;
+}
+
+export interface BackfillProgress {
+  job: IngestionJob;
+  windows: BackfillWindow[];
+}
+
 export interface RawFeedbackItem {
   id: string;
   platform: Platform;
+  parentId?: string;
+  rootId?: string;
   content: string;
   author: {
     id: string;
     username: string;
     displayName?: string;
     followerCount?: number;
+    followingCount?: number;
+    createdAt?: Date; // account creation
     verified?: boolean;
     profileUrl?: string;
     avatarUrl?: string;
@@ -103,17 +287,53 @@ export interface RawFeedbackItem {
   };
 }
 
+export interface FeedbackPage {
+  items: RawFeedbackItem[];
+  nextCursor?: string;
+}
+
+export interface SinkResult {
+  created: FeedbackData[];
+  updated: FeedbackData[];
+  quarantined: FeedbackData[];
+  errors: IngestionError[];
+}
+
+export interface FeedbackSink {
+  persist(items: FeedbackData[], job?: IngestionJob): Promise<SinkResult>;
+}
+
+/**
+ * A raw API response body captured while a job ran
+ */
+export interface ArchivedPayload {
+  platform: Platform;
+  jobId: string;
+  method: string;
+  url: string;
+  status: number;
+  capturedAt: Date;
+  body: any;
+}
+
+export interface PayloadArchiveStore {
+  write(payload: ArchivedPayload): Promise<void>;
+  readJob(platform: Platform, jobId: string): Promise<ArchivedPayload[]>;
+}
+
 export interface PlatformAdapter {
   readonly platform: Platform;
   readonly config: IngestionConfig;
-  
+
   // Core methods
   initialize(): Promise<void>;
   authenticate(): Promise<boolean>;
   testConnection(): Promise<boolean>;
+  setSink(sink: FeedbackSink): void;
+  setArchive(archive: PayloadArchiveStore): void;
   
   // Data fetching methods
-  fetchFeedback(job: IngestionJob): Promise<IngestionResult>;
+  fetchFeedback(job: IngestionJob, signal?: AbortSignal): Promise<IngestionResult>;
   searchFeedback(query: string, options?: SearchOptions): Promise<RawFeedbackItem[]>;
   getUserFeedback(userId: string, options?: UserFeedbackOptions): Promise<RawFeedbackItem[]>;
   
@@ -139,6 +359,8 @@ export interface SearchOptions {
   sortBy?: 'relevance' | 'recent' | 'popular';
   includeReplies?: boolean;
   includeRetweets?: boolean;
+  sinceId?: string;
+  cursor?: string;
 }
 
 export interface UserFeedbackOptions {
@@ -147,6 +369,8 @@ export interface UserFeedbackOptions {
   until?: Date;
   includeReplies?: boolean;
   includeRetweets?: boolean;
+  sinceId?: string;
+  cursor?: string;
 }
 
 export interface IngestionMetrics {
@@ -160,6 +384,7 @@ export interface IngestionMetrics {
     current: number;
     limit: number;
     resetAt: Date;
+    windows?: RateLimitWindows;
   };
   errors: {
     apiErrors: number;
@@ -170,6 +395,8 @@ export interface IngestionMetrics {
   };
 }
 
+export type CatchUpPolicy = 'skip' | 'run_once' | 'run_all';
+
 export interface IngestionSchedule {
   id: string;
   platform: Platform;
@@ -178,6 +405,8 @@ export interface IngestionSchedule {
   userId?: string;
   enabled: boolean;
   cronExpression: string;
+  timezone?: string;
+  catchUpPolicy?: CatchUpPolicy;
   lastRun?: Date;
   nextRun: Date;
   maxResults: number;
@@ -185,6 +414,17 @@ export interface IngestionSchedule {
   updatedAt: Date;
 }
 
+export interface IngestionCheckpoint {
+  scheduleId: string;
+  platform: Platform;
+  highWaterAt?: Date;
+  highWaterId?: string;
+  cursor?: string;
+  pendingHighWaterAt?: Date;
+  pendingHighWaterId?: string;
+  updatedAt: Date;
+}
+
 // Platform-specific types
 export interface TwitterConfig extends IngestionConfig {
   consumerKey: string;
@@ -199,6 +439,7 @@ export interface RedditConfig extends IngestionConfig {
   userAgent: string;
   username?: string;
   password?: string;
+  authUrl?: string; // OAuth token endpoint; baseUrl is the API host
 }
 
 export interface TrustPilotConfig extends IngestionConfig {
@@ -208,4 +449,117 @@ export interface TrustPilotConfig extends IngestionConfig {
 export interface AppStoreConfig extends IngestionConfig {
   appId: string;
   country: string;
-}
\ No newline at end of file
+}
+
+export interface GooglePlayConfig extends IngestionConfig {
+  packageName: string;
+  translationLanguage?: string; // e.g. 'en', to receive translated review text
+  maxScanPages?: number; // pages read when filtering reviews client-side
+}
+
+export interface HackerNewsConfig extends IngestionConfig {
+  searchUrl?: string; // Algolia search API; baseUrl is the Firebase item API
+  maxCommentDepth: number;
+  maxComments: number;
+}
+
+export interface RssFeedConfig extends IngestionConfig {
+  feedUrls: string[];
+  maxEntriesPerFeed: number;
+}
+
+export interface FileImportConfig extends IngestionConfig {
+  uploadDir: string;
+  maxUploadBytes: number; // larger uploads are rejected while streaming
+  maxRowErrors: number; // row errors kept in the import report
+}
+
+export type FileImportFormat = 'csv' | 'jsonl' | 'ndjson';
+
+/**
+ * Maps source columns (or dotted JSON paths) onto RawFeedbackItem fields
+ */
+export interface FileImportMapping {
+  content: string;
+  id?: string;
+  parentId?: string;
+  rootId?: string;
+  author?: string;
+  authorDisplayName?: string;
+  authorFollowers?: string;
+  authorVerified?: string;
+  likes?: string;
+  shares?: string;
+  comments?: string;
+  createdAt?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface FileImportSource {
+  filePath: string;
+  fileName: string;
+  source?: string; // system the export comes from; scopes row IDs instead of the file name
+  format: FileImportFormat;
+  mapping: FileImportMapping;
+  delimiter?: string;
+  fileSize?: number;
+}
+
+export interface FileImportRowError {
+  row: number;
+  message: string;
+}
+
+export interface FileImportReport {
+  jobId: string;
+  fileName: string;
+  rowsRead: number;
+  rowsImported: number;
+  rowsRejected: number;
+  bytesRead: number;
+  fileSize?: number;
+  rowErrors: FileImportRowError[];
+  updatedAt: string;
+}
+
+export interface WebhookConfig extends IngestionConfig {
+  signatureToleranceSeconds: number; // accepted clock skew for signed timestamps
+  maxItemsPerDelivery: number;
+}
+
+/**
+ * Maps webhook payload fields onto RawFeedbackItem fields using JSONPath-style
+ * paths such as `$.data.message` or `$.user['display name']`
+ */
+export interface WebhookFieldMapping extends FileImportMapping {
+  items?: string; // path to the array of items, e.g. `$.entries[*]`; the payload is one item when omitted
+}
+
+export interface WebhookSource {
+  id: string;
+  name: string;
+  secret: string;
+  mapping: WebhookFieldMapping;
+  signatureHeader: string;
+  timestampHeader: string;
+  nonceHeader?: string;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookDelivery {
+  sourceId: string;
+  nonce: string;
+  mapping: WebhookFieldMapping;
+  payload: unknown;
+  receivedAt: Date;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer; // unparsed body, kept for webhook signature checks
+    }
+  }
+}
@@ -1,16 +1,18 @@
-import { SentimentLabel, EmotionType, Emotion, Sentiment } from './feedback';
+import { SentimentLabel, EmotionType, Emotion, Sentiment, AspectSentiment } from './feedback';
 
 export interface NLPConfig {
   sentimentModel: {
     provider: 'huggingface' | 'openai' | 'local';
     modelName: string;
     apiKey?: string;
+    baseUrl?: string; // OpenAI-compatible API root for the 'openai' provider
     threshold: number;
   };
   emotionModel: {
     provider: 'huggingface' | 'openai' | 'local';
     modelName: string;
     apiKey?: string;
+    baseUrl?: string; // OpenAI-compatible API root for the 'openai' provider
     threshold: number;
   };
   batchSize: number;
@@ -19,6 +21,12 @@ export interface NLPConfig {
   cacheTTL: number; // in seconds
 }
 
+export interface AspectExtractionConfig {
+  dictionary: Record<string, string[]>; // canonical aspect -> words and phrases that mention it
+  detectNounPhrases: boolean; // also pick up opinionated noun phrases outside the dictionary
+  maxAspects: number;
+}
+
 export interface TextPreprocessingOptions {
   removeUrls: boolean;
   removeMentions: boolean;
@@ -58,6 +66,7 @@ export interface NLPAnalysisRequest {
   language?: string;
   preprocessingOptions?: Partial<TextPreprocessingOptions>;
   skipCache?: boolean;
+  context?: string; // Text of the post a reply answers
 }
 
 export interface NLPAnalysisResult {
@@ -68,6 +77,7 @@ export interface NLPAnalysisResult {
   emotions: EmotionAnalysisResult;
   language?: string;
   processingTime: number;
+  aspects?: AspectSentiment[];
   timestamp: Date;
   cached: boolean;
 }
@@ -117,9 +127,27 @@ export interface NLPMetrics {
   cacheHitRate: number;
   errorRate: number;
   modelsUsed: Record<string, number>;
+  providerHealth: CircuitBreakerSnapshot[];
   lastAnalyzedAt?: Date;
 }
 
+// Provider routing types
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerSnapshot {
+  provider: string;
+  state: CircuitState;
+  errorRate: number; // over the sliding window
+  slowCallRate: number; // over the sliding window
+  averageLatency: number; // ms, over the sliding window
+  windowSize: number;
+  totalCalls: number;
+  totalFailures: number;
+  openedAt?: Date;
+  nextProbeAt?: Date;
+  lastError?: string;
+}
+
 export interface NLPQueueJob {
   id: string;
   type: 'single' | 'batch';
@@ -0,0 +1,36 @@
+export type BuiltInPiiType = 'email' | 'phone' | 'credit_card' | 'iban' | 'ssn' | 'ip_address';
+
+// Custom patterns name their own types, e.g. 'order_id'
+export type PiiType = BuiltInPiiType | string;
+
+export interface PiiPattern {
+  type: PiiType;
+  pattern: string; // regular expression source
+  flags?: string; // 'g' is always added
+  placeholder?: string; // defaults to the upper-cased type, e.g. [ORDER_ID]
+}
+
+export interface PiiConfig {
+  enabled: boolean;
+  detectors: BuiltInPiiType[];
+  customPatterns: PiiPattern[];
+  encryptionKey?: string; // 32 bytes, hex or base64; originals are only kept when set
+}
+
+export interface PiiMatch {
+  type: PiiType;
+  start: number;
+  end: number;
+}
+
+export interface RedactionResult {
+  text: string;
+  matches: PiiMatch[];
+  types: PiiType[];
+}
+
+export interface ProtectedContent {
+  content: string; // redacted
+  contentEncrypted?: string; // original, only when PII was found and encryption is configured
+  piiTypes: PiiType[];
+}
@@ -1,4 +1,5 @@
 import { FeedbackData, AnalysisResult, Platform } from './feedback';
+import { AuthorHistory } from './authors';
 
 export type ResponseTone = 'professional' | 'empathetic' | 'apologetic' | 'grateful' | 'informative';
 
@@ -55,6 +56,7 @@ export interface ResponseGenerationRequest {
   brandGuidelines?: string;
   customInstructions?: string;
   templateId?: string;
+  authorHistory?: AuthorHistory;
 }
 
 export interface ResponseGenerationResult {
@@ -0,0 +1,95 @@
+import { Emotion, HeatmapData, SentimentLabel } from './feedback';
+
+export type TopicStatus = 'new' | 'growing' | 'stable' | 'shrinking' | 'dormant' | 'merged';
+
+export interface TopicKeyword {
+  term: string;
+  weight: number;
+}
+
+export interface TopicExample {
+  feedbackId: string;
+  content: string;
+  similarity: number; // cosine similarity to the topic centroid
+}
+
+export interface Topic {
+  id: string;
+  label: string;
+  labelLocked: boolean; // renamed by a user; discovery runs keep the label
+  keywords: TopicKeyword[];
+  centroid: Record<string, number>; // top term weights, matched against clusters in later runs
+  examples: TopicExample[];
+  size: number;
+  previousSize: number;
+  status: TopicStatus;
+  mergedInto?: string;
+  firstRunId?: string;
+  lastRunId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type TopicRunStatus = 'running' | 'completed' | 'failed';
+
+export interface TopicRun {
+  id: string;
+  windowStart: Date;
+  windowEnd: Date;
+  documentCount: number;
+  assignedCount: number;
+  topicCount: number;
+  newTopics: number;
+  growingTopics: number;
+  parameters: Record<string, any>;
+  status: TopicRunStatus;
+  error?: string; // why a failed run stopped
+  startedAt: Date;
+  completedAt?: Date; // when the run completed or failed
+}
+
+export interface TopicDocument {
+  feedbackId: string;
+  content: string;
+  sentiment?: SentimentLabel; // latest analysis, when there is one
+  emotions?: Emotion[];
+}
+
+export interface TopicHeatmap extends HeatmapData {
+  topic: string;
+  label: string;
+}
+
+export interface TopicDiscoveryConfig {
+  enabled: boolean;
+  cronExpression: string;
+  windowDays: number; // feedback ingested within this many days is clustered
+  maxDocuments: number;
+  minDocuments: number; // runs with fewer documents are skipped
+  clusters?: number; // fixed k; chosen from the document count when unset
+  maxClusters: number;
+  minClusterSize: number; // smaller clusters are left unassigned
+  minDocumentFrequency: number;
+  maxDocumentFrequency: number; // 0-1, terms in more documents than this are dropped
+  maxFeatures: number;
+  maxIterations: number;
+  restarts: number; // k-means seedings tried per run
+  matchThreshold: number; // centroid cosine similarity for a cluster to continue a stored topic
+  growthThreshold: number; // relative size increase that marks a topic as growing
+  keywordCount: number;
+  exampleCount: number;
+  centroidTerms: number; // terms kept per topic for matching
+  seed: number;
+}
+
+export interface TopicRunResult {
+  runId?: string;
+  skipped?: string;
+  documentCount: number;
+  assignedCount: number;
+  topicCount: number;
+  newTopics: string[];
+  growingTopics: string[];
+  dormantTopics: number;
+  durationMs: number;
+}
@@ -54,6 +54,14 @@ export const cache = {
     }
   },
 
+  /**
+   * Set a value only if the key does not exist yet; returns whether it was set
+   */
+  setIfAbsent: async (key: string, value: any, expireInSeconds: number): Promise<boolean> => {
+    const result = await redisClient.set(key, JSON.stringify(value), { NX: true, EX: expireInSeconds });
+    return result === 'OK';
+  },
+
   /**
    * Get a value from Redis
    */
@@ -122,6 +130,23 @@ export const cache = {
     return value ? JSON.parse(value) : null;
   },
 
+  /**
+   * Run a Lua script atomically in Redis
+   */
+  evalScript: async <T = any>(script: string, keys: string[], args: Array<string | number>): Promise<T> => {
+    return await redisClient.eval(script, {
+      keys,
+      arguments: args.map(arg => arg.toString())
+    }) as T;
+  },
+
+  /**
+   * Delete hash field from Redis
+   */
+  hashDelete: async (key: string, field: string): Promise<void> => {
+    await redisClient.hDel(key, field);
+  },
+
   /**
    * Get all hash fields from Redis
    */
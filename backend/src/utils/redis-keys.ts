@@ -22,6 +22,7 @@ export const REDIS_KEYS = {
   
   // Rate limiting
   RATE_LIMIT: (identifier: string) => `rate_limit:${identifier}`,
+  RATE_LIMIT_BUCKET: (platform: string, window: string) => `rate_limit:ingestion:${platform}:${window}`,
   
   // Cache keys
   CACHE_FEEDBACK: (feedbackId: string) => `cache:feedback:${feedbackId}`,
@@ -33,6 +34,17 @@ export const REDIS_KEYS = {
   QUEUE_ANALYSIS: 'queue:analysis',
   QUEUE_ALERTS: 'queue:alerts',
   
+  // Ingestion schedules
+  INGESTION_SCHEDULES: 'ingestion:schedules',
+  
+  // Webhook replay protection
+  WEBHOOK_NONCE: (sourceId: string, nonce: string) => `webhook:nonce:${sourceId}:${nonce}`,
+  
+  // Ingestion content filtering
+  INGESTION_AUTHOR_POSTS: (platform: string, username: string) => `ingestion:filter:author:${platform}:${username}`,
+  INGESTION_DEDUP_BAND: (band: number, hash: string) => `ingestion:dedup:band:${band}:${hash}`,
+  INGESTION_DEDUP_SIGNATURE: (member: string) => `ingestion:dedup:sig:${member}`,
+  
   // WebSocket rooms
   WS_DASHBOARD: 'ws:dashboard',
   WS_ALERTS: 'ws:alerts',
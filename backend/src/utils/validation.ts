@@ -1,4 +1,5 @@
 import Joi from 'joi';
+import cron from 'node-cron';
 import { 
   Platform, 
   SentimentLabel, 
@@ -7,9 +8,19 @@ import {
   ResponseStatus, 
   AlertSeverity 
 } from '@/types/feedback';
+import {
+  CatchUpPolicy,
+  DeadLetterStatus,
+  FilterReasonCode,
+  IngestionError,
+  IngestionJob,
+  IngestionSchedule,
+  QuarantineStatus
+} from '@/types/ingestion';
+import { TopicStatus } from '@/types/topics';
 
 // Base validation schemas
-export const platformSchema = Joi.string().valid(...(['twitter', 'reddit', 'trustpilot', 'appstore'] as Platform[]));
+export const platformSchema = Joi.string().valid(...(['twitter', 'reddit', 'trustpilot', 'appstore', 'googleplay', 'hackernews', 'rss', 'import', 'webhook'] as Platform[]));
 
 export const sentimentLabelSchema = Joi.string().valid(...(['positive', 'neutral', 'negative'] as SentimentLabel[]));
 
@@ -26,8 +37,11 @@ export const alertSeveritySchema = Joi.string().valid(...(['mild', 'risky', 'vir
 
 // Complex object schemas
 export const feedbackAuthorSchema = Joi.object({
+  id: Joi.string().max(255).optional(),
   username: Joi.string().min(1).max(255).required(),
   followerCount: Joi.number().integer().min(0).optional(),
+  followingCount: Joi.number().integer().min(0).optional(),
+  accountCreatedAt: Joi.date().optional(),
   verified: Joi.boolean().optional()
 });
 
@@ -75,6 +89,8 @@ export const responseDraftSchema = Joi.object({
 export const feedbackDataSchema = Joi.object({
   platform: platformSchema.required(),
   external_id: Joi.string().max(255).optional(),
+  parent_external_id: Joi.string().max(255).optional(),
+  root_external_id: Joi.string().max(255).optional(),
   content: Joi.string().min(1).max(10000).required(),
   author: feedbackAuthorSchema.required(),
   engagement: feedbackEngagementSchema.required(),
@@ -141,6 +157,14 @@ export const feedbackFiltersSchema = Joi.object({
   'custom.viralityRange': 'min_virality_score must be less than or equal to max_virality_score'
 });
 
+export const aspectStatsQuerySchema = Joi.object({
+  platform: platformSchema.optional(),
+  date_from: Joi.date().iso().optional(),
+  date_to: Joi.date().iso().min(Joi.ref('date_from')).optional(),
+  by_platform: Joi.boolean().default(false),
+  min_phrase_count: Joi.number().integer().min(1).max(1000).default(5)
+});
+
 export const alertFiltersSchema = Joi.object({
   severity: Joi.array().items(alertSeveritySchema).optional(),
   resolved: Joi.boolean().optional(),
@@ -164,6 +188,226 @@ export const paginationSchema = Joi.object({
   sort_order: Joi.string().valid('asc', 'desc').default('desc')
 });
 
+// Ingestion request schemas
+export const fileImportMappingSchema = Joi.object({
+  content: Joi.string().max(255).required(),
+  id: Joi.string().max(255).optional(),
+  parentId: Joi.string().max(255).optional(),
+  rootId: Joi.string().max(255).optional(),
+  author: Joi.string().max(255).optional(),
+  authorDisplayName: Joi.string().max(255).optional(),
+  authorFollowers: Joi.string().max(255).optional(),
+  authorVerified: Joi.string().max(255).optional(),
+  likes: Joi.string().max(255).optional(),
+  shares: Joi.string().max(255).optional(),
+  comments: Joi.string().max(255).optional(),
+  createdAt: Joi.string().max(255).optional(),
+  metadata: Joi.object().pattern(Joi.string().max(100), Joi.string().max(255)).optional()
+});
+
+export const fileImportQuerySchema = Joi.object({
+  format: Joi.string().valid('csv', 'jsonl', 'ndjson').required(),
+  fileName: Joi.string().max(255).optional(),
+  source: Joi.string().max(100).optional(),
+  delimiter: Joi.string().length(1).optional(),
+  // Mapping arrives as a JSON-encoded query parameter
+  mapping: Joi.string().required().custom((value, helpers) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return helpers.error('custom.mappingJson');
+    }
+
+    const { error, value: mapping } = fileImportMappingSchema.validate(parsed);
+    if (error) {
+      return helpers.message({ custom: `mapping: ${error.message}` });
+    }
+    return mapping;
+  })
+}).messages({
+  'custom.mappingJson': 'mapping must be a JSON object'
+});
+
+const webhookMappingSchema = fileImportMappingSchema.keys({
+  items: Joi.string().max(255).optional()
+});
+
+const headerNameSchema = Joi.string().pattern(/^[A-Za-z0-9-]+$/).max(100);
+
+export const webhookSourceSchema = Joi.object({
+  name: Joi.string().min(1).max(255).required(),
+  secret: Joi.string().min(16).max(255).optional(),
+  mapping: webhookMappingSchema.required(),
+  signatureHeader: headerNameSchema.default('x-webhook-signature'),
+  timestampHeader: headerNameSchema.default('x-webhook-timestamp'),
+  nonceHeader: headerNameSchema.optional(),
+  enabled: Joi.boolean().default(true)
+});
+
+export const webhookSourceUpdateSchema = Joi.object({
+  name: Joi.string().min(1).max(255).optional(),
+  secret: Joi.string().min(16).max(255).optional(),
+  mapping: webhookMappingSchema.optional(),
+  nonceHeader: headerNameSchema.optional(),
+  enabled: Joi.boolean().optional()
+}).min(1);
+
+// Thread request schemas
+export const threadParamsSchema = Joi.object({
+  platform: platformSchema.required(),
+  rootExternalId: Joi.string().max(255).required()
+});
+
+// Dead-letter request schemas
+const ingestionErrorTypeSchema = Joi.string().valid(
+  ...(['api_error', 'rate_limit', 'validation_error', 'network_error', 'auth_error'] as IngestionError['type'][])
+);
+
+const deadLetterStatusSchema = Joi.string().valid(...(['failed', 'parked', 'retried'] as DeadLetterStatus[]));
+
+export const deadLetterFiltersSchema = Joi.object({
+  platform: platformSchema.optional(),
+  errorType: ingestionErrorTypeSchema.optional(),
+  status: deadLetterStatusSchema.optional(),
+  limit: Joi.number().integer().min(1).max(200).default(50),
+  offset: Joi.number().integer().min(0).default(0)
+});
+
+export const deadLetterRetrySchema = Joi.object({
+  ids: Joi.array().items(Joi.string().uuid()).min(1).max(200).optional(),
+  platform: platformSchema.optional(),
+  errorType: ingestionErrorTypeSchema.optional(),
+  // Every matching entry is retried unless limited
+  limit: Joi.number().integer().min(1).optional()
+});
+
+export const deadLetterPurgeSchema = Joi.object({
+  platform: platformSchema.optional(),
+  errorType: ingestionErrorTypeSchema.optional(),
+  status: deadLetterStatusSchema.optional(),
+  before: Joi.date().iso().optional()
+}).or('platform', 'errorType', 'status', 'before');
+
+// Quarantine request schemas
+export const quarantineFiltersSchema = Joi.object({
+  platform: platformSchema.optional(),
+  reason: Joi.string().valid(...([
+    'spam_text', 'excessive_repetition', 'new_account', 'low_follower_ratio', 'posting_burst', 'near_duplicate'
+  ] as FilterReasonCode[])).optional(),
+  status: Joi.string().valid(...(['quarantined', 'released'] as QuarantineStatus[])).default('quarantined'),
+  limit: Joi.number().integer().min(1).max(200).default(50),
+  offset: Joi.number().integer().min(0).default(0)
+});
+
+export const quarantineReleaseSchema = Joi.object({
+  ids: Joi.array().items(Joi.string().uuid()).min(1).max(200).required()
+});
+
+// Ingestion API request schemas
+export const ingestionJobFiltersSchema = Joi.object({
+  status: Joi.string().valid('waiting', 'active', 'completed', 'failed', 'delayed').optional()
+});
+
+export const ingestionJobSchema = Joi.object({
+  platform: platformSchema.required(),
+  type: Joi.string().valid(...(['search', 'user_timeline', 'mentions'] as IngestionJob['type'][])).required(),
+  query: Joi.string().max(512).when('type', { is: 'search', then: Joi.required() }),
+  userId: Joi.string().max(255).when('type', { is: Joi.valid('user_timeline', 'mentions').required(), then: Joi.required() }),
+  hashtags: Joi.array().items(Joi.string().max(100)).max(20).optional(),
+  keywords: Joi.array().items(Joi.string().max(100)).max(20).optional(),
+  since: Joi.date().iso().optional(),
+  until: Joi.date().iso().min(Joi.ref('since')).optional(),
+  maxResults: Joi.number().integer().min(1).max(10000).default(100),
+  // Queued jobs survive restarts and are retried; direct jobs run in this process right away
+  queued: Joi.boolean().default(true)
+});
+
+export const ingestionBackfillSchema = Joi.object({
+  platform: platformSchema.required(),
+  type: Joi.string().valid(...(['search', 'user_timeline', 'mentions'] as IngestionJob['type'][])).required(),
+  query: Joi.string().max(512).when('type', { is: 'search', then: Joi.required() }),
+  userId: Joi.string().max(255).when('type', { is: Joi.valid('user_timeline', 'mentions').required(), then: Joi.required() }),
+  hashtags: Joi.array().items(Joi.string().max(100)).max(20).optional(),
+  keywords: Joi.array().items(Joi.string().max(100)).max(20).optional(),
+  since: Joi.date().iso().required(),
+  until: Joi.date().iso().greater(Joi.ref('since')).optional(),
+  windowHours: Joi.number().integer().min(1).max(24 * 31).default(24),
+  maxResults: Joi.number().integer().min(1).max(10000).default(100) // per window
+});
+
+const cronExpressionSchema = Joi.string().max(100).custom((value, helpers) => {
+  return cron.validate(value) ? value : helpers.error('custom.cronExpression');
+});
+
+const catchUpPolicySchema = Joi.string().valid(...(['skip', 'run_once', 'run_all'] as CatchUpPolicy[]));
+
+const scheduleTypeSchema = Joi.string().valid(...(['search', 'user_timeline', 'mentions'] as IngestionSchedule['type'][]));
+
+export const ingestionScheduleSchema = Joi.object({
+  platform: platformSchema.required(),
+  type: scheduleTypeSchema.required(),
+  query: Joi.string().max(512).when('type', { is: 'search', then: Joi.required() }),
+  userId: Joi.string().max(255).when('type', { is: Joi.valid('user_timeline', 'mentions').required(), then: Joi.required() }),
+  enabled: Joi.boolean().default(true),
+  cronExpression: cronExpressionSchema.required(),
+  timezone: Joi.string().max(100).optional(),
+  catchUpPolicy: catchUpPolicySchema.optional(),
+  maxResults: Joi.number().integer().min(1).max(10000).default(100)
+}).messages({
+  'custom.cronExpression': 'cronExpression must be a valid cron expression'
+});
+
+// Changing a schedule's type needs the query or user ID the new type runs with
+export const ingestionScheduleUpdateSchema = Joi.object({
+  type: scheduleTypeSchema.optional(),
+  query: Joi.string().max(512).when('type', { is: 'search', then: Joi.required() }),
+  userId: Joi.string().max(255).when('type', { is: Joi.valid('user_timeline', 'mentions').required(), then: Joi.required() }),
+  enabled: Joi.boolean().optional(),
+  cronExpression: cronExpressionSchema.optional(),
+  timezone: Joi.string().max(100).optional(),
+  catchUpPolicy: catchUpPolicySchema.optional(),
+  maxResults: Joi.number().integer().min(1).max(10000).optional()
+}).min(1).messages({
+  'custom.cronExpression': 'cronExpression must be a valid cron expression'
+});
+
+export const adapterParamsSchema = Joi.object({
+  platform: platformSchema.required()
+});
+
+export const ingestionScheduleFiltersSchema = Joi.object({
+  platform: platformSchema.optional()
+});
+
+export const queueCleanSchema = Joi.object({
+  graceMs: Joi.number().integer().min(0).default(24 * 60 * 60 * 1000)
+});
+
+// Author request schemas
+export const authorLinkSchema = Joi.object({
+  authorId: Joi.string().uuid().required()
+});
+
+// Topic request schemas
+const topicStatusSchema = Joi.string().valid(...(['new', 'growing', 'stable', 'shrinking', 'dormant', 'merged'] as TopicStatus[]));
+
+export const topicFiltersSchema = Joi.object({
+  status: Joi.array().items(topicStatusSchema).single().optional()
+});
+
+export const topicRenameSchema = Joi.object({
+  label: Joi.string().trim().min(1).max(255).allow(null).required() // null hands labelling back to discovery runs
+});
+
+export const topicMergeSchema = Joi.object({
+  targetId: Joi.string().uuid().required()
+});
+
+export const topicRunsQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(100).default(20)
+});
+
 // Utility validation functions
 export const validateUUID = (value: string): boolean => {
   const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;